@@ -0,0 +1,184 @@
+import type { Analyzer } from './index.js';
+
+/**
+ * English: Snowball English (Porter2) stemmer and English stopwords.
+ * Accents are dropped before stemming (café, naïve).
+ */
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
+    'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
+    'to', 'was', 'were', 'will', 'with', 'this', 'but', 'they',
+    'have', 'had', 'what', 'when', 'where', 'who', 'which', 'why', 'how',
+    'all', 'each', 'every', 'both', 'few', 'more', 'most', 'other', 'some',
+    'such', 'no', 'nor', 'not', 'only', 'own', 'same', 'so', 'than', 'too',
+    'very', 'just', 'can', 'should', 'now', 'also', 'into', 'could', 'would',
+    'or', 'if', 'then', 'there', 'these', 'those', 'been', 'being', 'do',
+    'does', 'did', 'i', 'you', 'we', 'she', 'him', 'her', 'them', 'our', 'your', 'their'
+]);
+
+// Words stemmed as a whole, or never stemmed
+const EXCEPTIONS: Record<string, string> = {
+    skis: 'ski', skies: 'sky', dying: 'die', lying: 'lie', tying: 'tie',
+    idly: 'idl', gently: 'gentl', ugly: 'ugli', early: 'earli', only: 'onli', singly: 'singl',
+    sky: 'sky', news: 'news', howe: 'howe', atlas: 'atlas', cosmos: 'cosmos', bias: 'bias', andes: 'andes'
+};
+
+// Left alone after step 1a
+const STEP_1A_INVARIANTS = new Set(['inning', 'outing', 'canning', 'herring', 'earring', 'proceed', 'exceed', 'succeed']);
+
+const STEP_2: Array<[string, string]> = [
+    ['ization', 'ize'], ['ational', 'ate'], ['fulness', 'ful'], ['ousness', 'ous'], ['iveness', 'ive'],
+    ['tional', 'tion'], ['biliti', 'ble'], ['lessli', 'less'], ['entli', 'ent'], ['ation', 'ate'],
+    ['alism', 'al'], ['aliti', 'al'], ['ousli', 'ous'], ['iviti', 'ive'], ['fulli', 'ful'],
+    ['enci', 'ence'], ['anci', 'ance'], ['abli', 'able'], ['izer', 'ize'], ['ator', 'ate'],
+    ['alli', 'al'], ['bli', 'ble'], ['ogi', 'og'], ['li', '']
+];
+
+const STEP_3: Array<[string, string]> = [
+    ['ational', 'ate'], ['tional', 'tion'], ['alize', 'al'], ['icate', 'ic'], ['iciti', 'ic'],
+    ['ative', ''], ['ical', 'ic'], ['ness', ''], ['ful', '']
+];
+
+const STEP_4 = [
+    'ement', 'ance', 'ence', 'able', 'ible', 'ment', 'ant', 'ent', 'ism', 'ate', 'iti', 'ous',
+    'ive', 'ize', 'ion', 'al', 'er', 'ic'
+];
+
+const isVowel = (ch: string | undefined) => ch !== undefined && 'aeiouy'.includes(ch);
+
+/**
+ * Longest suffix of the list the word ends with
+ */
+function longestSuffix(word: string, suffixes: string[]): string | undefined {
+    let longest: string | undefined;
+    for (const suffix of suffixes) {
+        if (word.endsWith(suffix) && (!longest || suffix.length > longest.length)) {
+            longest = suffix;
+        }
+    }
+    return longest;
+}
+
+/**
+ * Start of the region after the first non-vowel following a vowel, from `from`
+ */
+function regionAfter(word: string, from: number): number {
+    for (let i = from + 1; i < word.length; i++) {
+        if (!isVowel(word[i]) && isVowel(word[i - 1])) return i + 1;
+    }
+    return word.length;
+}
+
+function endsWithShortSyllable(word: string): boolean {
+    const n = word.length;
+    if (n === 2) return isVowel(word[0]) && !isVowel(word[1]);
+    return n > 2
+        && !isVowel(word[n - 3]) && isVowel(word[n - 2]) && !isVowel(word[n - 1])
+        && !'wxY'.includes(word[n - 1]);
+}
+
+/**
+ * Snowball English (Porter2) stemmer
+ */
+export function stemEnglish(input: string): string {
+    let word = input.toLowerCase();
+    if (word.length <= 2) return word;
+    if (EXCEPTIONS[word]) return EXCEPTIONS[word];
+
+    if (word.startsWith("'")) word = word.slice(1);
+
+    // Consonant y: initial, or after a vowel
+    word = word.replace(/^y/, 'Y').replace(/([aeiouy])y/g, '$1Y');
+
+    const prefix = /^(gener|commun|arsen)/.exec(word);
+    const r1 = prefix ? prefix[0].length : regionAfter(word, 0);
+    const r2 = regionAfter(word, r1);
+    const inR1 = (suffix: string) => word.length - suffix.length >= r1;
+    const inR2 = (suffix: string) => word.length - suffix.length >= r2;
+    const replace = (suffix: string, replacement: string) => {
+        word = word.slice(0, word.length - suffix.length) + replacement;
+    };
+
+    // Step 0: possessives
+    const possessive = longestSuffix(word, ["'s'", "'s", "'"]);
+    if (possessive) replace(possessive, '');
+
+    // Step 1a: plurals
+    if (word.endsWith('sses')) {
+        replace('sses', 'ss');
+    } else if (word.endsWith('ied') || word.endsWith('ies')) {
+        replace(word.slice(-3), word.length > 4 ? 'i' : 'ie');
+    } else if (word.endsWith('us') || word.endsWith('ss')) {
+        // Kept
+    } else if (word.endsWith('s') && /[aeiouy]/.test(word.slice(0, -2))) {
+        replace('s', '');
+    }
+
+    if (STEP_1A_INVARIANTS.has(word)) return word;
+
+    // Step 1b: -ed, -ing
+    const step1b = longestSuffix(word, ['eedly', 'ingly', 'edly', 'eed', 'ing', 'ed']);
+    if (step1b === 'eed' || step1b === 'eedly') {
+        if (inR1(step1b)) replace(step1b, 'ee');
+    } else if (step1b && /[aeiouy]/.test(word.slice(0, -step1b.length))) {
+        replace(step1b, '');
+        if (/(at|bl|iz)$/.test(word)) {
+            word += 'e';
+        } else if (/(bb|dd|ff|gg|mm|nn|pp|rr|tt)$/.test(word)) {
+            word = word.slice(0, -1);
+        } else if (endsWithShortSyllable(word) && r1 >= word.length) {
+            word += 'e';
+        }
+    }
+
+    // Step 1c: y after a consonant (not the first letter) becomes i
+    if (/[yY]$/.test(word) && word.length > 2 && !isVowel(word[word.length - 2])) {
+        word = word.slice(0, -1) + 'i';
+    }
+
+    // Step 2
+    const step2 = longestSuffix(word, STEP_2.map(([suffix]) => suffix));
+    if (step2 && inR1(step2)) {
+        const before = word[word.length - step2.length - 1];
+        if (step2 === 'ogi') {
+            if (before === 'l') replace('ogi', 'og');
+        } else if (step2 === 'li') {
+            if (before && 'cdeghkmnrt'.includes(before)) replace('li', '');
+        } else {
+            replace(step2, STEP_2.find(([suffix]) => suffix === step2)![1]);
+        }
+    }
+
+    // Step 3
+    const step3 = longestSuffix(word, STEP_3.map(([suffix]) => suffix));
+    if (step3 && inR1(step3) && (step3 !== 'ative' || inR2(step3))) {
+        replace(step3, STEP_3.find(([suffix]) => suffix === step3)![1]);
+    }
+
+    // Step 4
+    const step4 = longestSuffix(word, STEP_4);
+    if (step4 && inR2(step4)) {
+        if (step4 !== 'ion' || /[st]$/.test(word.slice(0, -3))) {
+            replace(step4, '');
+        }
+    }
+
+    // Step 5
+    if (word.endsWith('e')) {
+        if (inR2('e') || (inR1('e') && !endsWithShortSyllable(word.slice(0, -1)))) {
+            replace('e', '');
+        }
+    } else if (word.endsWith('ll') && inR2('l')) {
+        replace('l', '');
+    }
+
+    return word.replace(/Y/g, 'y');
+}
+
+export const englishAnalyzer: Analyzer = {
+    name: 'en',
+    aliases: ['english', 'eng'],
+    stopwords: STOPWORDS,
+    stem: word => stemEnglish(word.normalize('NFD').replace(/\p{M}/gu, ''))
+};
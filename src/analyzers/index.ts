@@ -0,0 +1,206 @@
+import fs from 'node:fs';
+import { config } from '../config.js';
+import { englishAnalyzer } from './english.js';
+import { spanishAnalyzer } from './spanish.js';
+
+/**
+ * Text Analyzer Registry
+ *
+ * Turns text into the terms keyword search and entity extraction compare:
+ * Unicode-aware splitting (CJK runs become character bigrams), lowercasing,
+ * language-specific stopwords, stemming and accent folding. Analyzers are
+ * looked up by language code or alias; unknown languages use the "standard"
+ * analyzer (no stopwords, no stemming).
+ */
+
+export interface Analyzer {
+    name: string;             // Language code, e.g. "en", "es"
+    aliases: string[];        // Other names, e.g. ["english"]
+    stopwords: Set<string>;   // Lowercase, with accents
+    stem(word: string): string;
+}
+
+/**
+ * A term and where it was found in the analyzed text
+ */
+export interface Token {
+    term: string;
+    start: number;   // Character offsets in the text
+    end: number;
+}
+
+const analyzers = new Map<string, Analyzer>();
+
+export const STANDARD_ANALYZER = 'standard';
+
+export const standardAnalyzer: Analyzer = {
+    name: STANDARD_ANALYZER,
+    aliases: [],
+    stopwords: new Set(),
+    stem: word => word
+};
+
+/**
+ * Register an analyzer (replaces any analyzer with the same name)
+ */
+export function registerAnalyzer(analyzer: Analyzer): void {
+    analyzers.set(analyzer.name, analyzer);
+}
+
+/**
+ * List registered analyzers
+ */
+export function listAnalyzers(): Analyzer[] {
+    return Array.from(analyzers.values());
+}
+
+/**
+ * Get the analyzer of a language: code ("es"), regional code ("es-MX") or alias ("spanish").
+ * Unknown languages get the standard analyzer; no language gets the configured default.
+ */
+export function getAnalyzer(language?: string): Analyzer {
+    const key = (language ?? config.search.language).trim().toLowerCase();
+    const base = key.split(/[-_]/)[0];
+
+    return analyzers.get(key)
+        ?? analyzers.get(base)
+        ?? listAnalyzers().find(a => a.aliases.includes(key) || a.aliases.includes(base))
+        ?? standardAnalyzer;
+}
+
+// Scripts written without spaces between words
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+const WORD = /[\p{L}\p{M}\p{N}]+/gu;
+const SCRIPT_RUN = new RegExp(`[${CJK}]+|[^${CJK}]+`, 'gu');
+const CJK_RUN = new RegExp(`^[${CJK}]`, 'u');
+
+export function foldDiacritics(text: string): string {
+    return text.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+/**
+ * Split text into terms with an analyzer.
+ * Words are lowercased, stopwords (and single letters or digits) dropped,
+ * then stemmed and folded to unaccented letters. CJK runs become overlapping
+ * character bigrams (a single character stays a term).
+ */
+export function analyze(text: string, language?: string): Token[] {
+    const analyzer = getAnalyzer(language);
+    const tokens: Token[] = [];
+
+    for (const word of text.matchAll(WORD)) {
+        for (const run of word[0].matchAll(SCRIPT_RUN)) {
+            const start = word.index! + run.index!;
+            const value = run[0];
+
+            if (CJK_RUN.test(value)) {
+                const chars = Array.from(value);
+                let offset = start;
+                for (let i = 0; i < Math.max(1, chars.length - 1); i++) {
+                    const term = chars.slice(i, i + 2).join('');
+                    tokens.push({ term, start: offset, end: offset + term.length });
+                    offset += chars[i].length;
+                }
+                continue;
+            }
+
+            const lower = value.normalize('NFC').toLowerCase();
+            if (Array.from(lower).length < 2 || analyzer.stopwords.has(lower)) continue;
+
+            tokens.push({ term: foldDiacritics(analyzer.stem(lower)), start, end: start + value.length });
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Terms of a text (see analyze)
+ */
+export function analyzeTerms(text: string, language?: string): string[] {
+    return analyze(text, language).map(token => token.term);
+}
+
+/**
+ * Whether a word is a stopword of a language
+ */
+export function isStopword(word: string, language?: string): boolean {
+    return getAnalyzer(language).stopwords.has(word.normalize('NFC').toLowerCase());
+}
+
+// Synonym groups per analyzer, as analyzed term sequences
+const synonyms = new Map<string, string[][][]>();
+let synonymsLoaded = false;
+
+/**
+ * Set the synonym groups of a language, e.g. [["k8s", "kubernetes"], ["db", "database"]].
+ * Every entry of a group matches the others; entries may be several words.
+ */
+export function setSynonyms(language: string, groups: string[][]): void {
+    const analyzer = getAnalyzer(language);
+    synonyms.set(analyzer.name, groups
+        .map(group => group.map(entry => analyzeTerms(entry, analyzer.name)).filter(terms => terms.length > 0))
+        .filter(group => group.length > 1));
+}
+
+/**
+ * Load synonym groups per language from a JSON file: { "en": [["k8s", "kubernetes"]], ... }
+ * @throws if the file cannot be read or is not in that shape
+ */
+export function loadSynonymsFile(filePath: string): void {
+    const groups = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as unknown;
+    const isGroupList = (value: unknown) => Array.isArray(value) && value.every(group =>
+        Array.isArray(group) && group.every(entry => typeof entry === 'string'));
+
+    if (!groups || typeof groups !== 'object' || Array.isArray(groups) || !Object.values(groups).every(isGroupList)) {
+        throw new Error(`Invalid synonyms file ${filePath}: expected { "<language>": [["term", "synonym", ...], ...] }`);
+    }
+
+    for (const [language, entries] of Object.entries(groups as Record<string, string[][]>)) {
+        setSynonyms(language, entries);
+    }
+}
+
+/**
+ * Load the synonyms file of the configuration (SEARCH_SYNONYMS_PATH), if any.
+ * Called at startup so that a bad file is reported before serving queries.
+ * @throws if the file cannot be loaded
+ */
+export function loadConfiguredSynonyms(): void {
+    if (config.search.synonymsPath) {
+        loadSynonymsFile(config.search.synonymsPath);
+    }
+    synonymsLoaded = true;
+}
+
+/**
+ * Synonyms of an analyzed term sequence (without the sequence itself)
+ */
+export function expandSynonyms(terms: string[], language?: string): string[][] {
+    // Loaded on first use when not loaded at startup; a failing file is
+    // reported and retried on the next query, which searches without synonyms
+    if (!synonymsLoaded) {
+        try {
+            loadConfiguredSynonyms();
+        } catch (error) {
+            console.error(`❌ Failed to load synonyms: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    const key = terms.join(' ');
+    const expansions = new Map<string, string[]>();
+
+    for (const group of synonyms.get(getAnalyzer(language).name) ?? []) {
+        if (!group.some(entry => entry.join(' ') === key)) continue;
+        for (const entry of group) {
+            if (entry.join(' ') !== key) expansions.set(entry.join(' '), entry);
+        }
+    }
+
+    return Array.from(expansions.values());
+}
+
+// Built-in analyzers
+registerAnalyzer(standardAnalyzer);
+registerAnalyzer(englishAnalyzer);
+registerAnalyzer(spanishAnalyzer);
@@ -0,0 +1,226 @@
+import type { Analyzer } from './index.js';
+
+/**
+ * Spanish: Snowball Spanish stemmer and Spanish stopwords.
+ * The stemmer works on accented words and removes the accents at the end.
+ */
+
+const STOPWORDS = new Set([
+    'de', 'la', 'que', 'el', 'en', 'y', 'a', 'los', 'del', 'se', 'las', 'por', 'un', 'para',
+    'con', 'no', 'una', 'su', 'al', 'lo', 'como', 'más', 'pero', 'sus', 'le', 'ya', 'o', 'u',
+    'este', 'sí', 'porque', 'esta', 'entre', 'cuando', 'muy', 'sin', 'sobre', 'también', 'me',
+    'hasta', 'hay', 'donde', 'quien', 'desde', 'todo', 'nos', 'durante', 'todos', 'uno', 'les',
+    'ni', 'contra', 'otros', 'ese', 'eso', 'ante', 'ellos', 'e', 'esto', 'mí', 'antes', 'algunos',
+    'qué', 'unos', 'yo', 'otro', 'otras', 'otra', 'él', 'tanto', 'esa', 'estos', 'mucho',
+    'quienes', 'nada', 'muchos', 'cual', 'poco', 'ella', 'estar', 'estas', 'algunas', 'algo',
+    'nosotros', 'mi', 'mis', 'tú', 'te', 'ti', 'tu', 'tus', 'ellas', 'nosotras', 'vosotros',
+    'vosotras', 'os', 'mío', 'mía', 'míos', 'mías', 'tuyo', 'tuya', 'tuyos', 'tuyas', 'suyo',
+    'suya', 'suyos', 'suyas', 'nuestro', 'nuestra', 'nuestros', 'nuestras', 'esos', 'esas',
+    'estoy', 'estás', 'está', 'estamos', 'están', 'es', 'son', 'ser', 'fue', 'era', 'han', 'ha',
+    'he', 'has', 'hemos', 'si', 'cada', 'así', 'aquí', 'sino', 'pues'
+]);
+
+const PRONOUNS = ['selas', 'selos', 'sela', 'selo', 'las', 'les', 'los', 'nos', 'me', 'se', 'la', 'le', 'lo'];
+
+// Standard suffixes of step 1, by rule
+const STEP_1: Record<string, string[]> = {
+    delete: [
+        'anza', 'anzas', 'ico', 'ica', 'icos', 'icas', 'ismo', 'ismos', 'able', 'ables', 'ible', 'ibles',
+        'ista', 'istas', 'oso', 'osa', 'osos', 'osas', 'amiento', 'amientos', 'imiento', 'imientos'
+    ],
+    deleteIc: ['adora', 'ador', 'ación', 'adoras', 'adores', 'aciones', 'ante', 'antes', 'ancia', 'ancias'],
+    log: ['logía', 'logías'],
+    u: ['ución', 'uciones'],
+    ente: ['encia', 'encias'],
+    amente: ['amente'],
+    mente: ['mente'],
+    idad: ['idad', 'idades'],
+    iva: ['iva', 'ivo', 'ivas', 'ivos']
+};
+
+const STEP_2A = ['ya', 'ye', 'yan', 'yen', 'yeron', 'yendo', 'yo', 'yó', 'yas', 'yes', 'yais', 'yamos'];
+
+const STEP_2B_GU = ['en', 'es', 'éis', 'emos'];
+
+const STEP_2B = [
+    'arían', 'arías', 'arán', 'arás', 'aríais', 'aría', 'aréis', 'aríamos', 'aremos', 'ará', 'aré',
+    'erían', 'erías', 'erán', 'erás', 'eríais', 'ería', 'eréis', 'eríamos', 'eremos', 'erá', 'eré',
+    'irían', 'irías', 'irán', 'irás', 'iríais', 'iría', 'iréis', 'iríamos', 'iremos', 'irá', 'iré',
+    'aba', 'ada', 'ida', 'ía', 'ara', 'iera', 'ad', 'ed', 'id', 'ase', 'iese', 'aste', 'iste', 'an',
+    'aban', 'ían', 'aran', 'ieran', 'asen', 'iesen', 'aron', 'ieron', 'ado', 'ido', 'ando', 'iendo',
+    'ió', 'ar', 'er', 'ir', 'as', 'abas', 'adas', 'idas', 'ías', 'aras', 'ieras', 'ases', 'ieses',
+    'ís', 'áis', 'abais', 'íais', 'arais', 'ierais', 'aseis', 'ieseis', 'asteis', 'isteis', 'ados',
+    'idos', 'amos', 'ábamos', 'íamos', 'imos', 'áramos', 'iéramos', 'iésemos', 'ásemos'
+];
+
+const isVowel = (ch: string | undefined) => ch !== undefined && 'aeiouáéíóúü'.includes(ch);
+
+const removeAccents = (word: string) => word
+    .replace(/á/g, 'a').replace(/é/g, 'e').replace(/í/g, 'i').replace(/ó/g, 'o').replace(/ú/g, 'u');
+
+function longestSuffix(word: string, suffixes: string[]): string | undefined {
+    let longest: string | undefined;
+    for (const suffix of suffixes) {
+        if (word.endsWith(suffix) && (!longest || suffix.length > longest.length)) {
+            longest = suffix;
+        }
+    }
+    return longest;
+}
+
+function regionAfter(word: string, from: number): number {
+    for (let i = from + 1; i < word.length; i++) {
+        if (!isVowel(word[i]) && isVowel(word[i - 1])) return i + 1;
+    }
+    return word.length;
+}
+
+/**
+ * Start of RV: after the next vowel when the second letter is a consonant,
+ * after the next consonant when the first two letters are vowels, otherwise after the third letter
+ */
+function rvStart(word: string): number {
+    if (word.length < 2) return word.length;
+
+    if (!isVowel(word[1])) {
+        for (let i = 2; i < word.length; i++) {
+            if (isVowel(word[i])) return i + 1;
+        }
+        return word.length;
+    }
+
+    if (isVowel(word[0])) {
+        for (let i = 2; i < word.length; i++) {
+            if (!isVowel(word[i])) return i + 1;
+        }
+        return word.length;
+    }
+
+    return Math.min(3, word.length);
+}
+
+/**
+ * Snowball Spanish stemmer
+ */
+export function stemSpanish(input: string): string {
+    let word = input.toLowerCase();
+    if (word.length <= 2) return removeAccents(word);
+
+    const rv = rvStart(word);
+    const r1 = regionAfter(word, 0);
+    const r2 = regionAfter(word, r1);
+    const from = (suffix: string) => word.length - suffix.length;
+    const inRV = (suffix: string) => from(suffix) >= rv;
+    const inR1 = (suffix: string) => from(suffix) >= r1;
+    const inR2 = (suffix: string) => from(suffix) >= r2;
+    const replace = (suffix: string, replacement: string) => {
+        word = word.slice(0, from(suffix)) + replacement;
+    };
+
+    // Step 0: attached pronouns after a gerund or infinitive
+    const pronoun = longestSuffix(word, PRONOUNS);
+    if (pronoun && inRV(pronoun)) {
+        const stem = word.slice(0, from(pronoun));
+        const ending = longestSuffix(stem, ['iéndo', 'ándo', 'ár', 'ér', 'ír', 'ando', 'iendo', 'ar', 'er', 'ir', 'yendo']);
+        if (ending && stem.length - ending.length >= rv && (ending !== 'yendo' || stem.endsWith('uyendo'))) {
+            word = stem.slice(0, stem.length - ending.length) + removeAccents(ending);
+        }
+    }
+
+    // Step 1: standard suffixes
+    const before = word;
+    const step1 = longestSuffix(word, Object.values(STEP_1).flat());
+    const rule = step1 && Object.keys(STEP_1).find(key => STEP_1[key].includes(step1));
+
+    const deleteIfR2 = (...suffixes: string[]) => {
+        const suffix = suffixes.find(s => word.endsWith(s));
+        if (suffix && inR2(suffix)) replace(suffix, '');
+    };
+
+    if (step1 && rule) {
+        switch (rule) {
+            case 'delete':
+                if (inR2(step1)) replace(step1, '');
+                break;
+            case 'deleteIc':
+                if (inR2(step1)) {
+                    replace(step1, '');
+                    deleteIfR2('ic');
+                }
+                break;
+            case 'log':
+                if (inR2(step1)) replace(step1, 'log');
+                break;
+            case 'u':
+                if (inR2(step1)) replace(step1, 'u');
+                break;
+            case 'ente':
+                if (inR2(step1)) replace(step1, 'ente');
+                break;
+            case 'amente':
+                if (inR1(step1)) {
+                    replace(step1, '');
+                    if (word.endsWith('iv') && inR2('iv')) {
+                        replace('iv', '');
+                        deleteIfR2('at');
+                    } else {
+                        deleteIfR2('os', 'ic', 'ad');
+                    }
+                }
+                break;
+            case 'mente':
+                if (inR2(step1)) {
+                    replace(step1, '');
+                    deleteIfR2('ante', 'able', 'ible');
+                }
+                break;
+            case 'idad':
+                if (inR2(step1)) {
+                    replace(step1, '');
+                    deleteIfR2('abil', 'ic', 'iv');
+                }
+                break;
+            case 'iva':
+                if (inR2(step1)) {
+                    replace(step1, '');
+                    deleteIfR2('at');
+                }
+                break;
+        }
+    }
+
+    if (word === before) {
+        // Step 2a: verb suffixes beginning with y, after u
+        const step2a = longestSuffix(word, STEP_2A);
+        if (step2a && inRV(step2a) && word.slice(0, from(step2a)).endsWith('u')) {
+            replace(step2a, '');
+        } else {
+            // Step 2b: other verb suffixes
+            const step2b = longestSuffix(word, [...STEP_2B_GU, ...STEP_2B]);
+            if (step2b && inRV(step2b)) {
+                replace(step2b, '');
+                if (STEP_2B_GU.includes(step2b) && word.endsWith('gu')) {
+                    word = word.slice(0, -1);
+                }
+            }
+        }
+    }
+
+    // Step 3: residual suffix
+    const step3 = longestSuffix(word, ['os', 'a', 'o', 'á', 'í', 'ó', 'e', 'é']);
+    if (step3 && inRV(step3)) {
+        replace(step3, '');
+        if ((step3 === 'e' || step3 === 'é') && word.endsWith('gu') && inRV('u')) {
+            word = word.slice(0, -1);
+        }
+    }
+
+    return removeAccents(word);
+}
+
+export const spanishAnalyzer: Analyzer = {
+    name: 'es',
+    aliases: ['spanish', 'español', 'espanol', 'spa'],
+    stopwords: STOPWORDS,
+    stem: stemSpanish
+};
@@ -11,6 +11,7 @@ import {
   getExecution,
   cleanupOldExecutions
 } from '../../skills/store/executionStore.js';
+import { requireScope } from '../../middleware/index.js';
 
 const router = Router();
 
@@ -22,7 +23,7 @@ const router = Router();
  * GET /api/skillbank/analytics/executions
  * Get recent executions (optionally filtered by skill)
  */
-router.get('/executions', (req, res) => {
+router.get('/executions', requireScope('query:read'), (req, res) => {
   try {
     const { skillId, limit = '10' } = req.query;
     const limitNum = parseInt(limit as string, 10);
@@ -47,7 +48,7 @@ router.get('/executions', (req, res) => {
  * GET /api/skillbank/analytics/executions/:id
  * Get specific execution by ID
  */
-router.get('/executions/:id', (req, res) => {
+router.get('/executions/:id', requireScope('query:read'), (req, res) => {
   try {
     const execution = getExecution(req.params.id);
     
@@ -74,7 +75,7 @@ router.get('/executions/:id', (req, res) => {
  * GET /api/skillbank/analytics/stats
  * Get overall execution statistics
  */
-router.get('/stats', (req, res) => {
+router.get('/stats', requireScope('query:read'), (req, res) => {
   try {
     const stats = getExecutionStats();
     res.json(stats);
@@ -90,7 +91,7 @@ router.get('/stats', (req, res) => {
  * GET /api/skillbank/analytics/top-skills
  * Get top N most used skills
  */
-router.get('/top-skills', (req, res) => {
+router.get('/top-skills', requireScope('query:read'), (req, res) => {
   try {
     const { limit = '10' } = req.query;
     const limitNum = parseInt(limit as string, 10);
@@ -117,7 +118,7 @@ router.get('/top-skills', (req, res) => {
  * DELETE /api/skillbank/analytics/cleanup
  * Cleanup old execution records
  */
-router.delete('/cleanup', (req, res) => {
+router.delete('/cleanup', requireScope('admin'), (req, res) => {
   try {
     const { days = '30' } = req.query;
     const daysNum = parseInt(days as string, 10);
@@ -0,0 +1,207 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+    createCollection,
+    getCollection,
+    listCollections,
+    deleteCollection,
+    resolveCollections,
+    DEFAULT_COLLECTION
+} from '../../db/collectionStore.js';
+import { getReaderGroups, requireScope } from '../../middleware/index.js';
+
+export const collectionsRouter = Router();
+
+/**
+ * Collections a request is scoped to: one name, a list, or a comma-separated
+ * string (query parameters). Omitted: the default collection.
+ * Shared by every route that reads documents, searches or builds the graph.
+ */
+export const CollectionsSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+    .optional()
+    .transform((names, ctx) => {
+        try {
+            return resolveCollections(typeof names === 'string' ? names.split(',') : names);
+        } catch (error) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: error instanceof Error ? error.message : 'Invalid collections'
+            });
+            return z.NEVER;
+        }
+    });
+
+/**
+ * Collections a request is scoped to (`collections` query parameter for GET,
+ * body field otherwise). Sends a 400 response and returns undefined when
+ * they are invalid.
+ */
+export function requestCollections(req: Request, res: Response): string[] | undefined {
+    const parsed = CollectionsSchema.safeParse(req.method === 'GET' ? req.query.collections : req.body?.collections);
+    if (!parsed.success) {
+        res.status(400).json({
+            error: 'Validation error',
+            details: parsed.error.errors
+        });
+        return undefined;
+    }
+    return parsed.data;
+}
+
+/**
+ * Collections a request is scoped to, with the groups its principal may read
+ * (undefined groups: no access control). Sends a 400 response and returns
+ * undefined when the collections are invalid.
+ */
+export function requestScope(req: Request, res: Response): { collections: string[]; groups?: string[] } | undefined {
+    const collections = requestCollections(req, res);
+    if (!collections) return undefined;
+    return { collections, groups: getReaderGroups(req) };
+}
+
+const CreateCollectionSchema = z.object({
+    name: z.string().min(1, 'name is required'),
+    description: z.string().optional(),
+    language: z.string().min(1).optional()
+});
+
+/**
+ * GET /api/collections
+ * List collections with their document and section counts
+ */
+collectionsRouter.get('/', requireScope('query:read'), (req: Request, res: Response) => {
+    try {
+        const collections = listCollections();
+
+        res.json({
+            collections,
+            count: collections.length
+        });
+
+    } catch (error) {
+        console.error('Error listing collections:', error);
+        res.status(500).json({
+            error: 'Failed to list collections',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/collections
+ * Create a collection
+ *
+ * Body:
+ * {
+ *   "name": "team-a",             // lowercase letters, digits, "-" and "_"
+ *   "description": "Optional description",
+ *   "language": "es"               // Optional: keyword search language (default: SEARCH_LANGUAGE)
+ * }
+ */
+collectionsRouter.post('/', requireScope('index:write'), (req: Request, res: Response) => {
+    try {
+        const validation = CreateCollectionSchema.safeParse(req.body);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: validation.error.errors
+            });
+        }
+
+        const { name, description, language } = validation.data;
+
+        if (getCollection(name)) {
+            return res.status(409).json({
+                error: 'Collection already exists',
+                name
+            });
+        }
+
+        let collection;
+        try {
+            collection = createCollection(name, description, language);
+        } catch (error) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: error instanceof Error ? error.message : 'Invalid collection'
+            });
+        }
+
+        res.status(201).json(collection);
+
+    } catch (error) {
+        console.error('Error creating collection:', error);
+        res.status(500).json({
+            error: 'Failed to create collection',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/collections/:name
+ * Get a collection with its document and section counts
+ */
+collectionsRouter.get('/:name', requireScope('query:read'), (req: Request, res: Response) => {
+    try {
+        const { name } = req.params;
+        const collection = getCollection(name);
+
+        if (!collection) {
+            return res.status(404).json({
+                error: 'Collection not found',
+                name
+            });
+        }
+
+        res.json(collection);
+
+    } catch (error) {
+        console.error('Error loading collection:', error);
+        res.status(500).json({
+            error: 'Failed to load collection',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/collections/:name
+ * Delete a collection with all of its documents, vectors and edges.
+ * The default collection cannot be deleted.
+ */
+collectionsRouter.delete('/:name', requireScope('index:write'), async (req: Request, res: Response) => {
+    try {
+        const { name } = req.params;
+
+        if (name === DEFAULT_COLLECTION) {
+            return res.status(400).json({
+                error: 'The default collection cannot be deleted',
+                name
+            });
+        }
+
+        const result = await deleteCollection(name);
+
+        if (!result) {
+            return res.status(404).json({
+                error: 'Collection not found',
+                name
+            });
+        }
+
+        res.json({
+            success: true,
+            name,
+            documentsDeleted: result.documents
+        });
+
+    } catch (error) {
+        console.error('Error deleting collection:', error);
+        res.status(500).json({
+            error: 'Failed to delete collection',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
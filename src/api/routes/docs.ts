@@ -1,22 +1,37 @@
 import { Router, Request, Response } from 'express';
-import { loadDocument, getDb } from '../../db/jsonStore.js';
+import { loadDocument, listDocuments, documentCollection, canReadDocument, type Document, type SectionNode, type SourcePosition } from '../../db/documentStore.js';
 import { getDocNodeIds, getSectionMeta } from '../../db/vectorStore.js';
+import { deleteIndexedDocument } from '../../indexer.js';
+import { requestScope } from './collections.js';
+import { requireScope } from '../../middleware/index.js';
 
 export const docsRouter = Router();
 
+/**
+ * Load a document if it belongs to one of the collections and the groups may read it
+ * (other documents are reported as not found)
+ */
+async function loadScopedDocument(
+    docId: string,
+    scope: { collections: string[]; groups?: string[] }
+): Promise<Document | undefined> {
+    const doc = await loadDocument(docId);
+    return doc && scope.collections.includes(documentCollection(doc)) && canReadDocument(doc, scope.groups)
+        ? doc
+        : undefined;
+}
+
 /**
  * GET /api/docs
- * List all indexed documents
+ * List the indexed documents of the requested collections
+ * (`?collections=a,b`, default: the default collection)
  */
-docsRouter.get('/', async (req: Request, res: Response) => {
+docsRouter.get('/', requireScope('query:read'), async (req: Request, res: Response) => {
     try {
-        const db = await getDb();
-        const documents = db.data.documents.map(doc => ({
-            docId: doc.docId,
-            title: doc.title,
-            version: doc.version,
-            sectionsCount: Object.keys(doc.nodes).length
-        }));
+        const scope = requestScope(req, res);
+        if (!scope) return;
+        
+        const documents = (await listDocuments(scope.collections)).filter(doc => canReadDocument(doc, scope.groups));
         
         res.json({
             documents,
@@ -36,10 +51,13 @@ docsRouter.get('/', async (req: Request, res: Response) => {
  * GET /api/docs/:docId
  * Get a specific document by ID
  */
-docsRouter.get('/:docId', async (req: Request, res: Response) => {
+docsRouter.get('/:docId', requireScope('query:read'), async (req: Request, res: Response) => {
     try {
         const { docId } = req.params;
-        const doc = await loadDocument(docId);
+        const scope = requestScope(req, res);
+        if (!scope) return;
+        
+        const doc = await loadScopedDocument(docId, scope);
         
         if (!doc) {
             return res.status(404).json({
@@ -52,6 +70,9 @@ docsRouter.get('/:docId', async (req: Request, res: Response) => {
             docId: doc.docId,
             title: doc.title,
             version: doc.version,
+            metadata: doc.metadata,
+            collection: documentCollection(doc),
+            allowedGroups: doc.allowedGroups,
             root: doc.root,
             nodes: doc.nodes,
             sectionsCount: Object.keys(doc.nodes).length
@@ -70,10 +91,13 @@ docsRouter.get('/:docId', async (req: Request, res: Response) => {
  * GET /api/docs/:docId/structure
  * Get only the structure (without full content) of a document
  */
-docsRouter.get('/:docId/structure', async (req: Request, res: Response) => {
+docsRouter.get('/:docId/structure', requireScope('query:read'), async (req: Request, res: Response) => {
     try {
         const { docId } = req.params;
-        const doc = await loadDocument(docId);
+        const scope = requestScope(req, res);
+        if (!scope) return;
+        
+        const doc = await loadScopedDocument(docId, scope);
         
         if (!doc) {
             return res.status(404).json({
@@ -116,10 +140,14 @@ docsRouter.get('/:docId/structure', async (req: Request, res: Response) => {
  * GET /api/docs/:docId/sections
  * Get all sections with their metadata for a document
  */
-docsRouter.get('/:docId/sections', async (req: Request, res: Response) => {
+docsRouter.get('/:docId/sections', requireScope('query:read'), async (req: Request, res: Response) => {
     try {
         const { docId } = req.params;
-        const nodeIds = getDocNodeIds(docId);
+        const scope = requestScope(req, res);
+        if (!scope) return;
+        
+        const doc = await loadScopedDocument(docId, scope);
+        const nodeIds = doc ? getDocNodeIds(docId) : [];
         
         if (nodeIds.length === 0) {
             return res.status(404).json({
@@ -128,11 +156,20 @@ docsRouter.get('/:docId/sections', async (req: Request, res: Response) => {
             });
         }
         
+        // Source positions live in the document store
+        const positions = new Map<string, SourcePosition | undefined>();
+        const collectPositions = (node: SectionNode) => {
+            positions.set(node.id, node.position);
+            node.children.forEach(collectPositions);
+        };
+        if (doc) collectPositions(doc.root);
+        
         const sections = nodeIds.map(nodeId => {
             const meta = getSectionMeta(nodeId);
             return {
                 nodeId,
-                ...meta
+                ...meta,
+                position: positions.get(nodeId)
             };
         });
         
@@ -153,13 +190,37 @@ docsRouter.get('/:docId/sections', async (req: Request, res: Response) => {
 
 /**
  * DELETE /api/docs/:docId
- * Delete a document (placeholder - to be implemented)
+ * Delete a document with its sections, vectors and edges.
+ * Only documents of the requested collections that the principal may read can be deleted.
  */
-docsRouter.delete('/:docId', async (req: Request, res: Response) => {
-    // TODO: Implement document deletion
-    res.status(501).json({
-        error: 'Not implemented',
-        message: 'Document deletion is not yet implemented'
-    });
+docsRouter.delete('/:docId', requireScope('index:write'), async (req: Request, res: Response) => {
+    try {
+        const { docId } = req.params;
+        const scope = requestScope(req, res);
+        if (!scope) return;
+        
+        const doc = await loadScopedDocument(docId, scope);
+        
+        if (!doc) {
+            return res.status(404).json({
+                error: 'Document not found',
+                docId
+            });
+        }
+        
+        await deleteIndexedDocument(docId);
+        
+        res.json({
+            success: true,
+            docId
+        });
+        
+    } catch (error) {
+        console.error('Error deleting document:', error);
+        res.status(500).json({
+            error: 'Failed to delete document',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
 });
 
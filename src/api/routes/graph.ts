@@ -5,24 +5,39 @@ import {
   getOutgoingEdges, 
   getIncomingEdges,
   expandGraph,
+  visibleNodes,
   type EdgeType,
   type GraphExpansionConfig
 } from '../../db/graphStore.js';
+import { loadDocument, documentCollection, canReadDocument } from '../../db/documentStore.js';
+import { requestCollections, requestScope } from './collections.js';
 import { buildSameTopicGraph, type SameTopicConfig } from '../../graph/relationsDetector.js';
 import { detectLinksInAllDocuments, getLinkStatistics, type LinkDetectionConfig } from '../../graph/linkDetector.js';
 import { exportGraph, exportSubgraph, exportGraphFormat, type GraphExportConfig } from '../../graph/graphVisualizer.js';
 import { extractEntities } from '../../graph/entityExtractor.js';
 import { buildConceptGraph, persistConceptGraph, getConceptStats } from '../../graph/conceptGraph.js';
+import { requireScope } from '../../middleware/index.js';
 
 const router = Router();
 
+/**
+ * Whether a document exists in one of the collections and may be read by the groups
+ */
+async function documentInScope(docId: string, scope: { collections: string[]; groups?: string[] }): Promise<boolean> {
+  const doc = await loadDocument(docId);
+  return doc !== undefined && scope.collections.includes(documentCollection(doc)) && canReadDocument(doc, scope.groups);
+}
+
 /**
  * GET /api/graph/stats
  * Get graph statistics
  */
-router.get('/stats', (req, res) => {
+router.get('/stats', requireScope('query:read'), (req, res) => {
   try {
-    const stats = getGraphStats();
+    const scope = requestScope(req, res);
+    if (!scope) return;
+
+    const stats = getGraphStats(scope);
     res.json(stats);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -33,17 +48,25 @@ router.get('/stats', (req, res) => {
  * GET /api/graph/neighbors/:nodeId
  * Get neighbors of a node
  */
-router.get('/neighbors/:nodeId', (req, res) => {
+router.get('/neighbors/:nodeId', requireScope('query:read'), (req, res) => {
   try {
     const { nodeId } = req.params;
     const { types } = req.query;
     
+    const scope = requestScope(req, res);
+    if (!scope) return;
+    if (!visibleNodes([nodeId], scope).has(nodeId)) {
+      return res.status(404).json({ error: `Node not found: ${nodeId}` });
+    }
+    
     let edgeTypes: EdgeType[] | undefined;
     if (types && typeof types === 'string') {
       edgeTypes = types.split(',') as EdgeType[];
     }
     
-    const neighbors = getNeighbors(nodeId, edgeTypes);
+    const allNeighbors = getNeighbors(nodeId, edgeTypes);
+    const visible = visibleNodes(allNeighbors.map(n => n.node_id), scope);
+    const neighbors = allNeighbors.filter(n => visible.has(n.node_id));
     
     res.json({
       node_id: nodeId,
@@ -59,22 +82,40 @@ router.get('/neighbors/:nodeId', (req, res) => {
  * GET /api/graph/edges/:nodeId
  * Get edges for a node
  */
-router.get('/edges/:nodeId', (req, res) => {
+router.get('/edges/:nodeId', requireScope('query:read'), (req, res) => {
   try {
     const { nodeId } = req.params;
     const { direction, type } = req.query;
     
+    const scope = requestScope(req, res);
+    if (!scope) return;
+    if (!visibleNodes([nodeId], scope).has(nodeId)) {
+      return res.status(404).json({ error: `Node not found: ${nodeId}` });
+    }
+    
     const edgeType = type as EdgeType | undefined;
     
+    // Edges to sections of other collections (or that the reader may not read) are hidden
+    const outgoing = () => {
+      const rows = getOutgoingEdges(nodeId, edgeType);
+      const visible = visibleNodes(rows.map(e => e.to_node_id), scope);
+      return rows.filter(e => visible.has(e.to_node_id));
+    };
+    const incoming = () => {
+      const rows = getIncomingEdges(nodeId, edgeType);
+      const visible = visibleNodes(rows.map(e => e.from_node_id), scope);
+      return rows.filter(e => visible.has(e.from_node_id));
+    };
+    
     let edges;
     if (direction === 'incoming') {
-      edges = getIncomingEdges(nodeId, edgeType);
+      edges = incoming();
     } else if (direction === 'outgoing') {
-      edges = getOutgoingEdges(nodeId, edgeType);
+      edges = outgoing();
     } else {
       edges = {
-        outgoing: getOutgoingEdges(nodeId, edgeType),
-        incoming: getIncomingEdges(nodeId, edgeType)
+        outgoing: outgoing(),
+        incoming: incoming()
       };
     }
     
@@ -90,8 +131,12 @@ router.get('/edges/:nodeId', (req, res) => {
 /**
  * POST /api/graph/expand
  * Expand from seed nodes in the graph
+ * 
+ * Seeds outside `collections` are ignored and expansion stays inside them
+ * unless `config.crossCollections` is true. Sections the principal may not
+ * read are never seeds nor reached.
  */
-router.post('/expand', (req, res) => {
+router.post('/expand', requireScope('query:read'), (req, res) => {
   try {
     const { seeds, config } = req.body;
     
@@ -99,17 +144,25 @@ router.post('/expand', (req, res) => {
       return res.status(400).json({ error: 'seeds must be an array of node IDs' });
     }
     
+    const scope = requestScope(req, res);
+    if (!scope) return;
+    
     const expansionConfig: GraphExpansionConfig = {
       maxHops: config?.maxHops || 1,
       maxNodes: config?.maxNodes || 20,
       edgeTypes: config?.edgeTypes || ['PARENT_OF', 'CHILD_OF', 'SAME_TOPIC'],
-      minWeight: config?.minWeight
+      minWeight: config?.minWeight,
+      collections: scope.collections,
+      crossCollections: config?.crossCollections === true,
+      groups: scope.groups
     };
     
-    const expanded = expandGraph(seeds, expansionConfig);
+    const visibleSeeds = visibleNodes(seeds, scope);
+    const scopedSeeds = seeds.filter((id: string) => visibleSeeds.has(id));
+    const expanded = expandGraph(scopedSeeds, expansionConfig);
     
     res.json({
-      seeds,
+      seeds: scopedSeeds,
       config: expansionConfig,
       nodes: expanded,
       count: expanded.length
@@ -123,9 +176,12 @@ router.post('/expand', (req, res) => {
  * POST /api/graph/build/same-topic
  * Build SAME_TOPIC edges based on embedding similarity
  */
-router.post('/build/same-topic', async (req, res) => {
+router.post('/build/same-topic', requireScope('graph:build'), async (req, res) => {
   try {
-    const config: Partial<SameTopicConfig> = req.body;
+    const collections = requestCollections(req, res);
+    if (!collections) return;
+    
+    const config: Partial<SameTopicConfig> = { ...req.body, collections };
     
     const edgeCount = await buildSameTopicGraph(config);
     
@@ -136,7 +192,9 @@ router.post('/build/same-topic', async (req, res) => {
         minSimilarity: config.minSimilarity || 0.80,
         maxConnections: config.maxConnections || 5,
         crossDocOnly: config.crossDocOnly !== undefined ? config.crossDocOnly : true,
-        titleSimilarity: config.titleSimilarity || false
+        titleSimilarity: config.titleSimilarity || false,
+        crossCollection: config.crossCollection || false,
+        collections
       }
     });
   } catch (error: any) {
@@ -148,9 +206,12 @@ router.post('/build/same-topic', async (req, res) => {
  * POST /api/graph/build/refers-to
  * Build REFERS_TO edges from markdown links
  */
-router.post('/build/refers-to', async (req, res) => {
+router.post('/build/refers-to', requireScope('graph:build'), async (req, res) => {
   try {
-    const config: Partial<LinkDetectionConfig> = req.body;
+    const collections = requestCollections(req, res);
+    if (!collections) return;
+    
+    const config: Partial<LinkDetectionConfig> = { ...req.body, collections };
     
     const edgeCount = await detectLinksInAllDocuments(config);
     
@@ -161,7 +222,9 @@ router.post('/build/refers-to', async (req, res) => {
         detectMarkdownLinks: config.detectMarkdownLinks !== false,
         detectWikiLinks: config.detectWikiLinks !== false,
         crossDocumentOnly: config.crossDocumentOnly || false,
-        createBidirectional: config.createBidirectional || false
+        createBidirectional: config.createBidirectional || false,
+        crossCollection: config.crossCollection || false,
+        collections
       }
     });
   } catch (error: any) {
@@ -173,9 +236,12 @@ router.post('/build/refers-to', async (req, res) => {
  * GET /api/graph/link-stats
  * Get statistics about markdown links in documents
  */
-router.get('/link-stats', async (req, res) => {
+router.get('/link-stats', requireScope('query:read'), async (req, res) => {
   try {
-    const stats = await getLinkStatistics();
+    const collections = requestCollections(req, res);
+    if (!collections) return;
+
+    const stats = await getLinkStatistics(collections);
     
     res.json(stats);
   } catch (error: any) {
@@ -195,8 +261,9 @@ router.get('/link-stats', async (req, res) => {
  * - maxNodes: number (default: unlimited)
  * - docIds: comma-separated list of doc IDs
  * - minDegree: minimum connections per node
+ * - collections: comma-separated list of collections (default: default)
  */
-router.get('/export', async (req, res) => {
+router.get('/export', requireScope('query:read'), async (req, res) => {
   try {
     const {
       format = 'd3',
@@ -208,7 +275,10 @@ router.get('/export', async (req, res) => {
       minDegree
     } = req.query;
     
-    const config: GraphExportConfig = {};
+    const scope = requestScope(req, res);
+    if (!scope) return;
+    
+    const config: GraphExportConfig = { ...scope };
     
     if (includeDocuments !== undefined) {
       config.includeDocuments = includeDocuments === 'true';
@@ -258,10 +328,11 @@ router.get('/export', async (req, res) => {
  *   "seeds": ["node-id-1", "node-id-2"],
  *   "maxHops": 2,
  *   "maxNodes": 50,
- *   "format": "d3"
+ *   "format": "d3",
+ *   "collections": ["team-a"]
  * }
  */
-router.post('/subgraph', async (req, res) => {
+router.post('/subgraph', requireScope('query:read'), async (req, res) => {
   try {
     const {
       seeds,
@@ -276,7 +347,10 @@ router.post('/subgraph', async (req, res) => {
       });
     }
     
-    const subgraph = await exportSubgraph(seeds, maxHops, maxNodes);
+    const scope = requestScope(req, res);
+    if (!scope) return;
+    
+    const subgraph = await exportSubgraph(seeds, maxHops, maxNodes, scope);
     
     // Format if requested
     if (format === 'd3') {
@@ -285,6 +359,7 @@ router.post('/subgraph', async (req, res) => {
       // Convert to requested format
       const formatted = await exportGraphFormat(format, {
         // Filter nodes/edges from subgraph
+        ...scope
       });
       res.json(formatted);
     }
@@ -297,15 +372,18 @@ router.post('/subgraph', async (req, res) => {
  * POST /api/graph/extract-entities
  * Extract entities from text (NER)
  */
-router.post('/extract-entities', (req, res) => {
+router.post('/extract-entities', requireScope('query:read'), (req, res) => {
   try {
-    const { text } = req.body;
+    const { text, language } = req.body;
     
     if (!text || typeof text !== 'string') {
       return res.status(400).json({ error: 'text is required' });
     }
+    if (language !== undefined && typeof language !== 'string') {
+      return res.status(400).json({ error: 'language must be a string' });
+    }
     
-    const result = extractEntities(text);
+    const result = extractEntities(text, { language });
     
     res.json({
       entities: result.entities,
@@ -322,9 +400,16 @@ router.post('/extract-entities', (req, res) => {
  * GET /api/graph/concepts/:docId
  * Get concept statistics for a document
  */
-router.get('/concepts/:docId', async (req, res) => {
+router.get('/concepts/:docId', requireScope('query:read'), async (req, res) => {
   try {
     const { docId } = req.params;
+    
+    const scope = requestScope(req, res);
+    if (!scope) return;
+    if (!await documentInScope(docId, scope)) {
+      return res.status(404).json({ error: `Document not found: ${docId}` });
+    }
+    
     const stats = await getConceptStats(docId);
     
     res.json({
@@ -343,7 +428,7 @@ router.get('/concepts/:docId', async (req, res) => {
  * POST /api/graph/build/concepts
  * Build and persist concept graph for a document
  */
-router.post('/build/concepts', async (req, res) => {
+router.post('/build/concepts', requireScope('graph:build'), async (req, res) => {
   try {
     const { docId } = req.body;
     
@@ -351,6 +436,12 @@ router.post('/build/concepts', async (req, res) => {
       return res.status(400).json({ error: 'docId is required' });
     }
     
+    const scope = requestScope(req, res);
+    if (!scope) return;
+    if (!await documentInScope(docId, scope)) {
+      return res.status(404).json({ error: `Document not found: ${docId}` });
+    }
+    
     console.log(`🧠 Building concept graph for ${docId}...`);
     const result = await persistConceptGraph(docId);
     console.log(`   Created ${result.conceptsCreated} concepts, ${result.edgesCreated} edges`);
@@ -372,7 +463,7 @@ router.post('/build/concepts', async (req, res) => {
  * POST /api/graph/build/concepts-all
  * Build concept graph for all specified documents
  */
-router.post('/build/concepts-all', async (req, res) => {
+router.post('/build/concepts-all', requireScope('graph:build'), async (req, res) => {
   try {
     const { docIds } = req.body;
     
@@ -380,6 +471,9 @@ router.post('/build/concepts-all', async (req, res) => {
       return res.status(400).json({ error: 'docIds array is required' });
     }
     
+    const scope = requestScope(req, res);
+    if (!scope) return;
+    
     console.log(`🧠 Building concept graph for ${docIds.length} documents...`);
     
     const results = [];
@@ -388,6 +482,9 @@ router.post('/build/concepts-all', async (req, res) => {
     
     for (const docId of docIds) {
       try {
+        if (!await documentInScope(docId, scope)) {
+          throw new Error(`Document not found: ${docId}`);
+        }
         const result = await persistConceptGraph(docId);
         results.push({ docId, ...result, success: true });
         totalConcepts += result.conceptsCreated;
@@ -15,6 +15,7 @@ healthRouter.get('/', (req: Request, res: Response) => {
         embedding: embeddingInfo,
         config: {
             vectorDb: config.db.vectorPath,
+            documentStore: config.db.documentStore,
             jsonStore: config.db.jsonPath
         }
     });
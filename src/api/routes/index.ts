@@ -1,30 +1,49 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { parseMarkdownContent } from '../../markdownParser.js';
-import { saveDocument, Document } from '../../db/jsonStore.js';
-import { syncDocument } from '../../indexer.js';
+import { resolveParser, type DocumentParser } from '../../parsers/index.js';
+import { buildNodesMap, loadDocument, canReadDocument, Document, SectionNode } from '../../db/documentStore.js';
+import { indexDocument } from '../../indexer.js';
+import { DEFAULT_COLLECTION } from '../../db/collectionStore.js';
+import { getReaderGroups, requireScope } from '../../middleware/index.js';
 
 export const indexRouter = Router();
 
-// Schema for indexing markdown content
+indexRouter.use(requireScope('index:write'));
+
+// Schema for indexing document content
 const IndexMarkdownSchema = z.object({
     docId: z.string().min(1, 'docId is required'),
     title: z.string().optional(),
     content: z.string().min(1, 'content is required'),
-    version: z.number().int().positive().optional().default(1)
+    version: z.number().int().positive().optional().default(1),
+    format: z.string().optional(),      // Parser name or extension ("html", "rst", ".adoc", ...)
+    mimeType: z.string().optional(),    // e.g. "text/html"
+    filename: z.string().optional(),    // Original file name, used for its extension
+    collection: z.string().min(1).optional(), // Collection to index into (default: "default")
+    allowedGroups: z.array(z.string().min(1)).min(1).optional()  // Groups allowed to read it (default: everyone)
 });
 
 /**
  * POST /api/index
- * Index a markdown document
+ * Index a document (markdown by default)
  * 
  * Body:
  * {
  *   "docId": "unique-doc-id",
  *   "title": "Optional Document Title",
  *   "content": "# Markdown content here...",
- *   "version": 1
+ *   "version": 1,
+ *   "format": "markdown",    // Optional: markdown | html | rst | asciidoc | ipynb
+ *   "collection": "team-a",  // Optional: existing collection (default: "default")
+ *   "allowedGroups": ["finance"]  // Optional: only these groups may read it (default: everyone)
  * }
+ * 
+ * The parser is picked from `format`, then `mimeType`, then the extension of
+ * `filename`; markdown is the default.
+ * 
+ * A document ID belongs to one collection: indexing it into another one
+ * fails with 409. Re-indexing a document requires read access to the
+ * current version (403 otherwise).
  */
 indexRouter.post('/', async (req: Request, res: Response) => {
     try {
@@ -38,10 +57,28 @@ indexRouter.post('/', async (req: Request, res: Response) => {
             });
         }
         
-        const { docId, title, content, version } = validation.data;
+        const { docId, title, content, version, format, mimeType, filename, collection, allowedGroups } = validation.data;
         
-        // Parse markdown content
-        const root = parseMarkdownContent(content, docId);
+        const existing = await loadDocument(docId);
+        if (existing && !canReadDocument(existing, getReaderGroups(req))) {
+            return res.status(403).json({
+                error: 'Access denied',
+                message: `Not allowed to overwrite document ${docId}`
+            });
+        }
+        
+        // Parse content into a section tree (unsupported formats and malformed input are client errors)
+        let parser: DocumentParser;
+        let root: SectionNode;
+        try {
+            parser = resolveParser({ format, mimeType, filePath: filename });
+            root = parser.parse(content, docId);
+        } catch (error) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: error instanceof Error ? error.message : 'Unsupported format'
+            });
+        }
         
         // Override title if provided
         if (title) {
@@ -49,20 +86,7 @@ indexRouter.post('/', async (req: Request, res: Response) => {
         }
         
         // Build nodes map for efficient navigation
-        const nodes: Document['nodes'] = {};
-        
-        function buildNodesMap(node: typeof root, parentId: string | null = null) {
-            nodes[node.id] = {
-                id: node.id,
-                parentId,
-                childrenIds: node.children.map(c => c.id),
-                level: node.level
-            };
-            
-            node.children.forEach(child => buildNodesMap(child, node.id));
-        }
-        
-        buildNodesMap(root);
+        const nodes = buildNodesMap(root);
         
         // Create document object
         const doc: Document = {
@@ -70,14 +94,14 @@ indexRouter.post('/', async (req: Request, res: Response) => {
             title: root.title,
             version,
             root,
-            nodes
+            nodes,
+            metadata: root.metadata,
+            collection,
+            allowedGroups
         };
         
-        // Save to JSON store
-        await saveDocument(doc);
-        
-        // Sync to vector store (generate embeddings)
-        await syncDocument(doc);
+        // Save to the JSON store and sync vectors and edges (all or nothing)
+        await indexDocument(doc);
         
         // Count sections
         const sectionCount = Object.keys(nodes).length;
@@ -87,11 +111,22 @@ indexRouter.post('/', async (req: Request, res: Response) => {
             docId,
             title: doc.title,
             version,
+            format: parser.name,
+            collection: collection ?? DEFAULT_COLLECTION,
+            allowedGroups,
             sectionsIndexed: sectionCount,
             message: 'Document indexed successfully'
         });
         
     } catch (error) {
+        const message = error instanceof Error ? error.message : '';
+        if (message.startsWith('Collection not found')) {
+            return res.status(404).json({ error: 'Collection not found', message });
+        }
+        if (message.includes('already exists in collection')) {
+            return res.status(409).json({ error: 'Document belongs to another collection', message });
+        }
+        
         console.error('Error indexing document:', error);
         res.status(500).json({
             error: 'Failed to index document',
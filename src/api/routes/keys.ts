@@ -0,0 +1,153 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { createApiKey, listApiKeys, getApiKey, revokeApiKey, SCOPES } from '../../db/apiKeyStore.js';
+import { enableAuth, requireAdminOrBootstrap } from '../../middleware/index.js';
+
+export const keysRouter = Router();
+
+// Managing keys requires the admin scope (or the bootstrap token while authentication is disabled)
+keysRouter.use(requireAdminOrBootstrap());
+
+const CreateKeySchema = z.object({
+    name: z.string().min(1, 'name is required'),
+    scopes: z.array(z.enum(SCOPES)).min(1, 'at least one scope is required'),
+    groups: z.array(z.string().min(1)).optional(),          // Document ACL groups
+    quota: z.number().int().positive().optional(),          // Requests per UTC day
+    expiresAt: z.string().datetime({ offset: true }).optional(),
+    expiresInDays: z.number().positive().optional()
+}).refine(body => !(body.expiresAt && body.expiresInDays), {
+    message: 'Use either expiresAt or expiresInDays'
+});
+
+/**
+ * GET /api/keys
+ * List API keys (never the keys themselves), including revoked and expired ones
+ */
+keysRouter.get('/', (req: Request, res: Response) => {
+    try {
+        const keys = listApiKeys();
+
+        res.json({
+            keys,
+            count: keys.length
+        });
+
+    } catch (error) {
+        console.error('Error listing API keys:', error);
+        res.status(500).json({
+            error: 'Failed to list API keys',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/keys
+ * Create an API key. The key is only returned in this response.
+ *
+ * Body:
+ * {
+ *   "name": "reporting-bot",               // Principal name, unique across keys
+ *   "scopes": ["query:read"],              // query:read | index:write | graph:build | skillbank:execute | admin
+ *   "groups": ["finance"],                 // Optional: document ACL groups
+ *   "quota": 1000,                         // Optional: requests per UTC day
+ *   "expiresInDays": 90                    // Optional (or "expiresAt": ISO date)
+ * }
+ */
+keysRouter.post('/', (req: Request, res: Response) => {
+    try {
+        const validation = CreateKeySchema.safeParse(req.body);
+
+        if (!validation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: validation.error.errors
+            });
+        }
+
+        const { expiresInDays, expiresAt, ...options } = validation.data;
+        let created;
+        try {
+            created = createApiKey({
+                ...options,
+                expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : expiresAt
+            });
+        } catch (error) {
+            return res.status(400).json({
+                error: 'Validation error',
+                message: error instanceof Error ? error.message : 'Invalid API key'
+            });
+        }
+        const { key, apiKey } = created;
+
+        // A stored key closes the API even when no API_KEYS are configured
+        enableAuth();
+
+        res.status(201).json({ ...apiKey, key });
+
+    } catch (error) {
+        console.error('Error creating API key:', error);
+        res.status(500).json({
+            error: 'Failed to create API key',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/keys/:id
+ * Get an API key with today's request count
+ */
+keysRouter.get('/:id', (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const apiKey = getApiKey(id);
+
+        if (!apiKey) {
+            return res.status(404).json({
+                error: 'API key not found',
+                id
+            });
+        }
+
+        res.json(apiKey);
+
+    } catch (error) {
+        console.error('Error loading API key:', error);
+        res.status(500).json({
+            error: 'Failed to load API key',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/keys/:id
+ * Revoke an API key. Revoked keys stay listed.
+ */
+keysRouter.delete('/:id', (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const apiKey = revokeApiKey(id);
+
+        if (!apiKey) {
+            return res.status(404).json({
+                error: 'API key not found',
+                id
+            });
+        }
+
+        res.json({
+            success: true,
+            id,
+            revokedAt: apiKey.revokedAt
+        });
+
+    } catch (error) {
+        console.error('Error revoking API key:', error);
+        res.status(500).json({
+            error: 'Failed to revoke API key',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
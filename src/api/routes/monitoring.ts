@@ -7,12 +7,16 @@
 import { Router, Request, Response } from 'express';
 import { getGraphStats } from '../../db/graphStore.js';
 import { getRateLimitStats } from '../../middleware/rateLimit.js';
-import { getAuthStatus } from '../../middleware/auth.js';
+import { getAuthStatus, requireScope } from '../../middleware/auth.js';
 import { getAllCacheStats, clearAllCaches } from '../../cache/queryCache.js';
-import { getBM25Index } from '../../search/bm25.js';
+import { getKeywordSearchStats } from '../../search/fullText.js';
+import { getVectorStorageStats, measureQuantizationRecall } from '../../db/vectorStore.js';
+import { config } from '../../config.js';
 
 const router = Router();
 
+router.use(requireScope('admin'));
+
 // Store request metrics
 interface RequestMetrics {
   totalRequests: number;
@@ -119,9 +123,9 @@ router.get('/health', async (req: Request, res: Response) => {
     checks.graphStore = { status: 'error', details: error.message };
   }
   
-  // Check BM25 index
+  // Check keyword (BM25) index
   try {
-    const bm25Stats = getBM25Index().getStats();
+    const bm25Stats = getKeywordSearchStats();
     checks.bm25Index = { 
       status: 'ok', 
       details: bm25Stats 
@@ -210,7 +214,14 @@ router.get('/system', (req: Request, res: Response) => {
       external: Math.round(memUsage.external / 1024 / 1024)
     },
     auth: getAuthStatus(),
-    rateLimit: getRateLimitStats()
+    rateLimit: getRateLimitStats(),
+    vectors: {
+      quantization: config.quantization.mode,
+      rescoreFactor: config.quantization.mode === 'float32' ? undefined : config.quantization.rescoreFactor,
+      spaces: getVectorStorageStats(),
+      // Measured on a sample of stored vectors (null without quantization)
+      recall: measureQuantizationRecall() ?? null
+    }
   });
 });
 
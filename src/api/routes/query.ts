@@ -1,26 +1,204 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { answer, queryWithGraph, type GraphRagConfig } from '../../ragEngine.js';
-import { searchKnn, SearchFilters } from '../../db/vectorStore.js';
+import { searchKnn, getEmbeddingSpace, type SearchFilters } from '../../db/vectorStore.js';
 import { embed } from '../../embeddings.js';
 import { type EdgeType } from '../../db/graphStore.js';
-import { graphRagQuery, smartGraphQuery, classicRagQuery } from '../../graph/graphRagEngine.js';
-import { getBM25Index, hybridSearch } from '../../search/bm25.js';
+import { graphRagQuery, smartGraphQuery, classicRagQuery, type GraphRagEvent, type GraphRagResult } from '../../graph/graphRagEngine.js';
+import { hybridSearch, DEFAULT_RRF_K } from '../../search/bm25.js';
+import { keywordSearch, getKeywordSearchStats, DEFAULT_FULL_TEXT_WEIGHTS } from '../../search/fullText.js';
 import { queryResultCache, withCache, QueryCache } from '../../cache/queryCache.js';
+import { parseMetadataFilter, validateMetadataFilter, type MetadataFilter } from '../../search/metadataFilter.js';
+import { CollectionsSchema } from './collections.js';
+import { getReaderGroups, requireScope } from '../../middleware/index.js';
 
 export const queryRouter = Router();
 
+queryRouter.use(requireScope('query:read'));
+
+// Metadata filter: either an expression ('tags contains "billing"') or an object
+const MetadataValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const MetadataFilterSchema = z.union([
+    z.string().min(1),
+    z.object({
+        field: z.string().min(1),
+        op: z.enum(['eq', 'neq', 'contains', 'in', 'gt', 'gte', 'lt', 'lte', 'exists']),
+        value: z.union([MetadataValueSchema, z.array(MetadataValueSchema)]).optional()
+    })
+]).transform((filter, ctx): MetadataFilter => {
+    try {
+        return typeof filter === 'string'
+            ? parseMetadataFilter(filter)
+            : validateMetadataFilter(filter);
+    } catch (error) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: error instanceof Error ? error.message : 'Invalid metadata filter'
+        });
+        return z.NEVER;
+    }
+});
+
+// Heading level: a level, a list of levels or a range ({ "lte": 3 })
+const LevelSchema = z.number().int().min(0).max(6);
+
+const LevelFilterSchema = z.union([
+    LevelSchema,
+    z.array(LevelSchema).min(1),
+    z.object({
+        gt: LevelSchema.optional(),
+        gte: LevelSchema.optional(),
+        lt: LevelSchema.optional(),
+        lte: LevelSchema.optional()
+    }).strict()
+]);
+
+// Filters accepted by every query route
+const SearchFiltersSchema = z.object({
+    doc_id: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
+    level: LevelFilterSchema.optional(),
+    is_leaf: z.number().int().min(0).max(1).optional(),
+    metadata: z.array(MetadataFilterSchema).optional()
+});
+
 // Schema for query requests
 const QuerySchema = z.object({
     query: z.string().min(1, 'query is required'),
     k: z.number().int().positive().optional().default(3),
-    filters: z.object({
-        doc_id: z.string().optional(),
-        level: z.number().int().min(0).max(3).optional(),
-        is_leaf: z.number().int().min(0).max(1).optional()
-    }).optional()
+    filters: SearchFiltersSchema.optional(),
+    collections: CollectionsSchema
 });
 
+// Raw vector search can also tune the two-stage Matryoshka search per query
+// (the prefix must be shorter than the vectors of the embedding space)
+const SearchSchema = QuerySchema.extend({
+    prefixDimensions: z.number().int().positive().optional(),
+    candidateMultiplier: z.number().int().positive().optional()
+}).superRefine((body, ctx) => {
+    const dimensions = body.prefixDimensions !== undefined ? getEmbeddingSpace()?.dimensions : undefined;
+    if (dimensions !== undefined && body.prefixDimensions! >= dimensions) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.too_big,
+            maximum: dimensions - 1,
+            type: 'number',
+            inclusive: true,
+            message: `prefixDimensions must be less than the ${dimensions} dimensions of the embedding space`,
+            path: ['prefixDimensions']
+        });
+    }
+});
+
+// Column weights of the keyword search (title above body by default)
+const FullTextWeightsSchema = z.object({
+    title: z.number().nonnegative().default(DEFAULT_FULL_TEXT_WEIGHTS.title),
+    body: z.number().nonnegative().default(DEFAULT_FULL_TEXT_WEIGHTS.body)
+}).default(DEFAULT_FULL_TEXT_WEIGHTS);
+
+// Fusion of the keyword and vector results of /hybrid
+const HybridOptionsSchema = z.object({
+    alpha: z.number().min(0).max(1).default(0.5),
+    fusion: z.enum(['rrf', 'minmax', 'zscore', 'max']).default('max'),
+    rrfK: z.number().positive().default(DEFAULT_RRF_K),
+    metric: z.enum(['l2', 'l2-unit', 'cosine']).default('l2')
+});
+
+// Answer generation of /smart and /classic (and session turns): true, or options overriding config.chat
+export const GenerateSchema = z.union([
+    z.boolean(),
+    z.object({
+        model: z.string().min(1).optional(),
+        temperature: z.number().min(0).max(2).optional(),
+        maxTokens: z.number().int().positive().optional(),
+        contextTokens: z.number().int().positive().optional()
+    })
+]).optional().transform(value => value === true ? {} : value || undefined);
+
+// Multi-query expansion of /smart and /classic (and session turns): true, or options overriding config.expansion
+export const ExpandSchema = z.union([
+    z.boolean(),
+    z.object({
+        paraphrases: z.number().int().min(0).max(5).optional(),
+        subQuestions: z.number().int().min(0).max(5).optional(),
+        hyde: z.boolean().optional(),
+        keyword: z.boolean().optional(),
+        rrfK: z.number().positive().optional(),
+        mode: z.enum(['auto', 'llm', 'rules']).optional()
+    })
+]).optional().transform(value => value === true ? {} : value || undefined);
+
+// Optional pipeline stages of /smart and /classic
+const PipelineSchema = z.object({
+    generate: GenerateSchema,
+    expand: ExpandSchema
+});
+
+// Filters and collections of a request, merged into the filters passed to searches
+const ScopedFiltersSchema = z.object({
+    filters: SearchFiltersSchema.optional(),
+    collections: CollectionsSchema
+}).transform(({ filters, collections }): SearchFilters => ({ ...filters, collections }));
+
+/**
+ * Validate the optional `filters` and `collections` body fields of routes that don't use QuerySchema.
+ * The filters also restrict results to the documents the principal of the request may read.
+ */
+export function parseFilters(req: Request) {
+    const parsed = ScopedFiltersSchema.safeParse(req.body ?? {});
+    if (parsed.success) {
+        parsed.data.groups = getReaderGroups(req);
+    }
+    return parsed;
+}
+
+/**
+ * Answer a graph RAG query with Server-Sent Events instead of one JSON body.
+ * Each pipeline event of graphRagQuery is sent as an SSE event of its type
+ * ("variants", "seeds", "source", "expanded", "reranked", "token"), then "result"
+ * with the body the JSON route returns, or "error". The query is aborted
+ * (retrieval and generation) when the client disconnects.
+ */
+async function streamGraphRagQuery(
+    res: Response,
+    run: (onEvent: (event: GraphRagEvent) => void, signal: AbortSignal) => Promise<GraphRagResult>,
+    errorMessage: string
+): Promise<void> {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'  // Disable proxy buffering (nginx)
+    });
+
+    // Stop writing, and stop the query, once the client disconnects
+    let closed = false;
+    const controller = new AbortController();
+    res.on('close', () => {
+        closed = true;
+        controller.abort();
+    });
+
+    const send = (event: string, data: unknown) => {
+        if (!closed) {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+    };
+
+    try {
+        const result = await run(event => send(event.type, event), controller.signal);
+        send('result', result);
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error streaming query:', error);
+        send('error', {
+            error: errorMessage,
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+
+    res.end();
+}
+
 /**
  * POST /api/query
  * Perform semantic search with hierarchical context
@@ -30,11 +208,20 @@ const QuerySchema = z.object({
  *   "query": "What is regularization?",
  *   "k": 3,
  *   "filters": {
- *     "doc_id": "optional-doc-id",
- *     "level": 2,
- *     "is_leaf": 1
- *   }
+ *     "doc_id": "optional-doc-id",    // Or a list: ["guide", "faq"]
+ *     "level": 2,                     // Or a list ([2, 3]) or a range ({ "lte": 3 })
+ *     "is_leaf": 1,
+ *     "metadata": [
+ *       "tags contains \"billing\"",
+ *       { "field": "audience", "op": "eq", "value": "internal" }
+ *     ]
+ *   },
+ *   "collections": ["team-a"]     // Optional: one name or a list (default: "default")
  * }
+ *
+ * Every query route accepts `collections` and only searches those collections.
+ * With authentication enabled, results only come from documents the API key's
+ * groups may read (seeds, graph neighbours and sibling context alike).
  */
 queryRouter.post('/', async (req: Request, res: Response) => {
     try {
@@ -48,10 +235,10 @@ queryRouter.post('/', async (req: Request, res: Response) => {
             });
         }
         
-        const { query, k, filters } = validation.data;
+        const { query, k, filters, collections } = validation.data;
         
         // Use RAG engine to get answer with context
-        const result = await answer(query);
+        const result = await answer(query, { ...filters, collections, groups: getReaderGroups(req) });
         
         res.json({
             query,
@@ -85,12 +272,14 @@ queryRouter.post('/', async (req: Request, res: Response) => {
  * {
  *   "query": "search text",
  *   "k": 5,
- *   "filters": { ... }
+ *   "filters": { ... },
+ *   "prefixDimensions": 128,      // optional: coarse search on the first 128 dimensions (indexed if MATRYOSHKA_PREFIX_DIMENSIONS)
+ *   "candidateMultiplier": 10     // optional: candidates reranked per result
  * }
  */
 queryRouter.post('/search', async (req: Request, res: Response) => {
     try {
-        const validation = QuerySchema.safeParse(req.body);
+        const validation = SearchSchema.safeParse(req.body);
         
         if (!validation.success) {
             return res.status(400).json({
@@ -99,13 +288,18 @@ queryRouter.post('/search', async (req: Request, res: Response) => {
             });
         }
         
-        const { query, k, filters } = validation.data;
+        const { query, k, filters, collections, prefixDimensions, candidateMultiplier } = validation.data;
         
         // Generate query embedding
         const queryEmbedding = await embed(query);
         
         // Perform KNN search
-        const results = searchKnn(queryEmbedding, k, filters as SearchFilters || {});
+        const results = searchKnn(
+            queryEmbedding,
+            k,
+            { ...filters, collections, groups: getReaderGroups(req) },
+            { prefixDimensions, candidateMultiplier }
+        );
         
         res.json({
             query,
@@ -118,6 +312,7 @@ queryRouter.post('/search', async (req: Request, res: Response) => {
                 resultsCount: results.length,
                 k,
                 filters: filters || {},
+                collections,
                 timestamp: new Date().toISOString()
             }
         });
@@ -147,8 +342,10 @@ queryRouter.post('/search', async (req: Request, res: Response) => {
  *     "maxGraphNodes": 10,
  *     "edgeTypes": ["SAME_TOPIC", "PARENT_OF"],
  *     "minEdgeWeight": 0.7,
- *     "combineStrategy": "union"
- *   }
+ *     "combineStrategy": "union",
+ *     "crossCollections": false   // Let expansion leave the requested collections
+ *   },
+ *   "filters": { ... }  // Same as POST /api/query
  * }
  */
 queryRouter.post('/graph', async (req: Request, res: Response) => {
@@ -162,11 +359,20 @@ queryRouter.post('/graph', async (req: Request, res: Response) => {
             });
         }
         
+        const filtersValidation = parseFilters(req);
+        if (!filtersValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: filtersValidation.error.errors
+            });
+        }
+        const filters = filtersValidation.data;
+        
         // Validate graph config if provided
         const config: Partial<GraphRagConfig> = graphConfig || {};
         
         // Call graph-aware RAG engine
-        const result = await queryWithGraph(query, k, config);
+        const result = await queryWithGraph(query, k, config, filters);
         
         // Format response
         res.json({
@@ -218,10 +424,26 @@ queryRouter.post('/graph', async (req: Request, res: Response) => {
  *   "edgeTypes": ["SAME_TOPIC"],  // Edge types to follow
  *   "minWeight": 0.75,            // Min edge weight for SAME_TOPIC
  *   "rerank": true,               // Enable reranking by edge type
- *   "maxPerDocument": 3           // Max results per document (diversity)
+ *   "maxPerDocument": 3,          // Max results per document (diversity)
+ *   "crossCollections": false,    // Let graph expansion leave the requested collections
+ *   "filters": { "metadata": ["tags contains \"billing\""] },
+ *   "generate": true,             // Answer with an LLM, citing sources as [n]
+ *                                 // Or options: { "model", "temperature", "maxTokens", "contextTokens" }
+ *   "expand": true                // Also search paraphrases, sub-questions and a HyDE passage
+ *                                 // Or options: { "paraphrases", "subQuestions", "hyde", "keyword", "rrfK", "mode" }
  * }
+ *
+ * With "generate", "answer" is the generated answer and "generation" maps its
+ * citations to nodeIds and reports the sources packed into the prompt.
+ * With "expand", the seeds are the RRF fusion of the vector and BM25 results
+ * of every variant, and "metadata.expansion" reports each variant's contribution.
+ *
+ * POST /api/query/smart/stream takes the same body and streams the query as
+ * Server-Sent Events: "seeds", a "source" per section as it is built,
+ * "expanded", "reranked", a "token" per answer fragment (with "generate"),
+ * then "result" with the full response (or "error").
  */
-queryRouter.post('/smart', async (req: Request, res: Response) => {
+queryRouter.post(['/smart', '/smart/stream'], async (req: Request, res: Response) => {
     try {
         const { 
             query, 
@@ -232,7 +454,8 @@ queryRouter.post('/smart', async (req: Request, res: Response) => {
             edgeTypes = ['SAME_TOPIC', 'REFERS_TO', 'PARENT_OF', 'CHILD_OF'],
             minWeight = 0.75,
             rerank = true,
-            maxPerDocument
+            maxPerDocument,
+            crossCollections = false
         } = req.body;
         
         if (!query || typeof query !== 'string') {
@@ -242,20 +465,52 @@ queryRouter.post('/smart', async (req: Request, res: Response) => {
             });
         }
         
+        const filtersValidation = parseFilters(req);
+        if (!filtersValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: filtersValidation.error.errors
+            });
+        }
+        const filters = filtersValidation.data;
+        
+        const pipelineValidation = PipelineSchema.safeParse(req.body);
+        if (!pipelineValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: pipelineValidation.error.errors
+            });
+        }
+        const { generate, expand } = pipelineValidation.data;
+        
         // Use the new graph RAG engine with reranking
-        const result = await graphRagQuery(query, {
+        const ragConfig = {
             k,
             expandGraph: useGraph,
             graphConfig: useGraph ? {
                 maxHops,
                 maxNodes,
                 edgeTypes: edgeTypes as EdgeType[],
-                minWeight
+                minWeight,
+                crossCollections: crossCollections === true
             } : undefined,
             includeContext: true,
             rerank,
-            maxPerDocument
-        });
+            maxPerDocument,
+            filters,
+            generate,
+            expand
+        };
+        
+        if (req.path.endsWith('/stream')) {
+            return streamGraphRagQuery(
+                res,
+                (onEvent, signal) => graphRagQuery(query, { ...ragConfig, onEvent, signal }),
+                'Failed to process smart query'
+            );
+        }
+        
+        const result = await graphRagQuery(query, ragConfig);
         
         res.json(result);
         
@@ -275,10 +530,15 @@ queryRouter.post('/smart', async (req: Request, res: Response) => {
  * Body:
  * {
  *   "query": "What is deep learning?",
- *   "k": 3
+ *   "k": 3,
+ *   "filters": { ... },  // Same as POST /api/query
+ *   "generate": true,    // Same as POST /api/query/smart
+ *   "expand": true       // Same as POST /api/query/smart
  * }
+ *
+ * POST /api/query/classic/stream streams it like POST /api/query/smart/stream.
  */
-queryRouter.post('/classic', async (req: Request, res: Response) => {
+queryRouter.post(['/classic', '/classic/stream'], async (req: Request, res: Response) => {
     try {
         const { query, k = 3 } = req.body;
         
@@ -289,7 +549,33 @@ queryRouter.post('/classic', async (req: Request, res: Response) => {
             });
         }
         
-        const result = await classicRagQuery(query, k);
+        const filtersValidation = parseFilters(req);
+        if (!filtersValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: filtersValidation.error.errors
+            });
+        }
+        const filters = filtersValidation.data;
+        
+        const pipelineValidation = PipelineSchema.safeParse(req.body);
+        if (!pipelineValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: pipelineValidation.error.errors
+            });
+        }
+        const { generate, expand } = pipelineValidation.data;
+        
+        if (req.path.endsWith('/stream')) {
+            return streamGraphRagQuery(
+                res,
+                (onEvent, signal) => classicRagQuery(query, k, filters, { generate, expand, onEvent, signal }),
+                'Failed to process classic query'
+            );
+        }
+        
+        const result = await classicRagQuery(query, k, filters, { generate, expand });
         
         res.json(result);
         
@@ -310,12 +596,19 @@ queryRouter.post('/classic', async (req: Request, res: Response) => {
  * {
  *   "query": "machine learning regularization",
  *   "k": 5,
- *   "alpha": 0.5  // 0 = BM25 only, 1 = vector only
+ *   "alpha": 0.5,  // 0 = BM25 only, 1 = vector only
+ *   "fusion": "rrf",  // Optional: rrf | minmax | zscore | max (default)
+ *   "rrfK": 60,  // Optional: RRF rank constant
+ *   "metric": "l2",  // Optional: distance metric of the vectors, l2 (default) | l2-unit | cosine
+ *   "weights": { "title": 3, "body": 1 },  // Optional: BM25 column weights
+ *   "filters": { ... }  // Same as POST /api/query
  * }
+ *
+ * Each result has its BM25 and vector rank and raw score next to the normalized scores.
  */
 queryRouter.post('/hybrid', async (req: Request, res: Response) => {
     try {
-        const { query, k = 5, alpha = 0.5 } = req.body;
+        const { query, k = 5 } = req.body;
         
         if (!query || typeof query !== 'string') {
             return res.status(400).json({
@@ -324,8 +617,35 @@ queryRouter.post('/hybrid', async (req: Request, res: Response) => {
             });
         }
         
+        const filtersValidation = parseFilters(req);
+        if (!filtersValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: filtersValidation.error.errors
+            });
+        }
+        const filters = filtersValidation.data;
+        
+        const weightsValidation = FullTextWeightsSchema.safeParse(req.body.weights);
+        if (!weightsValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: weightsValidation.error.errors
+            });
+        }
+        const weights = weightsValidation.data;
+        
+        const optionsValidation = HybridOptionsSchema.safeParse(req.body);
+        if (!optionsValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: optionsValidation.error.errors
+            });
+        }
+        const { alpha, fusion, rrfK, metric } = optionsValidation.data;
+        
         // Generate cache key
-        const cacheKey = `hybrid:${query}:${k}:${alpha}`;
+        const cacheKey = `hybrid:${query}:${k}:${alpha}:${fusion}:${rrfK}:${metric}:${JSON.stringify(weights)}:${JSON.stringify(filters || {})}`;
         
         // Check cache
         const cached = queryResultCache.get(cacheKey);
@@ -333,25 +653,30 @@ queryRouter.post('/hybrid', async (req: Request, res: Response) => {
             return res.json({ ...cached, cached: true });
         }
         
-        // Get BM25 results
-        const bm25Index = getBM25Index();
-        const bm25Results = bm25Index.search(query, k * 2);
+        // Get BM25 results from the full-text index (restricted to sections matching the filters)
+        const bm25Results = await keywordSearch(query, k * 2, filters, weights);
         
         // Get vector results
         const queryEmbedding = await embed(query);
-        const vectorResults = searchKnn(queryEmbedding, k * 2);
+        const vectorResults = searchKnn(queryEmbedding, k * 2, filters || {});
         
         // Combine with hybrid search
         const hybridResults = hybridSearch(
             bm25Results,
             vectorResults.map(r => ({ id: r.node_id, score: r.distance })),
-            { alpha }
+            { alpha, fusion, rrfK, metric }
         );
         
+        // Echo the filters as requested, without the reader groups of the principal
+        const { groups, collections, ...requestFilters } = filters;
+
         const result = {
             query,
             method: 'hybrid',
             alpha,
+            fusion: { method: fusion, ...(fusion === 'rrf' ? { rrfK } : {}), metric },
+            filters: requestFilters,
+            collections,
             results: hybridResults.slice(0, k),
             stats: {
                 bm25Matches: bm25Results.length,
@@ -377,6 +702,14 @@ queryRouter.post('/hybrid', async (req: Request, res: Response) => {
 /**
  * POST /api/query/bm25
  * BM25 text search only (for comparison/debugging)
+ * 
+ * Body:
+ * {
+ *   "query": "\"rate limit\" retr*",      // Words, "phrases" and prefix* terms
+ *   "k": 10,
+ *   "weights": { "title": 3, "body": 1 },  // Optional column weights
+ *   "filters": { ... }                     // Same as POST /api/query
+ * }
  */
 queryRouter.post('/bm25', async (req: Request, res: Response) => {
     try {
@@ -389,14 +722,32 @@ queryRouter.post('/bm25', async (req: Request, res: Response) => {
             });
         }
         
-        const bm25Index = getBM25Index();
-        const results = bm25Index.search(query, k);
+        const filtersValidation = parseFilters(req);
+        if (!filtersValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: filtersValidation.error.errors
+            });
+        }
+        const filters = filtersValidation.data;
+        
+        const weightsValidation = FullTextWeightsSchema.safeParse(req.body.weights);
+        if (!weightsValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: weightsValidation.error.errors
+            });
+        }
+        const weights = weightsValidation.data;
+        
+        const results = await keywordSearch(query, k, filters, weights);
         
         res.json({
             query,
             method: 'bm25',
+            weights,
             results,
-            stats: bm25Index.getStats()
+            stats: getKeywordSearchStats()
         });
         
     } catch (error) {
@@ -0,0 +1,235 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { createSession, getSession, listSessions, deleteSession, getSessionTurns, type Session } from '../../db/sessionStore.js';
+import { askInSession } from '../../conversation.js';
+import { type EdgeType } from '../../db/graphStore.js';
+import { getPrincipal, requireScope } from '../../middleware/index.js';
+import { GenerateSchema, ExpandSchema, parseFilters } from './query.js';
+
+export const sessionsRouter = Router();
+
+// Sessions are conversations over the query routes
+sessionsRouter.use(requireScope('query:read'));
+
+const CreateSessionSchema = z.object({
+    title: z.string().max(200).optional()
+});
+
+const TurnSchema = z.object({
+    query: z.string().min(1, 'query is required'),
+    k: z.number().int().positive().optional().default(3),
+    useGraph: z.boolean().optional().default(true),
+    maxHops: z.number().int().min(1).max(3).optional(),
+    maxNodes: z.number().int().positive().optional(),
+    edgeTypes: z.array(z.string()).optional(),
+    minWeight: z.number().min(0).max(1).optional(),
+    rerank: z.boolean().optional(),
+    rewrite: z.enum(['auto', 'llm', 'rules']).optional(),
+    generate: GenerateSchema,
+    expand: ExpandSchema
+});
+
+/**
+ * Session of a request, if its principal may use it: the owner, or any
+ * request when authentication is disabled. Admins see every session.
+ * Sends a 404 response and returns undefined otherwise.
+ */
+function requestSession(req: Request, res: Response): Session | undefined {
+    const id = req.params.id as string;
+    const session = getSession(id);
+    const principal = getPrincipal(req);
+
+    if (!session || (principal && session.principal !== principal.id && !principal.scopes.includes('admin'))) {
+        res.status(404).json({
+            error: 'Session not found',
+            id
+        });
+        return undefined;
+    }
+
+    return session;
+}
+
+/**
+ * A session as returned by the API: without its owner
+ */
+function sessionResponse({ principal, ...session }: Session) {
+    return session;
+}
+
+/**
+ * GET /api/sessions
+ * List the sessions of the principal (all sessions without authentication), most recently active first
+ */
+sessionsRouter.get('/', (req: Request, res: Response) => {
+    try {
+        const principal = getPrincipal(req);
+        const sessions = principal ? listSessions(principal.id) : listSessions();
+
+        res.json({
+            sessions: sessions.map(sessionResponse),
+            count: sessions.length
+        });
+
+    } catch (error) {
+        console.error('Error listing sessions:', error);
+        res.status(500).json({
+            error: 'Failed to list sessions',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/sessions
+ * Create a session, owned by the principal of the request
+ *
+ * Body:
+ * {
+ *   "title": "Rate limiting questions"   // Optional
+ * }
+ */
+sessionsRouter.post('/', (req: Request, res: Response) => {
+    try {
+        const validation = CreateSessionSchema.safeParse(req.body ?? {});
+
+        if (!validation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: validation.error.errors
+            });
+        }
+
+        // The principal ID is the key's name or "env:<hash prefix>", never the key
+        const session = createSession({ ...validation.data, principal: getPrincipal(req)?.id });
+
+        res.status(201).json(sessionResponse(session));
+
+    } catch (error) {
+        console.error('Error creating session:', error);
+        res.status(500).json({
+            error: 'Failed to create session',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * GET /api/sessions/:id
+ * Get a session with its history (every turn, oldest first)
+ */
+sessionsRouter.get('/:id', (req: Request, res: Response) => {
+    try {
+        const session = requestSession(req, res);
+        if (!session) return;
+
+        res.json({
+            ...sessionResponse(session),
+            history: getSessionTurns(session.id)
+        });
+
+    } catch (error) {
+        console.error('Error loading session:', error);
+        res.status(500).json({
+            error: 'Failed to load session',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * POST /api/sessions/:id/turns
+ * Ask a question in a session. Follow-ups ("what about its limits?") are
+ * rewritten into a standalone query with the previous turns, and the sections
+ * cited by recent turns are carried into the context.
+ *
+ * Body:
+ * {
+ *   "query": "What about its limits?",
+ *   "k": 3,
+ *   "useGraph": true,               // Graph expansion (maxHops, maxNodes, edgeTypes, minWeight as in /api/query/smart)
+ *   "rerank": true,
+ *   "rewrite": "auto",              // auto | llm | rules (default: SESSION_REWRITE)
+ *   "generate": true,               // Same as POST /api/query/smart
+ *   "expand": true,                 // Same as POST /api/query/smart
+ *   "filters": { ... },             // Same as POST /api/query
+ *   "collections": ["team-a"]
+ * }
+ *
+ * Returns the response of /api/query/smart plus the turn number, the
+ * standalone query that was searched, how it was rewritten and the carried sections.
+ */
+sessionsRouter.post('/:id/turns', async (req: Request, res: Response) => {
+    try {
+        const session = requestSession(req, res);
+        if (!session) return;
+
+        const validation = TurnSchema.safeParse(req.body ?? {});
+        if (!validation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: validation.error.errors
+            });
+        }
+
+        const filtersValidation = parseFilters(req);
+        if (!filtersValidation.success) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: filtersValidation.error.errors
+            });
+        }
+
+        const { query, k, useGraph, maxHops, maxNodes, edgeTypes, minWeight, rerank, rewrite, generate, expand } = validation.data;
+
+        const result = await askInSession(session.id, query, {
+            k,
+            expandGraph: useGraph,
+            graphConfig: {
+                maxHops: maxHops ?? 1,
+                maxNodes: maxNodes ?? 10,
+                edgeTypes: (edgeTypes ?? ['SAME_TOPIC', 'REFERS_TO', 'PARENT_OF', 'CHILD_OF']) as EdgeType[],
+                minWeight: minWeight ?? 0.75
+            },
+            rerank,
+            rewrite,
+            generate,
+            expand,
+            filters: filtersValidation.data
+        });
+
+        res.status(201).json(result);
+
+    } catch (error) {
+        console.error('Error processing session turn:', error);
+        res.status(500).json({
+            error: 'Failed to process session turn',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * DELETE /api/sessions/:id
+ * Delete a session and its history
+ */
+sessionsRouter.delete('/:id', (req: Request, res: Response) => {
+    try {
+        const session = requestSession(req, res);
+        if (!session) return;
+
+        deleteSession(session.id);
+
+        res.json({
+            success: true,
+            id: session.id
+        });
+
+    } catch (error) {
+        console.error('Error deleting session:', error);
+        res.status(500).json({
+            error: 'Failed to delete session',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
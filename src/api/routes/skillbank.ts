@@ -18,6 +18,7 @@ import {
 } from '../../skills/store/unifiedStore.js';
 import { embed } from '../../embeddings/index.js';
 import { Tool, Skill } from '../../skills/types.js';
+import { requireScope } from '../../middleware/index.js';
 
 const router = Router();
 
@@ -25,7 +26,7 @@ const router = Router();
 // DISCOVER - Buscar tools/skills
 // ============================================================================
 
-router.post('/discover', async (req, res) => {
+router.post('/discover', requireScope('query:read'), async (req, res) => {
   try {
     const {
       query,
@@ -62,7 +63,7 @@ router.post('/discover', async (req, res) => {
 // EXECUTE - Ejecutar tool/skill
 // ============================================================================
 
-router.post('/execute', async (req, res) => {
+router.post('/execute', requireScope('skillbank:execute'), async (req, res) => {
   try {
     const {
       targetId,
@@ -103,7 +104,7 @@ router.post('/execute', async (req, res) => {
 // TOOLS - CRUD
 // ============================================================================
 
-router.get('/tools', (req, res) => {
+router.get('/tools', requireScope('query:read'), (req, res) => {
   try {
     const tools = skillBank.listTools();
     res.json({
@@ -118,7 +119,7 @@ router.get('/tools', (req, res) => {
   }
 });
 
-router.get('/tools/:id', (req, res) => {
+router.get('/tools/:id', requireScope('query:read'), (req, res) => {
   try {
     const tool = skillBank.getTool(req.params.id);
     
@@ -137,7 +138,7 @@ router.get('/tools/:id', (req, res) => {
   }
 });
 
-router.post('/tools', async (req, res) => {
+router.post('/tools', requireScope('admin'), async (req, res) => {
   try {
     const toolData = req.body as Tool;
     
@@ -168,7 +169,7 @@ router.post('/tools', async (req, res) => {
   }
 });
 
-router.delete('/tools/:id', (req, res) => {
+router.delete('/tools/:id', requireScope('admin'), (req, res) => {
   try {
     deleteEntity(req.params.id);
     res.json({
@@ -186,7 +187,7 @@ router.delete('/tools/:id', (req, res) => {
 // SKILLS - CRUD
 // ============================================================================
 
-router.get('/skills', (req, res) => {
+router.get('/skills', requireScope('query:read'), (req, res) => {
   try {
     const skills = skillBank.listSkills();
     res.json({
@@ -201,7 +202,7 @@ router.get('/skills', (req, res) => {
   }
 });
 
-router.get('/skills/:id', (req, res) => {
+router.get('/skills/:id', requireScope('query:read'), (req, res) => {
   try {
     const skill = skillBank.getSkill(req.params.id);
     
@@ -220,7 +221,7 @@ router.get('/skills/:id', (req, res) => {
   }
 });
 
-router.post('/skills', async (req, res) => {
+router.post('/skills', requireScope('admin'), async (req, res) => {
   try {
     const skillData = req.body as Skill;
     
@@ -252,7 +253,7 @@ router.post('/skills', async (req, res) => {
   }
 });
 
-router.delete('/skills/:id', (req, res) => {
+router.delete('/skills/:id', requireScope('admin'), (req, res) => {
   try {
     deleteEntity(req.params.id);
     res.json({
@@ -270,7 +271,7 @@ router.delete('/skills/:id', (req, res) => {
 // GRAPH - Grafo de relaciones
 // ============================================================================
 
-router.get('/graph/stats', (req, res) => {
+router.get('/graph/stats', requireScope('query:read'), (req, res) => {
   try {
     const stats = getGraphStats();
     res.json(stats);
@@ -282,7 +283,7 @@ router.get('/graph/stats', (req, res) => {
   }
 });
 
-router.post('/graph/link', (req, res) => {
+router.post('/graph/link', requireScope('admin'), (req, res) => {
   try {
     const { fromId, toId, type, weight = 1.0, metadata } = req.body;
     
@@ -312,7 +313,7 @@ router.post('/graph/link', (req, res) => {
   }
 });
 
-router.get('/graph/edges/from/:id', (req, res) => {
+router.get('/graph/edges/from/:id', requireScope('query:read'), (req, res) => {
   try {
     const edges = getEdgesFrom(req.params.id);
     res.json({
@@ -328,7 +329,7 @@ router.get('/graph/edges/from/:id', (req, res) => {
   }
 });
 
-router.get('/graph/edges/to/:id', (req, res) => {
+router.get('/graph/edges/to/:id', requireScope('query:read'), (req, res) => {
   try {
     const edges = getEdgesTo(req.params.id);
     res.json({
@@ -6,6 +6,9 @@ import { config, validateConfig } from '../config.js';
 import { indexRouter } from './routes/index.js';
 import { queryRouter } from './routes/query.js';
 import { docsRouter } from './routes/docs.js';
+import { collectionsRouter } from './routes/collections.js';
+import { keysRouter } from './routes/keys.js';
+import { sessionsRouter } from './routes/sessions.js';
 import { healthRouter } from './routes/health.js';
 import graphRouter from './routes/graph.js';
 import monitoringRouter, { recordRequest } from './routes/monitoring.js';
@@ -13,6 +16,9 @@ import skillbankRouter from './routes/skillbank.js';
 import analyticsRouter from './routes/analytics.js';
 import { rateLimitPresets, initAuth, authenticate, getAuthStatus, getRateLimitStats } from '../middleware/index.js';
 import { getAllCacheStats } from '../cache/queryCache.js';
+import { loadConfiguredSynonyms } from '../analyzers/index.js';
+import { migrateIndexedJsonDocuments } from '../cli/migrateDocumentStore.js';
+import { backfillFullTextIndex } from '../search/fullText.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -28,12 +34,12 @@ export function createApp(): Express {
     app.use(express.json({ limit: '10mb' }));
     app.use(express.urlencoded({ extended: true }));
     
-    // Rate limiting (relaxed for health checks)
-    app.use(rateLimitPresets.relaxed());
-    
-    // Authentication (can be enabled via API_KEYS env var)
+    // Authentication (enabled by API_KEYS, AUTH_ENABLED or a stored API key)
     app.use(authenticate);
     
+    // Rate limiting per API key, or per IP for anonymous requests (relaxed for health checks)
+    app.use(rateLimitPresets.relaxed());
+    
     // Serve static files from public directory
     app.use(express.static(path.join(__dirname, '../../public')));
 
@@ -55,6 +61,9 @@ export function createApp(): Express {
     app.use('/api/index', indexRouter);
     app.use('/api/query', queryRouter);
     app.use('/api/docs', docsRouter);
+    app.use('/api/collections', collectionsRouter);
+    app.use('/api/keys', keysRouter);
+    app.use('/api/sessions', sessionsRouter);
     app.use('/api/graph', graphRouter);
     app.use('/api/monitoring', monitoringRouter);
     app.use('/api/skillbank', skillbankRouter);
@@ -91,6 +100,9 @@ export function createApp(): Express {
                     query: '/api/query',
                     querySmartGraph: '/api/query/smart',
                     docs: '/api/docs',
+                    collections: '/api/collections',
+                    keys: '/api/keys',
+                    sessions: '/api/sessions',
                     graph: '/api/graph',
                     skillbank: '/api/skillbank'
                 }
@@ -127,6 +139,32 @@ export async function startServer(): Promise<void> {
         process.exit(1);
     }
 
+    // Synonyms of keyword search (SEARCH_SYNONYMS_PATH)
+    try {
+        loadConfiguredSynonyms();
+    } catch (error) {
+        console.error(`❌ Failed to load synonyms: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+    }
+
+    // Documents indexed into JSON_PATH before the SQLite document store
+    try {
+        const migration = await migrateIndexedJsonDocuments();
+        if (migration && migration.migrated > 0) {
+            console.log(`📦 Migrated ${migration.migrated} document(s) from ${config.db.jsonPath} to the SQLite document store`);
+        }
+    } catch (error) {
+        console.error(`❌ Failed to migrate documents from ${config.db.jsonPath}: ${error instanceof Error ? error.message : error}`);
+        console.error('   Run src/cli/migrateDocumentStore.ts, or set DOCUMENT_STORE=json to keep using the JSON store.');
+        process.exit(1);
+    }
+
+    // Full-text entries of sections indexed before the full-text index existed
+    const backfilled = await backfillFullTextIndex();
+    if (backfilled > 0) {
+        console.log(`🔎 Added ${backfilled} section(s) to the full-text index`);
+    }
+
     const app = createApp();
     const { port, host } = config.api;
 
@@ -143,6 +181,7 @@ export async function startServer(): Promise<void> {
         console.log(`   - GET  /health`);
         console.log(`   - POST /api/query/smart ⭐ (graph-aware RAG)`);
         console.log(`   - POST /api/query/classic (baseline)`);
+        console.log(`   - POST /api/sessions/:id/turns (conversations)`);
         console.log(`   - POST /api/graph/extract-entities (NER)`);
         console.log(`   - GET  /api/graph/stats`);
         console.log(`   - GET  /api/docs`);
@@ -0,0 +1,88 @@
+import { config } from './config.js';
+
+/**
+ * Chunking options, in tokens
+ */
+export interface ChunkOptions {
+    maxTokens: number;     // Max tokens per chunk (0 disables chunking)
+    overlapTokens: number; // Tokens repeated at the start of the next chunk
+}
+
+export interface TextChunk {
+    index: number;
+    text: string;
+    startToken: number; // Inclusive
+    endToken: number;   // Exclusive
+}
+
+// Word pieces and individual punctuation marks. This over-counts slightly
+// compared to BPE tokenizers, which keeps chunks safely under provider limits.
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+// Long words are split by BPE tokenizers; count one token per this many characters
+const MAX_TOKEN_CHARS = 8;
+
+interface Token {
+    start: number;
+    end: number;
+}
+
+/**
+ * Splits text into approximate tokens with their character offsets
+ */
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const start = match.index!;
+        const length = match[0].length;
+
+        // Split long words into several tokens
+        for (let offset = 0; offset < length; offset += MAX_TOKEN_CHARS) {
+            tokens.push({ start: start + offset, end: start + Math.min(length, offset + MAX_TOKEN_CHARS) });
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Estimates the number of tokens in a text
+ */
+export function countTokens(text: string): number {
+    return tokenize(text).length;
+}
+
+/**
+ * Splits text into overlapping chunks of at most `maxTokens` tokens.
+ * Chunks are slices of the original text, so formatting is preserved.
+ * Text that fits (or chunking disabled) is returned as a single chunk.
+ */
+export function chunkText(text: string, options: ChunkOptions = config.chunking): TextChunk[] {
+    const tokens = tokenize(text);
+    const { maxTokens } = options;
+
+    if (maxTokens <= 0 || tokens.length <= maxTokens) {
+        return [{ index: 0, text, startToken: 0, endToken: tokens.length }];
+    }
+
+    // Overlap must leave room to advance
+    const overlap = Math.min(Math.max(0, options.overlapTokens), maxTokens - 1);
+    const step = maxTokens - overlap;
+    const chunks: TextChunk[] = [];
+
+    for (let start = 0; start < tokens.length; start += step) {
+        const end = Math.min(tokens.length, start + maxTokens);
+
+        chunks.push({
+            index: chunks.length,
+            text: text.slice(tokens[start].start, tokens[end - 1].end),
+            startToken: start,
+            endToken: end
+        });
+
+        if (end === tokens.length) break;
+    }
+
+    return chunks;
+}
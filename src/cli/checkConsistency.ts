@@ -0,0 +1,285 @@
+#!/usr/bin/env node
+import { getAllDocuments, allowedGroupsJson, Document } from '../db/documentStore.js';
+import { getVectorDb, deleteSection, SectionRow, getEmbeddingSpace, listEmbeddingSpaces, vectorTableName, resetDerivedVectorTables, hasFullTextIndex } from '../db/vectorStore.js';
+import { deleteNodeEdges, deleteEdge, EdgeType } from '../db/graphStore.js';
+import { syncDocument, calculateHash, buildStructuralEdges } from '../indexer.js';
+import { documentLanguage, sectionTextTerms, writeSectionText } from '../search/fullText.js';
+
+export type ConsistencyIssueType =
+    | 'missing_row'       // Node in the document store without a vector row
+    | 'stale_row'         // Vector row whose hash, metadata, access labels, document or embedding space differs from the stored node
+    | 'orphan_row'        // Vector row for a node that no stored document contains
+    | 'orphan_vector'     // Vector (section or chunk) without a row pointing to it
+    | 'missing_edge'      // Structural edge of a stored document that is not in the graph
+    | 'dangling_edge'     // Edge pointing to a node that no longer exists
+    | 'missing_text'      // Vector row without a full-text entry
+    | 'stale_text'        // Full-text entry whose language or terms differ from the stored node (or duplicated)
+    | 'orphan_text';      // Full-text entry for a node that neither a document nor a row contains
+
+export interface ConsistencyIssue {
+    type: ConsistencyIssueType;
+    docId?: string;
+    nodeId?: string;
+    detail: string;
+}
+
+export interface ConsistencyReport {
+    documents: number;
+    sections: number;
+    edges: number;
+    issues: ConsistencyIssue[];
+    repaired: boolean;
+}
+
+/**
+ * Compare the document store with the vector rows, full-text entries and graph edges.
+ *
+ * With `repair`, documents with missing or stale rows (or missing structural
+ * edges) are re-synced, missing and stale full-text entries are rewritten,
+ * orphan rows, vectors and full-text entries are deleted and dangling edges
+ * are removed. The document store is treated as the source of truth.
+ *
+ * @param options.repair - Fix the detected drift (default: false)
+ */
+export async function checkConsistency(options: { repair?: boolean } = {}): Promise<ConsistencyReport> {
+    const { repair = false } = options;
+    const documents = await getAllDocuments();
+    const vectorDb = getVectorDb();
+
+    const issues: ConsistencyIssue[] = [];
+    const docsToSync = new Set<Document>();
+
+    const rows = vectorDb.prepare('SELECT node_id, doc_id, hash, metadata, space_id, allowed_groups FROM sections').all() as SectionRow[];
+    const spaceId = getEmbeddingSpace()?.id;
+    const rowsById = new Map(rows.map(row => [row.node_id, row]));
+    const knownNodes = new Set<string>();
+    const resyncedNodes = new Set<string>();
+
+    // 1. Every node of every stored document has an up-to-date row
+    for (const doc of documents) {
+        const metadataJson = doc.metadata ? JSON.stringify(doc.metadata) : null;
+        const aclJson = allowedGroupsJson(doc);
+
+        const visit = (node: Document['root']) => {
+            knownNodes.add(node.id);
+            const row = rowsById.get(node.id);
+            const issueCount = issues.length;
+
+            if (!row) {
+                issues.push({ type: 'missing_row', docId: doc.docId, nodeId: node.id, detail: 'Node has no vector row' });
+                docsToSync.add(doc);
+            } else if (row.doc_id !== doc.docId) {
+                issues.push({ type: 'stale_row', docId: doc.docId, nodeId: node.id, detail: `Row belongs to document ${row.doc_id}` });
+                docsToSync.add(doc);
+            } else if (row.hash !== calculateHash(node)) {
+                issues.push({ type: 'stale_row', docId: doc.docId, nodeId: node.id, detail: 'Row hash does not match the node content' });
+                docsToSync.add(doc);
+            } else if ((row.metadata ?? null) !== metadataJson) {
+                issues.push({ type: 'stale_row', docId: doc.docId, nodeId: node.id, detail: 'Row metadata does not match the document' });
+                docsToSync.add(doc);
+            } else if ((row.allowed_groups ?? null) !== aclJson) {
+                issues.push({ type: 'stale_row', docId: doc.docId, nodeId: node.id, detail: 'Row access labels do not match the document' });
+                docsToSync.add(doc);
+            } else if (row.space_id !== spaceId) {
+                issues.push({ type: 'stale_row', docId: doc.docId, nodeId: node.id, detail: 'Row vector is not in the embedding space of the configured model' });
+                docsToSync.add(doc);
+            }
+
+            if (issues.length > issueCount) resyncedNodes.add(node.id);
+
+            node.children.forEach(visit);
+        };
+        visit(doc.root);
+    }
+
+    // 2. No rows for nodes that are not stored
+    const orphanRows = rows.filter(row => !knownNodes.has(row.node_id));
+    for (const row of orphanRows) {
+        issues.push({ type: 'orphan_row', docId: row.doc_id, nodeId: row.node_id, detail: 'No stored document contains this node' });
+    }
+
+    // 3. No vectors left behind by replaced or deleted rows, in any embedding space
+    const orphanSectionVectors: Array<{ table: string; rowid: number }> = [];
+    const orphanChunkVectors: Array<{ table: string; rowid: number }> = [];
+    for (const space of listEmbeddingSpaces()) {
+        for (const [kind, owners, orphans] of [
+            ['sections', 'sections', orphanSectionVectors],
+            ['chunks', 'section_chunks', orphanChunkVectors]
+        ] as const) {
+            const table = vectorTableName(kind, space.id);
+            const rowids = vectorDb
+                .prepare(`SELECT rowid FROM ${table} WHERE rowid NOT IN (SELECT rowid FROM ${owners} WHERE space_id = ?)`)
+                .pluck().all(space.id) as number[];
+            orphans.push(...rowids.map(rowid => ({ table, rowid })));
+        }
+    }
+    const orphanChunkRows = vectorDb
+        .prepare('SELECT rowid FROM section_chunks WHERE node_id NOT IN (SELECT node_id FROM sections)')
+        .pluck().all() as number[];
+
+    const orphanVectorCount = orphanSectionVectors.length + orphanChunkVectors.length + orphanChunkRows.length;
+    if (orphanVectorCount > 0) {
+        issues.push({
+            type: 'orphan_vector',
+            detail: `${orphanSectionVectors.length} section vector(s), ${orphanChunkRows.length} chunk row(s) and ${orphanChunkVectors.length} chunk vector(s) without an owner`
+        });
+    }
+
+    // 4. Edges: structural edges match the stored trees, no edge points to a missing node
+    const edges = vectorDb.prepare('SELECT from_node_id, to_node_id, type FROM edges').all() as Array<{ from_node_id: string; to_node_id: string; type: EdgeType }>;
+    const edgeKey = (from: string, to: string, type: string) => `${type}\u0000${from}\u0000${to}`;
+    const existingEdges = new Set(edges.map(e => edgeKey(e.from_node_id, e.to_node_id, e.type)));
+
+    for (const doc of documents) {
+        const missing = buildStructuralEdges(doc)
+            .filter(e => !existingEdges.has(edgeKey(e.from_node_id, e.to_node_id, e.type)));
+        if (missing.length > 0) {
+            issues.push({ type: 'missing_edge', docId: doc.docId, detail: `${missing.length} structural edge(s) missing` });
+            docsToSync.add(doc);
+        }
+    }
+
+    // Concept nodes ("concept:...") only exist as edge endpoints
+    const isKnownEndpoint = (id: string) => knownNodes.has(id) || id.startsWith('concept:');
+    const danglingEdges = edges.filter(e => !isKnownEndpoint(e.from_node_id) || !isKnownEndpoint(e.to_node_id));
+    for (const edge of danglingEdges) {
+        issues.push({
+            type: 'dangling_edge',
+            nodeId: isKnownEndpoint(edge.from_node_id) ? edge.to_node_id : edge.from_node_id,
+            detail: `${edge.type} ${edge.from_node_id} -> ${edge.to_node_id}`
+        });
+    }
+
+    // 5. Full-text entries match the stored nodes (an interrupted backfill leaves gaps)
+    const textsToWrite: Array<{ node: Document['root']; language: string }> = [];
+    const orphanTexts: string[] = [];
+    if (hasFullTextIndex()) {
+        const entries = new Map<string, Array<{ language: string; title: string; body: string }>>();
+        for (const entry of vectorDb.prepare('SELECT node_id, language, title, body FROM sections_fts').all() as Array<{ node_id: string; language: string; title: string; body: string }>) {
+            entries.set(entry.node_id, [...(entries.get(entry.node_id) ?? []), entry]);
+        }
+
+        for (const doc of documents) {
+            const language = documentLanguage(doc);
+            const visit = (node: Document['root']) => {
+                // Nodes with a missing or stale row are re-synced, which rewrites their entry
+                if (!resyncedNodes.has(node.id)) {
+                    const found = entries.get(node.id) ?? [];
+                    const expected = sectionTextTerms(node, language);
+
+                    if (found.length === 0) {
+                        issues.push({ type: 'missing_text', docId: doc.docId, nodeId: node.id, detail: 'Row has no full-text entry' });
+                        textsToWrite.push({ node, language });
+                    } else if (found.length > 1) {
+                        issues.push({ type: 'stale_text', docId: doc.docId, nodeId: node.id, detail: `${found.length} full-text entries` });
+                        textsToWrite.push({ node, language });
+                    } else if (found[0].language !== language || found[0].title !== expected.title || found[0].body !== expected.body) {
+                        issues.push({ type: 'stale_text', docId: doc.docId, nodeId: node.id, detail: 'Full-text entry does not match the node content or language' });
+                        textsToWrite.push({ node, language });
+                    }
+                }
+                node.children.forEach(visit);
+            };
+            visit(doc.root);
+        }
+
+        for (const nodeId of entries.keys()) {
+            // Entries of orphan rows are deleted with the row
+            if (!knownNodes.has(nodeId) && !rowsById.has(nodeId)) {
+                issues.push({ type: 'orphan_text', nodeId, detail: 'Full-text entry for an unknown node' });
+                orphanTexts.push(nodeId);
+            }
+        }
+    }
+
+    if (repair && issues.length > 0) {
+        const transaction = vectorDb.transaction(() => {
+            for (const row of orphanRows) {
+                deleteSection(row.node_id);
+                deleteNodeEdges(row.node_id);
+            }
+
+            const deleteText = vectorDb.prepare('DELETE FROM sections_fts WHERE node_id = ?');
+            orphanTexts.forEach(nodeId => deleteText.run(nodeId));
+            for (const { node, language } of textsToWrite) {
+                writeSectionText(node, language);
+            }
+
+            const deleteVector = ({ table, rowid }: { table: string; rowid: number }) =>
+                vectorDb.prepare(`DELETE FROM ${table} WHERE rowid = ?`).run(BigInt(rowid));
+            const deleteChunkRow = vectorDb.prepare('DELETE FROM section_chunks WHERE rowid = ? RETURNING space_id');
+            orphanSectionVectors.forEach(deleteVector);
+            orphanChunkRows.forEach(rowid => {
+                const chunk = deleteChunkRow.get(rowid) as { space_id: number | null } | undefined;
+                if (chunk?.space_id != null) {
+                    deleteVector({ table: vectorTableName('chunks', chunk.space_id), rowid });
+                }
+            });
+            orphanChunkVectors.forEach(deleteVector);
+
+            for (const edge of danglingEdges) {
+                deleteEdge(edge.from_node_id, edge.to_node_id, edge.type);
+            }
+        });
+        transaction();
+
+        // Quantized copies and prefix indexes are rebuilt without the removed vectors
+        if (orphanVectorCount > 0) {
+            listEmbeddingSpaces().forEach(space => resetDerivedVectorTables(space.id));
+        }
+
+        for (const doc of docsToSync) {
+            await syncDocument(doc);
+        }
+    }
+
+    return {
+        documents: documents.length,
+        sections: rows.length,
+        edges: edges.length,
+        issues,
+        repaired: repair && issues.length > 0
+    };
+}
+
+// CLI usage - run if this file is being executed directly
+async function main() {
+    const args = process.argv.slice(2);
+    const repair = args.includes('--repair');
+
+    console.log(`\n🔍 Checking consistency between the document store, vector rows, full-text index and graph edges...\n`);
+
+    const report = await checkConsistency({ repair });
+
+    console.log(`   Documents: ${report.documents}`);
+    console.log(`   Vector rows: ${report.sections}`);
+    console.log(`   Edges: ${report.edges}\n`);
+
+    if (report.issues.length === 0) {
+        console.log('✅ Stores are consistent\n');
+        return;
+    }
+
+    const counts = new Map<ConsistencyIssueType, number>();
+    for (const issue of report.issues) {
+        counts.set(issue.type, (counts.get(issue.type) ?? 0) + 1);
+        console.log(`   ⚠️  [${issue.type}] ${[issue.docId, issue.nodeId].filter(Boolean).join(' / ')} ${issue.detail}`);
+    }
+
+    console.log(`\n   Issues: ${[...counts].map(([type, count]) => `${type}=${count}`).join(', ')}`);
+
+    if (report.repaired) {
+        console.log('\n🔧 Repaired. Run the check again to confirm.\n');
+    } else {
+        console.log('\n   Run with --repair to fix them.\n');
+        process.exitCode = 1;
+    }
+}
+
+// Check if running as main module
+if (import.meta.url.endsWith(process.argv[1].replace(/\\/g, '/'))) {
+    main().catch(error => {
+        console.error('\nFatal error:', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+import { createApiKey, SCOPES, type Scope } from '../db/apiKeyStore.js';
+
+// CLI usage - run if this file is being executed directly
+async function main() {
+    const args = process.argv.slice(2);
+    const name = args.find(arg => !arg.startsWith('--'));
+    const option = (flag: string) => args.find(arg => arg.startsWith(`--${flag}=`))?.split('=')[1];
+    const list = (flag: string) => option(flag)?.split(',').map(value => value.trim()).filter(Boolean);
+
+    if (!name) {
+        console.log(`
+Usage: npx tsx src/cli/createApiKey.ts <name> [options]
+
+Create a stored API key. Use it to create the first key while authentication
+is disabled; the key is only printed once.
+
+Options:
+  --scopes=admin            Comma-separated scopes (default: admin; valid: ${SCOPES.join(', ')})
+  --groups=finance,hr       Document ACL groups
+  --quota=1000              Requests per UTC day
+  --expires-in-days=90      Expiry
+`);
+        process.exit(1);
+    }
+
+    const quota = option('quota');
+    const expiresInDays = option('expires-in-days');
+
+    const { key, apiKey } = createApiKey({
+        name,
+        scopes: (list('scopes') ?? ['admin']) as Scope[],
+        groups: list('groups'),
+        quota: quota ? parseInt(quota, 10) : undefined,
+        expiresAt: expiresInDays ? new Date(Date.now() + parseFloat(expiresInDays) * 24 * 60 * 60 * 1000) : undefined
+    });
+
+    console.log(`\n🔑 Created API key ${apiKey.id} for "${apiKey.name}" (${apiKey.scopes.join(', ')})`);
+    console.log(`\n   ${key}\n`);
+    console.log(`   Store it now: it cannot be retrieved later. Restart the server to enable authentication.\n`);
+}
+
+// Check if running as main module
+if (import.meta.url.endsWith(process.argv[1].replace(/\\/g, '/'))) {
+    main().catch(error => {
+        console.error('\nFatal error:', error);
+        process.exit(1);
+    });
+}
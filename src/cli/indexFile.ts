@@ -1,16 +1,20 @@
 #!/usr/bin/env node
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import { parseMarkdownFile } from '../markdownParser.js';
-import { saveDocument, Document } from '../db/jsonStore.js';
-import { syncDocument } from '../indexer.js';
+import { parseDocumentFile, getParserForFile, listParsers } from '../parsers/index.js';
+import { buildNodesMap, Document } from '../db/documentStore.js';
+import { indexDocument } from '../indexer.js';
+import { transliterate } from '../slug.js';
 
 /**
- * Index a markdown file from the filesystem
- * @param filePath - Path to the markdown file
+ * Index a document file from the filesystem.
+ * The parser is picked by file extension (markdown, HTML, rst, AsciiDoc, notebooks);
+ * unknown extensions are parsed as markdown.
+ * @param filePath - Path to the document
  * @param docId - Optional custom document ID (defaults to filename without extension)
+ * @param collection - Collection to index into (default: the default collection)
  */
-export async function indexMarkdownFile(filePath: string, docId?: string): Promise<void> {
+export async function indexDocumentFile(filePath: string, docId?: string, collection?: string): Promise<void> {
     try {
         // Check if file exists
         const stats = await fs.stat(filePath);
@@ -20,29 +24,16 @@ export async function indexMarkdownFile(filePath: string, docId?: string): Promi
 
         // Generate docId from filename if not provided
         const fileName = path.basename(filePath, path.extname(filePath));
-        const documentId = docId || fileName.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+        const documentId = docId || transliterate(fileName).toLowerCase().replace(/[^\p{L}\p{N}-]/gu, '-');
 
         console.log(`\n📄 Indexing file: ${filePath}`);
         console.log(`🆔 Document ID: ${documentId}\n`);
 
-        // Parse the markdown file
-        const root = await parseMarkdownFile(filePath);
+        // Parse the file with the parser registered for its extension
+        const root = await parseDocumentFile(filePath, { docId: documentId });
 
-        // Build nodes map
-        const nodes: Document['nodes'] = {};
-
-        function buildNodesMap(node: typeof root, parentId: string | null = null) {
-            nodes[node.id] = {
-                id: node.id,
-                parentId,
-                childrenIds: node.children.map(c => c.id),
-                level: node.level
-            };
-
-            node.children.forEach(child => buildNodesMap(child, node.id));
-        }
-
-        buildNodesMap(root);
+        // Build nodes map for efficient navigation
+        const nodes = buildNodesMap(root);
 
         // Create document
         const doc: Document = {
@@ -50,15 +41,13 @@ export async function indexMarkdownFile(filePath: string, docId?: string): Promi
             title: root.title,
             version: 1,
             root,
-            nodes
+            nodes,
+            metadata: root.metadata,
+            collection
         };
 
-        // Save to JSON store
-        await saveDocument(doc);
-        console.log(`💾 Saved to JSON store`);
-
-        // Sync to vector store
-        await syncDocument(doc);
+        // Save to the JSON store and sync to the vector store (rolled back on failure)
+        await indexDocument(doc);
 
         console.log(`\n✅ Successfully indexed document:`);
         console.log(`   Title: ${doc.title}`);
@@ -72,10 +61,16 @@ export async function indexMarkdownFile(filePath: string, docId?: string): Promi
 }
 
 /**
- * Index all markdown files in a directory
- * @param dirPath - Path to directory containing markdown files
+ * @deprecated Use indexDocumentFile (accepts every registered format)
  */
-export async function indexDirectory(dirPath: string): Promise<void> {
+export const indexMarkdownFile = indexDocumentFile;
+
+/**
+ * Index all supported documents in a directory
+ * @param dirPath - Path to directory containing documents
+ * @param collection - Collection to index into (default: the default collection)
+ */
+export async function indexDirectory(dirPath: string, collection?: string): Promise<void> {
     try {
         const stats = await fs.stat(dirPath);
         if (!stats.isDirectory()) {
@@ -83,23 +78,21 @@ export async function indexDirectory(dirPath: string): Promise<void> {
         }
 
         const files = await fs.readdir(dirPath);
-        const markdownFiles = files.filter(f => 
-            f.endsWith('.md') || f.endsWith('.markdown')
-        );
+        const documentFiles = files.filter(f => getParserForFile(f) !== undefined);
 
-        if (markdownFiles.length === 0) {
-            console.log(`No markdown files found in ${dirPath}`);
+        if (documentFiles.length === 0) {
+            console.log(`No supported documents found in ${dirPath}`);
             return;
         }
 
-        console.log(`\n📁 Found ${markdownFiles.length} markdown file(s) in ${dirPath}\n`);
+        console.log(`\n📁 Found ${documentFiles.length} document(s) in ${dirPath}\n`);
 
-        for (const file of markdownFiles) {
+        for (const file of documentFiles) {
             const filePath = path.join(dirPath, file);
-            await indexMarkdownFile(filePath);
+            await indexDocumentFile(filePath, undefined, collection);
         }
 
-        console.log(`\n✅ Indexed all ${markdownFiles.length} file(s)\n`);
+        console.log(`\n✅ Indexed all ${documentFiles.length} file(s)\n`);
 
     } catch (error) {
         console.error(`\n❌ Error indexing directory:`, error);
@@ -109,7 +102,9 @@ export async function indexDirectory(dirPath: string): Promise<void> {
 
 // CLI usage - run if this file is being executed directly
 async function main() {
-    const args = process.argv.slice(2);
+    const collectionArg = process.argv.slice(2).find(arg => arg.startsWith('--collection='));
+    const collection = collectionArg?.split('=')[1];
+    const args = process.argv.slice(2).filter(arg => arg !== collectionArg);
 
     if (args.length === 0) {
         console.log(`
@@ -120,10 +115,18 @@ Usage:
   Index a directory:
     tsx src/cli/indexFile.ts --dir <directory-path>
 
+  Index into a collection (created beforehand with POST /api/collections):
+    tsx src/cli/indexFile.ts <file-path> --collection=<name>
+
 Examples:
   tsx src/cli/indexFile.ts ./docs/guide.md
   tsx src/cli/indexFile.ts ./docs/guide.md custom-doc-id
+  tsx src/cli/indexFile.ts ./docs/api.html
   tsx src/cli/indexFile.ts --dir ./docs
+  tsx src/cli/indexFile.ts --dir ./docs --collection=team-a
+
+Supported formats:
+${listParsers().map(p => `  ${p.name.padEnd(10)} ${p.extensions.join(', ')}`).join('\n')}
         `);
         process.exit(1);
     }
@@ -133,11 +136,11 @@ Examples:
             console.error('Error: Directory path required');
             process.exit(1);
         }
-        await indexDirectory(args[1]);
+        await indexDirectory(args[1], collection);
     } else {
         const filePath = args[0];
         const docId = args[1];
-        await indexMarkdownFile(filePath, docId);
+        await indexDocumentFile(filePath, docId, collection);
     }
 }
 
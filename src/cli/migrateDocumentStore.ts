@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+import fs from 'node:fs/promises';
+import { config } from '../config.js';
+import type { Data } from '../db/jsonStore.js';
+import { sqliteDocumentStore } from '../db/sqliteDocumentStore.js';
+import { getDocNodeIds } from '../db/vectorStore.js';
+
+export interface DocumentStoreMigrationResult {
+    found: number;
+    migrated: number;
+    skipped: number;
+}
+
+/**
+ * Copy the documents of a lowdb JSON file into the SQLite document store.
+ *
+ * Documents already in the SQLite store are skipped unless `overwrite` is set,
+ * so the migration can be re-run safely. The JSON file is left untouched.
+ *
+ * @param options.jsonPath - JSON file to read (default: JSON_PATH)
+ * @param options.overwrite - Replace documents that already exist in SQLite (default: false)
+ * @param options.indexedOnly - Skip documents without indexed sections (default: false)
+ */
+export async function migrateJsonDocuments(
+    options: { jsonPath?: string; overwrite?: boolean; indexedOnly?: boolean } = {}
+): Promise<DocumentStoreMigrationResult> {
+    const { jsonPath = config.db.jsonPath, overwrite = false, indexedOnly = false } = options;
+
+    let data: Data;
+    try {
+        data = JSON.parse(await fs.readFile(jsonPath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Cannot read JSON document store ${jsonPath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const documents = Array.isArray(data.documents) ? data.documents : [];
+    const result: DocumentStoreMigrationResult = { found: documents.length, migrated: 0, skipped: 0 };
+
+    for (const doc of documents) {
+        if (indexedOnly && getDocNodeIds(doc.docId).length === 0) {
+            result.skipped++;
+            continue;
+        }
+        if (!overwrite && await sqliteDocumentStore.loadDocument(doc.docId)) {
+            result.skipped++;
+            continue;
+        }
+
+        await sqliteDocumentStore.saveDocument(doc);
+        result.migrated++;
+    }
+
+    return result;
+}
+
+/**
+ * Startup check for deployments upgraded from the JSON document store.
+ *
+ * With DOCUMENT_STORE=sqlite, documents of JSON_PATH that are still indexed
+ * but missing from the SQLite store are copied over; otherwise search would
+ * return sections whose document cannot be loaded. Documents deleted since
+ * (no indexed sections left) are not brought back.
+ *
+ * @param jsonPath - JSON file to read (default: JSON_PATH)
+ * @returns the migration, or null with DOCUMENT_STORE=json or no JSON file
+ * @throws if the JSON file cannot be read
+ */
+export async function migrateIndexedJsonDocuments(jsonPath = config.db.jsonPath): Promise<DocumentStoreMigrationResult | null> {
+    if (config.db.documentStore !== 'sqlite') return null;
+
+    try {
+        await fs.access(jsonPath);
+    } catch {
+        return null;
+    }
+
+    return migrateJsonDocuments({ jsonPath, indexedOnly: true });
+}
+
+// CLI usage - run if this file is being executed directly
+async function main() {
+    const args = process.argv.slice(2);
+    const overwrite = args.includes('--overwrite');
+    const jsonPath = args.find(arg => !arg.startsWith('--'));
+
+    console.log(`\n📦 Migrating documents from ${jsonPath ?? config.db.jsonPath} to the SQLite document store...\n`);
+
+    const result = await migrateJsonDocuments({ jsonPath, overwrite });
+
+    console.log(`✅ Migration complete:`);
+    console.log(`   Documents found: ${result.found}`);
+    console.log(`   Migrated: ${result.migrated}`);
+    console.log(`   Skipped (already in SQLite): ${result.skipped}\n`);
+
+    if (result.skipped > 0 && !overwrite) {
+        console.log('   Use --overwrite to replace documents that already exist.\n');
+    }
+}
+
+// Check if running as main module
+if (import.meta.url.endsWith(process.argv[1].replace(/\\/g, '/'))) {
+    main().catch(error => {
+        console.error('\nFatal error:', error);
+        process.exit(1);
+    });
+}
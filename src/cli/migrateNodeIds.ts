@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+import { getAllDocuments, saveDocument, buildNodesMap, Document, SectionNode } from '../db/documentStore.js';
+import { getVectorDb } from '../db/vectorStore.js';
+import { assignNodeIds } from '../markdownParser.js';
+import { syncDocument } from '../indexer.js';
+
+export interface NodeIdMigrationResult {
+    documents: number;
+    renamedNodes: number;
+    renamedRows: number;
+    renamedEdges: number;
+}
+
+/**
+ * Re-key stored documents, vector rows and graph edges to document-scoped node IDs.
+ *
+ * Older versions derived section IDs from the title alone, so sections with the
+ * same title (in one document or across documents) shared an ID and overwrote
+ * each other's vector. IDs are recomputed from each stored tree, the existing
+ * rows and edges are renamed, and every document is then re-synced so sections
+ * that lost their vector to a collision get embedded again.
+ *
+ * Running the migration twice is a no-op.
+ *
+ * @param options.sync - Re-sync documents after re-keying (default: true)
+ */
+export async function migrateNodeIds(options: { sync?: boolean } = {}): Promise<NodeIdMigrationResult> {
+    const { sync = true } = options;
+    const documents = await getAllDocuments();
+    const vectorDb = getVectorDb();
+
+    const result: NodeIdMigrationResult = { documents: 0, renamedNodes: 0, renamedRows: 0, renamedEdges: 0 };
+
+    // Edges are not scoped by document: an old ID shared by several documents is
+    // renamed to the ID of the document that owned its vector row
+    const edgeRenames = new Map<string, string>();
+    const rowOwner = vectorDb.prepare('SELECT doc_id FROM sections WHERE node_id = ?').pluck();
+
+    const renameRow = vectorDb.prepare('UPDATE sections SET node_id = ? WHERE node_id = ? AND doc_id = ?');
+    const renameChunks = vectorDb.prepare('UPDATE section_chunks SET node_id = ? WHERE node_id = ?');
+    const renameEdgeFrom = vectorDb.prepare('UPDATE OR REPLACE edges SET from_node_id = ? WHERE from_node_id = ?');
+    const renameEdgeTo = vectorDb.prepare('UPDATE OR REPLACE edges SET to_node_id = ? WHERE to_node_id = ?');
+
+    const renamesByDoc: Array<{ doc: Document; renames: Map<string, string> }> = [];
+
+    for (const doc of documents) {
+        const renames = rekeyDocument(doc);
+        renamesByDoc.push({ doc, renames });
+        result.documents++;
+        result.renamedNodes += renames.size;
+
+        for (const [oldId, newId] of renames) {
+            const owner = rowOwner.get(oldId);
+            if (!edgeRenames.has(oldId) || owner === doc.docId) {
+                edgeRenames.set(oldId, newId);
+            }
+        }
+    }
+
+    const transaction = vectorDb.transaction(() => {
+        for (const { doc, renames } of renamesByDoc) {
+            for (const [oldId, newId] of renames) {
+                const info = renameRow.run(newId, oldId, doc.docId);
+                if (info.changes > 0) {
+                    renameChunks.run(newId, oldId);
+                    result.renamedRows += info.changes;
+                }
+            }
+        }
+
+        for (const [oldId, newId] of edgeRenames) {
+            result.renamedEdges += renameEdgeFrom.run(newId, oldId).changes;
+            result.renamedEdges += renameEdgeTo.run(newId, oldId).changes;
+        }
+    });
+
+    transaction();
+
+    for (const { doc, renames } of renamesByDoc) {
+        if (renames.size > 0) {
+            await saveDocument(doc);
+        }
+    }
+
+    if (sync) {
+        for (const { doc } of renamesByDoc) {
+            await syncDocument(doc);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Recompute the node IDs of a stored document in place.
+ * Returns the renamed IDs (old -> new); the first occurrence wins for IDs that
+ * were duplicated inside the document.
+ */
+function rekeyDocument(doc: Document): Map<string, string> {
+    const oldIds: string[] = [];
+    const collect = (node: SectionNode) => {
+        oldIds.push(node.id);
+        node.children.forEach(collect);
+    };
+    collect(doc.root);
+
+    doc.root.id = doc.docId;
+    assignNodeIds(doc.root, doc.docId);
+
+    const newIds: string[] = [];
+    const collectNew = (node: SectionNode) => {
+        newIds.push(node.id);
+        node.children.forEach(collectNew);
+    };
+    collectNew(doc.root);
+
+    doc.nodes = buildNodesMap(doc.root);
+
+    const renames = new Map<string, string>();
+    oldIds.forEach((oldId, i) => {
+        if (oldId !== newIds[i] && !renames.has(oldId)) {
+            renames.set(oldId, newIds[i]);
+        }
+    });
+
+    return renames;
+}
+
+// CLI usage - run if this file is being executed directly
+async function main() {
+    const args = process.argv.slice(2);
+    const sync = !args.includes('--no-sync');
+
+    console.log('\n🔑 Migrating node IDs to document-scoped IDs...\n');
+
+    const result = await migrateNodeIds({ sync });
+
+    console.log(`\n✅ Migration complete:`);
+    console.log(`   Documents: ${result.documents}`);
+    console.log(`   Renamed nodes: ${result.renamedNodes}`);
+    console.log(`   Renamed vector rows: ${result.renamedRows}`);
+    console.log(`   Renamed edge endpoints: ${result.renamedEdges}\n`);
+
+    if (!sync) {
+        console.log('   Skipped re-sync (--no-sync): re-index documents to embed sections lost to ID collisions.\n');
+    }
+}
+
+// Check if running as main module
+if (import.meta.url.endsWith(process.argv[1].replace(/\\/g, '/'))) {
+    main().catch(error => {
+        console.error('\nFatal error:', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+import { getVectorDb, ensureEmbeddingSpace, hasLegacyVectorTables, vectorTableName, resetDerivedVectorTables } from '../db/vectorStore.js';
+import { getEmbeddingSpaceName } from '../embeddings/index.js';
+
+export interface VectorSpaceMigrationResult {
+    model: string;
+    dimensions: number;
+    sections: number;
+    chunks: number;
+    unmigrated: number;        // Rows left without a vector (re-embedded on the next sync)
+}
+
+/**
+ * Move the vectors of the legacy padded tables (vec_sections / vec_chunks,
+ * FLOAT[2048]) into the per-dimension tables of an embedding space.
+ *
+ * Padding is cut off using the dimensions recorded on each section row. Rows
+ * recorded with a different dimension than the target space are not migrated:
+ * they keep no vector and are re-embedded the next time their document is
+ * indexed. The legacy tables are dropped afterwards.
+ *
+ * @param options.model - Embedding space the vectors were created with (default: configured model)
+ * @param options.dimensions - Dimension of the vectors (default: most common recorded dimension)
+ */
+export function migratePaddedVectors(
+    options: { model?: string; dimensions?: number } = {}
+): VectorSpaceMigrationResult {
+    const db = getVectorDb();
+    const model = options.model ?? getEmbeddingSpaceName();
+
+    if (!hasLegacyVectorTables()) {
+        throw new Error('No padded vector tables (vec_sections) to migrate');
+    }
+
+    const rows = db.prepare('SELECT rowid, dimensions FROM sections WHERE space_id IS NULL')
+        .all() as Array<{ rowid: number; dimensions: number | null }>;
+
+    // Rows written before the dimensions column existed count as the target dimension
+    const dimensions = options.dimensions ?? mostCommon(rows.map(row => row.dimensions).filter((d): d is number => d !== null));
+    if (dimensions === undefined) {
+        throw new Error('Cannot infer the vector dimension: no section records it, pass it explicitly');
+    }
+
+    const space = ensureEmbeddingSpace(model, dimensions);
+    const result: VectorSpaceMigrationResult = {
+        model, dimensions, sections: 0, chunks: 0, unmigrated: 0
+    };
+
+    const readVector = (kind: 'sections' | 'chunks', rowid: number) => {
+        const vec = db.prepare(`SELECT embedding FROM vec_${kind} WHERE rowid = ?`)
+            .get(BigInt(rowid)) as { embedding: Buffer } | undefined;
+        if (!vec) return undefined;
+        const padded = new Float32Array(vec.embedding.buffer, vec.embedding.byteOffset, vec.embedding.byteLength / 4);
+        return Buffer.from(padded.slice(0, dimensions).buffer);
+    };
+
+    const transaction = db.transaction(() => {
+        const insertSection = db.prepare(`INSERT INTO ${vectorTableName('sections', space.id)}(rowid, embedding) VALUES (?, ?)`);
+        const insertChunk = db.prepare(`INSERT INTO ${vectorTableName('chunks', space.id)}(rowid, embedding) VALUES (?, ?)`);
+        const markSection = db.prepare('UPDATE sections SET space_id = ?, dimensions = ? WHERE rowid = ?');
+        const markChunk = db.prepare('UPDATE section_chunks SET space_id = ? WHERE rowid = ?');
+
+        for (const row of rows) {
+            const vector = (row.dimensions ?? dimensions) === dimensions ? readVector('sections', row.rowid) : undefined;
+            if (!vector) {
+                result.unmigrated++;
+                continue;
+            }
+            insertSection.run(BigInt(row.rowid), vector);
+            markSection.run(space.id, dimensions, row.rowid);
+            result.sections++;
+        }
+
+        // Chunks share the dimension of their section
+        const chunkRowIds = db.prepare(`
+            SELECT c.rowid FROM section_chunks c
+            JOIN sections s ON s.node_id = c.node_id
+            WHERE c.space_id IS NULL AND s.space_id = ?
+        `).pluck().all(space.id) as number[];
+
+        for (const rowid of chunkRowIds) {
+            const vector = readVector('chunks', rowid);
+            if (!vector) continue;
+            insertChunk.run(BigInt(rowid), vector);
+            markChunk.run(space.id, rowid);
+            result.chunks++;
+        }
+
+        // Chunks left behind have no vector anymore; their sections are re-embedded with them
+        db.prepare('DELETE FROM section_chunks WHERE space_id IS NULL').run();
+        db.exec('DROP TABLE IF EXISTS vec_sections; DROP TABLE IF EXISTS vec_chunks;');
+    });
+
+    transaction();
+
+    // Quantized copies and prefix indexes are rebuilt from the migrated float32 vectors
+    resetDerivedVectorTables(space.id);
+    return result;
+}
+
+function mostCommon(values: number[]): number | undefined {
+    const counts = new Map<number, number>();
+    for (const value of values) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+// CLI usage - run if this file is being executed directly
+async function main() {
+    const args = process.argv.slice(2);
+    const model = args.find(arg => !arg.startsWith('--'));
+    const dimensionsArg = args.find(arg => arg.startsWith('--dimensions='));
+    const dimensions = dimensionsArg ? parseInt(dimensionsArg.split('=')[1], 10) : undefined;
+
+    console.log(`\n📦 Moving padded vectors into per-dimension embedding space tables...\n`);
+
+    const result = migratePaddedVectors({ model, dimensions });
+
+    console.log(`✅ Migration complete:`);
+    console.log(`   Embedding space: ${result.model} (${result.dimensions} dimensions)`);
+    console.log(`   Section vectors migrated: ${result.sections}`);
+    console.log(`   Chunk vectors migrated: ${result.chunks}`);
+    console.log(`   Padded tables vec_sections and vec_chunks dropped\n`);
+
+    if (result.unmigrated > 0) {
+        console.log(`   ⚠️  ${result.unmigrated} section(s) had no matching vector and will be re-embedded on the next index run.\n`);
+    }
+}
+
+// Check if running as main module
+if (import.meta.url.endsWith(process.argv[1].replace(/\\/g, '/'))) {
+    main().catch(error => {
+        console.error('\nFatal error:', error);
+        process.exit(1);
+    });
+}
@@ -21,10 +21,72 @@ export interface Config {
     // Embedding Service
     embeddingService: 'mock' | 'openai' | 'ollama';
     
+    // Answer generation
+    chat: {
+        provider: 'mock' | 'openai' | 'ollama';
+        model: string;
+        baseUrl?: string;          // OpenAI-compatible endpoint (default: OpenAI)
+        apiKey?: string;           // Default: OPENAI_API_KEY
+        temperature: number;
+        maxTokens: number;         // Max tokens of an answer
+        contextTokens: number;     // Token budget of the sources in the prompt
+    };
+    
+    // Multi-query expansion
+    expansion: {
+        mode: 'auto' | 'llm' | 'rules';    // auto: the chat provider unless it is the mock
+        paraphrases: number;
+        subQuestions: number;
+        hyde: boolean;             // Hypothetical answer passage
+    };
+    
+    // Conversation sessions
+    sessions: {
+        historyTurns: number;      // Previous turns used to rewrite a follow-up
+        carryForward: number;      // Sections cited in previous turns added to the context
+        rewrite: 'auto' | 'llm' | 'rules';  // auto: the chat provider unless it is the mock
+    };
+    
     // Matryoshka Embeddings Configuration
     matryoshka: {
         enabled: boolean;
         targetDimensions: number;
+        prefixDimensions: number;     // Prefix index for two-stage search (0: single stage)
+        candidateMultiplier: number;  // Prefix candidates reranked per requested result
+    };
+    
+    // Vector Quantization (quantized candidate search, exact float32 rescoring)
+    quantization: {
+        mode: 'float32' | 'int8' | 'binary';
+        rescoreFactor: number; // Quantized candidates fetched per requested result
+    };
+    
+    // Filtered vector search
+    knn: {
+        exactScanMaxRows: number;  // Filters matching at most this many sections are ranked by exact scan
+    };
+    
+    // Markdown Parser Configuration
+    parser: {
+        maxHeadingDepth: number; // Deepest heading level (1-6) that creates a section
+    };
+    
+    // Chunking of oversized sections (in tokens)
+    chunking: {
+        maxTokens: number;     // Max tokens per embedded chunk (0 disables chunking)
+        overlapTokens: number; // Tokens shared between consecutive chunks
+    };
+    
+    // Indexing
+    indexing: {
+        batchSize: number;     // Texts per embedding request
+        concurrency: number;   // Embedding requests in flight at once
+    };
+    
+    // Keyword search and entity extraction text analysis
+    search: {
+        language: string;          // Analyzer of documents without a language ("en", "es", "standard", ...)
+        synonymsPath?: string;     // JSON file of synonym groups per language
     };
     
     // API Configuration
@@ -37,6 +99,7 @@ export interface Config {
     db: {
         vectorPath: string;
         jsonPath: string;
+        documentStore: 'sqlite' | 'json';  // Backend for document trees
     };
 }
 
@@ -59,9 +122,62 @@ export const config: Config = {
     
     embeddingService: (process.env.EMBEDDING_SERVICE as 'mock' | 'openai' | 'ollama') || 'mock',
     
+    chat: {
+        provider: (process.env.CHAT_PROVIDER as 'mock' | 'openai' | 'ollama') || 'mock',
+        model: process.env.CHAT_MODEL || ({ openai: 'gpt-4o-mini', ollama: 'llama3.1' }[process.env.CHAT_PROVIDER || ''] ?? 'mock-extractive'),
+        baseUrl: process.env.CHAT_BASE_URL || undefined,
+        apiKey: process.env.CHAT_API_KEY || process.env.OPENAI_API_KEY,
+        temperature: parseFloat(process.env.CHAT_TEMPERATURE || '0.1'),
+        maxTokens: parseInt(process.env.CHAT_MAX_TOKENS || '512', 10),
+        contextTokens: parseInt(process.env.CHAT_CONTEXT_TOKENS || '3000', 10)
+    },
+    
+    expansion: {
+        mode: (process.env.QUERY_EXPANSION_MODE as 'auto' | 'llm' | 'rules') || 'auto',
+        paraphrases: parseInt(process.env.QUERY_EXPANSION_PARAPHRASES || '2', 10),
+        subQuestions: parseInt(process.env.QUERY_EXPANSION_SUBQUESTIONS || '2', 10),
+        hyde: process.env.QUERY_EXPANSION_HYDE !== 'false'
+    },
+    
+    sessions: {
+        historyTurns: parseInt(process.env.SESSION_HISTORY_TURNS || '5', 10),
+        carryForward: parseInt(process.env.SESSION_CARRY_FORWARD || '5', 10),
+        rewrite: (process.env.SESSION_REWRITE as 'auto' | 'llm' | 'rules') || 'auto'
+    },
+    
     matryoshka: {
         enabled: matryoshkaEnabled,
-        targetDimensions: matryoshkaDims
+        targetDimensions: matryoshkaDims,
+        prefixDimensions: parseInt(process.env.MATRYOSHKA_PREFIX_DIMENSIONS || '0', 10),
+        candidateMultiplier: parseInt(process.env.MATRYOSHKA_CANDIDATE_MULTIPLIER || '10', 10)
+    },
+    
+    quantization: {
+        mode: (process.env.QUANTIZATION_MODE as 'float32' | 'int8' | 'binary') || 'float32',
+        rescoreFactor: parseInt(process.env.QUANTIZATION_RESCORE_FACTOR || '8', 10)
+    },
+    
+    knn: {
+        exactScanMaxRows: parseInt(process.env.KNN_EXACT_SCAN_MAX_ROWS || '2000', 10)
+    },
+    
+    parser: {
+        maxHeadingDepth: parseInt(process.env.MAX_HEADING_DEPTH || '6', 10)
+    },
+    
+    chunking: {
+        maxTokens: parseInt(process.env.CHUNK_MAX_TOKENS || '512', 10),
+        overlapTokens: parseInt(process.env.CHUNK_OVERLAP_TOKENS || '64', 10)
+    },
+    
+    indexing: {
+        batchSize: parseInt(process.env.EMBED_BATCH_SIZE || '32', 10),
+        concurrency: parseInt(process.env.EMBED_CONCURRENCY || '4', 10)
+    },
+    
+    search: {
+        language: process.env.SEARCH_LANGUAGE || 'en',
+        synonymsPath: process.env.SEARCH_SYNONYMS_PATH || undefined
     },
     
     api: {
@@ -71,7 +187,8 @@ export const config: Config = {
     
     db: {
         vectorPath: process.env.DB_PATH || 'rag.db',
-        jsonPath: process.env.JSON_PATH || 'documents.json'
+        jsonPath: process.env.JSON_PATH || 'documents.json',
+        documentStore: (process.env.DOCUMENT_STORE as 'sqlite' | 'json') || 'sqlite'
     }
 };
 
@@ -94,6 +211,30 @@ export function validateConfig(): { valid: boolean; errors: string[] } {
         }
     }
     
+    if (!['mock', 'openai', 'ollama'].includes(config.chat.provider)) {
+        errors.push('CHAT_PROVIDER must be mock, openai or ollama');
+    }
+    
+    if (config.chat.provider === 'openai' && !config.chat.apiKey && !config.chat.baseUrl) {
+        errors.push('CHAT_API_KEY or OPENAI_API_KEY is required when using the OpenAI chat provider');
+    }
+    
+    if (config.chat.contextTokens < 1) {
+        errors.push('CHAT_CONTEXT_TOKENS must be at least 1');
+    }
+    
+    if (!['auto', 'llm', 'rules'].includes(config.expansion.mode)) {
+        errors.push('QUERY_EXPANSION_MODE must be auto, llm or rules');
+    }
+    
+    if (!['auto', 'llm', 'rules'].includes(config.sessions.rewrite)) {
+        errors.push('SESSION_REWRITE must be auto, llm or rules');
+    }
+    
+    if (config.sessions.historyTurns < 1 || config.sessions.carryForward < 0) {
+        errors.push('SESSION_HISTORY_TURNS must be at least 1 and SESSION_CARRY_FORWARD at least 0');
+    }
+    
     if (config.matryoshka.enabled) {
         if (config.matryoshka.targetDimensions < 64) {
             errors.push('MATRYOSHKA_DIMENSIONS must be at least 64');
@@ -103,6 +244,46 @@ export function validateConfig(): { valid: boolean; errors: string[] } {
         }
     }
     
+    if (config.matryoshka.prefixDimensions < 0) {
+        errors.push('MATRYOSHKA_PREFIX_DIMENSIONS must be 0 (disabled) or a positive number');
+    }
+    
+    if (config.matryoshka.candidateMultiplier < 1) {
+        errors.push('MATRYOSHKA_CANDIDATE_MULTIPLIER must be at least 1');
+    }
+    
+    if (!['float32', 'int8', 'binary'].includes(config.quantization.mode)) {
+        errors.push('QUANTIZATION_MODE must be float32, int8 or binary');
+    }
+    
+    if (config.quantization.rescoreFactor < 1) {
+        errors.push('QUANTIZATION_RESCORE_FACTOR must be at least 1');
+    }
+    
+    if (config.parser.maxHeadingDepth < 1 || config.parser.maxHeadingDepth > 6) {
+        errors.push('MAX_HEADING_DEPTH must be between 1 and 6');
+    }
+    
+    if (config.chunking.maxTokens < 0) {
+        errors.push('CHUNK_MAX_TOKENS must be 0 (disabled) or positive');
+    }
+    
+    if (config.chunking.overlapTokens < 0 || (config.chunking.maxTokens > 0 && config.chunking.overlapTokens >= config.chunking.maxTokens)) {
+        errors.push('CHUNK_OVERLAP_TOKENS must be at least 0 and smaller than CHUNK_MAX_TOKENS');
+    }
+    
+    if (config.indexing.batchSize < 1) {
+        errors.push('EMBED_BATCH_SIZE must be at least 1');
+    }
+    
+    if (config.indexing.concurrency < 1) {
+        errors.push('EMBED_CONCURRENCY must be at least 1');
+    }
+    
+    if (!['sqlite', 'json'].includes(config.db.documentStore)) {
+        errors.push('DOCUMENT_STORE must be "sqlite" or "json"');
+    }
+    
     if (config.api.port < 1 || config.api.port > 65535) {
         errors.push('API_PORT must be between 1 and 65535');
     }
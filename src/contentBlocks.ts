@@ -0,0 +1,82 @@
+import { ContentBlock, ListBlock, TableBlock } from './db/documentStore.js';
+
+/**
+ * Renders a content block back to markdown.
+ * Used for embeddings and LLM context, where structure carries meaning.
+ */
+export function renderBlock(block: ContentBlock): string {
+    if (typeof block === 'string') return block;
+
+    switch (block.type) {
+        case 'paragraph':
+            return block.text;
+        case 'code':
+            return `\`\`\`${block.language || ''}\n${block.code}\n\`\`\``;
+        case 'table':
+            return renderTable(block);
+        case 'list':
+            return renderList(block);
+        case 'blockquote':
+            return block.text
+                .split('\n')
+                .map(line => line ? `> ${line}` : '>')
+                .join('\n');
+    }
+}
+
+/**
+ * Renders a section's content blocks to markdown
+ */
+export function renderContent(content: ContentBlock[]): string {
+    return content.map(renderBlock).join('\n');
+}
+
+/**
+ * Renders a content block as plain text without markdown syntax.
+ * Used for keyword search and entity extraction.
+ */
+export function blockToPlainText(block: ContentBlock): string {
+    if (typeof block === 'string') return block;
+
+    switch (block.type) {
+        case 'paragraph':
+        case 'blockquote':
+            return block.text;
+        case 'code':
+            return block.code;
+        case 'table':
+            return [block.headers, ...block.rows].map(row => row.join(' ')).join('\n');
+        case 'list':
+            return block.items.map(item => item.text).join('\n');
+    }
+}
+
+/**
+ * Renders a section's content blocks as plain text
+ */
+export function contentToPlainText(content: ContentBlock[]): string {
+    return content.map(blockToPlainText).join('\n');
+}
+
+function renderTable(block: TableBlock): string {
+    const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    const lines = [
+        row(block.headers),
+        row(block.headers.map(() => '---')),
+        ...block.rows.map(row)
+    ];
+    return lines.join('\n');
+}
+
+function renderList(block: ListBlock): string {
+    // Ordered lists are numbered per nesting depth
+    const counters: number[] = [];
+
+    return block.items.map(item => {
+        counters.length = item.depth + 1;
+        counters[item.depth] = (counters[item.depth] || 0) + 1;
+
+        const marker = block.ordered ? `${counters[item.depth]}.` : '-';
+        return `${'  '.repeat(item.depth)}${marker} ${item.text}`;
+    }).join('\n');
+}
@@ -0,0 +1,109 @@
+import { config } from './config.js';
+import { getSession, getSessionTurns, addSessionTurn } from './db/sessionStore.js';
+import { graphRagQuery, SMART_GRAPH_CONFIG, type GraphRagConfig, type GraphRagResult } from './graph/graphRagEngine.js';
+import { rewriteQuery, type RewriteMode, type RewriteMethod } from './generation/queryRewriter.js';
+
+/**
+ * Conversational Queries
+ *
+ * A turn of a session rewrites the question into a standalone query with the
+ * previous turns, runs it through graphRagQuery with the sections cited by
+ * recent turns carried into the context, and stores the turn.
+ */
+
+export interface TurnOptions {
+    k?: number;                                  // Default: 3
+    expandGraph?: boolean;                       // Default: true
+    graphConfig?: GraphRagConfig['graphConfig']; // Default: SMART_GRAPH_CONFIG
+    rerank?: boolean;
+    filters?: GraphRagConfig['filters'];
+    generate?: GraphRagConfig['generate'];
+    expand?: GraphRagConfig['expand'];
+    rewrite?: RewriteMode;                       // Default: config.sessions.rewrite
+    onEvent?: GraphRagConfig['onEvent'];
+}
+
+export interface TurnResult extends GraphRagResult {
+    sessionId: string;
+    turn: number;
+    standaloneQuery: string;     // The query that was searched
+    rewrite: RewriteMethod;
+    carried: string[];           // nodeIds carried from previous turns
+}
+
+/**
+ * Sections cited by recent turns, most recent first
+ */
+function citedSections(turns: Array<{ cited: string[] }>, limit: number): string[] {
+    const nodeIds: string[] = [];
+    for (const turn of [...turns].reverse()) {
+        for (const nodeId of turn.cited) {
+            if (nodeIds.length >= limit) return nodeIds;
+            if (!nodeIds.includes(nodeId)) nodeIds.push(nodeId);
+        }
+    }
+    return nodeIds;
+}
+
+/**
+ * Ask a question in a session
+ * @param sessionId - The session
+ * @param query - The question as asked, possibly a follow-up
+ * @param options - Retrieval, generation and rewriting options
+ * @throws if the session does not exist
+ */
+export async function askInSession(
+    sessionId: string,
+    query: string,
+    options: TurnOptions = {}
+): Promise<TurnResult> {
+    if (!getSession(sessionId)) {
+        throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const k = options.k ?? 3;
+    const history = getSessionTurns(sessionId, config.sessions.historyTurns);
+    const rewritten = await rewriteQuery(query, history, {
+        mode: options.rewrite,
+        provider: options.generate?.provider
+    });
+    const carried = citedSections(history, config.sessions.carryForward);
+
+    const expandGraph = options.expandGraph !== false;
+    const result = await graphRagQuery(rewritten.query, {
+        k,
+        expandGraph,
+        graphConfig: expandGraph ? options.graphConfig ?? SMART_GRAPH_CONFIG : undefined,
+        includeContext: true,
+        rerank: options.rerank,
+        filters: options.filters,
+        generate: options.generate,
+        expand: options.expand,
+        carryNodeIds: carried,
+        onEvent: options.onEvent
+    });
+
+    // Without generation, the top retrieved sources stand for the citations
+    const cited = result.generation
+        ? result.generation.citations.map(c => c.nodeId)
+        : result.sources.filter(s => !s.carried).slice(0, k).map(s => s.nodeId);
+
+    const turn = addSessionTurn(sessionId, {
+        query,
+        standaloneQuery: rewritten.query,
+        rewrite: rewritten.method,
+        answer: result.answer,
+        sources: result.sources.map(s => ({ nodeId: s.nodeId, docId: s.docId, score: s.score })),
+        cited
+    });
+
+    return {
+        ...result,
+        query,
+        sessionId,
+        turn: turn.turn,
+        standaloneQuery: rewritten.query,
+        rewrite: rewritten.method,
+        carried: result.sources.filter(s => s.carried).map(s => s.nodeId)
+    };
+}
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import { getVectorDb, runInTransaction } from './vectorStore.js';
+
+/**
+ * Scopes an API key may be granted. `admin` implies every other scope.
+ */
+export const SCOPES = ['query:read', 'index:write', 'graph:build', 'skillbank:execute', 'admin'] as const;
+
+export type Scope = typeof SCOPES[number];
+
+/**
+ * A stored API key. The key itself is only returned once, on creation;
+ * the store keeps its SHA-256 and a short prefix to recognise it in listings.
+ */
+export interface ApiKey {
+  id: string;
+  name: string;                 // Principal name, unique (ACL_GROUPS entries apply to it too)
+  prefix: string;
+  scopes: Scope[];
+  groups: string[];             // Document ACL groups
+  quota: number | null;         // Requests per UTC day (null: unlimited)
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  requestsToday: number;
+}
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scopes: Scope[];
+  groups?: string[];
+  quota?: number;
+  expiresAt?: Date | string;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  groups: string | null;
+  quota: number | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+  requests_today: number | null;
+}
+
+const PREFIX_LENGTH = 12;
+
+/**
+ * Generate a new API key
+ */
+export function generateApiKey(): string {
+  return `hrag_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Whether scopes grant a required scope
+ */
+export function hasScope(scopes: readonly Scope[], required: Scope): boolean {
+  return scopes.includes('admin') || scopes.includes(required);
+}
+
+function today(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function selectKeys(where: string) {
+  return getVectorDb().prepare(`
+    SELECT k.id, k.name, k.prefix, k.scopes, k.groups, k.quota, k.expires_at, k.revoked_at,
+      k.last_used_at, k.created_at, u.requests AS requests_today
+    FROM api_keys k
+    LEFT JOIN api_key_usage u ON u.key_id = k.id AND u.day = @day
+    ${where}
+    ORDER BY k.created_at, k.rowid
+  `);
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes),
+    groups: row.groups ? JSON.parse(row.groups) : [],
+    quota: row.quota,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    lastUsedAt: row.last_used_at,
+    createdAt: row.created_at,
+    requestsToday: row.requests_today ?? 0
+  };
+}
+
+/**
+ * Create an API key
+ * @returns the key (not retrievable later) and its stored record
+ * @throws if the name is taken, or the name, scopes, quota or expiry are invalid
+ */
+export function createApiKey(options: CreateApiKeyOptions): { key: string; apiKey: ApiKey } {
+  const name = options.name.trim();
+  if (!name) {
+    throw new Error('API key name is required');
+  }
+  // The name identifies the principal (sessions, ACL_GROUPS), so it is never
+  // shared, not even with a revoked key, nor shaped like an API_KEYS key ID
+  if (name.startsWith('env:')) {
+    throw new Error('API key names cannot start with "env:"');
+  }
+  if (getVectorDb().prepare('SELECT 1 FROM api_keys WHERE name = ?').get(name)) {
+    throw new Error(`An API key named "${name}" already exists`);
+  }
+
+  const unknown = options.scopes.filter(scope => !SCOPES.includes(scope));
+  if (options.scopes.length === 0 || unknown.length > 0) {
+    throw new Error(`Invalid scopes: ${unknown.join(', ') || 'none given'} (valid: ${SCOPES.join(', ')})`);
+  }
+
+  if (options.quota !== undefined && (!Number.isInteger(options.quota) || options.quota < 1)) {
+    throw new Error('Quota must be a positive integer');
+  }
+
+  const expiresAt = options.expiresAt === undefined ? null : new Date(options.expiresAt);
+  if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+    throw new Error(`Invalid expiry date: ${options.expiresAt}`);
+  }
+
+  const key = generateApiKey();
+  const id = `key_${crypto.randomBytes(6).toString('hex')}`;
+  const groups = [...new Set(options.groups ?? [])].sort();
+
+  getVectorDb().prepare(`
+    INSERT INTO api_keys (id, name, key_hash, prefix, scopes, groups, quota, expires_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    name,
+    hashApiKey(key),
+    key.slice(0, PREFIX_LENGTH),
+    JSON.stringify([...new Set(options.scopes)]),
+    groups.length > 0 ? JSON.stringify(groups) : null,
+    options.quota ?? null,
+    expiresAt?.toISOString() ?? null,
+    new Date().toISOString()
+  );
+
+  return { key, apiKey: getApiKey(id)! };
+}
+
+export function getApiKey(id: string): ApiKey | undefined {
+  const row = selectKeys('WHERE k.id = @id').get({ id, day: today(new Date()) }) as ApiKeyRow | undefined;
+  return row ? toApiKey(row) : undefined;
+}
+
+/**
+ * Stored key matching a presented key (active or not)
+ */
+export function findApiKey(key: string): ApiKey | undefined {
+  const row = selectKeys('WHERE k.key_hash = @hash')
+    .get({ hash: hashApiKey(key), day: today(new Date()) }) as ApiKeyRow | undefined;
+  return row ? toApiKey(row) : undefined;
+}
+
+/**
+ * All API keys, oldest first, including revoked and expired ones
+ */
+export function listApiKeys(): ApiKey[] {
+  return (selectKeys('').all({ day: today(new Date()) }) as ApiKeyRow[]).map(toApiKey);
+}
+
+/**
+ * Revoke an API key
+ * @returns the revoked key, or undefined if it does not exist
+ */
+export function revokeApiKey(id: string): ApiKey | undefined {
+  getVectorDb()
+    .prepare('UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ?')
+    .run(new Date().toISOString(), id);
+  return getApiKey(id);
+}
+
+/**
+ * Whether a key is neither revoked nor expired
+ */
+export function isApiKeyActive(apiKey: ApiKey, now = new Date()): boolean {
+  return !apiKey.revokedAt && (!apiKey.expiresAt || new Date(apiKey.expiresAt) > now);
+}
+
+export function countActiveApiKeys(now = new Date()): number {
+  const row = getVectorDb().prepare(`
+    SELECT COUNT(*) AS count FROM api_keys
+    WHERE revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+  `).get(now.toISOString()) as { count: number };
+  return row.count;
+}
+
+/**
+ * Count a request against the daily quota of a key
+ * @returns whether the request is allowed, with the requests made today (including it)
+ */
+export function consumeApiKeyQuota(apiKey: ApiKey, now = new Date()): { allowed: boolean; used: number } {
+  const db = getVectorDb();
+  const day = today(now);
+
+  return runInTransaction(() => {
+    const row = db.prepare('SELECT requests FROM api_key_usage WHERE key_id = ? AND day = ?')
+      .get(apiKey.id, day) as { requests: number } | undefined;
+    const used = row?.requests ?? 0;
+
+    if (apiKey.quota !== null && used >= apiKey.quota) {
+      return { allowed: false, used };
+    }
+
+    db.prepare(`
+      INSERT INTO api_key_usage (key_id, day, requests) VALUES (?, ?, 1)
+      ON CONFLICT (key_id, day) DO UPDATE SET requests = requests + 1
+    `).run(apiKey.id, day);
+    db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(now.toISOString(), apiKey.id);
+
+    return { allowed: true, used: used + 1 };
+  });
+}
@@ -0,0 +1,127 @@
+import { getVectorDb, deleteSection, runInTransaction, DEFAULT_COLLECTION } from './vectorStore.js';
+import { deleteNodeEdges } from './graphStore.js';
+import { getAllDocumentIds, deleteDocument } from './documentStore.js';
+import { getAnalyzer, STANDARD_ANALYZER } from '../analyzers/index.js';
+
+export { DEFAULT_COLLECTION };
+
+/**
+ * A named set of documents. Every document belongs to exactly one collection;
+ * searches, graph builds and exports only see the collections they are scoped to.
+ * Document IDs are unique across collections.
+ */
+export interface Collection {
+  name: string;
+  description: string | null;
+  language: string | null;  // Analyzer of its documents (null: SEARCH_LANGUAGE)
+  created_at: string;
+  documents: number;    // Documents with indexed sections
+  sections: number;
+}
+
+const COLLECTION_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/**
+ * Create a collection
+ * @param language - Language of its documents, for keyword search (default: SEARCH_LANGUAGE)
+ * @throws if the name is invalid or already taken, or the language has no analyzer
+ */
+export function createCollection(name: string, description?: string, language?: string): Collection {
+  if (!COLLECTION_NAME.test(name)) {
+    throw new Error(`Invalid collection name "${name}": use up to 64 lowercase letters, digits, "-" and "_"`);
+  }
+  if (collectionExists(name)) {
+    throw new Error(`Collection already exists: ${name}`);
+  }
+  if (language !== undefined && getAnalyzer(language).name === STANDARD_ANALYZER && language !== STANDARD_ANALYZER) {
+    throw new Error(`No analyzer for language "${language}"`);
+  }
+
+  getVectorDb()
+    .prepare('INSERT INTO collections (name, description, language) VALUES (?, ?, ?)')
+    .run(name, description ?? null, language === undefined ? null : getAnalyzer(language).name);
+
+  return getCollection(name)!;
+}
+
+export function collectionExists(name: string): boolean {
+  return getVectorDb().prepare('SELECT 1 FROM collections WHERE name = ?').get(name) !== undefined;
+}
+
+/**
+ * A collection with its document and section counts
+ */
+export function getCollection(name: string): Collection | undefined {
+  return listCollections().find(c => c.name === name);
+}
+
+/**
+ * All collections, oldest first
+ */
+export function listCollections(): Collection[] {
+  return getVectorDb().prepare(`
+    SELECT c.name, c.description, c.language, c.created_at,
+      COUNT(DISTINCT s.doc_id) AS documents,
+      COUNT(s.node_id) AS sections
+    FROM collections c
+    LEFT JOIN sections s ON s.collection = c.name
+    GROUP BY c.name
+    ORDER BY c.rowid
+  `).all() as Collection[];
+}
+
+/**
+ * Language set on a collection (undefined: none, or no such collection)
+ */
+export function collectionLanguage(name: string): string | undefined {
+  const row = getVectorDb().prepare('SELECT language FROM collections WHERE name = ?').get(name) as
+    { language: string | null } | undefined;
+  return row?.language ?? undefined;
+}
+
+/**
+ * Normalize the collections a request is scoped to and check that they exist
+ *
+ * @param names - One collection or a list (default: the default collection)
+ * @throws if a collection does not exist
+ */
+export function resolveCollections(names?: string | string[]): string[] {
+  const collections = names === undefined ? [DEFAULT_COLLECTION] : [...new Set([names].flat())];
+
+  const missing = collections.filter(name => !collectionExists(name));
+  if (missing.length > 0) {
+    throw new Error(`Collection not found: ${missing.join(', ')}`);
+  }
+
+  return collections;
+}
+
+/**
+ * Delete a collection with its documents, their sections, vectors and edges
+ * @returns number of documents deleted, or undefined if the collection did not exist
+ */
+export async function deleteCollection(name: string): Promise<{ documents: number } | undefined> {
+  if (name === DEFAULT_COLLECTION) {
+    throw new Error('The default collection cannot be deleted');
+  }
+  if (!collectionExists(name)) return undefined;
+
+  const db = getVectorDb();
+  const sectionRows = db.prepare('SELECT node_id, doc_id FROM sections WHERE collection = ?')
+    .all(name) as Array<{ node_id: string; doc_id: string }>;
+  const docIds = new Set([...await getAllDocumentIds([name]), ...sectionRows.map(row => row.doc_id)]);
+
+  runInTransaction(() => {
+    for (const { node_id } of sectionRows) {
+      deleteSection(node_id);
+      deleteNodeEdges(node_id);
+    }
+    db.prepare('DELETE FROM collections WHERE name = ?').run(name);
+  });
+
+  for (const docId of docIds) {
+    await deleteDocument(docId);
+  }
+
+  return { documents: docIds.size };
+}
@@ -0,0 +1,261 @@
+import { config } from '../config.js';
+import { jsonDocumentStore } from './jsonStore.js';
+import { sqliteDocumentStore } from './sqliteDocumentStore.js';
+import { DEFAULT_COLLECTION } from './vectorStore.js';
+
+/**
+ * Where a node or block came from in the source file.
+ * Lines are 1-based and inclusive; offsets are 0-based character offsets into
+ * the original file content, end exclusive.
+ */
+export interface SourcePosition {
+    startLine: number;
+    endLine: number;
+    startOffset: number;
+    endOffset: number;
+}
+
+export interface ParagraphBlock {
+    type: 'paragraph';
+    text: string;
+    position?: SourcePosition;
+}
+
+export interface CodeBlock {
+    type: 'code';
+    language?: string;   // Info string of the fence (e.g. "ts", "bash")
+    code: string;        // Verbatim code, newlines preserved
+    position?: SourcePosition;
+}
+
+export interface TableBlock {
+    type: 'table';
+    headers: string[];
+    rows: string[][];
+    position?: SourcePosition;
+}
+
+export interface ListItem {
+    text: string;
+    depth: number;       // Nesting depth (0 = top-level item)
+}
+
+export interface ListBlock {
+    type: 'list';
+    ordered: boolean;
+    items: ListItem[];
+    position?: SourcePosition;
+}
+
+export interface BlockquoteBlock {
+    type: 'blockquote';
+    text: string;
+    position?: SourcePosition;
+}
+
+/**
+ * A unit of section content. Plain strings are paragraphs stored by older
+ * versions of the parser and are still accepted everywhere.
+ */
+export type ContentBlock =
+    | string
+    | ParagraphBlock
+    | CodeBlock
+    | TableBlock
+    | ListBlock
+    | BlockquoteBlock;
+
+/**
+ * Document metadata parsed from YAML front matter (tags, owner, product, ...)
+ */
+export type DocumentMetadata = Record<string, unknown>;
+
+export interface SectionNode {
+    id: string;
+    type: 'document' | 'section';
+    level: number;
+    title: string;
+    content: ContentBlock[];
+    children: SectionNode[];
+    metadata?: DocumentMetadata;  // Front matter (document root only)
+    position?: SourcePosition;    // Heading line through the end of the section (children included)
+}
+
+export interface NodeMeta {
+    id: string;
+    parentId: string | null;
+    childrenIds: string[];
+    level: number;
+}
+
+export interface Document {
+    docId: string;
+    title: string;
+    version: number;
+    root: SectionNode;
+    nodes: Record<string, NodeMeta>;
+    metadata?: DocumentMetadata;
+    collection?: string;          // Collection the document belongs to (absent: the default collection)
+    allowedGroups?: string[];     // Groups allowed to read the document (absent: everyone)
+}
+
+/**
+ * Build the flat node map (parent/children/level) for a section tree.
+ * Works for trees of any depth.
+ */
+export function buildNodesMap(root: SectionNode): Record<string, NodeMeta> {
+    const nodes: Record<string, NodeMeta> = {};
+
+    const visit = (node: SectionNode, parentId: string | null) => {
+        nodes[node.id] = {
+            id: node.id,
+            parentId,
+            childrenIds: node.children.map(c => c.id),
+            level: node.level
+        };
+
+        node.children.forEach(child => visit(child, node.id));
+    };
+
+    visit(root, null);
+    return nodes;
+}
+
+/**
+ * A document without its tree, for listings
+ */
+export interface DocumentSummary {
+    docId: string;
+    title: string;
+    version: number;
+    metadata?: DocumentMetadata;
+    collection: string;
+    allowedGroups?: string[];
+    sectionsCount: number;
+}
+
+/**
+ * Storage backend for document trees.
+ * `sqlite` (default) keeps nodes in tables of the main SQLite database;
+ * `json` keeps every document in one lowdb file.
+ */
+export interface DocumentStore {
+    readonly name: string;
+    saveDocument(doc: Document): Promise<void>;
+    // Synchronous save for stores in the main SQLite database, so it can share a runInTransaction
+    saveInTransaction?(doc: Document): void;
+    loadDocument(docId: string): Promise<Document | undefined>;
+    deleteDocument(docId: string): Promise<boolean>;
+    getDocumentByNodeId(nodeId: string): Promise<Document | undefined>;
+    getNode(docId: string, nodeId: string): Promise<SectionNode | undefined>;
+    getParent(docId: string, nodeId: string): Promise<SectionNode | undefined>;
+    getChildren(docId: string, nodeId: string): Promise<SectionNode[]>;
+    getSiblings(docId: string, nodeId: string): Promise<SectionNode[]>;
+    getAllDocuments(collections?: string[]): Promise<Document[]>;
+    getAllDocumentIds(collections?: string[]): Promise<string[]>;
+    listDocuments(collections?: string[]): Promise<DocumentSummary[]>;
+}
+
+let activeStore: DocumentStore | null = null;
+
+/**
+ * The configured document store (DOCUMENT_STORE=sqlite|json)
+ */
+export function getDocumentStore(): DocumentStore {
+    if (!activeStore) {
+        activeStore = config.db.documentStore === 'json' ? jsonDocumentStore : sqliteDocumentStore;
+    }
+    return activeStore;
+}
+
+/**
+ * Use a specific document store (null goes back to the configured one)
+ */
+export function setDocumentStore(store: DocumentStore | null) {
+    activeStore = store;
+}
+
+export async function saveDocument(doc: Document): Promise<void> {
+    return getDocumentStore().saveDocument(doc);
+}
+
+export async function loadDocument(docId: string): Promise<Document | undefined> {
+    return getDocumentStore().loadDocument(docId);
+}
+
+/**
+ * Remove a document
+ * @returns true if the document existed
+ */
+export async function deleteDocument(docId: string): Promise<boolean> {
+    return getDocumentStore().deleteDocument(docId);
+}
+
+export async function getDocumentByNodeId(nodeId: string): Promise<Document | undefined> {
+    return getDocumentStore().getDocumentByNodeId(nodeId);
+}
+
+export async function getNode(docId: string, nodeId: string): Promise<SectionNode | undefined> {
+    return getDocumentStore().getNode(docId, nodeId);
+}
+
+export async function getParent(docId: string, nodeId: string): Promise<SectionNode | undefined> {
+    return getDocumentStore().getParent(docId, nodeId);
+}
+
+export async function getChildren(docId: string, nodeId: string): Promise<SectionNode[]> {
+    return getDocumentStore().getChildren(docId, nodeId);
+}
+
+export async function getSiblings(docId: string, nodeId: string): Promise<SectionNode[]> {
+    return getDocumentStore().getSiblings(docId, nodeId);
+}
+
+/**
+ * Get all documents in the store
+ * @param collections - Only documents of these collections (default: every collection)
+ */
+export async function getAllDocuments(collections?: string[]): Promise<Document[]> {
+    return getDocumentStore().getAllDocuments(collections);
+}
+
+/**
+ * Get all document IDs
+ * @param collections - Only documents of these collections (default: every collection)
+ */
+export async function getAllDocumentIds(collections?: string[]): Promise<string[]> {
+    return getDocumentStore().getAllDocumentIds(collections);
+}
+
+/**
+ * List documents (ID, title, version, metadata, collection, section count) without loading their trees
+ * @param collections - Only documents of these collections (default: every collection)
+ */
+export async function listDocuments(collections?: string[]): Promise<DocumentSummary[]> {
+    return getDocumentStore().listDocuments(collections);
+}
+
+/**
+ * Collection of a document (the default collection when it has none)
+ */
+export function documentCollection(doc: Pick<Document, 'collection'>): string {
+    return doc.collection ?? DEFAULT_COLLECTION;
+}
+
+/**
+ * Access labels of a document as stored on its section rows (null: readable by everyone)
+ */
+export function allowedGroupsJson(doc: Pick<Document, 'allowedGroups'>): string | null {
+    return doc.allowedGroups && doc.allowedGroups.length > 0
+        ? JSON.stringify([...new Set(doc.allowedGroups)].sort())
+        : null;
+}
+
+/**
+ * Whether a reader with the given groups may read a document
+ * @param groups - Groups of the reader (undefined: no access control)
+ */
+export function canReadDocument(doc: Pick<Document, 'allowedGroups'>, groups?: string[]): boolean {
+    if (!groups || !doc.allowedGroups || doc.allowedGroups.length === 0) return true;
+    return doc.allowedGroups.some(group => groups.includes(group));
+}
@@ -1,4 +1,4 @@
-import { getVectorDb } from './vectorStore.js';
+import { getVectorDb, aclClause } from './vectorStore.js';
 
 /**
  * Edge types for the knowledge graph
@@ -152,6 +152,45 @@ export function deleteNodeEdges(nodeId: string): void {
     .run(nodeId, nodeId);
 }
 
+/**
+ * Edge types derived from the document tree (rebuilt whenever a document is synced)
+ */
+export const STRUCTURAL_EDGE_TYPES: EdgeType[] = ['PARENT_OF', 'CHILD_OF', 'NEXT_SIBLING', 'PREV_SIBLING'];
+
+/**
+ * Replace the structural edges leaving a set of nodes (usually one document)
+ */
+export function replaceStructuralEdges(nodeIds: string[], edges: Edge[]): void {
+  const db = getVectorDb();
+  const placeholders = STRUCTURAL_EDGE_TYPES.map(() => '?').join(', ');
+  const deleteStmt = db.prepare(`DELETE FROM edges WHERE from_node_id = ? AND type IN (${placeholders})`);
+
+  const transaction = db.transaction(() => {
+    for (const nodeId of nodeIds) {
+      deleteStmt.run(nodeId, ...STRUCTURAL_EDGE_TYPES);
+    }
+    upsertEdges(edges);
+  });
+
+  transaction();
+}
+
+/**
+ * Delete the edges computed from a node's content or embedding: everything it
+ * points to except structure, plus incoming SAME_TOPIC edges.
+ * Used when a section changes; the graph builders recreate them.
+ */
+export function deleteDerivedEdges(nodeId: string): void {
+  const db = getVectorDb();
+  const placeholders = STRUCTURAL_EDGE_TYPES.map(() => '?').join(', ');
+
+  db.prepare(`
+    DELETE FROM edges
+    WHERE type NOT IN (${placeholders})
+      AND (from_node_id = ? OR (to_node_id = ? AND type = 'SAME_TOPIC'))
+  `).run(...STRUCTURAL_EDGE_TYPES, nodeId, nodeId);
+}
+
 /**
  * Get neighbors of a node (nodes connected by edges)
  */
@@ -204,6 +243,18 @@ export interface GraphExpansionConfig {
   maxNodes: number;             // Maximum nodes to retrieve
   edgeTypes: EdgeType[];        // Types of edges to follow
   minWeight?: number;           // Minimum edge weight (for SAME_TOPIC, etc.)
+  collections?: string[];       // Collections the expansion may enter (default: those of the seeds)
+  crossCollections?: boolean;   // Follow edges into any collection (default: false)
+  groups?: string[];            // Only enter sections readable by these groups (applies with crossCollections too)
+}
+
+/**
+ * What a reader may see of the graph: sections of some collections, readable
+ * by some groups. Undefined fields don't restrict anything.
+ */
+export interface NodeScope {
+  collections?: string[];
+  groups?: string[];
 }
 
 export interface ExpandedNode {
@@ -214,12 +265,65 @@ export interface ExpandedNode {
   path: string[];              // Path of node_ids from seed to this node
 }
 
+/**
+ * SQL condition that the node in `column` is visible inside a scope: a section
+ * of its collections readable by its groups, or a node that is not a section
+ * (a concept) linked to at least one such section. Binds @collections and @groups.
+ */
+function visibleNodeSql(column: string, scope: NodeScope): string {
+  const inScope = (alias: string) => [
+    scope.collections ? `${alias}.collection IN (SELECT value FROM json_each(@collections))` : '1',
+    scope.groups ? aclClause(`${alias}.allowed_groups`, '@groups') : '1'
+  ].join(' AND ');
+
+  return `(
+    EXISTS (SELECT 1 FROM sections s WHERE s.node_id = ${column} AND ${inScope('s')})
+    OR (
+      NOT EXISTS (SELECT 1 FROM sections s WHERE s.node_id = ${column})
+      AND (
+        EXISTS (SELECT 1 FROM edges l JOIN sections s ON s.node_id = l.to_node_id WHERE l.from_node_id = ${column} AND ${inScope('s')})
+        OR EXISTS (SELECT 1 FROM edges l JOIN sections s ON s.node_id = l.from_node_id WHERE l.to_node_id = ${column} AND ${inScope('s')})
+      )
+    )
+  )`;
+}
+
+function scopeParams(scope: NodeScope): Record<string, string> {
+  return {
+    ...(scope.collections && { collections: JSON.stringify(scope.collections) }),
+    ...(scope.groups && { groups: JSON.stringify(scope.groups) })
+  };
+}
+
+/**
+ * Keep the nodes visible inside a scope: sections of its collections readable
+ * by its groups, and concepts linked to at least one of those sections
+ */
+export function visibleNodes(nodeIds: string[], scope: NodeScope): Set<string> {
+  if (!scope.collections && !scope.groups) {
+    return new Set(nodeIds);
+  }
+
+  const visible = new Set(getVectorDb().prepare(`
+    SELECT value FROM json_each(@nodeIds) WHERE ${visibleNodeSql('value', scope)}
+  `).pluck().all({ nodeIds: JSON.stringify(nodeIds), ...scopeParams(scope) }) as string[]);
+
+  return new Set(nodeIds.filter(id => visible.has(id)));
+}
+
 export function expandGraph(
   seedNodeIds: string[], 
   config: GraphExpansionConfig
 ): ExpandedNode[] {
   const visited = new Set<string>();
   const result: ExpandedNode[] = [];
+
+  // Expansion stays inside the collections of the seeds unless told otherwise,
+  // and never enters a section the reader may not read
+  const scope: NodeScope = {
+    collections: config.crossCollections ? undefined : config.collections ?? collectionsOf(seedNodeIds),
+    groups: config.groups
+  };
   
   // Add seeds
   for (const seedId of seedNodeIds) {
@@ -239,7 +343,9 @@ export function expandGraph(
     const nextLevel: ExpandedNode[] = [];
     
     for (const nodeId of currentLevel) {
-      const neighbors = getNeighbors(nodeId, config.edgeTypes);
+      const allNeighbors = getNeighbors(nodeId, config.edgeTypes);
+      const visible = visibleNodes(allNeighbors.map(n => n.node_id), scope);
+      const neighbors = allNeighbors.filter(n => visible.has(n.node_id));
       
       for (const neighbor of neighbors) {
         // Skip if already visited
@@ -278,6 +384,15 @@ export function expandGraph(
   return result;
 }
 
+/**
+ * Collections holding the given section nodes
+ */
+function collectionsOf(nodeIds: string[]): string[] {
+  const db = getVectorDb();
+  return db.prepare('SELECT DISTINCT collection FROM sections WHERE node_id IN (SELECT value FROM json_each(?))')
+    .pluck().all(JSON.stringify(nodeIds)) as string[];
+}
+
 /**
  * Get graph statistics
  */
@@ -288,15 +403,25 @@ export interface GraphStats {
   avgDegree: number;       // Average connections per node
 }
 
-export function getGraphStats(): GraphStats {
+/**
+ * @param scope - Only count edges between nodes visible in the scope (default: every edge)
+ */
+export function getGraphStats(scope: NodeScope = {}): GraphStats {
   const db = getVectorDb();
+
+  const scoped = scope.collections !== undefined || scope.groups !== undefined;
+  const edges = scoped ? `(
+    SELECT e.* FROM edges e
+    WHERE ${visibleNodeSql('e.from_node_id', scope)} AND ${visibleNodeSql('e.to_node_id', scope)}
+  )` : 'edges';
+  const params = scoped ? [scopeParams(scope)] : [];
   
   // Total edges
-  const totalEdges = (db.prepare('SELECT COUNT(*) as count FROM edges').get() as any).count;
+  const totalEdges = (db.prepare(`SELECT COUNT(*) as count FROM ${edges}`).get(...params) as any).count;
   
   // Edges by type
   const edgesByType: Record<string, number> = {};
-  const typeRows = db.prepare('SELECT type, COUNT(*) as count FROM edges GROUP BY type').all() as any[];
+  const typeRows = db.prepare(`SELECT type, COUNT(*) as count FROM ${edges} GROUP BY type`).all(...params) as any[];
   
   for (const row of typeRows) {
     edgesByType[row.type] = row.count;
@@ -305,11 +430,11 @@ export function getGraphStats(): GraphStats {
   // Total nodes with edges
   const totalNodes = (db.prepare(`
     SELECT COUNT(DISTINCT node_id) as count FROM (
-      SELECT from_node_id as node_id FROM edges
+      SELECT from_node_id as node_id FROM ${edges}
       UNION
-      SELECT to_node_id as node_id FROM edges
+      SELECT to_node_id as node_id FROM ${edges}
     )
-  `).get() as any).count;
+  `).get(...params) as any).count;
   
   // Average degree
   const avgDegree = totalNodes > 0 ? (totalEdges * 2) / totalNodes : 0;
@@ -321,4 +446,3 @@ export function getGraphStats(): GraphStats {
     avgDegree: Math.round(avgDegree * 100) / 100
   };
 }
-
@@ -1,35 +1,22 @@
 import { JSONFilePreset } from 'lowdb/node';
+import { documentCollection, type Document, type DocumentStore, type DocumentSummary, type SectionNode } from './documentStore.js';
 
-export interface SectionNode {
-    id: string;
-    type: 'document' | 'section';
-    level: number;
-    title: string;
-    content: string[];
-    children: SectionNode[];
-}
-
-export interface NodeMeta {
-    id: string;
-    parentId: string | null;
-    childrenIds: string[];
-    level: number;
-}
+/**
+ * lowdb document store: every document in a single JSON file, loaded into memory.
+ * Kept as an option (DOCUMENT_STORE=json); the SQLite store is the default.
+ */
 
-export interface Document {
-    docId: string;
-    title: string;
-    version: number;
-    root: SectionNode;
-    nodes: Record<string, NodeMeta>;
-}
+// Types and helpers moved to documentStore.ts; re-exported for existing imports
+export type {
+    SourcePosition, ParagraphBlock, CodeBlock, TableBlock, ListItem, ListBlock, BlockquoteBlock,
+    ContentBlock, DocumentMetadata, SectionNode, NodeMeta, Document, DocumentStore, DocumentSummary
+} from './documentStore.js';
+export { buildNodesMap } from './documentStore.js';
 
 export interface Data {
     documents: Document[];
 }
 
-const defaultData: Data = { documents: [] };
-
 let JSON_PATH = 'documents.json';
 
 // Initialize the database
@@ -57,7 +44,8 @@ export function resetDb() {
 
 export async function getDb() {
     if (!dbInstance) {
-        dbInstance = await JSONFilePreset<Data>(JSON_PATH, defaultData);
+        // Fresh default data: lowdb keeps (and mutates) the object it is given
+        dbInstance = await JSONFilePreset<Data>(JSON_PATH, { documents: [] });
     }
     return dbInstance;
 }
@@ -75,6 +63,20 @@ export async function saveDocument(doc: Document) {
     await db.write();
 }
 
+/**
+ * Remove a document from the JSON store
+ * @returns true if the document existed
+ */
+export async function deleteDocument(docId: string): Promise<boolean> {
+    const db = await getDb();
+    const index = db.data.documents.findIndex((d) => d.docId === docId);
+    if (index < 0) return false;
+
+    db.data.documents.splice(index, 1);
+    await db.write();
+    return true;
+}
+
 export async function loadDocument(docId: string): Promise<Document | undefined> {
     const db = await getDb();
     return db.data.documents.find((d) => d.docId === docId);
@@ -149,17 +151,47 @@ export async function getSiblings(docId: string, nodeId: string): Promise<Sectio
 }
 
 /**
- * Get all documents in the database
+ * Get all documents in the database (optionally only those of some collections)
  */
-export async function getAllDocuments(): Promise<Document[]> {
+export async function getAllDocuments(collections?: string[]): Promise<Document[]> {
     const db = await getDb();
-    return db.data.documents;
+    if (!collections) return db.data.documents;
+    return db.data.documents.filter(d => collections.includes(documentCollection(d)));
 }
 
 /**
  * Get all document IDs
  */
-export async function getAllDocumentIds(): Promise<string[]> {
-    const db = await getDb();
-    return db.data.documents.map(d => d.docId);
-}
\ No newline at end of file
+export async function getAllDocumentIds(collections?: string[]): Promise<string[]> {
+    return (await getAllDocuments(collections)).map(d => d.docId);
+}
+
+/**
+ * List documents without their trees
+ */
+export async function listDocuments(collections?: string[]): Promise<DocumentSummary[]> {
+    return (await getAllDocuments(collections)).map(doc => ({
+        docId: doc.docId,
+        title: doc.title,
+        version: doc.version,
+        metadata: doc.metadata,
+        collection: documentCollection(doc),
+        allowedGroups: doc.allowedGroups,
+        sectionsCount: Object.keys(doc.nodes).length
+    }));
+}
+
+export const jsonDocumentStore: DocumentStore = {
+    name: 'json',
+    saveDocument,
+    loadDocument,
+    deleteDocument,
+    getDocumentByNodeId,
+    getNode,
+    getParent,
+    getChildren,
+    getSiblings,
+    getAllDocuments,
+    getAllDocumentIds,
+    listDocuments
+};
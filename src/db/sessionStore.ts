@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { getVectorDb, runInTransaction } from './vectorStore.js';
+import type { RewriteMethod } from '../generation/queryRewriter.js';
+
+/**
+ * A conversation: a sequence of turns whose follow-up queries are
+ * rewritten with the history of the session
+ */
+export interface Session {
+  id: string;
+  principal: string | null;     // Owner principal ID, never a key (null when created without authentication)
+  title: string | null;
+  turns: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionSource {
+  nodeId: string;
+  docId: string;
+  score: number;
+}
+
+export interface SessionTurn {
+  turn: number;                 // 1-based
+  query: string;                // As asked
+  standaloneQuery: string;      // As searched
+  rewrite: RewriteMethod;
+  answer: string;
+  sources: SessionSource[];
+  cited: string[];              // nodeIds cited by the answer
+  createdAt: string;
+}
+
+interface SessionRow {
+  id: string;
+  principal: string | null;
+  title: string | null;
+  turns: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SessionTurnRow {
+  turn: number;
+  query: string;
+  standalone_query: string;
+  rewrite: string;
+  answer: string;
+  sources: string;
+  cited: string;
+  created_at: string;
+}
+
+function selectSessions(where: string) {
+  return getVectorDb().prepare(`
+    SELECT s.id, s.principal, s.title, s.created_at, s.updated_at,
+      (SELECT COUNT(*) FROM session_turns t WHERE t.session_id = s.id) AS turns
+    FROM sessions s
+    ${where}
+    ORDER BY s.updated_at DESC, s.rowid DESC
+  `);
+}
+
+function toSession(row: SessionRow): Session {
+  return {
+    id: row.id,
+    principal: row.principal,
+    title: row.title,
+    turns: row.turns,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toTurn(row: SessionTurnRow): SessionTurn {
+  return {
+    turn: row.turn,
+    query: row.query,
+    standaloneQuery: row.standalone_query,
+    rewrite: row.rewrite as RewriteMethod,
+    answer: row.answer,
+    sources: JSON.parse(row.sources),
+    cited: JSON.parse(row.cited),
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Create a session
+ */
+export function createSession(options: { principal?: string; title?: string } = {}): Session {
+  const id = `ses_${crypto.randomBytes(8).toString('hex')}`;
+  const now = new Date().toISOString();
+
+  getVectorDb().prepare(`
+    INSERT INTO sessions (id, principal, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+  `).run(id, options.principal ?? null, options.title?.trim() || null, now, now);
+
+  return getSession(id)!;
+}
+
+export function getSession(id: string): Session | undefined {
+  const row = selectSessions('WHERE s.id = @id').get({ id }) as SessionRow | undefined;
+  return row ? toSession(row) : undefined;
+}
+
+/**
+ * Sessions, most recently active first
+ * @param principal - Only the sessions of this owner (default: all)
+ */
+export function listSessions(principal?: string | null): Session[] {
+  const rows = principal === undefined
+    ? selectSessions('').all()
+    : selectSessions('WHERE s.principal IS @principal').all({ principal });
+  return (rows as SessionRow[]).map(toSession);
+}
+
+/**
+ * Delete a session and its turns
+ * @returns whether the session existed
+ */
+export function deleteSession(id: string): boolean {
+  return runInTransaction(() => {
+    const db = getVectorDb();
+    db.prepare('DELETE FROM session_turns WHERE session_id = ?').run(id);
+    return db.prepare('DELETE FROM sessions WHERE id = ?').run(id).changes > 0;
+  });
+}
+
+/**
+ * Turns of a session, oldest first
+ * @param limit - Only the most recent turns
+ */
+export function getSessionTurns(sessionId: string, limit?: number): SessionTurn[] {
+  const rows = getVectorDb().prepare(`
+    SELECT turn, query, standalone_query, rewrite, answer, sources, cited, created_at
+    FROM session_turns WHERE session_id = ?
+    ORDER BY turn DESC
+    ${limit === undefined ? '' : 'LIMIT ?'}
+  `).all(...(limit === undefined ? [sessionId] : [sessionId, limit])) as SessionTurnRow[];
+
+  return rows.reverse().map(toTurn);
+}
+
+/**
+ * Append a turn to a session
+ * @throws if the session does not exist
+ */
+export function addSessionTurn(
+  sessionId: string,
+  turn: Omit<SessionTurn, 'turn' | 'createdAt'>
+): SessionTurn {
+  return runInTransaction(() => {
+    const db = getVectorDb();
+    const now = new Date().toISOString();
+
+    if (db.prepare('UPDATE sessions SET updated_at = ? WHERE id = ?').run(now, sessionId).changes === 0) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const number = (db.prepare('SELECT COALESCE(MAX(turn), 0) + 1 FROM session_turns WHERE session_id = ?')
+      .pluck().get(sessionId)) as number;
+
+    db.prepare(`
+      INSERT INTO session_turns (session_id, turn, query, standalone_query, rewrite, answer, sources, cited, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      sessionId,
+      number,
+      turn.query,
+      turn.standaloneQuery,
+      turn.rewrite,
+      turn.answer,
+      JSON.stringify(turn.sources),
+      JSON.stringify(turn.cited),
+      now
+    );
+
+    return { ...turn, turn: number, createdAt: now };
+  });
+}
@@ -0,0 +1,297 @@
+import { getVectorDb, DEFAULT_COLLECTION } from './vectorStore.js';
+import {
+    buildNodesMap,
+    documentCollection,
+    allowedGroupsJson,
+    type Document,
+    type DocumentStore,
+    type DocumentSummary,
+    type SectionNode
+} from './documentStore.js';
+
+/**
+ * SQLite document store (default).
+ * Documents live in the `documents` and `document_nodes` tables of the main
+ * database, so parent/child/sibling lookups are indexed queries and saving a
+ * document only rewrites that document's rows.
+ */
+
+interface DocumentRow {
+    doc_id: string;
+    title: string;
+    version: number;
+    root_id: string;
+    metadata: string | null;
+    collection: string;
+    allowed_groups: string | null;
+}
+
+interface NodeRow {
+    doc_id: string;
+    node_id: string;
+    parent_id: string | null;
+    ordinal: number;
+    type: SectionNode['type'];
+    level: number;
+    title: string;
+    content: string;
+    metadata: string | null;
+    position: string | null;
+}
+
+/**
+ * Rebuild section nodes from rows, attaching children in sibling order.
+ * Returns every node by ID; nodes whose parent is not in `rows` are roots.
+ */
+function assembleNodes(rows: NodeRow[]): Map<string, SectionNode> {
+    const nodes = new Map<string, SectionNode>();
+
+    for (const row of rows) {
+        const node: SectionNode = {
+            id: row.node_id,
+            type: row.type,
+            level: row.level,
+            title: row.title,
+            content: JSON.parse(row.content),
+            children: []
+        };
+        if (row.metadata) node.metadata = JSON.parse(row.metadata);
+        if (row.position) node.position = JSON.parse(row.position);
+        nodes.set(row.node_id, node);
+    }
+
+    // Rows are ordered by ordinal, so children are pushed in order
+    for (const row of rows) {
+        if (row.parent_id !== null) {
+            nodes.get(row.parent_id)?.children.push(nodes.get(row.node_id)!);
+        }
+    }
+
+    return nodes;
+}
+
+function toDocument(docRow: DocumentRow, nodeRows: NodeRow[]): Document {
+    const root = assembleNodes(nodeRows).get(docRow.root_id);
+    if (!root) {
+        throw new Error(`Document ${docRow.doc_id} has no root node ${docRow.root_id}`);
+    }
+
+    const doc: Document = {
+        docId: docRow.doc_id,
+        title: docRow.title,
+        version: docRow.version,
+        root,
+        nodes: buildNodesMap(root)
+    };
+    if (docRow.metadata) doc.metadata = JSON.parse(docRow.metadata);
+    if (docRow.collection !== DEFAULT_COLLECTION) doc.collection = docRow.collection;
+    if (docRow.allowed_groups) doc.allowedGroups = JSON.parse(docRow.allowed_groups);
+    return doc;
+}
+
+/**
+ * " WHERE ..." restricting document rows (alias "d") to some collections
+ */
+function collectionsClause(collections?: string[]): { sql: string; params: string[] } {
+    return collections
+        ? { sql: ' WHERE d.collection IN (SELECT value FROM json_each(?))', params: [JSON.stringify(collections)] }
+        : { sql: '', params: [] };
+}
+
+/**
+ * Load the given nodes with their full subtrees (in the order of `nodeIds`)
+ */
+function loadSubtrees(docId: string, nodeIds: string[]): SectionNode[] {
+    if (nodeIds.length === 0) return [];
+
+    const rows = getVectorDb().prepare(`
+        WITH RECURSIVE subtree(node_id) AS (
+            SELECT value FROM json_each(?)
+            UNION
+            SELECT n.node_id FROM document_nodes n
+            JOIN subtree s ON n.doc_id = ? AND n.parent_id = s.node_id
+        )
+        SELECT n.* FROM document_nodes n
+        JOIN subtree s ON n.node_id = s.node_id
+        WHERE n.doc_id = ?
+        ORDER BY n.ordinal
+    `).all(JSON.stringify(nodeIds), docId, docId) as NodeRow[];
+
+    const nodes = assembleNodes(rows);
+    return nodeIds.map(id => nodes.get(id)).filter((node): node is SectionNode => node !== undefined);
+}
+
+function getParentId(docId: string, nodeId: string): string | null | undefined {
+    const row = getVectorDb()
+        .prepare('SELECT parent_id FROM document_nodes WHERE doc_id = ? AND node_id = ?')
+        .get(docId, nodeId) as { parent_id: string | null } | undefined;
+    return row?.parent_id;
+}
+
+function getChildIds(docId: string, parentId: string): string[] {
+    return getVectorDb()
+        .prepare('SELECT node_id FROM document_nodes WHERE doc_id = ? AND parent_id = ? ORDER BY ordinal')
+        .pluck()
+        .all(docId, parentId) as string[];
+}
+
+export const sqliteDocumentStore: DocumentStore = {
+    name: 'sqlite',
+
+    async saveDocument(doc: Document) {
+        sqliteDocumentStore.saveInTransaction!(doc);
+    },
+
+    saveInTransaction(doc: Document) {
+        const db = getVectorDb();
+
+        // Upsert keeps the rowid, so documents stay in the order they were first saved
+        const upsertDoc = db.prepare(`
+            INSERT INTO documents (doc_id, title, version, root_id, metadata, collection, allowed_groups)
+            VALUES (@doc_id, @title, @version, @root_id, @metadata, @collection, @allowed_groups)
+            ON CONFLICT(doc_id) DO UPDATE SET
+                title = excluded.title,
+                version = excluded.version,
+                root_id = excluded.root_id,
+                metadata = excluded.metadata,
+                collection = excluded.collection,
+                allowed_groups = excluded.allowed_groups,
+                updated_at = datetime('now')
+        `);
+        const deleteNodes = db.prepare('DELETE FROM document_nodes WHERE doc_id = ?');
+        const insertNode = db.prepare(`
+            INSERT OR REPLACE INTO document_nodes
+                (doc_id, node_id, parent_id, ordinal, type, level, title, content, metadata, position)
+            VALUES (@doc_id, @node_id, @parent_id, @ordinal, @type, @level, @title, @content, @metadata, @position)
+        `);
+
+        const insertTree = (node: SectionNode, parentId: string | null, ordinal: number) => {
+            insertNode.run({
+                doc_id: doc.docId,
+                node_id: node.id,
+                parent_id: parentId,
+                ordinal,
+                type: node.type,
+                level: node.level,
+                title: node.title,
+                content: JSON.stringify(node.content),
+                metadata: node.metadata ? JSON.stringify(node.metadata) : null,
+                position: node.position ? JSON.stringify(node.position) : null
+            });
+            node.children.forEach((child, i) => insertTree(child, node.id, i));
+        };
+
+        // Nests as a savepoint inside the caller's transaction
+        const transaction = db.transaction(() => {
+            upsertDoc.run({
+                doc_id: doc.docId,
+                title: doc.title,
+                version: doc.version,
+                root_id: doc.root.id,
+                metadata: doc.metadata ? JSON.stringify(doc.metadata) : null,
+                collection: documentCollection(doc),
+                allowed_groups: allowedGroupsJson(doc)
+            });
+            deleteNodes.run(doc.docId);
+            insertTree(doc.root, null, 0);
+        });
+
+        transaction();
+    },
+
+    async loadDocument(docId: string) {
+        const db = getVectorDb();
+        const docRow = db.prepare('SELECT * FROM documents WHERE doc_id = ?').get(docId) as DocumentRow | undefined;
+        if (!docRow) return undefined;
+
+        const nodeRows = db.prepare('SELECT * FROM document_nodes WHERE doc_id = ? ORDER BY ordinal').all(docId) as NodeRow[];
+        return toDocument(docRow, nodeRows);
+    },
+
+    async deleteDocument(docId: string) {
+        const db = getVectorDb();
+        const transaction = db.transaction(() => {
+            db.prepare('DELETE FROM document_nodes WHERE doc_id = ?').run(docId);
+            return db.prepare('DELETE FROM documents WHERE doc_id = ?').run(docId).changes > 0;
+        });
+        return transaction();
+    },
+
+    async getDocumentByNodeId(nodeId: string) {
+        const docId = getVectorDb().prepare(`
+            SELECT n.doc_id FROM document_nodes n
+            JOIN documents d ON d.doc_id = n.doc_id
+            WHERE n.node_id = ?
+            ORDER BY d.rowid
+            LIMIT 1
+        `).pluck().get(nodeId) as string | undefined;
+
+        return docId === undefined ? undefined : sqliteDocumentStore.loadDocument(docId);
+    },
+
+    async getNode(docId: string, nodeId: string) {
+        return loadSubtrees(docId, [nodeId])[0];
+    },
+
+    async getParent(docId: string, nodeId: string) {
+        const parentId = getParentId(docId, nodeId);
+        return parentId ? loadSubtrees(docId, [parentId])[0] : undefined;
+    },
+
+    async getChildren(docId: string, nodeId: string) {
+        return loadSubtrees(docId, getChildIds(docId, nodeId));
+    },
+
+    async getSiblings(docId: string, nodeId: string) {
+        const parentId = getParentId(docId, nodeId);
+        if (!parentId) return [];
+        return loadSubtrees(docId, getChildIds(docId, parentId).filter(id => id !== nodeId));
+    },
+
+    async getAllDocuments(collections?: string[]) {
+        const db = getVectorDb();
+        const scope = collectionsClause(collections);
+        const docRows = db.prepare(`SELECT * FROM documents d${scope.sql} ORDER BY d.rowid`).all(...scope.params) as DocumentRow[];
+        const nodeRows = db.prepare(`
+            SELECT n.* FROM document_nodes n
+            WHERE n.doc_id IN (SELECT d.doc_id FROM documents d${scope.sql})
+            ORDER BY n.doc_id, n.ordinal
+        `).all(...scope.params) as NodeRow[];
+
+        const rowsByDoc = new Map<string, NodeRow[]>();
+        for (const row of nodeRows) {
+            const rows = rowsByDoc.get(row.doc_id) ?? [];
+            rows.push(row);
+            rowsByDoc.set(row.doc_id, rows);
+        }
+
+        return docRows.map(docRow => toDocument(docRow, rowsByDoc.get(docRow.doc_id) ?? []));
+    },
+
+    async getAllDocumentIds(collections?: string[]) {
+        const scope = collectionsClause(collections);
+        return getVectorDb().prepare(`SELECT d.doc_id FROM documents d${scope.sql} ORDER BY d.rowid`)
+            .pluck().all(...scope.params) as string[];
+    },
+
+    async listDocuments(collections?: string[]) {
+        const scope = collectionsClause(collections);
+        const rows = getVectorDb().prepare(`
+            SELECT d.doc_id, d.title, d.version, d.metadata, d.collection, d.allowed_groups, COUNT(n.node_id) AS sections_count
+            FROM documents d
+            LEFT JOIN document_nodes n ON n.doc_id = d.doc_id${scope.sql}
+            GROUP BY d.doc_id
+            ORDER BY d.rowid
+        `).all(...scope.params) as Array<Omit<DocumentRow, 'root_id'> & { sections_count: number }>;
+
+        return rows.map((row): DocumentSummary => ({
+            docId: row.doc_id,
+            title: row.title,
+            version: row.version,
+            metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+            collection: row.collection,
+            allowedGroups: row.allowed_groups ? JSON.parse(row.allowed_groups) : undefined,
+            sectionsCount: row.sections_count
+        }));
+    }
+};
@@ -1,5 +1,9 @@
 import Database from 'better-sqlite3';
 import * as sqliteVec from 'sqlite-vec';
+import { buildMetadataClause, type MetadataFilter } from '../search/metadataFilter.js';
+import { getEmbeddingSpaceName } from '../embeddings/index.js';
+import { bytesPerVector, recordQuantizationRecall, type QuantizationMode, type QuantizationRecall } from '../embeddings/quantization.js';
+import { config } from '../config.js';
 
 export interface SectionRow {
   node_id: string;
@@ -10,6 +14,21 @@ export interface SectionRow {
   path: string; // JSON string
   hash?: string; // Content hash for change detection
   dimensions?: number; // Actual embedding dimensions (for matryoshka support)
+  metadata?: string | null; // JSON string of document metadata (front matter)
+  space_id?: number | null; // Embedding space holding the vector (null: legacy padded table)
+  collection?: string; // Collection of the document (default: DEFAULT_COLLECTION)
+  allowed_groups?: string | null; // JSON array of the groups allowed to read the document (null: everyone)
+}
+
+/**
+ * An embedding space: vectors of one model and dimension.
+ * Each space has its own vector tables (vec_sections_<id>, vec_chunks_<id>).
+ */
+export interface EmbeddingSpace {
+  id: number;
+  model: string;
+  dimensions: number;
+  created_at?: string;
 }
 
 export interface SearchResult {
@@ -18,10 +37,26 @@ export interface SearchResult {
   distance: number;
 }
 
+/**
+ * Collection of documents indexed without one (and of rows written before collections existed)
+ */
+export const DEFAULT_COLLECTION = 'default';
+
 let DB_PATH = 'rag.db';
 
 let dbInstance: Database.Database | null = null;
 
+let spaceModelOverride: string | null = null;
+
+// Quantization mode the quantized tables of each space were last prepared for
+const preparedQuantization = new Map<number, QuantizationMode>();
+
+// Largest k a sqlite-vec KNN query accepts
+const MAX_KNN_K = 4096;
+
+// Whether this SQLite build has FTS5 (checked when the database is opened)
+let fullTextAvailable = false;
+
 /**
  * Set a custom database path (useful for testing)
  * Must be called before any database operations
@@ -42,6 +77,7 @@ export function closeDb() {
     dbInstance.close();
     dbInstance = null;
   }
+  preparedQuantization.clear();
 }
 
 export function getVectorDb() {
@@ -51,9 +87,7 @@ export function getVectorDb() {
   sqliteVec.load(dbInstance);
 
   // Initialize tables
-  // Added hash and dimensions columns
-  // Note: vec_sections uses FLOAT[2048] to support various embedding dimensions
-  // Actual dimensions are stored in sections.dimensions column
+  // Vector tables are created per embedding space (see ensureEmbeddingSpace)
   dbInstance.exec(`
     CREATE TABLE IF NOT EXISTS sections (
       rowid      INTEGER PRIMARY KEY,
@@ -65,13 +99,91 @@ export function getVectorDb() {
       path       TEXT,
       hash       TEXT,
       dimensions INTEGER,
+      metadata   TEXT,
+      space_id   INTEGER,
+      collection TEXT NOT NULL DEFAULT 'default',
+      allowed_groups TEXT,
       created_at TEXT DEFAULT (datetime('now')),
       updated_at TEXT DEFAULT (datetime('now'))
     );
 
-    CREATE VIRTUAL TABLE IF NOT EXISTS vec_sections USING vec0(
-      rowid INTEGER PRIMARY KEY,
-      embedding FLOAT[2048]
+    -- Collections: named sets of documents; queries and graph builds stay inside the requested ones
+    CREATE TABLE IF NOT EXISTS collections (
+      name        TEXT PRIMARY KEY,
+      description TEXT,
+      language    TEXT,
+      created_at  TEXT DEFAULT (datetime('now'))
+    );
+
+    -- API keys: only the SHA-256 of a key is stored; scopes and groups are JSON arrays
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id           TEXT PRIMARY KEY,
+      name         TEXT NOT NULL,
+      key_hash     TEXT UNIQUE NOT NULL,
+      prefix       TEXT NOT NULL,
+      scopes       TEXT NOT NULL,
+      groups       TEXT,
+      quota        INTEGER,
+      expires_at   TEXT,
+      revoked_at   TEXT,
+      last_used_at TEXT,
+      created_at   TEXT DEFAULT (datetime('now'))
+    );
+
+    -- Requests made with each API key per UTC day (for quotas)
+    CREATE TABLE IF NOT EXISTS api_key_usage (
+      key_id   TEXT NOT NULL,
+      day      TEXT NOT NULL,
+      requests INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (key_id, day)
+    );
+
+    -- Conversation sessions; principal is the owner when authentication is enabled
+    CREATE TABLE IF NOT EXISTS sessions (
+      id         TEXT PRIMARY KEY,
+      principal  TEXT,
+      title      TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    -- Turns of a session: the query as asked and as rewritten; sources and citations are JSON arrays
+    CREATE TABLE IF NOT EXISTS session_turns (
+      session_id       TEXT NOT NULL,
+      turn             INTEGER NOT NULL,
+      query            TEXT NOT NULL,
+      standalone_query TEXT NOT NULL,
+      rewrite          TEXT NOT NULL,
+      answer           TEXT NOT NULL,
+      sources          TEXT NOT NULL,
+      cited            TEXT NOT NULL,
+      created_at       TEXT NOT NULL,
+      PRIMARY KEY (session_id, turn)
+    );
+
+    -- Extra chunks of oversized sections (chunk 0 is the section row itself)
+    CREATE TABLE IF NOT EXISTS section_chunks (
+      rowid       INTEGER PRIMARY KEY,
+      node_id     TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      space_id    INTEGER,
+      UNIQUE (node_id, chunk_index)
+    );
+
+    -- Embedding spaces: one model at one dimension, with its own vector tables
+    CREATE TABLE IF NOT EXISTS embedding_spaces (
+      id         INTEGER PRIMARY KEY,
+      model      TEXT UNIQUE NOT NULL,
+      dimensions INTEGER NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    -- Matryoshka prefix indexes: the first <dimensions> of every vector of a space
+    CREATE TABLE IF NOT EXISTS prefix_indexes (
+      space_id   INTEGER NOT NULL,
+      dimensions INTEGER NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (space_id, dimensions)
     );
 
     -- Graph: Edges table for explicit relationships
@@ -88,6 +200,35 @@ export function getVectorDb() {
     CREATE INDEX IF NOT EXISTS idx_edges_from ON edges(from_node_id, type);
     CREATE INDEX IF NOT EXISTS idx_edges_to ON edges(to_node_id, type);
     CREATE INDEX IF NOT EXISTS idx_edges_type ON edges(type);
+
+    -- Document trees (SQLite document store): one row per document and per node
+    CREATE TABLE IF NOT EXISTS documents (
+      doc_id     TEXT PRIMARY KEY,
+      title      TEXT NOT NULL,
+      version    INTEGER NOT NULL,
+      root_id    TEXT NOT NULL,
+      metadata   TEXT,
+      collection TEXT NOT NULL DEFAULT 'default',
+      allowed_groups TEXT,
+      updated_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS document_nodes (
+      doc_id    TEXT NOT NULL,
+      node_id   TEXT NOT NULL,
+      parent_id TEXT,
+      ordinal   INTEGER NOT NULL,  -- Position among its siblings
+      type      TEXT NOT NULL,
+      level     INTEGER NOT NULL,
+      title     TEXT NOT NULL,
+      content   TEXT NOT NULL,     -- JSON array of content blocks
+      metadata  TEXT,
+      position  TEXT,              -- JSON SourcePosition
+      PRIMARY KEY (doc_id, node_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_document_nodes_parent ON document_nodes(doc_id, parent_id, ordinal);
+    CREATE INDEX IF NOT EXISTS idx_document_nodes_node ON document_nodes(node_id);
   `);
 
   // Migration checks (simplistic for this demo)
@@ -105,62 +246,466 @@ export function getVectorDb() {
     dbInstance.exec('ALTER TABLE sections ADD COLUMN dimensions INTEGER');
   }
 
+  try {
+    dbInstance.prepare('SELECT metadata FROM sections LIMIT 1').get();
+  } catch (e) {
+    console.log('Migrating: Adding metadata column to sections table...');
+    dbInstance.exec('ALTER TABLE sections ADD COLUMN metadata TEXT');
+  }
+
+  try {
+    dbInstance.prepare('SELECT space_id FROM sections LIMIT 1').get();
+  } catch (e) {
+    console.log('Migrating: Adding space_id column to sections table...');
+    dbInstance.exec('ALTER TABLE sections ADD COLUMN space_id INTEGER');
+  }
+
+  try {
+    dbInstance.prepare('SELECT space_id FROM section_chunks LIMIT 1').get();
+  } catch (e) {
+    console.log('Migrating: Adding space_id column to section_chunks table...');
+    dbInstance.exec('ALTER TABLE section_chunks ADD COLUMN space_id INTEGER');
+  }
+
+  try {
+    dbInstance.prepare('SELECT collection FROM sections LIMIT 1').get();
+  } catch (e) {
+    console.log('Migrating: Adding collection column to sections table...');
+    dbInstance.exec(`ALTER TABLE sections ADD COLUMN collection TEXT NOT NULL DEFAULT '${DEFAULT_COLLECTION}'`);
+  }
+
+  try {
+    dbInstance.prepare('SELECT collection FROM documents LIMIT 1').get();
+  } catch (e) {
+    console.log('Migrating: Adding collection column to documents table...');
+    dbInstance.exec(`ALTER TABLE documents ADD COLUMN collection TEXT NOT NULL DEFAULT '${DEFAULT_COLLECTION}'`);
+  }
+
+  try {
+    dbInstance.prepare('SELECT allowed_groups FROM sections LIMIT 1').get();
+  } catch (e) {
+    console.log('Migrating: Adding allowed_groups column to sections table...');
+    dbInstance.exec('ALTER TABLE sections ADD COLUMN allowed_groups TEXT');
+  }
+
+  try {
+    dbInstance.prepare('SELECT allowed_groups FROM documents LIMIT 1').get();
+  } catch (e) {
+    console.log('Migrating: Adding allowed_groups column to documents table...');
+    dbInstance.exec('ALTER TABLE documents ADD COLUMN allowed_groups TEXT');
+  }
+
+  try {
+    dbInstance.prepare('SELECT language FROM collections LIMIT 1').get();
+  } catch (e) {
+    console.log('Migrating: Adding language column to collections table...');
+    dbInstance.exec('ALTER TABLE collections ADD COLUMN language TEXT');
+  }
+
+  dbInstance.exec(`
+    CREATE INDEX IF NOT EXISTS idx_sections_collection ON sections(collection, doc_id);
+    INSERT OR IGNORE INTO collections (name, description) VALUES ('${DEFAULT_COLLECTION}', 'Documents indexed without a collection');
+  `);
+
+  // Full-text index of section titles and bodies, written in the same transactions as the section rows.
+  // Text is stored analyzed (terms of the section's language separated by spaces, see analyzers/).
+  try {
+    try {
+      dbInstance.prepare('SELECT language FROM sections_fts LIMIT 1').get();
+    } catch (e) {
+      if (dbInstance.prepare("SELECT name FROM sqlite_master WHERE name = 'sections_fts'").get()) {
+        console.log('Migrating: Rebuilding full-text index with analyzed text...');
+        dbInstance.exec('DROP TABLE sections_fts');
+      }
+    }
+    dbInstance.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS sections_fts USING fts5(
+        node_id UNINDEXED,
+        language,
+        title,
+        body,
+        tokenize = 'unicode61 remove_diacritics 0'
+      );
+    `);
+    fullTextAvailable = true;
+  } catch (e) {
+    console.warn('⚠️  FTS5 is not available, keyword search falls back to the in-memory BM25 index');
+    fullTextAvailable = false;
+  }
+
   return dbInstance;
 }
 
+/**
+ * Use a specific embedding space model name for writes and searches
+ * (null: derived from the embedding configuration, see getEmbeddingSpaceName)
+ */
+export function setEmbeddingSpaceModel(model: string | null) {
+  spaceModelOverride = model;
+}
+
+function activeSpaceModel(): string {
+  return spaceModelOverride ?? getEmbeddingSpaceName();
+}
+
+/**
+ * Name of the vector table of an embedding space
+ */
+export function vectorTableName(kind: 'sections' | 'chunks', spaceId: number): string {
+  return `vec_${kind}_${spaceId}`;
+}
+
+/**
+ * Name of the quantized copy of a vector table (int8 or bit vectors)
+ */
+export function quantizedTableName(kind: 'sections' | 'chunks', spaceId: number, mode: Exclude<QuantizationMode, 'float32'>): string {
+  return `${vectorTableName(kind, spaceId)}_${mode === 'int8' ? 'int8' : 'bit'}`;
+}
+
+/**
+ * SQL expression quantizing a float32 vector parameter (or column) for a mode
+ */
+function quantizeSql(mode: Exclude<QuantizationMode, 'float32'>, value = '?'): string {
+  return mode === 'int8' ? `vec_quantize_int8(${value}, 'unit')` : `vec_quantize_binary(${value})`;
+}
+
+/**
+ * Bring the quantized tables of a space in line with the configured mode.
+ * Tables of the active mode are created and filled from the float32 vectors;
+ * tables of other modes are dropped so no stale copy is left behind.
+ * Returns the active mode, or null when vectors are not quantized.
+ */
+function prepareQuantizedTables(db: Database.Database, spaceId: number): Exclude<QuantizationMode, 'float32'> | null {
+  const mode = config.quantization.mode;
+
+  if (preparedQuantization.get(spaceId) !== mode) {
+    // Inside an outer transaction the tables only exist once it commits
+    const nested = db.inTransaction;
+    const transaction = db.transaction(() => {
+      for (const other of ['int8', 'binary'] as const) {
+        if (other === mode) continue;
+        for (const kind of ['sections', 'chunks'] as const) {
+          db.exec(`DROP TABLE IF EXISTS ${quantizedTableName(kind, spaceId, other)}`);
+        }
+      }
+
+      if (mode === 'float32') return;
+
+      const dimensions = db.prepare('SELECT dimensions FROM embedding_spaces WHERE id = ?').pluck().get(spaceId) as number;
+      if (mode === 'binary' && dimensions % 8 !== 0) {
+        throw new Error(`Binary quantization needs dimensions divisible by 8 (embedding space ${spaceId} has ${dimensions})`);
+      }
+
+      for (const kind of ['sections', 'chunks'] as const) {
+        const table = quantizedTableName(kind, spaceId, mode);
+        if (db.prepare('SELECT 1 FROM sqlite_master WHERE name = ?').get(table)) continue;
+
+        db.exec(`
+          CREATE VIRTUAL TABLE ${table} USING vec0(
+            rowid INTEGER PRIMARY KEY,
+            embedding ${mode === 'int8' ? 'INT8' : 'BIT'}[${dimensions}]
+          );
+          INSERT INTO ${table}(rowid, embedding)
+          SELECT rowid, ${quantizeSql(mode, 'embedding')} FROM ${vectorTableName(kind, spaceId)};
+        `);
+      }
+    });
+
+    transaction();
+    if (!nested) {
+      preparedQuantization.set(spaceId, mode);
+    }
+  }
+
+  return mode === 'float32' ? null : mode;
+}
+
+/**
+ * Name of a Matryoshka prefix index (the first `dimensions` of each vector of a table)
+ */
+export function prefixTableName(kind: 'sections' | 'chunks', spaceId: number, dimensions: number): string {
+  return `${vectorTableName(kind, spaceId)}_p${dimensions}`;
+}
+
+function prefixIndexSizes(db: Database.Database, spaceId: number): number[] {
+  return db.prepare('SELECT dimensions FROM prefix_indexes WHERE space_id = ? ORDER BY dimensions')
+    .pluck().all(spaceId) as number[];
+}
+
+function assertPrefixSize(space: EmbeddingSpace, dimensions: number) {
+  if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions >= space.dimensions) {
+    throw new Error(
+      `Prefix size must be between 1 and ${space.dimensions - 1} for embedding space "${space.model}" (got ${dimensions})`
+    );
+  }
+}
+
+/**
+ * Create the prefix index of a space for a prefix size, filled from the full vectors.
+ * Every prefix index of a space is kept up to date by later writes.
+ */
+function ensurePrefixIndex(db: Database.Database, space: EmbeddingSpace, dimensions: number) {
+  assertPrefixSize(space, dimensions);
+  if (prefixIndexSizes(db, space.id).includes(dimensions)) return;
+
+  const transaction = db.transaction(() => {
+    for (const kind of ['sections', 'chunks'] as const) {
+      const table = prefixTableName(kind, space.id, dimensions);
+      db.exec(`
+        CREATE VIRTUAL TABLE ${table} USING vec0(
+          rowid INTEGER PRIMARY KEY,
+          embedding FLOAT[${dimensions}]
+        );
+        INSERT INTO ${table}(rowid, embedding)
+        SELECT rowid, vec_slice(embedding, 0, ${dimensions}) FROM ${vectorTableName(kind, space.id)};
+      `);
+    }
+    db.prepare('INSERT INTO prefix_indexes (space_id, dimensions) VALUES (?, ?)').run(space.id, dimensions);
+  });
+
+  transaction();
+}
+
+/**
+ * Drop the quantized copies and prefix indexes of a space's vectors so they are
+ * rebuilt from the float32 vectors on next use (needed after writing vector tables directly)
+ */
+export function resetDerivedVectorTables(spaceId: number) {
+  const db = getVectorDb();
+  for (const kind of ['sections', 'chunks'] as const) {
+    for (const mode of ['int8', 'binary'] as const) {
+      db.exec(`DROP TABLE IF EXISTS ${quantizedTableName(kind, spaceId, mode)}`);
+    }
+    for (const dimensions of prefixIndexSizes(db, spaceId)) {
+      db.exec(`DROP TABLE IF EXISTS ${prefixTableName(kind, spaceId, dimensions)}`);
+    }
+  }
+  db.prepare('DELETE FROM prefix_indexes WHERE space_id = ?').run(spaceId);
+  preparedQuantization.delete(spaceId);
+}
+
+/**
+ * Store a float32 vector with its quantized copy (when quantization is on)
+ * and its prefixes in the prefix indexes of the space
+ */
+function insertVector(db: Database.Database, kind: 'sections' | 'chunks', space: EmbeddingSpace, rowid: number | bigint, embedding: number[]) {
+  const buffer = toBuffer(embedding);
+
+  // Prepared first: new derived tables are filled from the float32 vectors stored so far
+  const mode = prepareQuantizedTables(db, space.id);
+  const defaultPrefix = config.matryoshka.prefixDimensions;
+  if (defaultPrefix > 0 && defaultPrefix < space.dimensions) {
+    ensurePrefixIndex(db, space, defaultPrefix);
+  }
+
+  // Explicitly pass rowid as BigInt to satisfy sqlite-vec if it requires it
+  db.prepare(`INSERT INTO ${vectorTableName(kind, space.id)}(rowid, embedding) VALUES (?, ?)`)
+    .run(BigInt(rowid), buffer);
+
+  if (mode) {
+    db.prepare(`INSERT INTO ${quantizedTableName(kind, space.id, mode)}(rowid, embedding) VALUES (?, ${quantizeSql(mode)})`)
+      .run(BigInt(rowid), buffer);
+  }
+
+  for (const dimensions of prefixIndexSizes(db, space.id)) {
+    db.prepare(`INSERT INTO ${prefixTableName(kind, space.id, dimensions)}(rowid, embedding) VALUES (?, vec_slice(?, 0, ${dimensions}))`)
+      .run(BigInt(rowid), buffer);
+  }
+}
+
+/**
+ * Whether the padded FLOAT[2048] tables of older databases are still present
+ */
+export function hasLegacyVectorTables(): boolean {
+  const db = getVectorDb();
+  return db.prepare(`SELECT 1 FROM sqlite_master WHERE name = 'vec_sections'`).get() !== undefined;
+}
+
+function findSpace(db: Database.Database, model: string): EmbeddingSpace | undefined {
+  return db.prepare('SELECT * FROM embedding_spaces WHERE model = ?').get(model) as EmbeddingSpace | undefined;
+}
+
+/**
+ * The embedding space of the configured model, if any vector was stored for it
+ */
+export function getEmbeddingSpace(): EmbeddingSpace | undefined {
+  return findSpace(getVectorDb(), activeSpaceModel());
+}
+
+export function listEmbeddingSpaces(): EmbeddingSpace[] {
+  const db = getVectorDb();
+  return db.prepare('SELECT * FROM embedding_spaces ORDER BY id').all() as EmbeddingSpace[];
+}
+
+/**
+ * Get the embedding space of a model, creating it and its vector tables on first use.
+ * Throws if the space exists with a different dimension.
+ */
+export function ensureEmbeddingSpace(model: string, dimensions: number): EmbeddingSpace {
+  const db = getVectorDb();
+
+  const existing = findSpace(db, model);
+  if (existing) {
+    assertDimensions(existing, dimensions, 'store');
+    return existing;
+  }
+
+  if (!Number.isInteger(dimensions) || dimensions < 1) {
+    throw new Error(`Cannot create embedding space "${model}" with ${dimensions} dimensions`);
+  }
+
+  const transaction = db.transaction(() => {
+    const info = db.prepare('INSERT INTO embedding_spaces (model, dimensions) VALUES (?, ?)').run(model, dimensions);
+    const id = Number(info.lastInsertRowid);
+    for (const kind of ['sections', 'chunks'] as const) {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS ${vectorTableName(kind, id)} USING vec0(
+          rowid INTEGER PRIMARY KEY,
+          embedding FLOAT[${dimensions}]
+        )
+      `);
+    }
+    return id;
+  });
+
+  return { id: transaction(), model, dimensions };
+}
+
+function assertDimensions(space: EmbeddingSpace, dimensions: number, action: 'store' | 'search with') {
+  if (dimensions !== space.dimensions) {
+    throw new Error(
+      `Cannot ${action} a ${dimensions}-dimensional vector: embedding space "${space.model}" ` +
+      `holds ${space.dimensions}-dimensional vectors`
+    );
+  }
+}
+
+function toBuffer(embedding: number[]): Buffer {
+  return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+/**
+ * Delete a vector from the table of its space (null: legacy padded table)
+ */
+function deleteVector(db: Database.Database, kind: 'sections' | 'chunks', spaceId: number | null, rowid: number) {
+  if (spaceId === null) {
+    if (!db.prepare('SELECT 1 FROM sqlite_master WHERE name = ?').get(`vec_${kind}`)) return;
+    db.prepare(`DELETE FROM vec_${kind} WHERE rowid = ?`).run(BigInt(rowid));
+    return;
+  }
+  const mode = prepareQuantizedTables(db, spaceId);
+  db.prepare(`DELETE FROM ${vectorTableName(kind, spaceId)} WHERE rowid = ?`).run(BigInt(rowid));
+  if (mode) {
+    db.prepare(`DELETE FROM ${quantizedTableName(kind, spaceId, mode)} WHERE rowid = ?`).run(BigInt(rowid));
+  }
+  for (const dimensions of prefixIndexSizes(db, spaceId)) {
+    db.prepare(`DELETE FROM ${prefixTableName(kind, spaceId, dimensions)} WHERE rowid = ?`).run(BigInt(rowid));
+  }
+}
+
+/**
+ * Run several writes in one SQLite transaction (writes nest as savepoints)
+ */
+export function runInTransaction<T>(fn: () => T): T {
+  const db = getVectorDb();
+  return db.transaction(fn)();
+}
+
 export function upsertSection(
   meta: SectionRow,
   embedding: number[]
 ) {
   const db = getVectorDb();
+  const space = ensureEmbeddingSpace(activeSpaceModel(), embedding.length);
 
-  // Store actual dimensions
-  const actualDimensions = embedding.length;
-  const metaWithDims = { ...meta, dimensions: actualDimensions };
+  // Store actual dimensions and the space holding the vector
+  const metaWithDims = {
+    ...meta,
+    dimensions: embedding.length,
+    metadata: meta.metadata ?? null,
+    space_id: space.id,
+    collection: meta.collection ?? DEFAULT_COLLECTION,
+    allowed_groups: meta.allowed_groups ?? null
+  };
 
   const insertMeta = db.prepare(`
-    INSERT OR REPLACE INTO sections (node_id, doc_id, level, title, is_leaf, path, hash, dimensions)
-    VALUES (@node_id, @doc_id, @level, @title, @is_leaf, @path, @hash, @dimensions)
+    INSERT OR REPLACE INTO sections (node_id, doc_id, level, title, is_leaf, path, hash, dimensions, metadata, space_id, collection, allowed_groups)
+    VALUES (@node_id, @doc_id, @level, @title, @is_leaf, @path, @hash, @dimensions, @metadata, @space_id, @collection, @allowed_groups)
   `);
 
-  const insertVec = db.prepare(`
-    INSERT OR REPLACE INTO vec_sections(rowid, embedding)
-    VALUES (?, ?)
-  `);
+  const getPrevious = db.prepare('SELECT rowid, space_id FROM sections WHERE node_id = ?');
 
   const transaction = db.transaction(() => {
+    // REPLACE gives the row a new rowid, so drop the vector of the old one
+    const previous = getPrevious.get(meta.node_id) as { rowid: number; space_id: number | null } | undefined;
+    if (previous) {
+      deleteVector(db, 'sections', previous.space_id, previous.rowid);
+    }
+
     const info = insertMeta.run(metaWithDims);
-    const rowid = info.lastInsertRowid;
+    insertVector(db, 'sections', space, info.lastInsertRowid, embedding);
+  });
+
+  transaction();
+}
 
-    // Pad embedding to 2048 dimensions if needed (sqlite-vec table is FLOAT[2048])
-    const paddedEmbedding = padEmbedding(embedding, 2048);
-    const buffer = Buffer.from(new Float32Array(paddedEmbedding).buffer);
+/**
+ * Replace the extra chunk vectors of a section.
+ * The section row holds chunk 0; `embeddings` are chunks 1..n (empty clears them).
+ */
+export function replaceSectionChunks(nodeId: string, embeddings: number[][]) {
+  const db = getVectorDb();
+  const model = activeSpaceModel();
+
+  const insertChunk = db.prepare('INSERT INTO section_chunks (node_id, chunk_index, space_id) VALUES (?, ?, ?)');
+
+  const transaction = db.transaction(() => {
+    deleteChunkRows(db, nodeId);
 
-    // Explicitly pass rowid as BigInt to satisfy sqlite-vec if it requires it
-    insertVec.run(BigInt(rowid), buffer);
+    embeddings.forEach((embedding, i) => {
+      const space = ensureEmbeddingSpace(model, embedding.length);
+      const info = insertChunk.run(nodeId, i + 1, space.id);
+      insertVector(db, 'chunks', space, info.lastInsertRowid, embedding);
+    });
   });
 
   transaction();
 }
 
 /**
- * Pad embedding to target dimensions with zeros
- * @param embedding - Original embedding
- * @param targetDims - Target dimensions
- * @returns Padded embedding
+ * Number of extra chunk vectors stored for a section
  */
-function padEmbedding(embedding: number[], targetDims: number): number[] {
-  if (embedding.length >= targetDims) {
-    return embedding.slice(0, targetDims);
-  }
-  
-  // Pad with zeros
-  const padded = new Array(targetDims).fill(0);
-  for (let i = 0; i < embedding.length; i++) {
-    padded[i] = embedding[i];
+export function getSectionChunkCount(nodeId: string): number {
+  const db = getVectorDb();
+  return db.prepare('SELECT COUNT(*) FROM section_chunks WHERE node_id = ?').pluck().get(nodeId) as number;
+}
+
+function deleteChunkRows(db: Database.Database, nodeId: string) {
+  const chunks = db.prepare('SELECT rowid, space_id FROM section_chunks WHERE node_id = ?')
+    .all(nodeId) as Array<{ rowid: number; space_id: number | null }>;
+
+  for (const chunk of chunks) {
+    deleteVector(db, 'chunks', chunk.space_id, chunk.rowid);
   }
-  
-  return padded;
+  db.prepare('DELETE FROM section_chunks WHERE node_id = ?').run(nodeId);
+}
+
+/**
+ * Read the stored vector of a section (null if the section has none)
+ */
+export function getSectionEmbedding(nodeId: string): number[] | null {
+  const db = getVectorDb();
+  const section = db.prepare('SELECT rowid, space_id FROM sections WHERE node_id = ?')
+    .get(nodeId) as { rowid: number; space_id: number | null } | undefined;
+
+  if (!section || section.space_id === null) return null;
+
+  const vec = db.prepare(`SELECT embedding FROM ${vectorTableName('sections', section.space_id)} WHERE rowid = ?`)
+    .get(BigInt(section.rowid)) as { embedding: Buffer } | undefined;
+  if (!vec) return null;
+
+  const float32 = new Float32Array(vec.embedding.buffer, vec.embedding.byteOffset, vec.embedding.byteLength / 4);
+  return Array.from(float32);
 }
 
 export function getSectionMeta(nodeId: string): SectionRow | undefined {
@@ -168,77 +713,590 @@ export function getSectionMeta(nodeId: string): SectionRow | undefined {
   return db.prepare('SELECT * FROM sections WHERE node_id = ?').get(nodeId) as SectionRow | undefined;
 }
 
+/**
+ * Update the stored metadata and access labels of a section without touching its embedding
+ */
+export function updateSectionMetadata(nodeId: string, metadata: string | null, allowedGroups: string | null) {
+  const db = getVectorDb();
+  db.prepare(`UPDATE sections SET metadata = ?, allowed_groups = ?, updated_at = datetime('now') WHERE node_id = ?`)
+    .run(metadata, allowedGroups, nodeId);
+}
+
 export function deleteSection(nodeId: string) {
   const db = getVectorDb();
-  const getRowId = db.prepare('SELECT rowid FROM sections WHERE node_id = ?').pluck();
+  const getRow = db.prepare('SELECT rowid, space_id FROM sections WHERE node_id = ?');
   const deleteMeta = db.prepare('DELETE FROM sections WHERE node_id = ?');
-  const deleteVec = db.prepare('DELETE FROM vec_sections WHERE rowid = ?');
 
   const transaction = db.transaction(() => {
-    const rowid = getRowId.get(nodeId);
-    if (rowid) {
-      deleteVec.run(rowid);
+    const row = getRow.get(nodeId) as { rowid: number; space_id: number | null } | undefined;
+    if (row) {
+      deleteVector(db, 'sections', row.space_id, row.rowid);
       deleteMeta.run(nodeId);
     }
+    deleteChunkRows(db, nodeId);
+    if (fullTextAvailable) {
+      db.prepare('DELETE FROM sections_fts WHERE node_id = ?').run(nodeId);
+    }
   });
 
   transaction();
 }
 
+/**
+ * Whether the full-text index (FTS5) is available
+ */
+export function hasFullTextIndex(): boolean {
+  getVectorDb();
+  return fullTextAvailable;
+}
+
+/**
+ * Replace the full-text entry of a section (no-op without FTS5)
+ * @param language - Analyzer the title and body terms were produced with
+ * @param title - Analyzed title terms, separated by spaces
+ * @param body - Analyzed body terms, separated by spaces
+ */
+export function upsertSectionText(nodeId: string, language: string, title: string, body: string) {
+  if (!hasFullTextIndex()) return;
+
+  const db = getVectorDb();
+  db.transaction(() => {
+    db.prepare('DELETE FROM sections_fts WHERE node_id = ?').run(nodeId);
+    db.prepare('INSERT INTO sections_fts (node_id, language, title, body) VALUES (?, ?, ?, ?)')
+      .run(nodeId, language, title, body);
+  })();
+}
+
+/**
+ * Sections with and without a full-text entry
+ */
+export function getFullTextStats(): { sections: number; indexed: number } {
+  const db = getVectorDb();
+  const sections = (db.prepare('SELECT COUNT(*) AS count FROM sections').get() as { count: number }).count;
+  const indexed = hasFullTextIndex()
+    ? (db.prepare('SELECT COUNT(*) AS count FROM sections_fts').get() as { count: number }).count
+    : 0;
+  return { sections, indexed };
+}
+
+export interface FullTextHit {
+  node_id: string;
+  doc_id: string;
+  title: string;       // Section title
+  language: string;
+  terms: string;       // Analyzed title and body terms
+  score: number;       // BM25, higher is better
+}
+
+/**
+ * Languages of the full-text entries
+ */
+export function getFullTextLanguages(): string[] {
+  if (!hasFullTextIndex()) return [];
+  return getVectorDb().prepare('SELECT DISTINCT language FROM sections_fts').pluck().all() as string[];
+}
+
+/**
+ * Rank sections matching an FTS5 query with BM25, applying the filters inside the query
+ *
+ * @param match - FTS5 query expression
+ * @param weights - BM25 weight of the title and body columns
+ */
+export function searchFullText(
+  match: string,
+  limit: number,
+  filters: SearchFilters = {},
+  weights: { title: number; body: number } = { title: 1, body: 1 }
+): FullTextHit[] {
+  if (!hasFullTextIndex()) {
+    throw new Error('Full-text search requires SQLite with FTS5');
+  }
+
+  const filterSql = buildFilterSql(filters);
+
+  // bm25() is lower for better matches; the first weights are the node_id and language columns
+  return getVectorDb().prepare(`
+    SELECT f.node_id, s.doc_id, s.title, f.language, f.title || ' ' || f.body AS terms,
+      -bm25(sections_fts, 0, 0, ?, ?) AS score
+    FROM sections_fts f
+    JOIN sections s ON s.node_id = f.node_id
+    WHERE sections_fts MATCH ?${filterSql.sql}
+    ORDER BY score DESC
+    LIMIT ?
+  `).all(weights.title, weights.body, match, ...filterSql.params, limit) as FullTextHit[];
+}
+
 export function getDocNodeIds(docId: string): string[] {
   const db = getVectorDb();
   const rows = db.prepare('SELECT node_id FROM sections WHERE doc_id = ?').all(docId) as { node_id: string }[];
   return rows.map(r => r.node_id);
 }
 
+/**
+ * Collection holding the indexed sections of a document (undefined if it has none)
+ */
+export function getDocumentCollection(docId: string): string | undefined {
+  const db = getVectorDb();
+  return db.prepare('SELECT collection FROM sections WHERE doc_id = ? LIMIT 1').pluck().get(docId) as string | undefined;
+}
+
+/**
+ * Numeric range (bounds may be omitted)
+ */
+export interface RangeFilter {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
 export interface SearchFilters {
-  doc_id?: string;
-  level?: number;
+  doc_id?: string | string[];              // One document or any of a list
+  level?: number | number[] | RangeFilter; // A level, any of a list, or a range
   is_leaf?: number;
+  metadata?: MetadataFilter[];  // Document metadata conditions (all must match)
+  collections?: string[];       // Only sections of these collections
+  groups?: string[];            // Only sections readable by these groups (undefined: no access control)
 }
 
-export function searchKnn(queryEmbedding: number[], k: number = 5, filters: SearchFilters = {}): SearchResult[] {
+/**
+ * SQL condition: the row whose `allowed_groups` column is given is readable by
+ * the groups bound to `param` (a JSON array). Rows without labels are readable by everyone.
+ */
+export function aclClause(column: string, param: string = '?'): string {
+  return `(${column} IS NULL OR EXISTS (SELECT 1 FROM json_each(${column}) WHERE value IN (SELECT value FROM json_each(${param}))))`;
+}
+
+const RANGE_OPERATORS: Record<keyof RangeFilter, string> = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+/**
+ * " AND ..." condition of a column equal to a value, in a list or in a range
+ */
+function valueFilterSql(column: string, value: string | number | Array<string | number> | RangeFilter): { sql: string; params: any[] } {
+  if (Array.isArray(value)) {
+    return { sql: ` AND ${column} IN (SELECT value FROM json_each(?))`, params: [JSON.stringify(value)] };
+  }
+  if (typeof value === 'object') {
+    const bounds = (Object.keys(RANGE_OPERATORS) as Array<keyof RangeFilter>).filter(op => value[op] !== undefined);
+    return {
+      sql: bounds.map(op => ` AND ${column} ${RANGE_OPERATORS[op]} ?`).join(''),
+      params: bounds.map(op => value[op])
+    };
+  }
+  return { sql: ` AND ${column} = ?`, params: [value] };
+}
+
+/**
+ * Build the " AND ..." conditions for section filters (table alias "s")
+ */
+function buildFilterSql(filters: SearchFilters): { sql: string; params: any[] } {
+  let sql = '';
+  const params: any[] = [];
+
+  for (const [column, value] of [['s.doc_id', filters.doc_id], ['s.level', filters.level]] as const) {
+    if (value === undefined || value === '') continue;
+    const condition = valueFilterSql(column, value);
+    sql += condition.sql;
+    params.push(...condition.params);
+  }
+
+  if (filters.is_leaf !== undefined) {
+    sql += ` AND s.is_leaf = ?`;
+    params.push(filters.is_leaf);
+  }
+
+  if (filters.collections) {
+    sql += ` AND s.collection IN (SELECT value FROM json_each(?))`;
+    params.push(JSON.stringify(filters.collections));
+  }
+
+  if (filters.groups) {
+    sql += ` AND ${aclClause('s.allowed_groups')}`;
+    params.push(JSON.stringify(filters.groups));
+  }
+
+  if (filters.metadata && filters.metadata.length > 0) {
+    const metadataSql = buildMetadataClause(filters.metadata, 's.metadata');
+    sql += ` AND ${metadataSql.clause}`;
+    params.push(...metadataSql.params);
+  }
+
+  return { sql, params };
+}
+
+/**
+ * Per-query options of the two-stage Matryoshka search (defaults: config.matryoshka)
+ */
+export interface KnnOptions {
+  prefixDimensions?: number;     // Coarse search on this prefix of the vectors (0: single stage)
+  candidateMultiplier?: number;  // Prefix candidates reranked per requested result
+}
+
+export function searchKnn(
+  queryEmbedding: number[],
+  k: number = 5,
+  filters: SearchFilters = {},
+  options: KnnOptions = {}
+): SearchResult[] {
   const db = getVectorDb();
 
-  // Pad query embedding to match table dimensions (2048)
-  const paddedEmbedding = padEmbedding(queryEmbedding, 2048);
-  const buffer = Buffer.from(new Float32Array(paddedEmbedding).buffer);
+  // Nothing indexed with the configured model yet
+  const space = getEmbeddingSpace();
+  if (!space) {
+    return [];
+  }
+  assertDimensions(space, queryEmbedding.length, 'search with');
+
+  const buffer = toBuffer(queryEmbedding);
+  const filterSql = buildFilterSql(filters);
+  const chunkCount = (db.prepare('SELECT COUNT(*) FROM section_chunks WHERE space_id = ?').pluck().get(space.id) as number);
+
+  // Selective filters: compute the distance of every matching section instead of searching the index
+  if (filterSql.sql) {
+    const matching = db.prepare(`SELECT COUNT(*) FROM sections s WHERE s.space_id = ?${filterSql.sql}`)
+      .pluck().get(space.id, ...filterSql.params) as number;
+    if (matching <= config.knn.exactScanMaxRows) {
+      return exactHits(db, space.id, buffer, k, filterSql, chunkCount > 0);
+    }
+  }
+
+  const coarse = selectCoarseIndex(db, space, options);
+  const sectionCount = db.prepare('SELECT COUNT(*) FROM sections WHERE space_id = ?').pluck().get(space.id) as number;
+  const rowCount = Math.max(sectionCount, chunkCount);
+
+  // Over-fetch from the vector index to allow for filtering, and widen the search
+  // until k hits pass the filters or every vector was a neighbour
+  let knnK = Math.min(k * 10, MAX_KNN_K);
+  for (;;) {
+    const sectionHits = vectorHits(db, 'sections', space.id, coarse, buffer, knnK, k, filterSql);
+
+    // Chunk hits count as hits on their section
+    const hits = chunkCount > 0
+      ? collapseHits([...sectionHits, ...vectorHits(db, 'chunks', space.id, coarse, buffer, knnK, null, filterSql)], k)
+      : sectionHits;
+
+    if (hits.length >= k || !filterSql.sql || knnK >= rowCount) {
+      return hits;
+    }
+    if (knnK >= MAX_KNN_K) {
+      // The index can't return more neighbours
+      return exactHits(db, space.id, buffer, k, filterSql, chunkCount > 0);
+    }
+    knnK = Math.min(knnK * 4, MAX_KNN_K);
+  }
+}
+
+/**
+ * The k sections matching the filters closest to the query, by exact float32
+ * distance of each matching section (and its chunks) without the vector index
+ */
+function exactHits(
+  db: Database.Database,
+  spaceId: number,
+  query: Buffer,
+  k: number,
+  filterSql: { sql: string; params: any[] },
+  withChunks: boolean
+): SearchResult[] {
+  const sectionHits = db.prepare(`
+    SELECT s.node_id, s.doc_id, vec_distance_l2(v.embedding, ?) AS distance
+    FROM sections s
+    CROSS JOIN ${vectorTableName('sections', spaceId)} v ON v.rowid = s.rowid
+    WHERE s.space_id = ?${filterSql.sql}
+    ORDER BY distance
+    LIMIT ?
+  `).all(query, spaceId, ...filterSql.params, k) as SearchResult[];
+
+  if (!withChunks) {
+    return sectionHits;
+  }
+
+  const chunkHits = db.prepare(`
+    SELECT s.node_id, s.doc_id, MIN(vec_distance_l2(v.embedding, ?)) AS distance
+    FROM sections s
+    CROSS JOIN section_chunks c ON c.node_id = s.node_id
+    CROSS JOIN ${vectorTableName('chunks', spaceId)} v ON v.rowid = c.rowid
+    WHERE s.space_id = ?${filterSql.sql}
+    GROUP BY s.node_id
+    ORDER BY distance
+    LIMIT ?
+  `).all(query, spaceId, ...filterSql.params, k) as SearchResult[];
+
+  return collapseHits([...sectionHits, ...chunkHits], k);
+}
+
+/**
+ * A smaller copy of a vector table, searched first to pick the candidates
+ * that are then ranked by their full float32 distance
+ */
+interface CoarseIndex {
+  table: (kind: 'sections' | 'chunks') => string;
+  match: string;   // SQL expression turning the float32 query into the copy's format
+  factor: number;  // Candidates per requested hit
+  scan?: boolean;  // No index: rank every vector of the table by its distance to `match`
+}
+
+function quantizedIndex(spaceId: number, mode: Exclude<QuantizationMode, 'float32'>): CoarseIndex {
+  return {
+    table: kind => quantizedTableName(kind, spaceId, mode),
+    match: quantizeSql(mode),
+    factor: config.quantization.rescoreFactor
+  };
+}
+
+/**
+ * Pick the first search stage: a Matryoshka prefix index when a prefix size is
+ * requested (or configured), else the quantized copy, else none (single stage).
+ * Only the configured prefix size gets a persistent index; other requested sizes
+ * are compared on the prefixes of the full vectors, without creating tables.
+ */
+function selectCoarseIndex(db: Database.Database, space: EmbeddingSpace, options: KnnOptions): CoarseIndex | null {
+  const mode = prepareQuantizedTables(db, space.id);
+
+  const configured = config.matryoshka.prefixDimensions;
+  const prefixDimensions = options.prefixDimensions
+    ?? (configured > 0 && configured < space.dimensions ? configured : 0);
+  const multiplier = options.candidateMultiplier ?? config.matryoshka.candidateMultiplier;
+
+  if (!Number.isInteger(multiplier) || multiplier < 1) {
+    throw new Error(`Candidate multiplier must be a positive integer (got ${multiplier})`);
+  }
+
+  if (prefixDimensions > 0) {
+    assertPrefixSize(space, prefixDimensions);
+    if (prefixDimensions === configured) {
+      ensurePrefixIndex(db, space, prefixDimensions);
+    }
+
+    if (prefixIndexSizes(db, space.id).includes(prefixDimensions)) {
+      return {
+        table: kind => prefixTableName(kind, space.id, prefixDimensions),
+        match: `vec_slice(?, 0, ${prefixDimensions})`,
+        factor: multiplier
+      };
+    }
+
+    return {
+      table: kind => vectorTableName(kind, space.id),
+      match: `vec_distance_l2(vec_slice(v.embedding, 0, ${prefixDimensions}), vec_slice(?, 0, ${prefixDimensions}))`,
+      factor: multiplier,
+      scan: true
+    };
+  }
+
+  return mode ? quantizedIndex(space.id, mode) : null;
+}
+
+/**
+ * KNN hits of one vector table of a space, joined to their section rows.
+ * With a coarse index, `factor` times more candidates are taken from it and
+ * ranked again by their exact float32 distance.
+ *
+ * @param knnK - Neighbours asked from the vector index (before filters)
+ * @param limit - Hits to return (null: all hits that pass the filters)
+ */
+function vectorHits(
+  db: Database.Database,
+  kind: 'sections' | 'chunks',
+  spaceId: number,
+  coarse: CoarseIndex | null,
+  query: Buffer,
+  knnK: number,
+  limit: number | null,
+  filterSql: { sql: string; params: any[] }
+): SearchResult[] {
+  const join = kind === 'sections'
+    ? 'JOIN sections s ON s.rowid = v.rowid'
+    : 'JOIN section_chunks c ON c.rowid = v.rowid JOIN sections s ON s.node_id = c.node_id';
+
+  if (!coarse) {
+    let sql = `
+      SELECT
+        s.node_id,
+        s.doc_id,
+        v.distance
+      FROM ${vectorTableName(kind, spaceId)} v
+      ${join}
+      WHERE v.embedding MATCH ?
+        AND k = ?
+    `;
+    sql += filterSql.sql;
+    sql += ` ORDER BY v.distance`;
+
+    const params: any[] = [query, knnK, ...filterSql.params];
+    if (limit !== null) {
+      sql += ` LIMIT ?`;
+      params.push(limit);
+    }
 
-  // Over-fetch from vector index to allow for filtering
-  // If we want k results after filtering, we need to ask the vector index for more candidates.
-  const overFetchK = k * 10;
+    return db.prepare(sql).all(...params) as SearchResult[];
+  }
 
-  let query = `
+  // Stage 1: candidates from the coarse index
+  const candidateCount = (limit ?? knnK) * coarse.factor;
+  const candidates = coarse.scan ? db.prepare(`
+    SELECT
+      v.rowid,
+      s.node_id,
+      s.doc_id
+    FROM ${coarse.table(kind)} v
+    ${join}
+    WHERE s.space_id = ?${filterSql.sql}
+    ORDER BY ${coarse.match}
+    LIMIT ?
+  `).all(spaceId, ...filterSql.params, query, candidateCount) as Array<{ rowid: number; node_id: string; doc_id: string }> : db.prepare(`
     SELECT
+      v.rowid,
       s.node_id,
-      s.doc_id,
-      v.distance
-    FROM vec_sections v
+      s.doc_id
+    FROM ${coarse.table(kind)} v
+    ${join}
+    WHERE v.embedding MATCH ${coarse.match}
+      AND k = ?${filterSql.sql}
+    ORDER BY v.distance
+    LIMIT ?
+  `).all(query, Math.min(Math.max(knnK, candidateCount), MAX_KNN_K), ...filterSql.params, candidateCount) as Array<{ rowid: number; node_id: string; doc_id: string }>;
+
+  // Stage 2: rank the candidates by their full float32 vectors
+  const exactDistance = db.prepare(`SELECT vec_distance_l2(embedding, ?) FROM ${vectorTableName(kind, spaceId)} WHERE rowid = ?`).pluck();
+  const hits = candidates
+    .map(c => ({ node_id: c.node_id, doc_id: c.doc_id, distance: exactDistance.get(query, BigInt(c.rowid)) as number }))
+    .sort((a, b) => a.distance - b.distance);
+
+  return limit === null ? hits : hits.slice(0, limit);
+}
+
+/**
+ * Measure how many of the exact float32 nearest neighbours the quantized search
+ * finds, using a sample of stored section vectors as queries. The result is kept
+ * for getEmbeddingServiceInfo. Returns undefined without quantization or vectors.
+ *
+ * @param options.queries - Section vectors sampled as queries (default: 20)
+ * @param options.k - Neighbours compared per query (default: 10)
+ */
+export function measureQuantizationRecall(options: { queries?: number; k?: number } = {}): QuantizationRecall | undefined {
+  const { queries = 20, k = 10 } = options;
+  const db = getVectorDb();
+
+  const space = getEmbeddingSpace();
+  const mode = space ? prepareQuantizedTables(db, space.id) : null;
+  if (!space || !mode) {
+    return undefined;
+  }
+
+  const rowids = db.prepare('SELECT rowid FROM sections WHERE space_id = ? ORDER BY random() LIMIT ?')
+    .pluck().all(space.id, queries) as number[];
+  if (rowids.length === 0) {
+    return undefined;
+  }
+
+  const getVector = db.prepare(`SELECT embedding FROM ${vectorTableName('sections', space.id)} WHERE rowid = ?`).pluck();
+  const quantizedRanking = db.prepare(`
+    SELECT s.node_id
+    FROM ${quantizedTableName('sections', space.id, mode)} v
     JOIN sections s ON s.rowid = v.rowid
-    WHERE v.embedding MATCH ?
+    WHERE v.embedding MATCH ${quantizeSql(mode)}
       AND k = ?
-  `;
+    ORDER BY v.distance
+  `).pluck();
+  const noFilters = { sql: '', params: [] };
 
-  const params: any[] = [buffer, overFetchK];
+  let recall = 0;
+  let candidateRecall = 0;
+  for (const rowid of rowids) {
+    const query = getVector.get(BigInt(rowid)) as Buffer;
+    const exact = new Set(vectorHits(db, 'sections', space.id, null, query, k, k, noFilters).map(h => h.node_id));
+    const rescored = vectorHits(db, 'sections', space.id, quantizedIndex(space.id, mode), query, k, k, noFilters);
+    const ranked = quantizedRanking.all(query, k) as string[];
 
-  if (filters.doc_id) {
-    query += ` AND s.doc_id = ?`;
-    params.push(filters.doc_id);
+    recall += rescored.filter(h => exact.has(h.node_id)).length / exact.size;
+    candidateRecall += ranked.filter(id => exact.has(id)).length / exact.size;
   }
 
-  if (filters.level !== undefined) {
-    query += ` AND s.level = ?`;
-    params.push(filters.level);
+  const result: QuantizationRecall = {
+    mode,
+    k,
+    queries: rowids.length,
+    recall: recall / rowids.length,
+    candidateRecall: candidateRecall / rowids.length,
+    measuredAt: new Date().toISOString()
+  };
+  recordQuantizationRecall(result);
+  return result;
+}
+
+/**
+ * Vectors stored per embedding space and the bytes they take. The quantized
+ * copy and prefix indexes are stored in addition to the float32 vectors;
+ * totalBytes adds them up.
+ */
+export function getVectorStorageStats() {
+  const db = getVectorDb();
+  const mode = config.quantization.mode;
+
+  return listEmbeddingSpaces().map(space => {
+    const sections = db.prepare('SELECT COUNT(*) FROM sections WHERE space_id = ?').pluck().get(space.id) as number;
+    const chunks = db.prepare('SELECT COUNT(*) FROM section_chunks WHERE space_id = ?').pluck().get(space.id) as number;
+    const vectors = sections + chunks;
+    const float32Bytes = vectors * bytesPerVector(space.dimensions, 'float32');
+    const quantizedBytes = mode === 'float32' ? 0 : vectors * bytesPerVector(space.dimensions, mode);
+    const prefixIndexes = prefixIndexSizes(db, space.id).map(dimensions => ({
+      dimensions,
+      bytes: vectors * bytesPerVector(dimensions, 'float32')
+    }));
+
+    return {
+      id: space.id,
+      model: space.model,
+      dimensions: space.dimensions,
+      sections,
+      chunks,
+      float32Bytes,
+      quantizedBytes,
+      prefixIndexes,
+      totalBytes: float32Bytes + quantizedBytes + prefixIndexes.reduce((sum, index) => sum + index.bytes, 0)
+    };
+  });
+}
+
+/**
+ * Keep the best (closest) hit per section, sorted by distance
+ */
+function collapseHits(hits: SearchResult[], k: number): SearchResult[] {
+  const best = new Map<string, SearchResult>();
+
+  for (const hit of hits) {
+    const current = best.get(hit.node_id);
+    if (!current || hit.distance < current.distance) {
+      best.set(hit.node_id, hit);
+    }
   }
 
-  if (filters.is_leaf !== undefined) {
-    query += ` AND s.is_leaf = ?`;
-    params.push(filters.is_leaf);
+  return Array.from(best.values())
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k);
+}
+
+/**
+ * Keep only the node IDs whose section row matches the filters.
+ * Used to apply the same filters to results that don't come from searchKnn (BM25, graph expansion).
+ */
+export function filterNodeIds(nodeIds: string[], filters: SearchFilters = {}): Set<string> {
+  const filterSql = buildFilterSql(filters);
+
+  if (!filterSql.sql) {
+    return new Set(nodeIds);
+  }
+
+  if (nodeIds.length === 0) {
+    return new Set();
   }
 
-  query += ` ORDER BY v.distance LIMIT ?`;
-  params.push(k);
+  const db = getVectorDb();
+
+  const query = `SELECT node_id FROM sections s WHERE s.node_id IN (${nodeIds.map(() => '?').join(', ')})${filterSql.sql}`;
+  const params: any[] = [...nodeIds, ...filterSql.params];
 
-  const stmt = db.prepare(query);
-  return stmt.all(...params) as SearchResult[];
+  const rows = db.prepare(query).pluck().all(...params) as string[];
+  return new Set(rows);
 }
@@ -2,4 +2,4 @@
  * Legacy embeddings module - now re-exports from embeddings/
  * This file maintains backward compatibility with existing imports
  */
-export { embed, embedBatch, getEmbeddingServiceInfo } from './embeddings/index.js';
+export { embed, embedBatch, embedInBatches, getEmbeddingServiceInfo, getEmbeddingSpaceName } from './embeddings/index.js';
@@ -3,6 +3,7 @@ import { generateMockEmbedding } from './mockEmbeddings.js';
 import { generateOpenAIEmbedding, generateOpenAIEmbeddingsBatch } from './openaiEmbeddings.js';
 import { generateOllamaEmbedding, generateOllamaEmbeddingsBatch } from './ollamaEmbeddings.js';
 import { applyMatryoshka } from './matryoshka.js';
+import { getQuantizationInfo } from './quantization.js';
 
 /**
  * Generate embedding for a single text using the configured service
@@ -60,6 +61,50 @@ export async function embedBatch(texts: string[]): Promise<number[][]> {
     return embeddings;
 }
 
+/**
+ * Embed many texts in batches, with at most `concurrency` batches in flight.
+ * Results are returned in the order of `texts`.
+ * @param texts - Texts to embed
+ * @param options - Batch size and concurrency (default: config.indexing)
+ */
+export async function embedInBatches(
+    texts: string[],
+    options: { batchSize?: number; concurrency?: number } = {}
+): Promise<number[][]> {
+    const batchSize = Math.max(1, options.batchSize ?? config.indexing.batchSize);
+    const concurrency = Math.max(1, options.concurrency ?? config.indexing.concurrency);
+
+    const batches: string[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+        batches.push(texts.slice(i, i + batchSize));
+    }
+
+    const results: number[][][] = new Array(batches.length);
+    let nextBatch = 0;
+    let failed = false;
+
+    // Each worker takes the next pending batch until none are left or one failed
+    const worker = async () => {
+        while (!failed && nextBatch < batches.length) {
+            const index = nextBatch++;
+            try {
+                const embeddings = await embedBatch(batches[index]);
+                if (embeddings.length !== batches[index].length) {
+                    throw new Error(`Embedding service returned ${embeddings.length} vectors for ${batches[index].length} texts`);
+                }
+                results[index] = embeddings;
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+
+    return results.flat();
+}
+
 /**
  * Get information about the current embedding service
  */
@@ -108,7 +153,19 @@ export function getEmbeddingServiceInfo() {
             targetDimensions: config.matryoshka.targetDimensions,
             truncated: effectiveDimensions < originalDimensions
         } : undefined,
+        quantization: getQuantizationInfo(effectiveDimensions),
         url: config.embeddingService === 'ollama' ? config.ollama.url : undefined
     };
 }
 
+
+/**
+ * Name of the embedding space stored vectors belong to: the service and model,
+ * plus the matryoshka target when vectors are truncated.
+ * Vectors from different spaces live in different tables and are never compared.
+ */
+export function getEmbeddingSpaceName(): string {
+    const info = getEmbeddingServiceInfo();
+    const name = `${info.service}:${info.model}`;
+    return info.matryoshka?.truncated ? `${name}@${info.dimensions}` : name;
+}
@@ -0,0 +1,77 @@
+import { config } from '../config.js';
+
+/**
+ * Vector Quantization Support
+ *
+ * Searches run in two stages: a KNN search over quantized vectors finds
+ * candidates cheaply, then the float32 vectors of those candidates are compared
+ * exactly (rescoring) to produce the final ranking and distances.
+ *
+ * Modes:
+ * - float32: no quantization, single-stage search
+ * - int8: one byte per dimension (4x smaller), values assumed in [-1, 1]
+ * - binary: one bit per dimension (32x smaller), keeps the sign of each dimension
+ *
+ * The quantized copy is stored next to the float32 vectors used for rescoring:
+ * it makes the first stage scan less data, but adds to the storage.
+ */
+
+export type QuantizationMode = 'float32' | 'int8' | 'binary';
+
+export const QUANTIZATION_MODES: QuantizationMode[] = ['float32', 'int8', 'binary'];
+
+/**
+ * Recall of the quantized search measured against exact float32 search
+ */
+export interface QuantizationRecall {
+    mode: QuantizationMode;
+    k: number;
+    queries: number;
+    recall: number;           // Overlap with the exact top-k after rescoring (0-1)
+    candidateRecall: number;  // Overlap with the exact top-k ranking by quantized distance alone (0-1)
+    measuredAt: string;
+}
+
+let lastRecall: QuantizationRecall | undefined;
+
+/**
+ * Bytes taken by one vector in a quantization mode
+ */
+export function bytesPerVector(dimensions: number, mode: QuantizationMode): number {
+    switch (mode) {
+        case 'int8':
+            return dimensions;
+        case 'binary':
+            return Math.ceil(dimensions / 8);
+        case 'float32':
+        default:
+            return dimensions * 4;
+    }
+}
+
+/**
+ * Storage figures of one vector at the configured quantization mode
+ * @param dimensions - Embedding dimensions
+ */
+export function getQuantizationInfo(dimensions: number) {
+    const mode = config.quantization.mode;
+    const quantizedBytes = bytesPerVector(dimensions, mode);
+    const float32Bytes = bytesPerVector(dimensions, 'float32');
+
+    return {
+        mode,
+        rescoreFactor: mode === 'float32' ? undefined : config.quantization.rescoreFactor,
+        bytesPerVector: quantizedBytes,                  // Scanned by the first search stage
+        float32BytesPerVector: float32Bytes,
+        storedBytesPerVector: mode === 'float32' ? float32Bytes : float32Bytes + quantizedBytes,
+        scanReduction: float32Bytes / quantizedBytes,    // Less data scanned than float32 (not less stored)
+        recall: lastRecall?.mode === mode ? lastRecall : undefined
+    };
+}
+
+/**
+ * Remember the latest recall measurement (reported by getQuantizationInfo)
+ */
+export function recordQuantizationRecall(recall: QuantizationRecall): void {
+    lastRecall = recall;
+}
@@ -0,0 +1,166 @@
+import { config } from '../config.js';
+import { countTokens, chunkText } from '../chunker.js';
+import type { RagSource } from '../graph/graphRagEngine.js';
+import { getChatProvider, type ChatMessage, type ChatOptions, type ChatProvider } from './index.js';
+
+/**
+ * Grounded Answer Generation
+ *
+ * Packs the ranked sources of a query under a token budget, numbers them and
+ * asks the chat provider for an answer citing them inline ("[1]", "[2][3]").
+ * Citations are mapped back to the nodeIds of their sources; numbers that
+ * don't match a source in the prompt are removed from the answer.
+ * With onToken, the completion is streamed from providers that support it
+ * (streamed text is raw: citations are only cleaned in the final answer).
+ */
+
+export interface GenerationOptions extends ChatOptions {
+    contextTokens?: number;    // Token budget of the sources (default: config.chat.contextTokens)
+    provider?: ChatProvider;   // Default: getChatProvider()
+    onToken?: (text: string) => void;  // Receives the answer as it is generated
+}
+
+export interface Citation {
+    index: number;             // Number of the source in the prompt and the answer
+    nodeId: string;
+    docId: string;
+}
+
+export interface PackedSource extends Citation {
+    tokens: number;
+    truncated: boolean;        // Cut to fit the budget
+}
+
+export interface GeneratedAnswer {
+    answer: string;
+    citations: Citation[];     // Cited sources, in order of first citation
+    context: {
+        sources: PackedSource[];
+        tokens: number;
+        omitted: string[];     // nodeIds of the sources left out of the budget
+    };
+    provider: string;
+    model: string;
+}
+
+const SYSTEM_PROMPT = [
+    'You answer questions using only the numbered sources provided.',
+    'Cite the source of every statement with its number in square brackets, e.g. [1] or [1][3].',
+    "If the sources don't contain the answer, say that you don't know. Do not make up facts or citations."
+].join(' ');
+
+const NO_SOURCES_ANSWER = 'No relevant information found.';
+
+/**
+ * Pack sources in rank order under a token budget.
+ * Sources that don't fit are skipped; the top source is cut to the budget rather than left out.
+ */
+function packSources(sources: RagSource[], budget: number): { packed: Array<PackedSource & { text: string }>; omitted: string[] } {
+    const packed: Array<PackedSource & { text: string }> = [];
+    const omitted: string[] = [];
+    let used = 0;
+
+    for (const source of sources) {
+        let text = source.context;
+        let tokens = countTokens(text);
+        let truncated = false;
+
+        if (used + tokens > budget && packed.length === 0 && budget > 0) {
+            text = chunkText(text, { maxTokens: budget, overlapTokens: 0 })[0].text;
+            tokens = countTokens(text);
+            truncated = true;
+        }
+
+        if (used + tokens > budget) {
+            omitted.push(source.nodeId);
+            continue;
+        }
+
+        used += tokens;
+        packed.push({ index: packed.length + 1, nodeId: source.nodeId, docId: source.docId, tokens, truncated, text });
+    }
+
+    return { packed, omitted };
+}
+
+function buildPrompt(query: string, sources: Array<PackedSource & { text: string }>): ChatMessage[] {
+    const blocks = sources.map(s => `[${s.index}] (document: ${s.docId})\n${s.text.trim()}`);
+
+    return [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: `Sources:\n\n${blocks.join('\n\n')}\n\nQuestion: ${query}` }
+    ];
+}
+
+/**
+ * Keep the citations of known sources in an answer.
+ * "[2, 5]" with only 2 known becomes "[2]"; citations without known numbers are removed.
+ * @returns The cleaned answer and the cited numbers in order of first citation
+ */
+export function parseCitations(text: string, known: Set<number>): { answer: string; cited: number[] } {
+    const cited: number[] = [];
+
+    const answer = text.replace(/\s*\[(\d+(?:\s*,\s*\d+)*)\]/g, (match, list: string) => {
+        const numbers = list.split(',').map(n => parseInt(n, 10)).filter(n => known.has(n));
+        for (const n of numbers) {
+            if (!cited.includes(n)) cited.push(n);
+        }
+        if (numbers.length === 0) return '';
+        // Keep the whitespace before the citation
+        return match.slice(0, match.indexOf('[')) + numbers.map(n => `[${n}]`).join('');
+    });
+
+    return { answer: answer.trim(), cited };
+}
+
+/**
+ * Generate an answer to a query from its ranked sources
+ * @param query - The question
+ * @param sources - Sources of the query, best first
+ * @param options - Chat provider, model and token budgets
+ */
+export async function generateAnswer(
+    query: string,
+    sources: RagSource[],
+    options: GenerationOptions = {}
+): Promise<GeneratedAnswer> {
+    const provider = options.provider ?? getChatProvider();
+    const model = options.model ?? provider.model;
+    const { packed, omitted } = packSources(sources, options.contextTokens ?? config.chat.contextTokens);
+
+    const context = {
+        sources: packed.map(({ text, ...source }) => source),
+        tokens: packed.reduce((sum, s) => sum + s.tokens, 0),
+        omitted
+    };
+
+    if (packed.length === 0) {
+        options.onToken?.(NO_SOURCES_ANSWER);
+        return { answer: NO_SOURCES_ANSWER, citations: [], context, provider: provider.name, model };
+    }
+
+    const messages = buildPrompt(query, packed);
+    const chatOptions: ChatOptions = { model, temperature: options.temperature, maxTokens: options.maxTokens, signal: options.signal };
+    let completion: string;
+
+    if (options.onToken && provider.stream) {
+        completion = '';
+        for await (const text of provider.stream(messages, chatOptions)) {
+            // Stop reading the completion once cancelled, whether or not the provider saw the signal
+            options.signal?.throwIfAborted();
+            completion += text;
+            options.onToken(text);
+        }
+    } else {
+        completion = await provider.complete(messages, chatOptions);
+        options.onToken?.(completion);
+    }
+
+    const { answer, cited } = parseCitations(completion, new Set(packed.map(s => s.index)));
+    const citations = cited.map(index => {
+        const { nodeId, docId } = packed[index - 1];
+        return { index, nodeId, docId };
+    });
+
+    return { answer, citations, context, provider: provider.name, model };
+}
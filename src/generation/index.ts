@@ -0,0 +1,48 @@
+import { config } from '../config.js';
+import { createMockChatProvider } from './mockChat.js';
+import { createOpenAIChatProvider } from './openaiChat.js';
+import { createOllamaChatProvider } from './ollamaChat.js';
+
+/**
+ * Chat Providers
+ *
+ * The LLMs answers are generated with. Every backend implements ChatProvider;
+ * the configured one (CHAT_PROVIDER) is returned by getChatProvider().
+ */
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatOptions {
+    model?: string;           // Default: config.chat.model
+    temperature?: number;     // Default: config.chat.temperature
+    maxTokens?: number;       // Max tokens of the completion (default: config.chat.maxTokens)
+    signal?: AbortSignal;     // Cancels the request
+}
+
+export interface ChatProvider {
+    name: string;
+    model: string;            // Default model
+    complete(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+    stream?(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<string>;  // Completion as it is generated
+}
+
+/**
+ * Get the chat provider of the configured service
+ */
+export function getChatProvider(): ChatProvider {
+    switch (config.chat.provider) {
+        case 'openai':
+            return createOpenAIChatProvider();
+        case 'ollama':
+            return createOllamaChatProvider();
+        case 'mock':
+        default:
+            return createMockChatProvider();
+    }
+}
+
+export { createMockChatProvider, createOpenAIChatProvider, createOllamaChatProvider };
+export { generateAnswer, parseCitations, type GenerationOptions, type GeneratedAnswer, type Citation } from './answer.js';
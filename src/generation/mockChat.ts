@@ -0,0 +1,64 @@
+import type { ChatMessage, ChatProvider } from './index.js';
+
+/**
+ * Deterministic extractive "LLM" for tests and offline use.
+ * Reads the numbered sources and the question of the last user message and
+ * answers with the sentence of each source sharing the most words with the
+ * question, cited with the number of its source. Streams the answer word by word.
+ */
+
+const MAX_SENTENCES = 3;
+
+export const MOCK_NO_ANSWER = "I don't know based on the provided sources.";
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []);
+
+export function createMockChatProvider(): ChatProvider {
+    return {
+        name: 'mock',
+        model: 'mock-extractive',
+
+        async *stream(messages: ChatMessage[]): AsyncIterable<string> {
+            const answer = await this.complete(messages);
+            for (const word of answer.match(/\S+\s*/g) ?? []) {
+                yield word;
+            }
+        },
+
+        async complete(messages: ChatMessage[]): Promise<string> {
+            const prompt = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+            const question = words(prompt.match(/^Question:\s*(.*)$/m)?.[1] ?? '');
+
+            // "[n] ..." header lines start each source block
+            const blocks = prompt.split(/^(?=\[\d+\])/m).filter(block => /^\[\d+\]/.test(block));
+            const answers: Array<{ sentence: string; index: string; overlap: number }> = [];
+
+            for (const block of blocks) {
+                const index = block.match(/^\[(\d+)\]/)![1];
+                const body = block.slice(block.indexOf('\n') + 1).split(/^Question:/m)[0];
+                let best: { sentence: string; overlap: number } | undefined;
+
+                // Skip the "[Document: ...]" and "[Subsections: ...]" lines of the context
+                const lines = body.split('\n').filter(line => !/^\[[^\]]+\]$/.test(line.trim()));
+
+                for (const sentence of lines.join('\n').split(/(?<=[.!?])\s+|\n+/)) {
+                    const text = sentence.replace(/^#+\s*/, '').trim();
+                    const overlap = Array.from(words(text)).filter(w => question.has(w)).length;
+                    if (text && overlap > 0 && (!best || overlap > best.overlap)) {
+                        best = { sentence: text, overlap };
+                    }
+                }
+
+                if (best) answers.push({ ...best, index });
+            }
+
+            if (answers.length === 0) return MOCK_NO_ANSWER;
+
+            return answers
+                .sort((a, b) => b.overlap - a.overlap)
+                .slice(0, MAX_SENTENCES)
+                .map(a => `${a.sentence.replace(/[.!?]$/, '')} [${a.index}].`)
+                .join(' ');
+        }
+    };
+}
@@ -0,0 +1,111 @@
+import { config } from '../config.js';
+import type { ChatMessage, ChatOptions, ChatProvider } from './index.js';
+
+interface OllamaChatRequest {
+    model: string;
+    messages: ChatMessage[];
+    stream: boolean;
+    options: {
+        temperature: number;
+        num_predict: number;
+    };
+}
+
+interface OllamaChatResponse {
+    message?: { role: string; content: string };
+}
+
+/**
+ * POST a chat request to Ollama
+ * @returns The response; one JSON object per line when streaming
+ */
+async function postChat(messages: ChatMessage[], options: ChatOptions, stream: boolean): Promise<Response> {
+    const ollamaUrl = config.ollama.url;
+    const model = options.model ?? config.chat.model;
+
+    try {
+        const response = await fetch(`${ollamaUrl}/api/chat`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                model,
+                messages,
+                stream,
+                options: {
+                    temperature: options.temperature ?? config.chat.temperature,
+                    num_predict: options.maxTokens ?? config.chat.maxTokens
+                }
+            } as OllamaChatRequest),
+            signal: options.signal
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Ollama API error (${response.status}): ${errorText}`);
+        }
+
+        return response;
+    } catch (error) {
+        if (error instanceof Error) {
+            // Check if it's a connection error
+            if (error.message.includes('fetch failed') || error.message.includes('ECONNREFUSED')) {
+                throw new Error(
+                    `Cannot connect to Ollama at ${ollamaUrl}. ` +
+                    `Make sure Ollama is running (ollama serve) and the model '${model}' is installed.`
+                );
+            }
+            throw new Error(`Ollama chat completion failed: ${error.message}`);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Chat completions of Ollama (local LLM server)
+ */
+export function createOllamaChatProvider(): ChatProvider {
+    return {
+        name: 'ollama',
+        model: config.chat.model,
+
+        async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+            const response = await postChat(messages, options, false);
+            const data = await response.json() as OllamaChatResponse;
+
+            if (typeof data.message?.content !== 'string') {
+                throw new Error('Invalid response from Ollama: missing message content');
+            }
+
+            return data.message.content;
+        },
+
+        async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<string> {
+            const response = await postChat(messages, options, true);
+            if (!response.body) {
+                throw new Error('Invalid response from Ollama: missing body');
+            }
+
+            const decoder = new TextDecoder();
+            let buffered = '';
+
+            for await (const bytes of response.body) {
+                buffered += decoder.decode(bytes, { stream: true });
+                const lines = buffered.split('\n');
+                buffered = lines.pop()!;
+
+                for (const line of lines) {
+                    if (!line.trim()) continue;
+                    const data = JSON.parse(line) as OllamaChatResponse;
+                    if (data.message?.content) yield data.message.content;
+                }
+            }
+
+            if (buffered.trim()) {
+                const data = JSON.parse(buffered) as OllamaChatResponse;
+                if (data.message?.content) yield data.message.content;
+            }
+        }
+    };
+}
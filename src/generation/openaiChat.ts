@@ -0,0 +1,76 @@
+import OpenAI from 'openai';
+import { config } from '../config.js';
+import type { ChatMessage, ChatOptions, ChatProvider } from './index.js';
+
+let openaiClient: OpenAI | null = null;
+
+/**
+ * Initialize the client of the OpenAI-compatible endpoint (lazy initialization)
+ */
+function getOpenAIClient(): OpenAI {
+    if (!openaiClient) {
+        if (!config.chat.apiKey && !config.chat.baseUrl) {
+            throw new Error('CHAT_API_KEY or OPENAI_API_KEY is not set. Please set it in environment variables or .env file');
+        }
+        openaiClient = new OpenAI({
+            // Local OpenAI-compatible servers usually take any key
+            apiKey: config.chat.apiKey || 'not-needed',
+            baseURL: config.chat.baseUrl
+        });
+    }
+    return openaiClient;
+}
+
+/**
+ * Chat completions of OpenAI or any OpenAI-compatible server (CHAT_BASE_URL)
+ */
+export function createOpenAIChatProvider(): ChatProvider {
+    return {
+        name: 'openai',
+        model: config.chat.model,
+
+        async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+            const client = getOpenAIClient();
+
+            try {
+                const response = await client.chat.completions.create({
+                    model: options.model ?? config.chat.model,
+                    messages,
+                    temperature: options.temperature ?? config.chat.temperature,
+                    max_tokens: options.maxTokens ?? config.chat.maxTokens
+                }, { signal: options.signal });
+
+                return response.choices[0]?.message?.content ?? '';
+            } catch (error) {
+                if (error instanceof Error) {
+                    throw new Error(`OpenAI chat completion failed: ${error.message}`);
+                }
+                throw error;
+            }
+        },
+
+        async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<string> {
+            const client = getOpenAIClient();
+
+            try {
+                const stream = await client.chat.completions.create({
+                    model: options.model ?? config.chat.model,
+                    messages,
+                    temperature: options.temperature ?? config.chat.temperature,
+                    max_tokens: options.maxTokens ?? config.chat.maxTokens,
+                    stream: true
+                }, { signal: options.signal });
+
+                for await (const chunk of stream) {
+                    const text = chunk.choices[0]?.delta?.content;
+                    if (text) yield text;
+                }
+            } catch (error) {
+                if (error instanceof Error) {
+                    throw new Error(`OpenAI chat completion failed: ${error.message}`);
+                }
+                throw error;
+            }
+        }
+    };
+}
@@ -0,0 +1,134 @@
+import { config } from '../config.js';
+import { isStopword } from '../analyzers/index.js';
+import { getChatProvider, type ChatProvider } from './index.js';
+
+/**
+ * Query Expansion
+ *
+ * Generates variants of a query for multi-query retrieval: paraphrases,
+ * sub-questions and a hypothetical answer passage (HyDE, embedded instead of
+ * the question because it reads like the sections that answer it).
+ * The chat provider writes the variants; without it (or when it fails), rules
+ * derive a keyword paraphrase and sub-questions from conjunctions, and there
+ * is no HyDE passage.
+ */
+
+export type VariantKind = 'original' | 'paraphrase' | 'subquestion' | 'hyde';
+
+export interface QueryVariant {
+    kind: VariantKind;
+    text: string;
+}
+
+export interface ExpansionOptions {
+    paraphrases?: number;       // Default: config.expansion.paraphrases
+    subQuestions?: number;      // Default: config.expansion.subQuestions
+    hyde?: boolean;             // Default: config.expansion.hyde
+    keyword?: boolean;          // Also search every variant with BM25 (default: true)
+    rrfK?: number;              // RRF rank constant of the fusion (default: 60)
+    mode?: 'auto' | 'llm' | 'rules';  // Default: config.expansion.mode ("auto": the LLM unless the mock provider is configured)
+    provider?: ChatProvider;    // Default: getChatProvider()
+}
+
+export interface ExpandedQuery {
+    variants: QueryVariant[];   // The original query first
+    method: 'llm' | 'rules';
+}
+
+const SYSTEM_PROMPT = 'You help a search engine find the documentation sections that answer a question. Reply with a JSON object only.';
+
+const CONJUNCTIONS = /\s*(?:,|;|\band\b|\bor\b|\bvs\.?|\bversus\b)\s*/i;
+
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'_-]*/gu;
+
+/**
+ * Words of a text without stopwords, e.g. "How do I rotate keys?" -> "rotate keys"
+ */
+function keywords(text: string): string {
+    return (text.match(WORD) ?? []).filter(word => !isStopword(word)).join(' ');
+}
+
+/**
+ * The original query and unique variants (case-insensitive), in order
+ */
+function withOriginal(query: string, variants: QueryVariant[]): QueryVariant[] {
+    const seen = new Set<string>();
+    return [{ kind: 'original' as const, text: query }, ...variants].filter(variant => {
+        const key = variant.text.trim().toLowerCase();
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Expand a query with rules: its keywords as a paraphrase, and its parts
+ * joined by "and", "or", "vs" or commas as sub-questions
+ */
+export function expandQueryWithRules(query: string, options: ExpansionOptions = {}): ExpandedQuery {
+    const paraphrases = options.paraphrases ?? config.expansion.paraphrases;
+    const subQuestions = options.subQuestions ?? config.expansion.subQuestions;
+    const variants: QueryVariant[] = [];
+
+    const keywordQuery = keywords(query);
+    if (paraphrases > 0 && keywordQuery) {
+        variants.push({ kind: 'paraphrase', text: keywordQuery });
+    }
+
+    const parts = query.split(CONJUNCTIONS).map(keywords).filter(Boolean);
+    if (parts.length > 1) {
+        variants.push(...parts.slice(0, subQuestions).map(text => ({ kind: 'subquestion' as const, text })));
+    }
+
+    return { variants: withOriginal(query, variants), method: 'rules' };
+}
+
+const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0) : [];
+
+/**
+ * Expand a query into variants for multi-query retrieval
+ * @param query - The question
+ * @param options - How many variants of each kind, and how to write them
+ */
+export async function expandQuery(query: string, options: ExpansionOptions = {}): Promise<ExpandedQuery> {
+    const paraphrases = options.paraphrases ?? config.expansion.paraphrases;
+    const subQuestions = options.subQuestions ?? config.expansion.subQuestions;
+    const hyde = options.hyde ?? config.expansion.hyde;
+
+    const mode = options.mode ?? config.expansion.mode;
+    const useLlm = mode === 'llm' || (mode === 'auto' && (options.provider !== undefined || config.chat.provider !== 'mock'));
+    if (!useLlm) return expandQueryWithRules(query, options);
+
+    const fields = [
+        paraphrases > 0 && `"paraphrases": ${paraphrases} rewordings of the question using different terms`,
+        subQuestions > 0 && `"subQuestions": up to ${subQuestions} simpler questions that together answer it (empty when it is already simple)`,
+        hyde && '"hypotheticalAnswer": a short passage (2-4 sentences) answering it, written like documentation'
+    ].filter(Boolean);
+
+    if (fields.length === 0) return { variants: withOriginal(query, []), method: 'rules' };
+
+    try {
+        const provider = options.provider ?? getChatProvider();
+        const completion = await provider.complete([
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: `Question: ${query}\n\nWrite a JSON object with:\n${fields.map(f => `- ${f}`).join('\n')}` }
+        ], { temperature: 0.3 });
+
+        const json = completion.match(/\{[\s\S]*\}/)?.[0];
+        if (!json) throw new Error('no JSON object in the completion');
+        const parsed = JSON.parse(json) as Record<string, unknown>;
+
+        const variants: QueryVariant[] = [
+            ...strings(parsed.paraphrases).slice(0, paraphrases).map(text => ({ kind: 'paraphrase' as const, text })),
+            ...strings(parsed.subQuestions).slice(0, subQuestions).map(text => ({ kind: 'subquestion' as const, text })),
+            ...(hyde ? strings([parsed.hypotheticalAnswer]).map(text => ({ kind: 'hyde' as const, text })) : [])
+        ];
+
+        return { variants: withOriginal(query, variants), method: 'llm' };
+    } catch (error) {
+        console.warn(`⚠️  Query expansion failed, using rules: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return expandQueryWithRules(query, options);
+}
@@ -0,0 +1,129 @@
+import { config } from '../config.js';
+import { getChatProvider, type ChatProvider } from './index.js';
+
+/**
+ * Follow-up Query Rewriting
+ *
+ * Turns a follow-up question ("what about its limits?") into a standalone
+ * query using the previous turns of a conversation, either with the chat
+ * provider or with rules: English pronouns are replaced with the topic of the
+ * last standalone question, and elliptical follow-ups ("what about pricing?")
+ * get the topic appended. The LLM falls back to the rules when it fails.
+ */
+
+export type RewriteMethod = 'none' | 'rules' | 'llm';
+
+export type RewriteMode = 'auto' | 'llm' | 'rules';
+
+export interface HistoryTurn {
+    query: string;
+    standaloneQuery: string;
+    rewrite: RewriteMethod;
+    answer: string;
+}
+
+export interface RewriteOptions {
+    mode?: RewriteMode;         // Default: config.sessions.rewrite ("auto": the LLM unless the mock provider is configured)
+    provider?: ChatProvider;    // Default: getChatProvider()
+}
+
+export interface RewrittenQuery {
+    query: string;
+    method: RewriteMethod;
+}
+
+// Answers in the rewriting prompt are cut to this many characters
+const MAX_ANSWER_CHARS = 300;
+
+const QUESTION_PREFIX = /^(?:(?:what|which|who|how|why|when|where)(?:\s+(?:is|are|was|were|does|do|did|can|could|should|would|will|much|many))?|(?:is|are|does|do|can|could|should)|(?:tell me about|explain|describe|define|show me))\s+/i;
+const FOLLOW_UP_PREFIX = /^(?:and\s+)?(?:what about|how about|what of|and|also|same for)\s+/i;
+const POSSESSIVES = /\b(?:its|their)\b/gi;
+const PRONOUNS = /\b(?:it|they|them|this one|that one)\b/gi;
+
+const SYSTEM_PROMPT = [
+    "Rewrite the user's follow-up question as a standalone question that can be understood without the conversation.",
+    'Resolve pronouns and references using the conversation and keep the language of the question.',
+    'If the question is already standalone, return it unchanged. Reply with the question only.'
+].join(' ');
+
+/**
+ * Topic of the last question that was asked on its own (not a rule-rewritten follow-up),
+ * e.g. "What is the API gateway?" -> "the API gateway"
+ */
+function lastTopic(history: HistoryTurn[]): string | undefined {
+    const turn = [...history].reverse().find(t => t.rewrite !== 'rules') ?? history[history.length - 1];
+    if (!turn) return undefined;
+
+    const topic = turn.standaloneQuery
+        .trim()
+        .replace(/[?.!]+$/, '')
+        .replace(FOLLOW_UP_PREFIX, '')
+        .replace(QUESTION_PREFIX, '')
+        .trim();
+
+    return topic || undefined;
+}
+
+/**
+ * Rewrite a follow-up with rules
+ */
+export function rewriteQueryWithRules(query: string, history: HistoryTurn[]): RewrittenQuery {
+    const topic = lastTopic(history);
+    if (!topic) return { query, method: 'none' };
+
+    const possessive = /s$/i.test(topic) ? `${topic}'` : `${topic}'s`;
+    const replaced = query.replace(POSSESSIVES, possessive).replace(PRONOUNS, topic);
+    if (replaced !== query) {
+        return { query: replaced, method: 'rules' };
+    }
+
+    if (FOLLOW_UP_PREFIX.test(query.trim())) {
+        const [, text, punctuation] = query.trim().match(/^(.*?)([?.!]*)$/s)!;
+        return { query: `${text} regarding ${topic}${punctuation}`, method: 'rules' };
+    }
+
+    return { query, method: 'none' };
+}
+
+/**
+ * Rewrite a follow-up question into a standalone query
+ * @param query - The question as asked
+ * @param history - Previous turns, oldest first
+ */
+export async function rewriteQuery(
+    query: string,
+    history: HistoryTurn[],
+    options: RewriteOptions = {}
+): Promise<RewrittenQuery> {
+    if (history.length === 0) return { query, method: 'none' };
+
+    const mode = options.mode ?? config.sessions.rewrite;
+    const useLlm = mode === 'llm' || (mode === 'auto' && (options.provider !== undefined || config.chat.provider !== 'mock'));
+    if (!useLlm) return rewriteQueryWithRules(query, history);
+
+    const conversation = history.map(turn => {
+        const answer = turn.answer.length > MAX_ANSWER_CHARS ? `${turn.answer.slice(0, MAX_ANSWER_CHARS)}...` : turn.answer;
+        return `User: ${turn.query}\nAssistant: ${answer}`;
+    });
+
+    try {
+        const provider = options.provider ?? getChatProvider();
+        const completion = await provider.complete([
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: `Conversation:\n${conversation.join('\n')}\n\nFollow-up question: ${query}\n\nStandalone question:` }
+        ], { temperature: 0 });
+
+        const rewritten = completion
+            .split('\n')
+            .map(line => line.replace(/^standalone question:\s*/i, '').replace(/^["'“]|["'”]$/g, '').trim())
+            .find(line => line.length > 0);
+
+        if (rewritten) {
+            return { query: rewritten, method: rewritten === query ? 'none' : 'llm' };
+        }
+    } catch (error) {
+        console.warn(`⚠️  Query rewriting failed, using rules: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return rewriteQueryWithRules(query, history);
+}
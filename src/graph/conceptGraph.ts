@@ -7,7 +7,9 @@
 
 import { extractEntities, extractConceptsFromTexts, type Entity, type EntityType } from './entityExtractor.js';
 import { upsertEdges, getGraphStats, type Edge, type EdgeType } from '../db/graphStore.js';
-import { loadDocument } from '../db/jsonStore.js';
+import { loadDocument, type ContentBlock } from '../db/documentStore.js';
+import { blockToPlainText } from '../contentBlocks.js';
+import { documentLanguage } from '../search/fullText.js';
 import { getSectionMeta, type SectionRow } from '../db/vectorStore.js';
 
 export interface ConceptNode {
@@ -55,13 +57,14 @@ export async function buildConceptGraph(docId: string): Promise<ConceptGraphResu
   const edges: ConceptEdge[] = [];
   let totalMentions = 0;
   let totalDefines = 0;
+  const language = documentLanguage(doc);
   
   // Process all sections in the document
   const sections = collectSections(doc.root);
   
   for (const section of sections) {
     const text = [section.title, ...(section.content || [])].join(' ');
-    const result = extractEntities(text);
+    const result = extractEntities(text, { language });
     
     for (const entity of result.entities) {
       // Create or update concept node
@@ -248,7 +251,7 @@ function collectSections(node: any): Array<{
   sections.push({
     id: node.id,
     title: node.title || '',
-    content: node.content || [],
+    content: (node.content || []).map((block: ContentBlock) => blockToPlainText(block)),
     level: node.level || 0
   });
   
@@ -285,7 +288,7 @@ export async function getConceptStats(docId: string): Promise<{
   
   const sections = collectSections(doc.root);
   const allTexts = sections.map(s => [s.title, ...(s.content || [])].join(' '));
-  const result = extractConceptsFromTexts(allTexts);
+  const result = extractConceptsFromTexts(allTexts, { language: documentLanguage(doc) });
   
   const concepts = result.entities.map(e => ({
     name: e.text,
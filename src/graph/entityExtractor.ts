@@ -3,8 +3,12 @@
  * 
  * Extracts entities from text using pattern-based rules (no ML dependencies).
  * Supports: technical terms, code references, proper nouns, acronyms.
+ * Concepts are matched on analyzed terms (see analyzers/), so "neural networks"
+ * is the concept "neural network".
  */
 
+import { analyze, analyzeTerms, getAnalyzer, isStopword, type Token } from '../analyzers/index.js';
+
 export type EntityType = 
   | 'TECHNOLOGY'      // Programming languages, frameworks, tools
   | 'CONCEPT'         // Abstract concepts, methodologies
@@ -24,6 +28,10 @@ export interface Entity {
   metadata?: Record<string, unknown>;
 }
 
+export interface ExtractionOptions {
+  language?: string;      // Analyzer for concept matching and stopwords (default: SEARCH_LANGUAGE)
+}
+
 export interface ExtractionResult {
   entities: Entity[];
   concepts: string[];     // Unique concept names
@@ -81,10 +89,30 @@ const CONCEPTS = new Set([
   'chunking', 'reranking', 'hybrid search'
 ]);
 
+// Analyzed term sequences of the concepts, by first term, per analyzer
+const conceptTerms = new Map<string, Map<string, Array<{ concept: string; terms: string[] }>>>();
+
+function getConceptTerms(language?: string) {
+  const name = getAnalyzer(language).name;
+  let byFirstTerm = conceptTerms.get(name);
+  if (!byFirstTerm) {
+    byFirstTerm = new Map();
+    for (const concept of CONCEPTS) {
+      const terms = analyzeTerms(concept, name);
+      if (terms.length === 0) continue;
+      const entries = byFirstTerm.get(terms[0]) ?? [];
+      entries.push({ concept, terms });
+      byFirstTerm.set(terms[0], entries);
+    }
+    conceptTerms.set(name, byFirstTerm);
+  }
+  return byFirstTerm;
+}
+
 /**
  * Extract entities from text
  */
-export function extractEntities(text: string): ExtractionResult {
+export function extractEntities(text: string, options: ExtractionOptions = {}): ExtractionResult {
   const entities: Entity[] = [];
   const entityMap = new Map<string, Entity>();
   
@@ -98,7 +126,7 @@ export function extractEntities(text: string): ExtractionResult {
   extractTechnologies(text, entityMap);
   
   // 4. Extract known concepts (multi-word)
-  extractConcepts(text, entityMap);
+  extractConcepts(text, entityMap, options.language);
   
   // 5. Extract version numbers
   extractVersions(text, entityMap);
@@ -107,7 +135,7 @@ export function extractEntities(text: string): ExtractionResult {
   extractMetrics(text, entityMap);
   
   // 7. Extract capitalized terms (potential proper nouns/concepts)
-  extractCapitalizedTerms(text, entityMap);
+  extractCapitalizedTerms(text, entityMap, options.language);
   
   // Convert map to array and sort by frequency
   for (const entity of entityMap.values()) {
@@ -151,9 +179,9 @@ function addEntity(
   text: string,
   type: EntityType,
   position: number,
-  confidence: number = 0.8
+  confidence: number = 0.8,
+  normalized: string = text.toLowerCase().trim()
 ) {
-  const normalized = text.toLowerCase().trim();
   if (normalized.length < 2) return;
   
   const existing = map.get(normalized);
@@ -220,14 +248,16 @@ function extractTechnologies(text: string, map: Map<string, Entity>) {
   }
 }
 
-function extractConcepts(text: string, map: Map<string, Entity>) {
-  const lowerText = text.toLowerCase();
-  
-  for (const concept of CONCEPTS) {
-    const regex = new RegExp(`\\b${escapeRegex(concept)}\\b`, 'gi');
-    let match;
-    while ((match = regex.exec(lowerText)) !== null) {
-      addEntity(map, match[0], 'CONCEPT', match.index, 0.85);
+function extractConcepts(text: string, map: Map<string, Entity>, language?: string) {
+  const concepts = getConceptTerms(language);
+  const tokens: Token[] = analyze(text, language);
+
+  for (let i = 0; i < tokens.length; i++) {
+    for (const { concept, terms } of concepts.get(tokens[i].term) ?? []) {
+      if (terms.every((term, j) => tokens[i + j]?.term === term)) {
+        const end = tokens[i + terms.length - 1].end;
+        addEntity(map, text.slice(tokens[i].start, end), 'CONCEPT', tokens[i].start, 0.85, concept);
+      }
     }
   }
 }
@@ -250,7 +280,7 @@ function extractMetrics(text: string, map: Map<string, Entity>) {
   }
 }
 
-function extractCapitalizedTerms(text: string, map: Map<string, Entity>) {
+function extractCapitalizedTerms(text: string, map: Map<string, Entity>, language?: string) {
   // Capitalized words that might be proper nouns or important terms
   // Skip common sentence starters
   const skipWords = new Set(['the', 'a', 'an', 'this', 'that', 'these', 'those', 'it', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'need', 'dare', 'ought', 'used', 'to', 'of', 'in', 'for', 'on', 'with', 'at', 'by', 'from', 'as', 'into', 'through', 'during', 'before', 'after', 'above', 'below', 'between', 'under', 'again', 'further', 'then', 'once', 'here', 'there', 'when', 'where', 'why', 'how', 'all', 'each', 'every', 'both', 'few', 'more', 'most', 'other', 'some', 'such', 'no', 'nor', 'not', 'only', 'own', 'same', 'so', 'than', 'too', 'very', 'just', 'also']);
@@ -260,7 +290,7 @@ function extractCapitalizedTerms(text: string, map: Map<string, Entity>) {
   let match;
   while ((match = capitalRegex.exec(text)) !== null) {
     const word = match[1].toLowerCase();
-    if (!skipWords.has(word) && word.length > 2) {
+    if (!skipWords.has(word) && !isStopword(word, language) && word.length > 2) {
       // Check if already captured as tech or concept
       if (!map.has(word)) {
         addEntity(map, match[1], 'PROPER_NOUN', match.index, 0.5);
@@ -276,11 +306,11 @@ function escapeRegex(str: string): string {
 /**
  * Extract and deduplicate concepts across multiple texts
  */
-export function extractConceptsFromTexts(texts: string[]): ExtractionResult {
+export function extractConceptsFromTexts(texts: string[], options: ExtractionOptions = {}): ExtractionResult {
   const combinedMap = new Map<string, Entity>();
   
   for (const text of texts) {
-    const result = extractEntities(text);
+    const result = extractEntities(text, options);
     for (const entity of result.entities) {
       const existing = combinedMap.get(entity.normalized);
       if (existing) {
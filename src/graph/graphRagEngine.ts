@@ -1,27 +1,53 @@
-import { searchKnn, getSectionMeta } from '../db/vectorStore.js';
-import { loadDocument } from '../db/jsonStore.js';
+import { searchKnn, getSectionMeta, filterNodeIds, type SearchFilters, type SearchResult } from '../db/vectorStore.js';
+import { loadDocument, getNode, canReadDocument, type SourcePosition } from '../db/documentStore.js';
 import { embed } from '../embeddings/index.js';
 import { expandGraph, type EdgeType, type ExpandedNode } from '../db/graphStore.js';
+import { renderContent } from '../contentBlocks.js';
 import { rerankSources, rerankWithDiversity, type RerankerConfig, type RankedSource } from './reranker.js';
+import { generateAnswer, type GenerationOptions, type GeneratedAnswer } from '../generation/index.js';
+import { expandQuery, type ExpansionOptions, type QueryVariant } from '../generation/queryExpansion.js';
+import { multiQuerySearch, type VariantContribution } from '../search/multiQuery.js';
+import { DEFAULT_RRF_K } from '../search/bm25.js';
 
 /**
  * Configuration for graph-aware RAG queries
  */
 export interface GraphRagConfig {
   k: number;                    // Number of initial seeds from vector search
+  expand?: ExpansionOptions;    // Also search paraphrases, sub-questions and a HyDE passage, fused into the seeds
   expandGraph?: boolean;        // Whether to expand using graph (default: false)
   graphConfig?: {
     maxHops: number;            // Maximum hops in graph expansion (1-3)
     maxNodes: number;           // Maximum nodes to retrieve from graph
     edgeTypes: EdgeType[];      // Types of edges to follow
     minWeight?: number;         // Minimum edge weight for SAME_TOPIC
+    crossCollections?: boolean; // Let expansion leave the collections of the filters
   };
   includeContext?: boolean;     // Include parent/siblings in context (default: true)
   rerank?: boolean;             // Whether to rerank results (default: true)
   rerankConfig?: Partial<RerankerConfig>;  // Reranking configuration
   maxPerDocument?: number;      // Max results per document for diversity (default: no limit)
+  filters?: SearchFilters;      // Restrict seeds and graph nodes
+  generate?: GenerationOptions; // Generate a cited answer from the ranked sources with an LLM
+  carryNodeIds?: string[];      // Sections appended after the ranked sources, e.g. cited earlier in a conversation
+  onEvent?: (event: GraphRagEvent) => void;  // Progress of the pipeline, e.g. for streaming
+  signal?: AbortSignal;         // Stops the query between stages and cancels generation
 }
 
+/**
+ * Progress of a graph RAG query, in pipeline order:
+ * variants (with query expansion), seeds, a source per seed, expanded and a source per graph node (with graph
+ * expansion), a source per carried section, reranked with the final order
+ * (unless reranking is off), then the answer tokens (with generation)
+ */
+export type GraphRagEvent =
+  | { type: 'variants'; method: 'llm' | 'rules'; variants: QueryVariant[] }
+  | { type: 'seeds'; nodeIds: string[] }
+  | { type: 'source'; source: RagSource }
+  | { type: 'expanded'; seedNodes: string[]; nodeIds: string[]; totalNodesRetrieved: number }
+  | { type: 'reranked'; sources: Array<{ nodeId: string; score: number }> }
+  | { type: 'token'; text: string };
+
 /**
  * Result from graph-aware RAG query
  */
@@ -34,10 +60,16 @@ export interface GraphRagResult {
     expandedNodes: ExpandedNode[];
     totalNodesRetrieved: number;
   };
+  generation?: Omit<GeneratedAnswer, 'answer'>;  // Citations and packed context of a generated answer
   metadata: {
     resultsCount: number;
     timestamp: string;
     usedGraph: boolean;
+    expansion?: {
+      method: 'llm' | 'rules';  // How the variants were written
+      fusion: { method: 'rrf'; rrfK: number; keyword: boolean };
+      variants: VariantContribution[];
+    };
   };
 }
 
@@ -46,9 +78,11 @@ export interface RagSource {
   docId: string;
   score: number;
   context: string;
+  position?: SourcePosition;    // Where the section is in its source file
   hopDistance?: number;         // Distance from seed (0 = seed)
   edgeType?: EdgeType;          // How we reached this node
   pathFromSeed?: string[];      // Path of node IDs from seed
+  carried?: boolean;            // From carryNodeIds, not retrieved (score 0)
 }
 
 /**
@@ -57,10 +91,12 @@ export interface RagSource {
 async function buildContextForNode(
   nodeId: string,
   docId: string,
-  includeContext: boolean = true
+  includeContext: boolean = true,
+  groups?: string[]
 ): Promise<string> {
+  // Parent and subsections come from the same document: all or nothing
   const doc = await loadDocument(docId);
-  if (!doc) return '';
+  if (!doc || !canReadDocument(doc, groups)) return '';
 
   const node = doc.nodes[nodeId];
   if (!node) return '';
@@ -91,7 +127,7 @@ async function buildContextForNode(
       if (parentNode) {
         context += `[Parent Section: ${parentNode.title}]\n`;
         if (parentNode.content && parentNode.content.length > 0) {
-          context += parentNode.content.slice(0, 2).join('\n') + '\n\n';
+          context += renderContent(parentNode.content.slice(0, 2)) + '\n\n';
         }
       }
     }
@@ -100,7 +136,7 @@ async function buildContextForNode(
   // Current section
   context += `## ${sectionNode.title}\n`;
   if (sectionNode.content && sectionNode.content.length > 0) {
-    context += sectionNode.content.join('\n') + '\n';
+    context += renderContent(sectionNode.content) + '\n';
   }
 
   // Child sections (titles only, for overview)
@@ -122,11 +158,33 @@ export async function graphRagQuery(
 ): Promise<GraphRagResult> {
   const startTime = Date.now();
 
+  const emit = config.onEvent ?? (() => {});
+  let vectorResults: SearchResult[];
+  let expansion: GraphRagResult['metadata']['expansion'];
+
   // Step 1: Vector search to get initial seeds
-  const queryEmbedding = await embed(query);
-  const vectorResults = searchKnn(queryEmbedding, config.k);
+  if (config.expand) {
+    // Search every variant of the query (vector + BM25) and fuse the lists
+    const expanded = await expandQuery(query, config.expand);
+    emit({ type: 'variants', method: expanded.method, variants: expanded.variants });
+
+    const multi = await multiQuerySearch(expanded.variants, config.k, config.filters || {}, config.expand);
+    vectorResults = multi.seeds;
+    expansion = {
+      method: expanded.method,
+      fusion: { method: 'rrf', rrfK: config.expand.rrfK ?? DEFAULT_RRF_K, keyword: config.expand.keyword !== false },
+      variants: multi.variants
+    };
+  } else {
+    const queryEmbedding = await embed(query);
+    vectorResults = searchKnn(queryEmbedding, config.k, config.filters || {});
+  }
 
-  if (vectorResults.length === 0) {
+  config.signal?.throwIfAborted();
+  emit({ type: 'seeds', nodeIds: vectorResults.map(r => r.node_id) });
+
+  // Without seeds, carried sections still make up the context
+  if (vectorResults.length === 0 && !config.carryNodeIds?.length) {
     return {
       query,
       answer: 'No relevant documents found.',
@@ -134,7 +192,8 @@ export async function graphRagQuery(
       metadata: {
         resultsCount: 0,
         timestamp: new Date().toISOString(),
-        usedGraph: false
+        usedGraph: false,
+        expansion
       }
     };
   }
@@ -151,7 +210,8 @@ export async function graphRagQuery(
     const context = await buildContextForNode(
       result.node_id,
       meta.doc_id,
-      config.includeContext !== false
+      config.includeContext !== false,
+      config.filters?.groups
     );
 
     sources.push({
@@ -159,20 +219,36 @@ export async function graphRagQuery(
       docId: meta.doc_id,
       score: result.distance,
       context,
+      position: (await getNode(meta.doc_id, result.node_id))?.position,
       hopDistance: 0  // Seed nodes have distance 0
     });
+    emit({ type: 'source', source: sources[sources.length - 1] });
   }
 
   // Step 2: Graph expansion (if enabled)
-  if (config.expandGraph && config.graphConfig) {
+  config.signal?.throwIfAborted();
+  if (config.expandGraph && config.graphConfig && seedNodeIds.length > 0) {
     console.log(`🔍 Expanding graph from ${seedNodeIds.length} seeds...`);
     
-    const expanded = expandGraph(seedNodeIds, config.graphConfig);
+    const expanded = expandGraph(seedNodeIds, {
+      ...config.graphConfig,
+      collections: config.filters?.collections,
+      groups: config.filters?.groups
+    });
     
-    // Filter out seed nodes (already included)
-    const newNodes = expanded.filter(n => n.hop > 0);
+    // Filter out seed nodes (already included) and nodes failing the filters of the seeds;
+    // collections and groups were already applied by the expansion
+    const { doc_id, level, is_leaf, metadata } = config.filters ?? {};
+    const allowedIds = filterNodeIds(expanded.map(n => n.node_id), { doc_id, level, is_leaf, metadata });
+    const newNodes = expanded.filter(n => n.hop > 0 && allowedIds.has(n.node_id));
     
     console.log(`   Found ${newNodes.length} additional nodes via graph expansion`);
+    emit({
+      type: 'expanded',
+      seedNodes: seedNodeIds,
+      nodeIds: newNodes.map(n => n.node_id),
+      totalNodesRetrieved: expanded.length
+    });
 
     // Add expanded nodes as sources
     for (const expandedNode of newNodes) {
@@ -182,7 +258,8 @@ export async function graphRagQuery(
       const context = await buildContextForNode(
         expandedNode.node_id,
         meta.doc_id,
-        config.includeContext !== false
+        config.includeContext !== false,
+        config.filters?.groups
       );
 
       sources.push({
@@ -190,10 +267,12 @@ export async function graphRagQuery(
         docId: meta.doc_id,
         score: 1.0 - (expandedNode.weight || 0), // Invert weight to score
         context,
+        position: (await getNode(meta.doc_id, expandedNode.node_id))?.position,
         hopDistance: expandedNode.hop,
         edgeType: expandedNode.edge_type,
         pathFromSeed: expandedNode.path
       });
+      emit({ type: 'source', source: sources[sources.length - 1] });
     }
 
     graphExpansion = {
@@ -254,23 +333,74 @@ export async function graphRagQuery(
     });
   }
 
-  const answer = rankedSources.length > 0
+  // Carried sections the query didn't retrieve go last, under the same filters
+  const carried = (config.carryNodeIds ?? []).filter(id => !rankedSources.some(s => s.nodeId === id));
+  const allowedCarried = filterNodeIds(carried, config.filters);
+  for (const nodeId of carried.filter(id => allowedCarried.has(id))) {
+    const meta = getSectionMeta(nodeId);
+    if (!meta) continue;
+
+    const context = await buildContextForNode(nodeId, meta.doc_id, config.includeContext !== false, config.filters?.groups);
+    if (!context) continue;
+
+    rankedSources.push({
+      nodeId,
+      docId: meta.doc_id,
+      score: 0,
+      context,
+      position: (await getNode(meta.doc_id, nodeId))?.position,
+      carried: true
+    });
+    emit({ type: 'source', source: rankedSources[rankedSources.length - 1] });
+  }
+
+  if (config.rerank !== false) {
+    emit({ type: 'reranked', sources: rankedSources.map(s => ({ nodeId: s.nodeId, score: s.score })) });
+  }
+
+  let answer = rankedSources.length > 0
     ? `Found ${rankedSources.length} relevant sections${config.expandGraph ? ' using graph expansion' : ''}. See sources for context.`
     : 'No relevant information found.';
+  let generation: GraphRagResult['generation'];
+
+  // Step 4: Generate an answer citing the sources (if requested)
+  if (config.generate) {
+    config.signal?.throwIfAborted();
+    const onToken = config.onEvent && ((text: string) => emit({ type: 'token', text }));
+    const { answer: generated, ...details } = await generateAnswer(query, rankedSources, {
+      ...config.generate,
+      signal: config.signal,
+      ...(onToken ? { onToken } : {})
+    });
+    answer = generated;
+    generation = details;
+  }
 
   return {
     query,
     answer,
     sources: rankedSources,
     graphExpansion,
+    generation,
     metadata: {
       resultsCount: rankedSources.length,
       timestamp: new Date().toISOString(),
-      usedGraph: config.expandGraph || false
+      usedGraph: config.expandGraph || false,
+      expansion
     }
   };
 }
 
+/**
+ * Graph expansion of smartGraphQuery
+ */
+export const SMART_GRAPH_CONFIG: NonNullable<GraphRagConfig['graphConfig']> = {
+  maxHops: 1,
+  maxNodes: 10,
+  edgeTypes: ['SAME_TOPIC', 'PARENT_OF', 'CHILD_OF'],
+  minWeight: 0.75
+};
+
 /**
  * Helper: Default graph-aware query with sensible defaults
  */
@@ -281,12 +411,7 @@ export async function smartGraphQuery(
   return graphRagQuery(query, {
     k,
     expandGraph: true,
-    graphConfig: {
-      maxHops: 1,
-      maxNodes: 10,
-      edgeTypes: ['SAME_TOPIC', 'PARENT_OF', 'CHILD_OF'],
-      minWeight: 0.75
-    },
+    graphConfig: SMART_GRAPH_CONFIG,
     includeContext: true
   });
 }
@@ -296,12 +421,16 @@ export async function smartGraphQuery(
  */
 export async function classicRagQuery(
   query: string,
-  k: number = 3
+  k: number = 3,
+  filters?: SearchFilters,
+  options: Pick<GraphRagConfig, 'generate' | 'expand' | 'onEvent' | 'signal'> = {}
 ): Promise<GraphRagResult> {
   return graphRagQuery(query, {
     k,
     expandGraph: false,
-    includeContext: true
+    includeContext: true,
+    filters,
+    ...options
   });
 }
 
@@ -1,6 +1,6 @@
-import { getGraphStats, getEdgesByType, type EdgeRow } from '../db/graphStore.js';
+import { getGraphStats, getEdgesByType, visibleNodes, type EdgeRow, type NodeScope } from '../db/graphStore.js';
 import { getSectionMeta } from '../db/vectorStore.js';
-import { loadDocument, getAllDocuments } from '../db/jsonStore.js';
+import { loadDocument, getAllDocuments, canReadDocument, type Document } from '../db/documentStore.js';
 
 /**
  * Node for visualization
@@ -52,6 +52,15 @@ export interface GraphExportConfig {
   maxNodes?: number;                // Limit number of nodes
   docIds?: string[];                // Filter by document IDs
   minDegree?: number;               // Minimum connections per node
+  collections?: string[];           // Only documents of these collections (and edges between them)
+  groups?: string[];                // Only documents readable by these groups (undefined: no access control)
+}
+
+/**
+ * Documents an export may show: those of its collections readable by its groups
+ */
+async function getScopedDocuments(config: GraphExportConfig): Promise<Document[]> {
+  return (await getAllDocuments(config.collections)).filter(doc => canReadDocument(doc, config.groups));
 }
 
 /**
@@ -59,7 +68,7 @@ export interface GraphExportConfig {
  */
 async function getAllNodes(config: GraphExportConfig): Promise<VisNode[]> {
   const nodes: VisNode[] = [];
-  const allDocs = await getAllDocuments();
+  const allDocs = await getScopedDocuments(config);
   
   for (const doc of allDocs) {
     // Filter by doc IDs if specified
@@ -131,7 +140,17 @@ async function getAllEdges(config: GraphExportConfig): Promise<VisEdge[]> {
     }
   }
   
-  return edges;
+  if (!config.collections && !config.groups) {
+    return edges;
+  }
+
+  // Keep edges leaving or entering a node of the scope, and never a section outside it
+  const scopedIds = new Set((await getScopedDocuments(config)).flatMap(doc => Object.keys(doc.nodes)));
+  const visible = visibleNodes([...new Set(edges.flatMap(e => [e.source, e.target]))], config);
+
+  return edges.filter(e =>
+    (scopedIds.has(e.source) || scopedIds.has(e.target)) && visible.has(e.source) && visible.has(e.target)
+  );
 }
 
 /**
@@ -232,17 +251,24 @@ export async function exportGraph(config: GraphExportConfig = {}): Promise<Graph
 export async function exportSubgraph(
   seedNodeIds: string[],
   maxHops: number = 1,
-  maxNodes: number = 50
+  maxNodes: number = 50,
+  scope: NodeScope = {}
 ): Promise<GraphData> {
   console.log(`📊 Exporting subgraph from ${seedNodeIds.length} seeds...`);
   
   const { expandGraph } = await import('../db/graphStore.js');
   
+  // Seeds outside the scope are ignored; expansion stays inside it
+  const visibleSeeds = visibleNodes(seedNodeIds, scope);
+  seedNodeIds = seedNodeIds.filter(id => visibleSeeds.has(id));
+
   // Expand from seeds
   const expanded = expandGraph(seedNodeIds, {
     maxHops,
     maxNodes,
-    edgeTypes: ['SAME_TOPIC', 'REFERS_TO', 'PARENT_OF', 'CHILD_OF']
+    edgeTypes: ['SAME_TOPIC', 'REFERS_TO', 'PARENT_OF', 'CHILD_OF'],
+    collections: scope.collections,
+    groups: scope.groups
   });
   
   // Get unique node IDs
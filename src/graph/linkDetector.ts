@@ -1,5 +1,6 @@
-import { loadDocument, getAllDocuments } from '../db/jsonStore.js';
+import { loadDocument, getAllDocuments, documentCollection, type ContentBlock } from '../db/documentStore.js';
 import { upsertEdges, type Edge } from '../db/graphStore.js';
+import { blockToPlainText } from '../contentBlocks.js';
 
 /**
  * Markdown link patterns
@@ -15,6 +16,8 @@ export interface LinkDetectionConfig {
   detectWikiLinks: boolean;         // [[page]]
   crossDocumentOnly: boolean;       // Only create edges between different documents
   createBidirectional: boolean;     // Create reverse edges too
+  crossCollection: boolean;         // Resolve links into documents of other collections
+  collections?: string[];           // Only documents of these collections (default: all)
 }
 
 /**
@@ -109,8 +112,8 @@ async function nodeExists(nodeId: string): Promise<boolean> {
 /**
  * Find node by title (fuzzy match)
  */
-async function findNodeByTitle(title: string, currentDocId?: string): Promise<string | null> {
-  const allDocs = await getAllDocuments();
+async function findNodeByTitle(title: string, currentDocId?: string, collections?: string[]): Promise<string | null> {
+  const allDocs = await getAllDocuments(collections);
   
   // Normalize title for comparison
   const normalizedTarget = title.toLowerCase().trim();
@@ -157,6 +160,7 @@ export async function detectLinksInDocument(
     detectWikiLinks: true,
     crossDocumentOnly: false,
     createBidirectional: false,
+    crossCollection: false,
     ...config
   };
   
@@ -167,10 +171,15 @@ export async function detectLinksInDocument(
   }
   
   const edges: Edge[] = [];
+  const collection = documentCollection(doc);
   
   // Walk the document tree
   async function processNode(node: any) {
-    const content = (node.content || []).join('\n');
+    // Links inside code blocks are examples, not references
+    const content = (node.content || [])
+      .filter((block: ContentBlock) => typeof block === 'string' || block.type !== 'code')
+      .map(blockToPlainText)
+      .join('\n');
     const links = extractLinks(content, defaultConfig);
     
     for (const link of links) {
@@ -179,7 +188,7 @@ export async function detectLinksInDocument(
       
       if (!targetNodeId) {
         // Try fuzzy match by title
-        targetNodeId = await findNodeByTitle(link.target, docId);
+        targetNodeId = await findNodeByTitle(link.target, docId, defaultConfig.crossCollection ? undefined : [collection]);
       }
       
       if (!targetNodeId) {
@@ -198,6 +207,14 @@ export async function detectLinksInDocument(
       const [sourceDoc] = node.id.split('#');
       const [targetDoc] = targetNodeId.split('#');
       
+      // Links into another collection are left out unless asked for
+      if (!defaultConfig.crossCollection) {
+        const target = await loadDocument(targetDoc);
+        if (target && documentCollection(target) !== collection) {
+          continue;
+        }
+      }
+      
       // Skip if same document and crossDocumentOnly
       if (defaultConfig.crossDocumentOnly && sourceDoc === targetDoc) {
         continue;
@@ -251,7 +268,7 @@ export async function detectLinksInAllDocuments(
 ): Promise<number> {
   console.log('🔍 Detecting REFERS_TO edges from markdown links...');
   
-  const allDocs = await getAllDocuments();
+  const allDocs = await getAllDocuments(config.collections);
   console.log(`   Processing ${allDocs.length} documents`);
   
   let totalEdges = 0;
@@ -274,14 +291,14 @@ export async function detectLinksInAllDocuments(
 /**
  * Get statistics about links in documents
  */
-export async function getLinkStatistics(): Promise<{
+export async function getLinkStatistics(collections?: string[]): Promise<{
   totalDocuments: number;
   documentsWithLinks: number;
   totalLinks: number;
   linksByType: Record<string, number>;
   crossDocumentLinks: number;
 }> {
-  const allDocs = await getAllDocuments();
+  const allDocs = await getAllDocuments(collections);
   
   let documentsWithLinks = 0;
   let totalLinks = 0;
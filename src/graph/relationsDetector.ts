@@ -1,4 +1,4 @@
-import { getVectorDb, getSectionMeta } from '../db/vectorStore.js';
+import { getVectorDb, getSectionMeta, getSectionEmbedding, getEmbeddingSpace } from '../db/vectorStore.js';
 import { upsertEdges, type Edge } from '../db/graphStore.js';
 
 /**
@@ -9,6 +9,8 @@ export interface SameTopicConfig {
   maxConnections: number;     // Max connections per node (to avoid dense graph)
   crossDocOnly: boolean;      // Only create edges between different documents
   titleSimilarity: boolean;   // Consider title similarity as well
+  crossCollection: boolean;   // Also link sections of different collections
+  collections?: string[];     // Only compare sections of these collections (default: all)
 }
 
 /**
@@ -36,32 +38,6 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / magnitude;
 }
 
-/**
- * Get embedding vector for a node
- */
-function getEmbedding(nodeId: string): number[] | null {
-  const db = getVectorDb();
-  
-  try {
-    // Get rowid for the node
-    const section = db.prepare('SELECT rowid FROM sections WHERE node_id = ?').get(nodeId) as any;
-    
-    if (!section) return null;
-    
-    // Get embedding from vec_sections
-    const vec = db.prepare('SELECT embedding FROM vec_sections WHERE rowid = ?').get(section.rowid) as any;
-    
-    if (!vec || !vec.embedding) return null;
-    
-    // Convert Buffer to Float32Array to regular array
-    const float32 = new Float32Array(vec.embedding.buffer);
-    return Array.from(float32);
-  } catch (error) {
-    console.error(`Error getting embedding for ${nodeId}:`, error);
-    return null;
-  }
-}
-
 /**
  * Calculate title similarity (simple Jaccard similarity on words)
  */
@@ -83,29 +59,36 @@ function titleSimilarity(title1: string, title2: string): number {
 interface SectionWithEmbedding {
   node_id: string;
   doc_id: string;
+  collection: string;
   title: string;
   embedding: number[];
 }
 
-function getAllSectionsWithEmbeddings(): SectionWithEmbedding[] {
+function getAllSectionsWithEmbeddings(collections?: string[]): SectionWithEmbedding[] {
   const db = getVectorDb();
-  
+
+  // Only vectors of the configured embedding space are comparable
+  const space = getEmbeddingSpace();
+  if (!space) return [];
+
   // Get all sections
   const sections = db.prepare(`
-    SELECT node_id, doc_id, title 
+    SELECT node_id, doc_id, collection, title 
     FROM sections 
+    WHERE space_id = ?${collections ? ' AND collection IN (SELECT value FROM json_each(?))' : ''}
     ORDER BY doc_id, node_id
-  `).all() as any[];
+  `).all(space.id, ...(collections ? [JSON.stringify(collections)] : [])) as any[];
   
   const result: SectionWithEmbedding[] = [];
   
   for (const section of sections) {
-    const embedding = getEmbedding(section.node_id);
+    const embedding = getSectionEmbedding(section.node_id);
     
     if (embedding && embedding.length > 0) {
       result.push({
         node_id: section.node_id,
         doc_id: section.doc_id,
+        collection: section.collection,
         title: section.title || '',
         embedding
       });
@@ -151,8 +134,9 @@ export async function detectSameTopicEdges(config: SameTopicConfig): Promise<Edg
   console.log(`   Min similarity: ${config.minSimilarity}`);
   console.log(`   Max connections per node: ${config.maxConnections}`);
   console.log(`   Cross-doc only: ${config.crossDocOnly}`);
+  console.log(`   Collections: ${config.collections?.join(', ') ?? 'all'}${config.crossCollection ? ' (cross-collection)' : ''}`);
   
-  const sections = getAllSectionsWithEmbeddings();
+  const sections = getAllSectionsWithEmbeddings(config.collections);
   console.log(`   Found ${sections.length} sections with embeddings`);
   
   const edges: Edge[] = [];
@@ -169,6 +153,11 @@ export async function detectSameTopicEdges(config: SameTopicConfig): Promise<Edg
         continue;
       }
       
+      // Collections stay separate unless asked otherwise
+      if (!config.crossCollection && s1.collection !== s2.collection) {
+        continue;
+      }
+      
       comparisons++;
       
       // Calculate embedding similarity
@@ -227,7 +216,8 @@ export async function buildSameTopicGraph(config?: Partial<SameTopicConfig>): Pr
     minSimilarity: 0.80,
     maxConnections: 5,
     crossDocOnly: true,
-    titleSimilarity: false
+    titleSimilarity: false,
+    crossCollection: false
   };
   
   const finalConfig = { ...defaultConfig, ...config };
@@ -1,4 +1,4 @@
-import { saveDocument, Document, SectionNode } from './db/jsonStore.js';
+import { saveDocument, Document, SectionNode } from './db/documentStore.js';
 import { syncDocument } from './indexer.js';
 import { searchKnn } from './db/vectorStore.js';
 import { embed } from './embeddings.js';
@@ -1,48 +1,113 @@
-import { Document, SectionNode } from './db/jsonStore.js';
-import { upsertSection, getSectionMeta, deleteSection, getDocNodeIds } from './db/vectorStore.js';
-import { embed } from './embeddings.js';
+import { Document, SectionNode, getDocumentStore, loadDocument, saveDocument, deleteDocument, documentCollection, allowedGroupsJson } from './db/documentStore.js';
+import { upsertSection, getSectionMeta, deleteSection, getDocNodeIds, updateSectionMetadata, replaceSectionChunks, runInTransaction, getEmbeddingSpace, getDocumentCollection } from './db/vectorStore.js';
+import { collectionExists } from './db/collectionStore.js';
+import { Edge, deleteNodeEdges, deleteDerivedEdges, replaceStructuralEdges } from './db/graphStore.js';
+import { embedInBatches } from './embeddings.js';
+import { documentLanguage, writeSectionText } from './search/fullText.js';
+import { renderContent } from './contentBlocks.js';
+import { chunkText } from './chunker.js';
 import crypto from 'node:crypto';
 
-function calculateHash(node: SectionNode): string {
-    const content = `${node.title}\n${node.content.join('\n')}`;
+/**
+ * Hash of the text that is embedded for a node (title and rendered content)
+ */
+export function calculateHash(node: SectionNode): string {
+    const content = `${node.title}\n${renderContent(node.content)}`;
     return crypto.createHash('sha256').update(content).digest('hex');
 }
 
-export async function syncDocument(doc: Document) {
-    console.log(`🔄 Syncing document: ${doc.docId}`);
+/**
+ * Overrides for the embedding batch size and concurrency (default: config.indexing)
+ */
+export interface SyncOptions {
+    batchSize?: number;
+    concurrency?: number;
+}
+
+/**
+ * A new or changed node waiting for its embeddings
+ */
+interface PendingNode {
+    node: SectionNode;
+    path: string[];
+    hash: string;
+    texts: string[];
+}
+
+/**
+ * Everything a sync will write, computed up front: new embeddings, metadata
+ * updates and stale nodes. Preparing a plan reads the stores but writes nothing.
+ */
+export interface SyncPlan {
+    doc: Document;
+    metadataJson: string | null;
+    aclJson: string | null;
+    language: string;               // Analyzer of the full-text entries
+    pending: PendingNode[];
+    vectors: number[][];
+    metadataUpdates: SectionNode[];
+    staleNodeIds: string[];
+}
+
+/**
+ * Compare a document with the vector store and embed its new and changed nodes
+ */
+export async function prepareSync(doc: Document, options: SyncOptions = {}): Promise<SyncPlan> {
+    // A document lives in one collection; moving it needs a delete first
+    const collection = documentCollection(doc);
+    if (!collectionExists(collection)) {
+        throw new Error(`Collection not found: ${collection}`);
+    }
+    const currentCollection = getDocumentCollection(doc.docId);
+    if (currentCollection !== undefined && currentCollection !== collection) {
+        throw new Error(`Document "${doc.docId}" already exists in collection "${currentCollection}"`);
+    }
 
     // 1. Get all existing node IDs for this doc to track deletions
     const existingNodeIds = new Set(getDocNodeIds(doc.docId));
     const visitedNodeIds = new Set<string>();
 
     // 2. Traverse the new document structure
-    const nodesToProcess: SectionNode[] = [doc.root];
-
-    // Flatten tree for processing
-    const allNodes: SectionNode[] = [];
-    const traverse = (nodes: SectionNode[]) => {
+    // Flatten tree for processing, keeping the heading path of every node
+    const allNodes: { node: SectionNode; path: string[] }[] = [];
+    const traverse = (nodes: SectionNode[], parentPath: string[]) => {
         for (const node of nodes) {
-            allNodes.push(node);
-            traverse(node.children);
+            const path = [...parentPath, node.title];
+            allNodes.push({ node, path });
+            traverse(node.children, path);
         }
     };
-    traverse(doc.root.children);
-    // Add root if needed, but usually we index content nodes.
-    // Let's include root if it has content or title we care about.
-    // For this logic, let's process all nodes in the flattened list.
+    traverse(doc.root.children, [doc.title]);
+
+    // Also index the root itself (it wasn't in children)
+    allNodes.push({ node: doc.root, path: [doc.title] });
 
-    // Also add root to allNodes if it's not there (it wasn't in children)
-    allNodes.push(doc.root);
+    // Document metadata is copied onto every section row so searches can filter on it
+    const metadataJson = doc.metadata ? JSON.stringify(doc.metadata) : null;
+    // and so are its access labels, so searches and graph expansion can enforce them
+    const aclJson = allowedGroupsJson(doc);
+    const language = documentLanguage(doc);
 
-    for (const node of allNodes) {
+    // 3. Collect the nodes that need new embeddings
+    // (rows embedded with another model or in the legacy padded table are re-embedded)
+    const pending: PendingNode[] = [];
+    const metadataUpdates: SectionNode[] = [];
+    const spaceId = getEmbeddingSpace()?.id;
+
+    for (const { node, path } of allNodes) {
         visitedNodeIds.add(node.id);
 
         const newHash = calculateHash(node);
         const existingMeta = getSectionMeta(node.id);
 
         // Check if update is needed
-        if (existingMeta && existingMeta.hash === newHash) {
-            console.log(`   ⏭️  Skipping unchanged node: ${node.id}`);
+        if (existingMeta && existingMeta.hash === newHash && existingMeta.doc_id === doc.docId && existingMeta.space_id === spaceId) {
+            if ((existingMeta.metadata ?? null) !== metadataJson || (existingMeta.allowed_groups ?? null) !== aclJson) {
+                console.log(`   🏷️  Updating metadata of unchanged node: ${node.id}`);
+                metadataUpdates.push(node);
+            } else {
+                console.log(`   ⏭️  Skipping unchanged node: ${node.id}`);
+            }
             continue;
         }
 
@@ -52,29 +117,179 @@ export async function syncDocument(doc: Document) {
             console.log(`   ➕ Indexing new node: ${node.id}`);
         }
 
-        // Generate embedding
-        const text = `${node.title}\n${node.content.join('\n')}`;
-        const vector = await embed(text);
-
-        // Upsert
-        upsertSection({
-            node_id: node.id,
-            doc_id: doc.docId,
-            level: node.level,
-            title: node.title,
-            is_leaf: node.children.length === 0 ? 1 : 0, // Simple heuristic for leaf
-            path: JSON.stringify([doc.title, node.title]), // Simplified path
-            hash: newHash
-        }, vector);
+        // Oversized content is split into overlapping chunks,
+        // each prefixed with the section title so it keeps its context
+        const body = renderContent(node.content);
+        const chunks = chunkText(body);
+        if (chunks.length > 1) {
+            console.log(`      ✂️  Split into ${chunks.length} chunks`);
+        }
+
+        pending.push({
+            node,
+            path,
+            hash: newHash,
+            texts: chunks.map(chunk => `${node.title}\n${chunk.text}`)
+        });
     }
 
-    // 3. Handle Deletions
-    for (const id of existingNodeIds) {
-        if (!visitedNodeIds.has(id)) {
+    // 4. Embed all collected texts in batches, several batches at a time
+    const texts = pending.flatMap(item => item.texts);
+    let vectors: number[][] = [];
+    if (texts.length > 0) {
+        const started = Date.now();
+        vectors = await embedInBatches(texts, options);
+        console.log(`   🧮 Embedded ${texts.length} texts in ${Date.now() - started}ms`);
+    }
+
+    const staleNodeIds = [...existingNodeIds].filter(id => !visitedNodeIds.has(id));
+
+    return { doc, metadataJson, aclJson, language, pending, vectors, metadataUpdates, staleNodeIds };
+}
+
+/**
+ * Write a prepared sync to SQLite: section rows, chunk vectors, full-text
+ * entries, metadata, deletions and graph edges, all in one transaction
+ */
+export function applySync(plan: SyncPlan): void {
+    const { doc, metadataJson, aclJson, language, pending, vectors, metadataUpdates, staleNodeIds } = plan;
+
+    runInTransaction(() => {
+        for (const node of metadataUpdates) {
+            updateSectionMetadata(node.id, metadataJson, aclJson);
+            // The metadata may have changed the document's language
+            writeSectionText(node, language);
+        }
+
+        let offset = 0;
+        for (const { node, path, hash, texts } of pending) {
+            const nodeVectors = vectors.slice(offset, offset + texts.length);
+            offset += texts.length;
+
+            upsertSection({
+                node_id: node.id,
+                doc_id: doc.docId,
+                level: node.level,
+                title: node.title,
+                is_leaf: node.children.length === 0 ? 1 : 0, // Simple heuristic for leaf
+                path: JSON.stringify(path), // Full heading path from the document root
+                hash,
+                metadata: metadataJson,
+                collection: documentCollection(doc),
+                allowed_groups: aclJson
+            }, nodeVectors[0]);
+            writeSectionText(node, language);
+
+            // Chunk 0 lives on the section row; the rest link back to it by node_id
+            replaceSectionChunks(node.id, nodeVectors.slice(1));
+
+            // Similarity, link and concept edges of the old content no longer apply
+            deleteDerivedEdges(node.id);
+        }
+
+        for (const id of staleNodeIds) {
             console.log(`   🗑️  Deleting stale node: ${id}`);
             deleteSection(id);
+            deleteNodeEdges(id);
         }
+
+        replaceStructuralEdges(Object.keys(doc.nodes), buildStructuralEdges(doc));
+    });
+}
+
+/**
+ * Hierarchy and sibling edges of a document, from its node map
+ */
+export function buildStructuralEdges(doc: Document): Edge[] {
+    const edges: Edge[] = [];
+
+    for (const meta of Object.values(doc.nodes)) {
+        meta.childrenIds.forEach((childId, i) => {
+            edges.push({ from_node_id: meta.id, to_node_id: childId, type: 'PARENT_OF' });
+            edges.push({ from_node_id: childId, to_node_id: meta.id, type: 'CHILD_OF' });
+
+            const nextId = meta.childrenIds[i + 1];
+            if (nextId) {
+                edges.push({ from_node_id: childId, to_node_id: nextId, type: 'NEXT_SIBLING' });
+                edges.push({ from_node_id: nextId, to_node_id: childId, type: 'PREV_SIBLING' });
+            }
+        });
     }
 
+    return edges;
+}
+
+export async function syncDocument(doc: Document, options: SyncOptions = {}) {
+    console.log(`🔄 Syncing document: ${doc.docId}`);
+
+    applySync(await prepareSync(doc, options));
+
     console.log(`✅ Sync complete for ${doc.docId}`);
 }
+
+/**
+ * Save a document to the document store and sync it to the vector store as one operation.
+ *
+ * Embeddings are computed before anything is written, so a failing embedding
+ * service leaves both stores untouched. With the SQLite document store, the
+ * document and the vector store writes run in a single transaction. With the
+ * JSON store the SQLite writes run in their own transaction; if they fail (or the
+ * document write fails) the previous version of the document is restored in the
+ * document store. Either way the error is rethrown.
+ */
+export async function indexDocument(doc: Document, options: SyncOptions = {}): Promise<void> {
+    console.log(`🔄 Indexing document: ${doc.docId}`);
+
+    const plan = await prepareSync(doc, options);
+
+    const store = getDocumentStore();
+    if (store.saveInTransaction) {
+        runInTransaction(() => {
+            store.saveInTransaction!(doc);
+            applySync(plan);
+        });
+        console.log(`✅ Indexed ${doc.docId}`);
+        return;
+    }
+
+    const stored = await loadDocument(doc.docId);
+    const previous = stored ? structuredClone(stored) : undefined;
+
+    try {
+        await saveDocument(doc);
+        applySync(plan);
+    } catch (error) {
+        console.error(`   ↩️  Indexing failed, rolling back ${doc.docId}`);
+        try {
+            if (previous) {
+                await saveDocument(previous);
+            } else {
+                await deleteDocument(doc.docId);
+            }
+        } catch (rollbackError) {
+            console.error(`   ❌ Rollback of the document store failed (run checkConsistency --repair):`, rollbackError);
+        }
+        throw error;
+    }
+
+    console.log(`✅ Indexed ${doc.docId}`);
+}
+
+/**
+ * Remove a document with its section rows, vectors and edges
+ * @returns true if the document existed
+ */
+export async function deleteIndexedDocument(docId: string): Promise<boolean> {
+    console.log(`🗑️  Deleting document: ${docId}`);
+
+    const nodeIds = getDocNodeIds(docId);
+    runInTransaction(() => {
+        for (const id of nodeIds) {
+            deleteSection(id);
+            deleteNodeEdges(id);
+        }
+    });
+
+    const deleted = await deleteDocument(docId);
+    return deleted || nodeIds.length > 0;
+}
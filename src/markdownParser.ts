@@ -1,64 +1,151 @@
-import { SectionNode } from './db/jsonStore.js';
+import { SectionNode, ListBlock, DocumentMetadata, SourcePosition } from './db/documentStore.js';
+import { contentToPlainText } from './contentBlocks.js';
+import { slugify } from './slug.js';
 import fs from 'node:fs/promises';
 import crypto from 'node:crypto';
+import YAML from 'yaml';
+import { config } from './config.js';
+
+/**
+ * Options controlling how markdown is turned into a section tree
+ */
+export interface ParseOptions {
+    maxDepth?: number; // Deepest heading level that creates a section (1-6, default: config.parser.maxHeadingDepth)
+    docId?: string; // Document identifier when parsing a file (default: the file path)
+}
 
 /**
  * Parses a markdown file and converts it to a hierarchical SectionNode tree.
  * 
  * @param filePath - Path to the markdown file
+ * @param options - Parser options (heading depth, document ID, ...)
  * @returns Root SectionNode representing the document
  */
-export async function parseMarkdownFile(filePath: string): Promise<SectionNode> {
+export async function parseMarkdownFile(filePath: string, options: ParseOptions = {}): Promise<SectionNode> {
     const content = await fs.readFile(filePath, 'utf-8');
-    return parseMarkdownContent(content, filePath);
+    return parseMarkdownContent(content, options.docId || filePath, options);
 }
 
 /**
  * Parses markdown content string and converts it to a hierarchical SectionNode tree.
  * 
+ * Section content is split into typed blocks: paragraphs, fenced code (with its
+ * language), tables, lists and blockquotes. Code fences are opaque, so a `#`
+ * line inside a fence is never read as a heading.
+ * 
+ * YAML front matter at the top of the file is parsed into `root.metadata` and is
+ * not indexed as text. A front matter `title` is used when there is no H1.
+ * 
+ * Every heading from H1 to `maxDepth` opens a new section. The first H1 is used
+ * as the document title; later H1s become top-level sections. Headings deeper
+ * than `maxDepth` are kept as plain text in the enclosing section.
+ * 
+ * Section IDs are scoped by document and derived from the heading path (see
+ * `assignNodeIds`), so they are unique across documents.
+ * 
+ * Every node and content block records its `position` (lines and character
+ * offsets) in the original content, front matter and CRLF line endings included.
+ * 
  * @param content - Markdown content as string
  * @param docId - Optional document identifier (defaults to hash of content)
+ * @param options - Parser options (heading depth, ...)
  * @returns Root SectionNode representing the document
  */
-export function parseMarkdownContent(content: string, docId?: string): SectionNode {
+export function parseMarkdownContent(content: string, docId?: string, options: ParseOptions = {}): SectionNode {
+    const maxDepth = Math.min(6, Math.max(1, options.maxDepth ?? config.parser.maxHeadingDepth));
+
     // Normalize line endings (handle CRLF from Windows)
     const normalizedContent = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-    const lines = normalizedContent.split('\n');
+    const { metadata, body } = parseFrontMatter(normalizedContent);
+    const lines = body.split('\n');
+
+    // Map body lines back to the original content: line terminators may be CRLF,
+    // and the body starts after the front matter
+    const lineStarts = getLineStarts(content);
+    const originalLines = normalizedContent.split('\n');
+    const bodyLineBase = normalizedContent.slice(0, normalizedContent.length - body.length).split('\n').length - 1;
 
-    // Detect document title (first H1 or use docId)
-    const firstH1Match = content.match(/^#\s+(.+)$/m);
-    const docTitle = firstH1Match ? firstH1Match[1] : (docId || 'Untitled Document');
+    const position = (firstLine: number, lastLine: number): SourcePosition => ({
+        startLine: bodyLineBase + firstLine + 1,
+        endLine: bodyLineBase + lastLine + 1,
+        startOffset: lineStarts[bodyLineBase + firstLine],
+        endOffset: lineStarts[bodyLineBase + lastLine] + originalLines[bodyLineBase + lastLine].length
+    });
+
+    // Detect document title (first H1 outside code fences, front matter title, or docId)
+    const frontMatterTitle = typeof metadata?.title === 'string' ? metadata.title : undefined;
+    const docTitle = findDocumentTitle(lines) ?? frontMatterTitle ?? (docId || 'Untitled Document');
 
     // Create root node
     const root: SectionNode = {
-        id: docId || generateId(docTitle),
+        id: docId || generateId([docTitle]),
         type: 'document',
         level: 0,
         title: docTitle,
         content: [],
-        children: []
+        children: [],
+        ...(metadata ? { metadata } : {})
     };
 
-    // Stack to track current hierarchy
+    // Stack to track current hierarchy, with the line each open section starts on
     const nodeStack: SectionNode[] = [root];
-    let currentContent: string[] = [];
+    const startLines = new Map<SectionNode, number>([[root, -bodyLineBase]]);
+    const currentNode = () => nodeStack[nodeStack.length - 1];
+    let paragraphLines: string[] = [];
+    let paragraphStart = 0;
+    let lastContentLine = -1; // Last non-blank line seen, where open sections end
     let lineIndex = 0;
     let h1Found = false; // Track if we've seen the first H1
 
+    // Flush accumulated paragraph lines into the current section
+    const flushParagraph = () => {
+        const paragraph = paragraphLines.join(' ');
+        if (paragraph.trim()) {
+            currentNode().content.push({
+                type: 'paragraph',
+                text: paragraph,
+                position: position(paragraphStart, paragraphStart + paragraphLines.length - 1)
+            });
+        }
+        paragraphLines = [];
+    };
+
+    // Close a section: it spans from its heading to the last content line before the next heading
+    const closeNode = (node: SectionNode) => {
+        const startLine = startLines.get(node)!;
+        node.position = position(startLine, Math.max(startLine, lastContentLine));
+    };
+
     while (lineIndex < lines.length) {
         const line = lines[lineIndex];
+
+        // Fenced code block: opaque until the closing fence
+        const fenceMatch = line.match(FENCE_PATTERN);
+        if (fenceMatch) {
+            flushParagraph();
+            const fence = fenceMatch[1];
+            const language = fenceMatch[2].trim().split(/\s+/)[0] || undefined;
+            const codeLines: string[] = [];
+            const startLine = lineIndex;
+            lineIndex++;
+
+            while (lineIndex < lines.length && !isClosingFence(lines[lineIndex], fence)) {
+                codeLines.push(lines[lineIndex]);
+                lineIndex++;
+            }
+
+            // Unclosed fences run to the end of the file
+            const endLine = Math.min(lineIndex, lines.length - 1);
+            currentNode().content.push({ type: 'code', language, code: codeLines.join('\n'), position: position(startLine, endLine) });
+            lastContentLine = endLine;
+            lineIndex++; // Skip closing fence (or EOF for unclosed fences)
+            continue;
+        }
+
         const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
 
         if (headingMatch) {
-            // Flush current content to the last node
-            if (currentContent.length > 0) {
-                const currentNode = nodeStack[nodeStack.length - 1];
-                const paragraph = currentContent.join(' ');
-                if (paragraph.trim()) {
-                    currentNode.content.push(paragraph);
-                }
-                currentContent = [];
-            }
+            flushParagraph();
 
             const level = headingMatch[1].length;
             const title = headingMatch[2].trim();
@@ -66,20 +153,23 @@ export function parseMarkdownContent(content: string, docId?: string): SectionNo
             // Skip the first H1 (it's used as document title)
             if (level === 1 && !h1Found) {
                 h1Found = true;
+                lastContentLine = lineIndex;
                 lineIndex++;
                 continue;
             }
 
-            // Only process H2, H3 (levels 2, 3)
-            if (level === 2 || level === 3) {
+            if (level > maxDepth) {
+                // Too deep to become a section: keep the heading text as its own paragraph
+                currentNode().content.push({ type: 'paragraph', text: title, position: position(lineIndex, lineIndex) });
+            } else {
                 // Pop stack until we find the right parent
-                while (nodeStack.length > 1 && nodeStack[nodeStack.length - 1].level >= level) {
-                    nodeStack.pop();
+                while (nodeStack.length > 1 && currentNode().level >= level) {
+                    closeNode(nodeStack.pop()!);
                 }
 
                 // Create new section node
                 const newNode: SectionNode = {
-                    id: generateId(title),
+                    id: '', // Assigned from the heading path once the tree is complete
                     type: 'section',
                     level,
                     title,
@@ -88,65 +178,270 @@ export function parseMarkdownContent(content: string, docId?: string): SectionNo
                 };
 
                 // Add to parent
-                const parent = nodeStack[nodeStack.length - 1];
-                parent.children.push(newNode);
+                currentNode().children.push(newNode);
 
                 // Push to stack
                 nodeStack.push(newNode);
+                startLines.set(newNode, lineIndex);
             }
-        } else {
-            // Accumulate content
-            const trimmed = line.trim();
-            if (trimmed) {
-                currentContent.push(trimmed);
-            } else if (currentContent.length > 0) {
-                // Empty line marks paragraph break, flush current content
-                const currentNode = nodeStack[nodeStack.length - 1];
-                const paragraph = currentContent.join(' ');
-                if (paragraph.trim()) {
-                    currentNode.content.push(paragraph);
+
+            lastContentLine = lineIndex;
+            lineIndex++;
+            continue;
+        }
+
+        // Thematic break ("---", "***", "* * *"): ends the paragraph, no content
+        if (THEMATIC_BREAK_PATTERN.test(line)) {
+            flushParagraph();
+            lineIndex++;
+            continue;
+        }
+
+        // Table: header row followed by a delimiter row
+        if (line.includes('|') && lineIndex + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[lineIndex + 1])) {
+            flushParagraph();
+            const headers = splitTableRow(line);
+            const rows: string[][] = [];
+            const startLine = lineIndex;
+            lineIndex += 2;
+
+            while (lineIndex < lines.length && lines[lineIndex].includes('|') && lines[lineIndex].trim()) {
+                rows.push(splitTableRow(lines[lineIndex]));
+                lineIndex++;
+            }
+
+            currentNode().content.push({ type: 'table', headers, rows, position: position(startLine, lineIndex - 1) });
+            lastContentLine = lineIndex - 1;
+            continue;
+        }
+
+        // List: consecutive items, with indented continuation lines
+        const listMatch = line.match(LIST_ITEM_PATTERN);
+        if (listMatch) {
+            flushParagraph();
+            const ordered = /\d/.test(listMatch[2]);
+            const baseIndent = listMatch[1].length;
+            const items: ListBlock['items'] = [];
+            const startLine = lineIndex;
+
+            while (lineIndex < lines.length) {
+                const current = lines[lineIndex];
+                if (THEMATIC_BREAK_PATTERN.test(current)) break;
+                const itemMatch = current.match(LIST_ITEM_PATTERN);
+
+                if (itemMatch && itemMatch[1].length >= baseIndent) {
+                    const depth = Math.floor((itemMatch[1].length - baseIndent) / 2);
+                    items.push({ text: itemMatch[3].trim(), depth });
+                } else if (current.trim() && /^\s+/.test(current) && items.length > 0) {
+                    // Lazy continuation of the previous item
+                    items[items.length - 1].text += ` ${current.trim()}`;
+                } else {
+                    break;
                 }
-                currentContent = [];
+                lineIndex++;
             }
+
+            currentNode().content.push({ type: 'list', ordered, items, position: position(startLine, lineIndex - 1) });
+            lastContentLine = lineIndex - 1;
+            continue;
+        }
+
+        // Blockquote: consecutive lines starting with ">"
+        if (/^\s*>/.test(line)) {
+            flushParagraph();
+            const quoteLines: string[] = [];
+            const startLine = lineIndex;
+
+            while (lineIndex < lines.length && /^\s*>/.test(lines[lineIndex])) {
+                quoteLines.push(lines[lineIndex].replace(/^\s*>\s?/, '').trim());
+                lineIndex++;
+            }
+
+            // Blank quote lines separate paragraphs inside the quote
+            const text = quoteLines
+                .join('\n')
+                .split(/\n{2,}/)
+                .map(part => part.split('\n').join(' ').trim())
+                .filter(Boolean)
+                .join('\n');
+
+            currentNode().content.push({ type: 'blockquote', text, position: position(startLine, lineIndex - 1) });
+            lastContentLine = lineIndex - 1;
+            continue;
+        }
+
+        // Accumulate paragraph text
+        const trimmed = line.trim();
+        if (trimmed) {
+            if (paragraphLines.length === 0) paragraphStart = lineIndex;
+            paragraphLines.push(trimmed);
+            lastContentLine = lineIndex;
+        } else {
+            // Empty line marks paragraph break
+            flushParagraph();
         }
 
         lineIndex++;
     }
 
-    // Flush any remaining content
-    if (currentContent.length > 0) {
-        const currentNode = nodeStack[nodeStack.length - 1];
-        const paragraph = currentContent.join(' ');
-        if (paragraph.trim()) {
-            currentNode.content.push(paragraph);
-        }
+    // Flush any remaining content and close the sections still open
+    flushParagraph();
+    while (nodeStack.length > 0) {
+        closeNode(nodeStack.pop()!);
     }
 
+    assignNodeIds(root, root.id);
+
     return root;
 }
 
 /**
- * Generates a stable ID from a title
+ * Assigns section IDs from the document scope and the heading path.
+ * 
+ * The ID of a section only depends on its document, the titles of its ancestors
+ * and its own title, plus an ordinal when earlier siblings share the same title.
+ * Editing unrelated sections therefore never changes it, which keeps hash-based
+ * change detection in the indexer working. The root keeps its ID.
+ * 
+ * @param root - Document root (its ID is not changed)
+ * @param scope - Document identifier the IDs are scoped by
+ */
+export function assignNodeIds(root: SectionNode, scope: string): void {
+    const visit = (parent: SectionNode, parentPath: string[]) => {
+        const seenTitles = new Map<string, number>();
+
+        for (const child of parent.children) {
+            const occurrence = seenTitles.get(child.title) || 0;
+            seenTitles.set(child.title, occurrence + 1);
+
+            // Repeated titles get an ordinal so siblings never collide
+            const path = [...parentPath, occurrence === 0 ? child.title : `${child.title}#${occurrence + 1}`];
+            child.id = generateId(path);
+            visit(child, path);
+        }
+    };
+
+    visit(root, [scope]);
+}
+
+/**
+ * Splits YAML front matter (between leading `---` lines) from the markdown body.
+ * Invalid YAML is reported and left in the body as regular text.
+ * 
+ * @param content - Markdown content with normalized line endings
+ * @returns Parsed metadata (if any) and the remaining body
+ */
+export function parseFrontMatter(content: string): { metadata?: DocumentMetadata; body: string } {
+    const match = content.match(/^\uFEFF?---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+    if (!match) {
+        return { body: content };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = YAML.parse(match[1]);
+    } catch (error) {
+        console.warn(`Ignoring invalid front matter: ${error instanceof Error ? error.message : error}`);
+        return { body: content };
+    }
+
+    const body = content.slice(match[0].length);
+
+    // Only mappings are metadata; an empty block or a scalar is ignored
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return { body };
+    }
+
+    return { metadata: parsed as DocumentMetadata, body };
+}
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})(.*)$/;
+// At least one "|", so a horizontal rule under a line containing "|" is not a table
+const TABLE_DELIMITER_PATTERN = /^(?=[^|]*\|)\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const THEMATIC_BREAK_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+/**
+ * Finds the first H1 heading that is not inside a code fence
+ */
+function findDocumentTitle(lines: string[]): string | undefined {
+    let fence: string | null = null;
+
+    for (const line of lines) {
+        if (fence) {
+            if (isClosingFence(line, fence)) fence = null;
+            continue;
+        }
+
+        const fenceMatch = line.match(FENCE_PATTERN);
+        if (fenceMatch) {
+            fence = fenceMatch[1];
+            continue;
+        }
+
+        const h1Match = line.match(/^#\s+(.+)$/);
+        if (h1Match) return h1Match[1];
+    }
+
+    return undefined;
+}
+
+/**
+ * Character offset at which each line of the original content starts
+ * (any of CRLF, CR or LF ends a line)
  */
-function generateId(title: string): string {
-    // Create URL-safe slug
-    const slug = title
-        .toLowerCase()
-        .replace(/[^\w\s-]/g, '')
-        .replace(/\s+/g, '-')
-        .substring(0, 50);
-
-    // Add short hash for uniqueness
-    const hash = crypto.createHash('md5').update(title).digest('hex').substring(0, 8);
-
-    return `${slug}-${hash}`;
+function getLineStarts(content: string): number[] {
+    const starts = [0];
+    const lineBreak = /\r\n|\r|\n/g;
+
+    for (let match = lineBreak.exec(content); match; match = lineBreak.exec(content)) {
+        starts.push(match.index + match[0].length);
+    }
+
+    return starts;
+}
+
+/**
+ * A fence closes with the same character, at least as long as the opener
+ */
+function isClosingFence(line: string, fence: string): boolean {
+    const trimmed = line.trim();
+    return trimmed.length >= fence.length
+        && trimmed === fence[0].repeat(trimmed.length);
+}
+
+/**
+ * Splits a table row into trimmed cells, ignoring outer pipes
+ */
+function splitTableRow(line: string): string[] {
+    return line
+        .trim()
+        .replace(/^\|/, '')
+        .replace(/\|$/, '')
+        .split('|')
+        .map(cell => cell.trim());
+}
+
+/**
+ * Generates a stable ID from a path of titles: a slug of the last title plus
+ * a short hash of the whole path
+ */
+function generateId(path: string[]): string {
+    // Create URL-safe slug (Unicode-aware)
+    const slug = slugify(path[path.length - 1]);
+
+    // Add short hash of the full path for uniqueness
+    const hash = crypto.createHash('md5').update(path.join('\n')).digest('hex').substring(0, 8);
+
+    // Titles without letters or digits (e.g. "???") are identified by the hash alone
+    return slug ? `${slug}-${hash}` : hash;
 }
 
 /**
  * Extracts all text content from a SectionNode tree (for full-text search)
  */
 export function extractAllText(node: SectionNode): string {
-    let text = `${node.title}\n${node.content.join('\n')}`;
+    let text = `${node.title}\n${contentToPlainText(node.content)}`;
 
     for (const child of node.children) {
         text += '\n' + extractAllText(child);
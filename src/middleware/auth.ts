@@ -1,18 +1,57 @@
 /**
- * Simple API Key Authentication
+ * API Key Authentication
  * 
- * Lightweight auth without database dependencies.
- * API keys are configured via environment variables.
+ * Keys come from two places:
+ * - the key store (see db/apiKeyStore): hashed keys with scopes, groups,
+ *   expiry and a daily request quota, managed through /api/keys
+ * - the API_KEYS environment variable: static keys with every scope
+ *
+ * Every key resolves to a principal (the name given to the key, or
+ * "env:<hash prefix>" for unnamed keys, never the key itself) and the
+ * principal to the groups used by document ACLs:
+ *
+ *   API_KEYS=alice:hrag_abc...,hrag_def...
+ *   ACL_GROUPS=alice=engineering|finance,hrag_def...=support
+ *
+ * While authentication is disabled, the first stored key is created with the
+ * CLI (src/cli/createApiKey.ts) or with the AUTH_BOOTSTRAP_TOKEN secret.
  */
 
-import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import {
+  findApiKey,
+  hashApiKey,
+  hasScope,
+  isApiKeyActive,
+  countActiveApiKeys,
+  consumeApiKeyQuota,
+  SCOPES,
+  type ApiKey,
+  type Scope
+} from '../db/apiKeyStore.js';
+
+export { generateApiKey } from '../db/apiKeyStore.js';
 
 export interface AuthConfig {
   enabled: boolean;
   apiKeys: Set<string>;
   headerName: string;
   skipPaths: string[];
+  principals: Map<string, string>;   // API key -> principal name
+  groups: Map<string, string[]>;     // Principal -> groups
+  bootstrapToken?: string;           // Secret allowing /api/keys while authentication is disabled
+}
+
+/**
+ * Who a request is made by, with the groups whose documents it may read
+ * and the scopes of the key it used
+ */
+export interface Principal {
+  id: string;           // Key name (unique for stored keys), or "env:<hash prefix>" for unnamed API_KEYS keys
+  groups: string[];
+  scopes: Scope[];
+  keyId: string;        // Stored key ID, or "env:<hash prefix>" for API_KEYS keys
 }
 
 // Default configuration
@@ -20,57 +59,196 @@ let authConfig: AuthConfig = {
   enabled: false,
   apiKeys: new Set(),
   headerName: 'x-api-key',
-  skipPaths: ['/health', '/']
+  skipPaths: ['/health', '/'],
+  principals: new Map(),
+  groups: new Map()
 };
 
+/**
+ * Parse API_KEYS entries ("key" or "principal:key")
+ */
+function parseApiKeys(value: string | undefined): { keys: Set<string>; principals: Map<string, string> } {
+  const keys = new Set<string>();
+  const principals = new Map<string, string>();
+
+  for (const entry of value?.split(',').map(k => k.trim()).filter(Boolean) || []) {
+    const separator = entry.indexOf(':');
+    const key = separator === -1 ? entry : entry.slice(separator + 1).trim();
+    keys.add(key);
+    if (separator !== -1) {
+      principals.set(key, entry.slice(0, separator).trim());
+    }
+  }
+
+  return { keys, principals };
+}
+
+/**
+ * Principal (and key) ID of an API_KEYS key: a hash prefix, so the key itself
+ * is never used as an identifier
+ */
+function envKeyId(key: string): string {
+  return `env:${hashApiKey(key).slice(0, 12)}`;
+}
+
+/**
+ * Move groups given to an unnamed API key to its hashed principal ID
+ */
+function rekeyGroups(key: string): void {
+  const groups = authConfig.groups.get(key);
+  if (groups && authConfig.apiKeys.has(key) && !authConfig.principals.has(key)) {
+    authConfig.groups.delete(key);
+    authConfig.groups.set(envKeyId(key), groups);
+  }
+}
+
+/**
+ * Parse ACL_GROUPS entries ("principal=group1|group2")
+ */
+function parseGroups(value: string | undefined): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+
+  for (const entry of value?.split(',').map(g => g.trim()).filter(Boolean) || []) {
+    const [principal, list = ''] = entry.split('=');
+    groups.set(principal.trim(), list.split('|').map(g => g.trim()).filter(Boolean));
+  }
+
+  return groups;
+}
+
 /**
  * Initialize auth with API keys from environment
  */
 export function initAuth(options?: Partial<AuthConfig>) {
-  // Load API keys from environment
-  const envKeys = process.env.API_KEYS?.split(',').map(k => k.trim()).filter(Boolean) || [];
+  // Load API keys and their groups from environment
+  const { keys, principals } = parseApiKeys(process.env.API_KEYS);
+  const storedKeys = countActiveApiKeys();
   
   authConfig = {
-    enabled: process.env.AUTH_ENABLED === 'true' || envKeys.length > 0,
-    apiKeys: new Set(envKeys),
+    enabled: process.env.AUTH_ENABLED === 'true' || keys.size > 0 || storedKeys > 0,
+    apiKeys: keys,
     headerName: process.env.AUTH_HEADER || 'x-api-key',
     skipPaths: ['/health', '/', '/index.html'],
+    principals,
+    groups: parseGroups(process.env.ACL_GROUPS),
+    bootstrapToken: process.env.AUTH_BOOTSTRAP_TOKEN || undefined,
     ...options
   };
 
+  // ACL_GROUPS may name unnamed keys by the key itself
+  for (const key of authConfig.apiKeys) {
+    rekeyGroups(key);
+  }
+
   if (authConfig.enabled) {
-    console.log(`🔐 Authentication enabled with ${authConfig.apiKeys.size} API key(s)`);
+    console.log(`🔐 Authentication enabled with ${authConfig.apiKeys.size + storedKeys} API key(s)`);
   } else {
-    console.log('🔓 Authentication disabled (no API_KEYS configured)');
+    console.log('🔓 Authentication disabled (no API keys configured)');
   }
 }
 
-/**
- * Generate a new API key
- */
-export function generateApiKey(): string {
-  return `hrag_${crypto.randomBytes(24).toString('hex')}`;
-}
-
 /**
  * Add an API key at runtime
+ * @param principal - Name of the principal using the key (default: "env:<hash prefix>")
  */
-export function addApiKey(key: string): void {
+export function addApiKey(key: string, principal?: string): void {
   authConfig.apiKeys.add(key);
+  if (principal) {
+    authConfig.principals.set(key, principal);
+  }
+  rekeyGroups(key);
 }
 
 /**
  * Remove an API key
  */
 export function removeApiKey(key: string): boolean {
+  authConfig.principals.delete(key);
   return authConfig.apiKeys.delete(key);
 }
 
 /**
- * Check if a key is valid
+ * Turn authentication on at runtime (once a stored key exists)
+ */
+export function enableAuth(): void {
+  authConfig.enabled = true;
+}
+
+/**
+ * Set the groups of a principal (or of an API key without a principal name)
+ */
+export function setPrincipalGroups(principal: string, groups: string[]): void {
+  authConfig.groups.set(principal, [...new Set(groups)]);
+  rekeyGroups(principal);
+}
+
+/**
+ * Look up a presented key: environment keys first, then the key store.
+ * Returns the reason when the key cannot be used.
+ */
+function lookupKey(key: string): { principal: Principal; stored?: ApiKey } | { error: string; message: string } {
+  if (authConfig.apiKeys.has(key)) {
+    const keyId = envKeyId(key);
+    const id = authConfig.principals.get(key) ?? keyId;
+    return {
+      principal: {
+        id,
+        groups: authConfig.groups.get(id) ?? [],
+        scopes: ['admin'],
+        keyId
+      }
+    };
+  }
+
+  const stored = findApiKey(key);
+  if (!stored) {
+    return { error: 'Invalid API key', message: 'The provided API key is not valid' };
+  }
+  if (stored.revokedAt) {
+    return { error: 'API key revoked', message: `The provided API key was revoked at ${stored.revokedAt}` };
+  }
+  if (!isApiKeyActive(stored)) {
+    return { error: 'API key expired', message: `The provided API key expired at ${stored.expiresAt}` };
+  }
+
+  const groups = new Set([...stored.groups, ...(authConfig.groups.get(stored.name) ?? [])]);
+  return {
+    principal: { id: stored.name, groups: [...groups], scopes: stored.scopes, keyId: stored.id },
+    stored
+  };
+}
+
+/**
+ * Principal of a valid API key, with its groups and scopes
+ */
+export function resolvePrincipal(key: string): Principal | undefined {
+  const result = lookupKey(key);
+  return 'principal' in result ? result.principal : undefined;
+}
+
+/**
+ * Groups whose documents a request may read.
+ * Undefined when authentication is disabled (no access control); a request
+ * without a principal only reads documents without ACL.
+ */
+export function getReaderGroups(req: Request): string[] | undefined {
+  if (!authConfig.enabled) return undefined;
+  return ((req as any).principal as Principal | undefined)?.groups ?? [];
+}
+
+/**
+ * Principal of an authenticated request (undefined when authentication is disabled)
+ */
+export function getPrincipal(req: Request): Principal | undefined {
+  if (!authConfig.enabled) return undefined;
+  return (req as any).principal as Principal | undefined;
+}
+
+/**
+ * Check if a key is valid (known, not revoked and not expired)
  */
 export function isValidKey(key: string): boolean {
-  return authConfig.apiKeys.has(key);
+  return resolvePrincipal(key) !== undefined;
 }
 
 /**
@@ -82,8 +260,8 @@ export function authenticate(req: Request, res: Response, next: NextFunction) {
     return next();
   }
 
-  // Skip configured paths
-  if (authConfig.skipPaths.some(p => req.path === p || req.path.startsWith(p))) {
+  // Skip configured paths (and their subpaths; "/" only matches itself)
+  if (authConfig.skipPaths.some(p => req.path === p || (p !== '/' && req.path.startsWith(`${p}/`)))) {
     return next();
   }
 
@@ -105,20 +283,60 @@ export function authenticate(req: Request, res: Response, next: NextFunction) {
     });
   }
 
-  if (!isValidKey(apiKey)) {
-    return res.status(403).json({
-      error: 'Invalid API key',
-      message: 'The provided API key is not valid'
-    });
+  const result = lookupKey(apiKey);
+
+  if ('error' in result) {
+    return res.status(403).json(result);
+  }
+
+  // Stored keys past their daily quota are rejected here; requests are
+  // counted by requireScope, once the key is known to be allowed the route
+  const { stored } = result;
+  if (stored && stored.quota !== null && stored.requestsToday >= stored.quota) {
+    return quotaExceeded(res, stored);
   }
 
   // Add user info to request
   (req as any).apiKey = apiKey;
+  (req as any).principal = result.principal;
+  (req as any).storedKey = stored;
   (req as any).authenticated = true;
 
   next();
 }
 
+function quotaExceeded(res: Response, stored: ApiKey) {
+  res.setHeader('X-Quota-Limit', stored.quota!);
+  res.setHeader('X-Quota-Remaining', 0);
+  return res.status(429).json({
+    error: 'Quota exceeded',
+    message: `This API key is limited to ${stored.quota} requests per day`
+  });
+}
+
+/**
+ * Count a request against the daily quota of its stored key (once per request).
+ * Sends a 429 response and returns false when the quota is used up.
+ */
+function chargeQuota(req: Request, res: Response): boolean {
+  const stored = (req as any).storedKey as ApiKey | undefined;
+  if (!stored || (req as any).quotaCharged) return true;
+
+  (req as any).quotaCharged = true;
+  const { allowed, used } = consumeApiKeyQuota(stored);
+
+  if (!allowed) {
+    quotaExceeded(res, stored);
+    return false;
+  }
+
+  if (stored.quota !== null) {
+    res.setHeader('X-Quota-Limit', stored.quota);
+    res.setHeader('X-Quota-Remaining', Math.max(0, stored.quota - used));
+  }
+  return true;
+}
+
 /**
  * Optional auth - allows unauthenticated but marks the request
  */
@@ -126,9 +344,11 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction) {
   const apiKey = 
     req.headers[authConfig.headerName] as string ||
     req.headers['authorization']?.replace('Bearer ', '');
+  const principal = apiKey ? resolvePrincipal(apiKey) : undefined;
 
-  if (apiKey && isValidKey(apiKey)) {
+  if (principal) {
     (req as any).apiKey = apiKey;
+    (req as any).principal = principal;
     (req as any).authenticated = true;
   } else {
     (req as any).authenticated = false;
@@ -138,17 +358,101 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction) {
 }
 
 /**
- * Require specific role (for future use)
+ * Require scopes on a route or router, then count the request against the
+ * quota of its key (requests rejected for their scope are not counted).
+ * Passes every request when authentication is disabled; `admin` grants every scope.
+ */
+export function requireScope(...scopes: Scope[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!authConfig.enabled) {
+      return next();
+    }
+
+    const principal = (req as any).principal as Principal | undefined;
+
+    if (!principal) {
+      return res.status(401).json({
+        error: 'Authentication required'
+      });
+    }
+
+    const missing = scopes.filter(scope => !hasScope(principal.scopes, scope));
+
+    if (missing.length > 0) {
+      return res.status(403).json({
+        error: 'Insufficient scope',
+        message: `This endpoint requires the ${missing.map(s => `'${s}'`).join(', ')} scope`,
+        required: scopes
+      });
+    }
+
+    if (!chargeQuota(req, res)) return;
+
+    next();
+  };
+}
+
+/**
+ * Require a role. Roles are scopes now: a scope name is checked like
+ * requireScope, any other role only requires an authenticated request.
+ * @deprecated Use requireScope
  */
 export function requireRole(role: string) {
+  const scoped = (SCOPES as readonly string[]).includes(role) ? requireScope(role as Scope) : undefined;
+
   return (req: Request, res: Response, next: NextFunction) => {
-    // For now, all authenticated users have all roles
-    // Extend this for role-based access control
     if (!(req as any).authenticated) {
       return res.status(401).json({
         error: 'Authentication required'
       });
     }
+
+    if (scoped) {
+      return scoped(req, res, next);
+    }
+
+    if (!chargeQuota(req, res)) return;
+
+    next();
+  };
+}
+
+const BOOTSTRAP_HEADER = 'x-bootstrap-token';
+
+/**
+ * Require the admin scope; while authentication is disabled, require the
+ * bootstrap token (AUTH_BOOTSTRAP_TOKEN) instead, so that the first API key
+ * is never created anonymously. Without a bootstrap token, the first key is
+ * created with the CLI.
+ */
+export function requireAdminOrBootstrap() {
+  const admin = requireScope('admin');
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (authConfig.enabled) {
+      return admin(req, res, next);
+    }
+
+    if (!authConfig.bootstrapToken) {
+      return res.status(403).json({
+        error: 'Authentication disabled',
+        message: 'Create the first API key with src/cli/createApiKey.ts, or set AUTH_BOOTSTRAP_TOKEN'
+      });
+    }
+
+    const token = req.headers[BOOTSTRAP_HEADER] as string | undefined;
+    const matches = token !== undefined && crypto.timingSafeEqual(
+      Buffer.from(hashApiKey(token), 'hex'),
+      Buffer.from(hashApiKey(authConfig.bootstrapToken), 'hex')
+    );
+
+    if (!matches) {
+      return res.status(401).json({
+        error: 'Bootstrap token required',
+        message: `Please provide AUTH_BOOTSTRAP_TOKEN via the '${BOOTSTRAP_HEADER}' header`
+      });
+    }
+
     next();
   };
 }
@@ -162,7 +466,7 @@ export function getAuthStatus(): {
 } {
   return {
     enabled: authConfig.enabled,
-    keyCount: authConfig.apiKeys.size
+    keyCount: authConfig.apiKeys.size + countActiveApiKeys()
   };
 }
 
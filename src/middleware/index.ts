@@ -10,7 +10,16 @@ export {
   generateApiKey, 
   addApiKey, 
   removeApiKey,
-  getAuthStatus 
+  enableAuth,
+  setPrincipalGroups,
+  resolvePrincipal,
+  getReaderGroups,
+  getPrincipal,
+  requireScope,
+  requireRole,
+  requireAdminOrBootstrap,
+  getAuthStatus,
+  type Principal
 } from './auth.js';
 export { 
   validateBody, 
@@ -6,6 +6,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import type { Principal } from './auth.js';
 
 interface RateLimitEntry {
   count: number;
@@ -34,9 +35,15 @@ setInterval(() => {
 }, 60000);
 
 /**
- * Default key generator - uses IP address
+ * Default key generator - uses the API key of authenticated requests,
+ * the IP address otherwise
  */
 function defaultKeyGenerator(req: Request): string {
+  const principal = (req as any).principal as Principal | undefined;
+  if (principal) {
+    return `key:${principal.keyId}`;
+  }
+
   return req.ip || 
          req.headers['x-forwarded-for']?.toString().split(',')[0] || 
          req.socket.remoteAddress || 
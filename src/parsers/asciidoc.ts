@@ -0,0 +1,177 @@
+import YAML from 'yaml';
+import { parseMarkdownContent } from '../markdownParser.js';
+import type { DocumentParser } from './index.js';
+import { stripPositions, codeFence, pipeTable } from './markdown.js';
+
+/**
+ * AsciiDoc.
+ * `=` titles map to heading levels, document header attributes become metadata,
+ * listing/literal blocks become code blocks (with the `[source,lang]` language),
+ * `|===` tables become tables and `____` blocks become blockquotes.
+ */
+export const asciidocParser: DocumentParser = {
+    name: 'asciidoc',
+    extensions: ['.adoc', '.asciidoc', '.asc'],
+    mimeTypes: ['text/asciidoc', 'text/x-asciidoc'],
+    parse: (content, docId, options) => stripPositions(parseMarkdownContent(asciidocToMarkdown(content), docId, options))
+};
+
+const TITLE_PATTERN = /^(={1,6})\s+(.+?)\s*=*\s*$/;
+const ATTRIBUTE_PATTERN = /^:([\w-]+!?):\s*(.*)$/;
+const LIST_PATTERN = /^(\*{1,5}|-|\.{1,5})\s+(.*)$/;
+
+/**
+ * Converts inline markup to markdown/plain text
+ */
+function convertInline(text: string): string {
+    return text
+        .replace(/\b(?:https?|link):(\S+?)\[([^\]]*)\]/g, (_, target: string, label: string) => label || target)
+        .replace(/<<([^,>]+)(?:,\s*([^>]+))?>>/g, (_, target: string, label?: string) => label || target)
+        .replace(/`\+?([^`+]+)\+?`/g, '`$1`');
+}
+
+/**
+ * Collects the lines of a delimited block (`----`, `....`, `____`, `|===`, `////`)
+ */
+function readDelimited(lines: string[], start: number, delimiter: string): { block: string[]; next: number } {
+    let end = start + 1;
+    while (end < lines.length && lines[end].trim() !== delimiter) end++;
+    return { block: lines.slice(start + 1, end), next: end + 1 };
+}
+
+/**
+ * Parses `|===` table rows. The column count comes from the first row; cells of
+ * later rows may be spread over several lines.
+ */
+function parseTable(block: string[]): { headers: string[]; rows: string[][] } | null {
+    const rowLines = block.filter(l => l.trim());
+    if (rowLines.length === 0) return null;
+
+    const splitCells = (line: string) => line.split('|').slice(1).map(c => c.trim());
+    const headers = splitCells(rowLines[0]);
+    const columns = headers.length;
+    if (columns === 0) return null;
+
+    const cells = rowLines.slice(1).flatMap(splitCells);
+    const rows: string[][] = [];
+    for (let i = 0; i < cells.length; i += columns) {
+        rows.push(cells.slice(i, i + columns));
+    }
+
+    return { headers, rows };
+}
+
+/**
+ * Converts AsciiDoc to markdown understood by the markdown parser
+ */
+export function asciidocToMarkdown(adoc: string): string {
+    const lines = adoc.replace(/\r\n?/g, '\n').split('\n');
+    const out: string[] = [];
+    const attributes: Record<string, string> = {};
+
+    let pendingLanguage: string | undefined;
+    let inHeader = false;
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const trimmed = line.trim();
+
+        // Comments
+        if (trimmed === '////') {
+            i = readDelimited(lines, i, '////').next;
+            continue;
+        }
+        if (trimmed.startsWith('//')) {
+            i++;
+            continue;
+        }
+
+        const title = trimmed.match(TITLE_PATTERN);
+        if (title) {
+            out.push('', `${'#'.repeat(title[1].length)} ${convertInline(title[2])}`, '');
+            // Attribute entries right below the document title form the header
+            inHeader = title[1].length === 1 && Object.keys(attributes).length === 0;
+            pendingLanguage = undefined;
+            i++;
+            continue;
+        }
+
+        const attribute = trimmed.match(ATTRIBUTE_PATTERN);
+        if (attribute) {
+            if (inHeader && !attribute[1].endsWith('!')) {
+                attributes[attribute[1]] = attribute[2];
+            }
+            i++;
+            continue;
+        }
+        if (trimmed === '') inHeader = false;
+
+        // Block attributes: remember the language of [source,lang]
+        if (/^\[.*\]$/.test(trimmed)) {
+            const source = trimmed.match(/^\[source(?:,\s*([\w+#-]+))?/);
+            if (source) pendingLanguage = source[1] || '';
+            i++;
+            continue;
+        }
+
+        // Listing and literal blocks
+        if (trimmed === '----' || trimmed === '....') {
+            const { block, next } = readDelimited(lines, i, trimmed);
+            out.push('', codeFence(block.join('\n'), pendingLanguage ?? ''), '');
+            pendingLanguage = undefined;
+            i = next;
+            continue;
+        }
+
+        // Quote blocks
+        if (trimmed === '____') {
+            const { block, next } = readDelimited(lines, i, '____');
+            out.push('', ...block.map(l => (l.trim() ? `> ${convertInline(l.trim())}` : '>')), '');
+            i = next;
+            continue;
+        }
+
+        // Tables
+        if (trimmed === '|===') {
+            const { block, next } = readDelimited(lines, i, '|===');
+            const table = parseTable(block);
+            if (table) out.push('', pipeTable(table.headers, table.rows), '');
+            i = next;
+            continue;
+        }
+
+        // Block titles (".Example") are kept as plain text
+        if (/^\.[^.\s]/.test(trimmed)) {
+            out.push(convertInline(trimmed.slice(1)));
+            i++;
+            continue;
+        }
+
+        // Lists: "*"/"-" unordered, "." ordered; repeated markers nest
+        const list = trimmed.match(LIST_PATTERN);
+        if (list) {
+            const marker = list[1];
+            const depth = marker === '-' ? 0 : marker.length - 1;
+            const bullet = marker[0] === '.' ? '1.' : '-';
+            out.push(`${'  '.repeat(depth)}${bullet} ${convertInline(list[2])}`);
+            i++;
+            continue;
+        }
+
+        // List continuation marker
+        if (trimmed === '+') {
+            i++;
+            continue;
+        }
+
+        out.push(convertInline(line));
+        i++;
+    }
+
+    const body = out.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+
+    return Object.keys(attributes).length > 0
+        ? `---\n${YAML.stringify(attributes)}---\n${body}`
+        : body;
+}
@@ -0,0 +1,183 @@
+import { parseMarkdownContent } from '../markdownParser.js';
+import type { DocumentParser } from './index.js';
+import { stripPositions, codeFence, pipeTable } from './markdown.js';
+
+/**
+ * HTML documents (exported pages, static site output).
+ * Headings become sections; <pre> blocks, tables, lists and blockquotes become
+ * the matching content blocks. Scripts, styles and comments are dropped.
+ */
+export const htmlParser: DocumentParser = {
+    name: 'html',
+    extensions: ['.html', '.htm', '.xhtml'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    parse: (content, docId, options) => stripPositions(parseMarkdownContent(htmlToMarkdown(content), docId, options))
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    ndash: '–', mdash: '—', hellip: '…', copy: '©', reg: '®',
+    laquo: '«', raquo: '»', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”'
+};
+
+const BLOCK_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav',
+    'figure', 'figcaption', 'dl', 'dt', 'dd', 'hr', 'br', 'body', 'html'
+]);
+
+/**
+ * Decodes named and numeric character references
+ */
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Strips tags and decodes entities, collapsing whitespace
+ */
+function textOf(html: string): string {
+    return decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Converts HTML to markdown understood by the markdown parser
+ */
+export function htmlToMarkdown(html: string): string {
+    let source = html
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '');
+
+    // Use <title> as the document title when the page has no <h1>
+    const pageTitle = source.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    source = source.replace(/<head\b[\s\S]*?<\/head>/i, '');
+    const prefix = pageTitle && !/<h1[\s>]/i.test(source) && textOf(pageTitle[1])
+        ? `# ${textOf(pageTitle[1])}\n\n`
+        : '';
+
+    // Pre-formatted blocks and tables are converted up front and kept as placeholders
+    const blocks: string[] = [];
+    const placeholder = (markdown: string) => `\n\u0000${blocks.push(markdown) - 1}\u0000\n`;
+
+    source = source.replace(/<pre\b([^>]*)>([\s\S]*?)<\/pre>/gi, (_, attrs: string, inner: string) => {
+        const languageMatch = (attrs + inner.slice(0, 200)).match(/class="[^"]*\b(?:language|lang)-([\w+#-]+)/i);
+        const code = decodeEntities(inner.replace(/<[^>]*>/g, ''));
+        return placeholder(codeFence(code, languageMatch?.[1] ?? ''));
+    });
+
+    source = source.replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, inner: string) => {
+        const rows = Array.from(inner.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi))
+            .map(row => Array.from(row[1].matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)).map(cell => textOf(cell[1])))
+            .filter(cells => cells.length > 0);
+        if (rows.length === 0) return '\n';
+        return placeholder(pipeTable(rows[0], rows.slice(1)));
+    });
+
+    return prefix + convertFlow(source, blocks);
+}
+
+/**
+ * Walks tags and text in document order, emitting markdown lines.
+ * `blocks` holds the markdown of the placeholders left in the HTML.
+ */
+function convertFlow(html: string, blocks: string[]): string {
+    const lines: string[] = [];
+    const lists: Array<{ ordered: boolean; counter: number }> = [];
+    let quoteDepth = 0;
+    let heading = 0;
+    let listMarker: string | null = null;
+    let text = '';
+
+    const emit = (line: string) => {
+        lines.push(quoteDepth > 0 ? `${'> '.repeat(quoteDepth)}${line}`.trimEnd() : line);
+    };
+
+    const flush = () => {
+        const value = text.replace(/\s+/g, ' ').trim();
+        text = '';
+
+        if (listMarker !== null) {
+            // Keep the marker until the item has text (e.g. <li><p>Text</p></li>)
+            if (value) {
+                emit(`${listMarker} ${value}`);
+                listMarker = null;
+            }
+            return;
+        }
+
+        if (!value) return;
+
+        if (heading > 0) {
+            emit('');
+            emit(`${'#'.repeat(heading)} ${value}`);
+        } else if (lists.length === 0) {
+            emit(value);
+        } else {
+            // Loose text inside a list continues the previous item
+            const indent = '  '.repeat(lists.length);
+            emit(`${indent}${value}`);
+            return;
+        }
+        emit('');
+    };
+
+    for (const token of html.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>|\u0000(\d+)\u0000|[^<\u0000]+/g)) {
+        const [raw, closing, rawTag, blockIndex] = token;
+
+        if (blockIndex !== undefined) {
+            flush();
+            emit('');
+            for (const line of blocks[Number(blockIndex)].split('\n')) emit(line);
+            emit('');
+            continue;
+        }
+
+        if (!rawTag) {
+            text += decodeEntities(raw);
+            continue;
+        }
+
+        const tag = rawTag.toLowerCase();
+        const headingMatch = tag.match(/^h([1-6])$/);
+
+        if (headingMatch) {
+            flush();
+            heading = closing ? 0 : Number(headingMatch[1]);
+        } else if (tag === 'ul' || tag === 'ol') {
+            flush();
+            if (closing) {
+                lists.pop();
+                if (lists.length === 0) emit('');
+            } else {
+                lists.push({ ordered: tag === 'ol', counter: 0 });
+            }
+        } else if (tag === 'li') {
+            flush();
+            const list = lists[lists.length - 1];
+            if (!closing && list) {
+                list.counter++;
+                listMarker = `${'  '.repeat(lists.length - 1)}${list.ordered ? `${list.counter}.` : '-'}`;
+            }
+        } else if (tag === 'blockquote') {
+            flush();
+            if (closing) {
+                quoteDepth = Math.max(0, quoteDepth - 1);
+                emit('');
+            } else {
+                emit('');
+                quoteDepth++;
+            }
+        } else if (BLOCK_TAGS.has(tag)) {
+            flush();
+        }
+    }
+
+    flush();
+
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
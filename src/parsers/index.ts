@@ -0,0 +1,116 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { SectionNode } from '../db/documentStore.js';
+import { ParseOptions } from '../markdownParser.js';
+import { markdownParser } from './markdown.js';
+import { htmlParser } from './html.js';
+import { rstParser } from './rst.js';
+import { asciidocParser } from './asciidoc.js';
+import { ipynbParser } from './ipynb.js';
+
+/**
+ * Document Parser Registry
+ *
+ * Every supported format turns its content into the same SectionNode tree.
+ * Parsers are looked up by name, file extension or MIME type; markdown is
+ * the default when nothing else matches.
+ */
+
+export interface DocumentParser {
+    name: string;           // Format name, e.g. "markdown", "html"
+    extensions: string[];   // Lowercase, with dot, e.g. [".md", ".markdown"]
+    mimeTypes: string[];    // e.g. ["text/markdown"]
+    parse(content: string, docId?: string, options?: ParseOptions): SectionNode;
+}
+
+const parsers = new Map<string, DocumentParser>();
+
+export const DEFAULT_PARSER = 'markdown';
+
+/**
+ * Register a parser (replaces any parser with the same name)
+ */
+export function registerParser(parser: DocumentParser): void {
+    parsers.set(parser.name, parser);
+}
+
+/**
+ * List registered parsers
+ */
+export function listParsers(): DocumentParser[] {
+    return Array.from(parsers.values());
+}
+
+/**
+ * Get a parser by name ("html") or extension ("html", ".htm")
+ */
+export function getParser(format: string): DocumentParser | undefined {
+    const key = format.toLowerCase();
+    const extension = key.startsWith('.') ? key : `.${key}`;
+
+    return parsers.get(key)
+        ?? listParsers().find(p => p.extensions.includes(extension));
+}
+
+/**
+ * Get the parser for a file path, by extension
+ */
+export function getParserForFile(filePath: string): DocumentParser | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    if (!extension) return undefined;
+
+    return listParsers().find(p => p.extensions.includes(extension));
+}
+
+/**
+ * Get the parser for a MIME type (parameters such as charset are ignored)
+ */
+export function getParserForMimeType(mimeType: string): DocumentParser | undefined {
+    const type = mimeType.split(';')[0].trim().toLowerCase();
+    return listParsers().find(p => p.mimeTypes.includes(type));
+}
+
+/**
+ * Pick a parser from an explicit format, a MIME type or a file name, in that order.
+ * Falls back to markdown when none is given; throws for formats that are given
+ * but not supported.
+ */
+export function resolveParser(source: { format?: string; mimeType?: string; filePath?: string }): DocumentParser {
+    if (source.format) {
+        const parser = getParser(source.format);
+        if (!parser) throw new Error(`Unsupported document format: ${source.format}`);
+        return parser;
+    }
+
+    if (source.mimeType) {
+        const parser = getParserForMimeType(source.mimeType);
+        if (!parser) throw new Error(`Unsupported MIME type: ${source.mimeType}`);
+        return parser;
+    }
+
+    if (source.filePath) {
+        const parser = getParserForFile(source.filePath);
+        if (parser) return parser;
+    }
+
+    return parsers.get(DEFAULT_PARSER)!;
+}
+
+/**
+ * Read a file and parse it with the parser matching its extension
+ *
+ * @param filePath - Path to the document
+ * @param options - Parser options (heading depth, document ID, ...)
+ */
+export async function parseDocumentFile(filePath: string, options: ParseOptions = {}): Promise<SectionNode> {
+    const parser = resolveParser({ filePath });
+    const content = await fs.readFile(filePath, 'utf-8');
+    return parser.parse(content, options.docId || filePath, options);
+}
+
+// Built-in parsers
+registerParser(markdownParser);
+registerParser(htmlParser);
+registerParser(rstParser);
+registerParser(asciidocParser);
+registerParser(ipynbParser);
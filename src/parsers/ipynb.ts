@@ -0,0 +1,69 @@
+import { parseMarkdownContent } from '../markdownParser.js';
+import type { DocumentParser } from './index.js';
+import { stripPositions, codeFence } from './markdown.js';
+
+/**
+ * Jupyter notebooks (nbformat 4).
+ * Markdown cells are parsed as markdown and code cells become code blocks in the
+ * notebook's language. Outputs and raw cells are not indexed.
+ */
+export const ipynbParser: DocumentParser = {
+    name: 'ipynb',
+    extensions: ['.ipynb'],
+    mimeTypes: ['application/x-ipynb+json'],
+    parse: (content, docId, options) => stripPositions(parseMarkdownContent(notebookToMarkdown(content), docId, options))
+};
+
+interface NotebookCell {
+    cell_type: 'markdown' | 'code' | 'raw';
+    source: string | string[];
+}
+
+interface Notebook {
+    cells?: NotebookCell[];
+    metadata?: {
+        title?: string;
+        kernelspec?: { language?: string };
+        language_info?: { name?: string };
+    };
+}
+
+/**
+ * Converts a notebook (JSON string) to markdown understood by the markdown parser
+ */
+export function notebookToMarkdown(json: string): string {
+    let notebook: Notebook;
+    try {
+        notebook = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`Invalid notebook: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!Array.isArray(notebook.cells)) {
+        throw new Error('Invalid notebook: missing "cells" (only nbformat 4 is supported)');
+    }
+
+    const language = notebook.metadata?.language_info?.name
+        ?? notebook.metadata?.kernelspec?.language
+        ?? '';
+
+    const parts: string[] = [];
+
+    // A notebook title (JupyterLab metadata) is used as front matter; an H1 still wins
+    if (typeof notebook.metadata?.title === 'string') {
+        parts.push(`---\ntitle: ${JSON.stringify(notebook.metadata.title)}\n---`);
+    }
+
+    for (const cell of notebook.cells) {
+        const source = Array.isArray(cell.source) ? cell.source.join('') : (cell.source ?? '');
+        if (!source.trim()) continue;
+
+        if (cell.cell_type === 'markdown') {
+            parts.push(source.trim());
+        } else if (cell.cell_type === 'code') {
+            parts.push(codeFence(source, language));
+        }
+    }
+
+    return parts.join('\n\n') + '\n';
+}
@@ -0,0 +1,45 @@
+import { parseMarkdownContent } from '../markdownParser.js';
+import type { SectionNode } from '../db/documentStore.js';
+import type { DocumentParser } from './index.js';
+
+/**
+ * Markdown (the default format).
+ * Other parsers convert their input to markdown and reuse this parser, so every
+ * format gets the same section tree, content blocks and node IDs.
+ */
+export const markdownParser: DocumentParser = {
+    name: 'markdown',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    parse: parseMarkdownContent
+};
+
+/**
+ * Removes source positions from a tree parsed from converted markdown: they
+ * point into the intermediate markdown, not into the original file
+ */
+export function stripPositions(node: SectionNode): SectionNode {
+    delete node.position;
+    for (const block of node.content) {
+        if (typeof block !== 'string') delete block.position;
+    }
+    node.children.forEach(stripPositions);
+    return node;
+}
+
+/**
+ * Wraps code in a fence longer than any backtick run inside it
+ */
+export function codeFence(code: string, language: string = ''): string {
+    const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${fence}${language}\n${code.replace(/\n+$/, '')}\n${fence}`;
+}
+
+/**
+ * Renders a table as a markdown pipe table (pipes inside cells are replaced)
+ */
+export function pipeTable(headers: string[], rows: string[][]): string {
+    const row = (cells: string[]) => `| ${cells.map(c => c.replace(/\|/g, '/').replace(/\s+/g, ' ').trim()).join(' | ')} |`;
+    return [row(headers), row(headers.map(() => '---')), ...rows.map(row)].join('\n');
+}
@@ -0,0 +1,124 @@
+import { parseMarkdownContent } from '../markdownParser.js';
+import type { DocumentParser } from './index.js';
+import { stripPositions, codeFence } from './markdown.js';
+
+/**
+ * reStructuredText (Sphinx docs).
+ * Section levels follow the order in which adornment styles first appear, as in
+ * docutils. Code directives and `::` literal blocks become code blocks, admonitions
+ * become blockquotes; other directives and comments are skipped.
+ */
+export const rstParser: DocumentParser = {
+    name: 'rst',
+    extensions: ['.rst', '.rest'],
+    mimeTypes: ['text/x-rst', 'text/prs.fallenstein.rst'],
+    parse: (content, docId, options) => stripPositions(parseMarkdownContent(rstToMarkdown(content), docId, options))
+};
+
+const ADORNMENT_PATTERN = /^([=\-`:'"~^_*+#<>.])\1{2,}\s*$/;
+const DIRECTIVE_PATTERN = /^\.\.\s+([\w:-]+)::\s*(.*)$/;
+const CODE_DIRECTIVES = new Set(['code', 'code-block', 'sourcecode', 'literalinclude']);
+const ADMONITIONS = new Set(['note', 'tip', 'hint', 'important', 'warning', 'caution', 'danger', 'attention', 'error', 'seealso', 'admonition']);
+
+/**
+ * Converts inline markup to markdown/plain text
+ */
+function convertInline(text: string): string {
+    return text
+        .replace(/``([^`]+)``/g, '`$1`')                      // ``literal``
+        .replace(/`([^`<]+?)\s*<[^>]+>`__?/g, '$1')           // `text <url>`_
+        .replace(/:[\w:-]+:`([^`<]+?)(?:\s*<[^>]+>)?`/g, '$1') // :role:`text` / :ref:`text <target>`
+        .replace(/`([^`]+)`_{1,2}/g, '$1');                   // `reference`_
+}
+
+/**
+ * Reads the indented block starting at `start` (blank lines included).
+ * Returns the dedented lines and the index of the first line after the block.
+ */
+function readIndentedBlock(lines: string[], start: number): { block: string[]; next: number } {
+    let end = start;
+    while (end < lines.length && (lines[end].trim() === '' || /^\s/.test(lines[end]))) {
+        end++;
+    }
+
+    // Trailing blank lines belong to what follows
+    while (end > start && lines[end - 1].trim() === '') end--;
+
+    const block = lines.slice(start, end);
+    const indent = Math.min(...block.filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length));
+    return {
+        block: block.map(l => l.slice(Number.isFinite(indent) ? indent : 0)),
+        next: end
+    };
+}
+
+/**
+ * Converts reStructuredText to markdown understood by the markdown parser
+ */
+export function rstToMarkdown(rst: string): string {
+    const lines = rst.replace(/\r\n?/g, '\n').split('\n');
+    const out: string[] = [];
+    const styles: string[] = []; // Adornment styles in order of first appearance (level = index + 1)
+
+    const headingLevel = (style: string) => {
+        if (!styles.includes(style)) styles.push(style);
+        return Math.min(6, styles.indexOf(style) + 1);
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        const next = lines[i + 1] ?? '';
+        const trimmed = line.trim();
+
+        // Section title with overline and underline
+        if (ADORNMENT_PATTERN.test(line) && lines[i + 1]?.trim() && ADORNMENT_PATTERN.test(lines[i + 2] ?? '') && line[0] === lines[i + 2][0]) {
+            out.push('', `${'#'.repeat(headingLevel(`over${line[0]}`))} ${convertInline(next.trim())}`, '');
+            i += 3;
+            continue;
+        }
+
+        // Section title with underline only
+        if (trimmed && !/^\s/.test(line) && ADORNMENT_PATTERN.test(next) && next.trim().length >= trimmed.length) {
+            out.push('', `${'#'.repeat(headingLevel(next[0]))} ${convertInline(trimmed)}`, '');
+            i += 2;
+            continue;
+        }
+
+        // Directives and comments
+        if (trimmed.startsWith('..')) {
+            const directive = trimmed.match(DIRECTIVE_PATTERN);
+            const { block, next: after } = readIndentedBlock(lines, i + 1);
+            // Directive options (":linenos:") come first in the block
+            const optionCount = block.findIndex(l => !/^:[\w-]+:/.test(l));
+            const body = (optionCount === -1 ? [] : block.slice(optionCount)).join('\n').trim();
+
+            if (directive && CODE_DIRECTIVES.has(directive[1])) {
+                out.push('', codeFence(body, directive[2].trim().split(/\s+/)[0]), '');
+            } else if (directive && ADMONITIONS.has(directive[1])) {
+                const label = directive[1].charAt(0).toUpperCase() + directive[1].slice(1);
+                const text = [directive[2].trim(), convertInline(body)].filter(Boolean).join('\n');
+                out.push('', ...`${label}: ${text}`.split('\n').map(l => `> ${l}`), '');
+            }
+
+            i = after;
+            continue;
+        }
+
+        // Paragraph ending with "::" introduces a literal block
+        if (trimmed.endsWith('::') && lines[i + 1]?.trim() === '') {
+            const paragraph = trimmed === '::' ? '' : convertInline(trimmed.replace(/\s*::$/, ':'));
+            const { block, next: after } = readIndentedBlock(lines, i + 2);
+            if (paragraph) out.push(paragraph);
+            if (block.length > 0) out.push('', codeFence(block.join('\n')), '');
+            i = after;
+            continue;
+        }
+
+        // Auto-numbered list items
+        out.push(convertInline(line.replace(/^(\s*)#\.\s/, '$11. ')));
+        i++;
+    }
+
+    return out.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
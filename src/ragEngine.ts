@@ -1,6 +1,7 @@
-import { searchKnn } from './db/vectorStore.js';
-import { getNode, getParent, getSiblings, getDocumentByNodeId } from './db/jsonStore.js';
+import { searchKnn, filterNodeIds, type SearchFilters } from './db/vectorStore.js';
+import { getNode, getParent, getSiblings, getDocumentByNodeId, loadDocument, canReadDocument, type SourcePosition } from './db/documentStore.js';
 import { embed } from './embeddings.js';
+import { renderContent, blockToPlainText } from './contentBlocks.js';
 import { expandGraph, type GraphExpansionConfig, type EdgeType } from './db/graphStore.js';
 
 export interface RagResult {
@@ -10,6 +11,7 @@ export interface RagResult {
         docId: string;
         score: number;
         context: string;
+        position?: SourcePosition; // Where the section is in its source file
         graphHop?: number;       // NEW: Distance from seed in graph
         edgeType?: EdgeType;     // NEW: How we reached this node
         edgeWeight?: number;     // NEW: Edge weight
@@ -23,9 +25,22 @@ export interface GraphRagConfig {
     edgeTypes: EdgeType[];       // Edge types to follow
     minEdgeWeight?: number;      // Min edge weight
     combineStrategy: 'union' | 'rerank';  // How to combine vector + graph results
+    crossCollections?: boolean;  // Let expansion leave the collections of the filters
 }
 
-export async function retrieveContext(docId: string, nodeId: string): Promise<string> {
+/**
+ * Context of a section: breadcrumb, the section itself and its siblings.
+ * Everything comes from the section's document, so nothing is returned when
+ * the reader's groups may not read that document.
+ *
+ * @param groups - Groups of the reader (undefined: no access control)
+ */
+export async function retrieveContext(docId: string, nodeId: string, groups?: string[]): Promise<string> {
+    if (groups) {
+        const doc = await loadDocument(docId);
+        if (!doc || !canReadDocument(doc, groups)) return '';
+    }
+
     const node = await getNode(docId, nodeId);
     if (!node) return '';
 
@@ -36,37 +51,62 @@ export async function retrieveContext(docId: string, nodeId: string): Promise<st
 
     // 1. Parent Context (Breadcrumb/Topic)
     if (parent) {
-        context += `[Context: ${parent.title}]\n`;
+        const breadcrumb = await getAncestorTitles(docId, nodeId);
+        context += `[Context: ${breadcrumb.join(' > ')}]\n`;
         // Optional: Add parent content summary if available
     }
 
-    // 2. The Node Itself
-    context += `## ${node.title}\n${node.content.join('\n')}\n`;
+    // 2. The Node Itself (heading depth mirrors the section level)
+    const heading = '#'.repeat(Math.min(6, Math.max(2, node.level)));
+    context += `${heading} ${node.title}\n${renderContent(node.content)}\n`;
 
     // 3. Siblings (Adjacent context)
     if (siblings.length > 0) {
         context += `\n[Related Sections]:\n`;
         for (const sib of siblings) {
-            context += `- ${sib.title}: ${sib.content.slice(0, 1).join(' ').substring(0, 100)}...\n`;
+            const preview = sib.content.length > 0 ? blockToPlainText(sib.content[0]) : '';
+            context += `- ${sib.title}: ${preview.substring(0, 100)}...\n`;
         }
     }
 
     return context;
 }
 
-export async function answer(query: string): Promise<RagResult> {
+/**
+ * Titles of all ancestors of a node, from the document root down to its parent
+ */
+async function getAncestorTitles(docId: string, nodeId: string): Promise<string[]> {
+    const doc = await loadDocument(docId);
+    if (!doc) return [];
+
+    const titles: string[] = [];
+    let parentId = doc.nodes[nodeId]?.parentId ?? null;
+
+    while (parentId) {
+        const parent = await getNode(docId, parentId);
+        if (!parent) break;
+        titles.unshift(parent.title);
+        parentId = doc.nodes[parentId]?.parentId ?? null;
+    }
+
+    return titles;
+}
+
+export async function answer(query: string, filters: SearchFilters = {}): Promise<RagResult> {
     const queryVec = await embed(query);
-    const searchResults = searchKnn(queryVec, 3); // Top 3
+    const searchResults = searchKnn(queryVec, 3, filters); // Top 3
 
     const sources = [];
 
     for (const res of searchResults) {
-        const context = await retrieveContext(res.doc_id, res.node_id);
+        const context = await retrieveContext(res.doc_id, res.node_id, filters.groups);
+        const node = await getNode(res.doc_id, res.node_id);
         sources.push({
             nodeId: res.node_id,
             docId: res.doc_id,
             score: res.distance,
-            context
+            context,
+            position: node?.position
         });
     }
 
@@ -92,7 +132,8 @@ export async function answer(query: string): Promise<RagResult> {
 export async function queryWithGraph(
     query: string,
     k: number = 3,
-    graphConfig?: Partial<GraphRagConfig>
+    graphConfig?: Partial<GraphRagConfig>,
+    filters: SearchFilters = {}
 ): Promise<RagResult> {
     // Default graph config
     const config: GraphRagConfig = {
@@ -107,7 +148,7 @@ export async function queryWithGraph(
 
     // Step 1: Vector search for seed nodes
     const queryVec = await embed(query);
-    const seedResults = searchKnn(queryVec, k);
+    const seedResults = searchKnn(queryVec, k, filters);
 
     if (seedResults.length === 0) {
         return {
@@ -132,13 +173,20 @@ export async function queryWithGraph(
             maxHops: config.maxHops,
             maxNodes: config.maxGraphNodes,
             edgeTypes: config.edgeTypes,
-            minWeight: config.minEdgeWeight
+            minWeight: config.minEdgeWeight,
+            collections: filters.collections,
+            crossCollections: config.crossCollections,
+            groups: filters.groups
         };
 
         const expanded = expandGraph(seedNodes, expansionConfig);
 
+        // Graph neighbours must satisfy the same metadata filters as seeds
+        const allowedIds = filterNodeIds(expanded.map(n => n.node_id), { metadata: filters.metadata });
+
         // Add expanded nodes
         for (const expNode of expanded) {
+            if (!allowedIds.has(expNode.node_id)) continue;
             if (!allNodeIds.includes(expNode.node_id)) {
                 allNodeIds.push(expNode.node_id);
             }
@@ -158,7 +206,10 @@ export async function queryWithGraph(
         const doc = await getDocumentByNodeId(nodeId);
         if (!doc) continue;
 
-        const context = await retrieveContext(doc.docId, nodeId);
+        if (!canReadDocument(doc, filters.groups)) continue;
+
+        const context = await retrieveContext(doc.docId, nodeId, filters.groups);
+        const node = await getNode(doc.docId, nodeId);
 
         // Calculate score
         let score: number;
@@ -184,6 +235,7 @@ export async function queryWithGraph(
             docId: doc.docId,
             score,
             context,
+            position: node?.position,
             graphHop: graphInfo?.hop,
             edgeType: graphInfo?.edgeType,
             edgeWeight: graphInfo?.weight
@@ -5,14 +5,18 @@
  * Combines with vector search for better retrieval quality.
  */
 
+import { analyzeTerms } from '../analyzers/index.js';
+
 export interface BM25Config {
   k1: number;      // Term frequency saturation (default: 1.2)
   b: number;       // Length normalization (default: 0.75)
+  language?: string;  // Analyzer of documents without a language (default: SEARCH_LANGUAGE)
 }
 
 export interface Document {
   id: string;
   text: string;
+  language?: string;
   metadata?: Record<string, any>;
 }
 
@@ -28,26 +32,11 @@ const DEFAULT_CONFIG: BM25Config = {
   b: 0.75
 };
 
-// Common stopwords to filter out
-const STOPWORDS = new Set([
-  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
-  'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
-  'to', 'was', 'were', 'will', 'with', 'the', 'this', 'but', 'they',
-  'have', 'had', 'what', 'when', 'where', 'who', 'which', 'why', 'how',
-  'all', 'each', 'every', 'both', 'few', 'more', 'most', 'other', 'some',
-  'such', 'no', 'nor', 'not', 'only', 'own', 'same', 'so', 'than', 'too',
-  'very', 'just', 'can', 'should', 'now', 'also', 'into', 'could', 'would'
-]);
-
 /**
- * Tokenize text into terms
+ * Tokenize text into terms with the analyzer of a language (see analyzers/)
  */
-export function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, ' ')  // Remove punctuation
-    .split(/\s+/)
-    .filter(term => term.length > 1 && !STOPWORDS.has(term));
+export function tokenize(text: string, language?: string): string[] {
+  return analyzeTerms(text, language);
 }
 
 /**
@@ -58,10 +47,12 @@ function termFrequency(term: string, tokens: string[]): number {
 }
 
 /**
- * BM25 Index for efficient search
+ * In-memory BM25 index.
+ * Keyword search runs on the FTS5 index (see fullText.ts); this index is its
+ * fallback when SQLite has no FTS5.
  */
 export class BM25Index {
-  private documents: Map<string, { tokens: string[]; metadata?: Record<string, any> }> = new Map();
+  private documents: Map<string, { tokens: string[]; language?: string; metadata?: Record<string, any> }> = new Map();
   private avgDocLength: number = 0;
   private docFrequency: Map<string, number> = new Map();  // term -> number of docs containing term
   private config: BM25Config;
@@ -74,8 +65,9 @@ export class BM25Index {
    * Add a document to the index
    */
   addDocument(doc: Document): void {
-    const tokens = tokenize(doc.text);
-    this.documents.set(doc.id, { tokens, metadata: doc.metadata });
+    const language = doc.language ?? this.config.language;
+    const tokens = tokenize(doc.text, language);
+    this.documents.set(doc.id, { tokens, language, metadata: doc.metadata });
     
     // Update document frequency
     const uniqueTerms = new Set(tokens);
@@ -92,8 +84,9 @@ export class BM25Index {
    */
   addDocuments(docs: Document[]): void {
     for (const doc of docs) {
-      const tokens = tokenize(doc.text);
-      this.documents.set(doc.id, { tokens, metadata: doc.metadata });
+      const language = doc.language ?? this.config.language;
+      const tokens = tokenize(doc.text, language);
+      this.documents.set(doc.id, { tokens, language, metadata: doc.metadata });
       
       const uniqueTerms = new Set(tokens);
       for (const term of uniqueTerms) {
@@ -127,16 +120,23 @@ export class BM25Index {
   }
 
   /**
-   * Search the index
+   * Search the index (the query is analyzed in the language of each document)
+   * @param filter - Keeps the IDs that may be returned (applied to every match before the limit)
    */
-  search(query: string, limit: number = 10): BM25Result[] {
-    const queryTerms = tokenize(query);
-    if (queryTerms.length === 0) return [];
+  search(query: string, limit: number = 10, filter?: (ids: string[]) => Set<string>): BM25Result[] {
+    const termsByLanguage = new Map<string | undefined, string[]>();
+    const queryTermsFor = (language?: string) => {
+      if (!termsByLanguage.has(language)) {
+        termsByLanguage.set(language, tokenize(query, language));
+      }
+      return termsByLanguage.get(language)!;
+    };
 
     const scores: BM25Result[] = [];
     const N = this.documents.size;
 
     for (const [id, doc] of this.documents.entries()) {
+      const queryTerms = queryTermsFor(doc.language);
       let score = 0;
       const matchedTerms: string[] = [];
 
@@ -161,9 +161,12 @@ export class BM25Index {
       }
     }
 
+    const allowed = filter?.(scores.map(s => s.id));
+    const results = allowed ? scores.filter(s => allowed.has(s.id)) : scores;
+
     // Sort by score descending
-    scores.sort((a, b) => b.score - a.score);
-    return scores.slice(0, limit);
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, limit);
   }
 
   /**
@@ -209,69 +212,147 @@ export class BM25Index {
  */
 export interface HybridResult {
   id: string;
-  bm25Score: number;
-  vectorScore: number;
+  bm25Score: number;       // Normalized BM25 score (RRF: reciprocal rank), 0 when not matched
+  vectorScore: number;     // Normalized vector similarity (RRF: reciprocal rank), 0 when not matched
   combinedScore: number;
+  bm25?: { rank: number; score: number };                             // Rank (from 1) and raw BM25 score
+  vector?: { rank: number; distance: number; similarity: number };    // Rank (from 1), raw distance and its similarity
   matchedTerms?: string[];
   metadata?: Record<string, any>;
 }
 
+/**
+ * How BM25 and vector results are fused:
+ * - rrf: reciprocal rank fusion, 1 / (rrfK + rank), ignores the scores
+ * - minmax: scores rescaled to [0, 1] between the worst and best result of each list
+ * - zscore: scores standardized per list (mean 0, standard deviation 1)
+ * - max: BM25 divided by its best score, vectors as 1 - distance / worst distance (the original fusion)
+ */
+export type FusionMethod = 'rrf' | 'minmax' | 'zscore' | 'max';
+
+/**
+ * Metric of the vector distances, used to turn them into similarities:
+ * - l2: 1 / (1 + distance)
+ * - l2-unit: L2 distance between unit vectors, 1 - distance² / 2 (their cosine similarity)
+ * - cosine: cosine distance, 1 - distance
+ */
+export type DistanceMetric = 'l2' | 'l2-unit' | 'cosine';
+
 export interface HybridConfig {
-  alpha: number;  // Weight for vector score (0-1), BM25 gets (1-alpha)
+  alpha: number;             // Weight for vector score (0-1), BM25 gets (1-alpha)
+  fusion?: FusionMethod;     // Default: max
+  rrfK?: number;             // RRF rank constant (default: 60)
+  metric?: DistanceMetric;   // Default: l2 (sqlite-vec)
+}
+
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Similarity of a vector distance under a metric (higher is better)
+ */
+export function distanceToSimilarity(distance: number, metric: DistanceMetric = 'l2'): number {
+  switch (metric) {
+    case 'l2-unit':
+      return 1 - (distance * distance) / 2;
+    case 'cosine':
+      return 1 - distance;
+    default:
+      return 1 / (1 + distance);
+  }
+}
+
+/**
+ * Normalize the scores of one result list (higher is better), in rank order
+ */
+function normalizeScores(scores: number[], fusion: FusionMethod, rrfK: number): number[] {
+  if (scores.length === 0) return [];
+
+  switch (fusion) {
+    case 'rrf':
+      return scores.map((_, i) => 1 / (rrfK + i + 1));
+    case 'minmax': {
+      const min = Math.min(...scores);
+      const max = Math.max(...scores);
+      return scores.map(score => (max === min ? 1 : (score - min) / (max - min)));
+    }
+    case 'zscore': {
+      const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+      const std = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length);
+      return scores.map(score => (std === 0 ? 0 : (score - mean) / std));
+    }
+    default: {
+      const max = Math.max(...scores, 0.001);
+      return scores.map(score => score / max);
+    }
+  }
 }
 
 /**
  * Combine BM25 and vector search results
+ *
+ * @param bm25Results - BM25 results, best first
+ * @param vectorResults - Vector results with their distance as score (lower is better), best first
  */
 export function hybridSearch(
   bm25Results: BM25Result[],
   vectorResults: Array<{ id: string; score: number; metadata?: Record<string, any> }>,
   config: HybridConfig = { alpha: 0.5 }
 ): HybridResult[] {
-  const { alpha } = config;
+  const { alpha, fusion = 'max', rrfK = DEFAULT_RRF_K, metric = 'l2' } = config;
   const resultMap = new Map<string, HybridResult>();
 
-  // Normalize BM25 scores
-  const maxBM25 = Math.max(...bm25Results.map(r => r.score), 0.001);
-  
+  const similarities = vectorResults.map(r => distanceToSimilarity(r.score, metric));
+  const bm25Scores = normalizeScores(bm25Results.map(r => r.score), fusion, rrfK);
+  let vectorScores = normalizeScores(similarities, fusion, rrfK);
+  if (fusion === 'max') {
+    // Distance relative to the worst hit
+    const maxVector = Math.max(...vectorResults.map(r => r.score), 0.001);
+    vectorScores = vectorResults.map(r => 1 - r.score / maxVector);
+  }
+
+  // A result missing from one list scores 0 there, or the lowest z-score of the list
+  const bm25Floor = Math.min(0, ...bm25Scores);
+  const vectorFloor = Math.min(0, ...vectorScores);
+
   // Add BM25 results
-  for (const result of bm25Results) {
-    const normalizedScore = result.score / maxBM25;
+  bm25Results.forEach((result, i) => {
     resultMap.set(result.id, {
       id: result.id,
-      bm25Score: normalizedScore,
-      vectorScore: 0,
-      combinedScore: (1 - alpha) * normalizedScore,
+      bm25Score: bm25Scores[i],
+      vectorScore: vectorFloor,
+      combinedScore: 0,
+      bm25: { rank: i + 1, score: result.score },
       matchedTerms: result.matchedTerms,
       metadata: result.metadata
     });
-  }
+  });
 
-  // Normalize and add vector results (assuming distance, lower is better)
-  const maxVector = Math.max(...vectorResults.map(r => r.score), 0.001);
-  
-  for (const result of vectorResults) {
-    // Convert distance to similarity (1 - normalized distance)
-    const normalizedScore = 1 - (result.score / maxVector);
-    
+  // Add vector results
+  vectorResults.forEach((result, i) => {
+    const vector = { rank: i + 1, distance: result.score, similarity: similarities[i] };
     const existing = resultMap.get(result.id);
     if (existing) {
-      existing.vectorScore = normalizedScore;
-      existing.combinedScore = (1 - alpha) * existing.bm25Score + alpha * normalizedScore;
+      existing.vectorScore = vectorScores[i];
+      existing.vector = vector;
       existing.metadata = existing.metadata || result.metadata;
     } else {
       resultMap.set(result.id, {
         id: result.id,
-        bm25Score: 0,
-        vectorScore: normalizedScore,
-        combinedScore: alpha * normalizedScore,
+        bm25Score: bm25Floor,
+        vectorScore: vectorScores[i],
+        combinedScore: 0,
+        vector,
         metadata: result.metadata
       });
     }
+  });
+
+  const results = Array.from(resultMap.values());
+  for (const result of results) {
+    result.combinedScore = (1 - alpha) * result.bm25Score + alpha * result.vectorScore;
   }
 
   // Sort by combined score
-  const results = Array.from(resultMap.values());
   results.sort((a, b) => b.combinedScore - a.combinedScore);
   
   return results;
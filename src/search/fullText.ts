@@ -0,0 +1,281 @@
+/**
+ * Full-text Search
+ *
+ * Keyword search on the SQLite FTS5 index of section titles and bodies,
+ * maintained by the indexer in the same transactions as the section rows.
+ * Supports phrases ("exact words"), prefixes (regulari*) and column weights.
+ *
+ * Sections are indexed as analyzed terms in the language of their document
+ * (see analyzers/), and queries are analyzed once per indexed language, so
+ * "indexing" finds "indexed" and "canción" finds "canciones".
+ *
+ * When SQLite has no FTS5, the in-memory BM25Index is used instead, rebuilt
+ * from the document store whenever the indexed sections change.
+ */
+
+import {
+  getVectorDb,
+  hasFullTextIndex,
+  searchFullText,
+  upsertSectionText,
+  getFullTextStats,
+  getFullTextLanguages,
+  filterNodeIds,
+  runInTransaction,
+  type SearchFilters
+} from '../db/vectorStore.js';
+import { getAllDocuments, documentCollection, type Document, type SectionNode } from '../db/documentStore.js';
+import { collectionLanguage } from '../db/collectionStore.js';
+import { contentToPlainText } from '../contentBlocks.js';
+import { analyzeTerms, getAnalyzer, foldDiacritics, expandSynonyms } from '../analyzers/index.js';
+import { config } from '../config.js';
+import { BM25Index, type BM25Result } from './bm25.js';
+
+/**
+ * BM25 weight of each column: title matches count more than body matches
+ */
+export interface FullTextWeights {
+  title: number;
+  body: number;
+}
+
+export const DEFAULT_FULL_TEXT_WEIGHTS: FullTextWeights = { title: 3, body: 1 };
+
+/**
+ * A term of a keyword query: a word, a word prefix or a phrase
+ */
+export interface QueryTerm {
+  words: string[];
+  phrase: boolean;
+  prefix: boolean;
+}
+
+/**
+ * Language of a document's text: its "language" metadata, else its collection's language,
+ * else SEARCH_LANGUAGE
+ */
+export function documentLanguage(doc: Document): string {
+  const language = doc.metadata?.language ?? doc.metadata?.lang;
+  if (typeof language === 'string' && language.trim()) {
+    return getAnalyzer(language).name;
+  }
+  return getAnalyzer(collectionLanguage(documentCollection(doc)) ?? config.search.language).name;
+}
+
+/**
+ * Analyzed title and body terms of a section, as stored in the full-text index.
+ * The body is the plain text of the content (no markdown table pipes, list
+ * markers or fences).
+ */
+export function sectionTextTerms(node: SectionNode, language: string): { title: string; body: string } {
+  return {
+    title: analyzeTerms(node.title, language).join(' '),
+    body: analyzeTerms(contentToPlainText(node.content), language).join(' ')
+  };
+}
+
+/**
+ * Replace the full-text entry of a section with its analyzed title and content
+ */
+export function writeSectionText(node: SectionNode, language: string): void {
+  const { title, body } = sectionTextTerms(node, language);
+  upsertSectionText(node.id, language, title, body);
+}
+
+// Lowercase words of a query, accents kept for the analyzers
+function queryWords(text: string): string[] {
+  return text.normalize('NFC').toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Parse a keyword query: quoted phrases, words ending in "*" (prefixes) and words.
+ * Stopwords are dropped when the terms are analyzed for a language.
+ */
+export function parseKeywordQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const prefix = match[2]?.endsWith('*') ?? false;
+    const words = queryWords(match[1] ?? match[2]);
+    if (words.length > 0) {
+      // "e-mail" is the phrase "e mail"
+      terms.push({ words, phrase: words.length > 1, prefix });
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Analyzed forms of a query term in a language: the term itself, then its synonyms.
+ * Prefixes are stemmed but keep their stopwords and short words; an empty list means
+ * the term has only stopwords.
+ */
+function analyzeQueryTerm(term: QueryTerm, language: string): string[][] {
+  if (term.prefix && !term.phrase) {
+    return [[foldDiacritics(getAnalyzer(language).stem(term.words[0]))]];
+  }
+
+  const terms = analyzeTerms(term.words.join(' '), language);
+  if (terms.length === 0) return [];
+  return term.prefix ? [terms] : [terms, ...expandSynonyms(terms, language)];
+}
+
+/**
+ * FTS5 query matching any of the terms (BM25 ranks the sections matching more of them first),
+ * with the terms analyzed in each language against the sections of that language
+ */
+export function toFtsQuery(terms: QueryTerm[], languages: string[]): string {
+  const clauses: string[] = [];
+
+  for (const language of languages) {
+    const alternatives = terms.flatMap(term => analyzeQueryTerm(term, language)
+      .map(words => `"${words.join(' ')}"${term.prefix ? '*' : ''}`));
+    if (alternatives.length > 0) {
+      clauses.push(`(language : "${language}" AND {title body} : (${alternatives.join(' OR ')}))`);
+    }
+  }
+
+  return clauses.join(' OR ');
+}
+
+function describeTerm(term: QueryTerm): string {
+  const text = term.words.join(' ');
+  return `${term.phrase ? `"${text}"` : text}${term.prefix ? '*' : ''}`;
+}
+
+/**
+ * Terms of the query found in the analyzed terms of a section
+ */
+function matchedTerms(terms: QueryTerm[], language: string, analyzed: string): string[] {
+  const words = analyzed.split(' ');
+  const joined = ` ${analyzed} `;
+
+  return terms
+    .filter(term => analyzeQueryTerm(term, language).some(alternative => {
+      const expected = alternative.join(' ');
+      if (!term.prefix) return joined.includes(` ${expected} `);
+      return term.phrase ? joined.includes(` ${expected}`) : words.some(word => word.startsWith(expected));
+    }))
+    .map(describeTerm);
+}
+
+/**
+ * Search sections by keywords, ranked with BM25
+ *
+ * @param query - Words, "quoted phrases" and prefix* terms (any of them may match)
+ * @param limit - Maximum number of results
+ * @param filters - Same filters as the vector search, applied before the limit
+ * @param weights - BM25 weight of the title and body columns
+ */
+export async function keywordSearch(
+  query: string,
+  limit: number = 10,
+  filters: SearchFilters = {},
+  weights: FullTextWeights = DEFAULT_FULL_TEXT_WEIGHTS
+): Promise<BM25Result[]> {
+  if (!hasFullTextIndex()) {
+    const index = await getFallbackIndex();
+    return index.search(query, limit, ids => filterNodeIds(ids, filters));
+  }
+
+  await backfillFullTextIndex();
+
+  const terms = parseKeywordQuery(query);
+  const match = toFtsQuery(terms, getFullTextLanguages());
+  if (!match) return [];
+
+  return searchFullText(match, limit, filters, weights).map(hit => ({
+    id: hit.node_id,
+    score: hit.score,
+    matchedTerms: matchedTerms(terms, hit.language, hit.terms),
+    metadata: { docId: hit.doc_id, title: hit.title }
+  }));
+}
+
+function flattenSections(root: SectionNode): SectionNode[] {
+  return [root, ...root.children.flatMap(flattenSections)];
+}
+
+// Database connections whose missing full-text entries were already written
+const backfilled = new WeakSet<object>();
+
+/**
+ * Write the missing full-text entries of indexed sections (databases indexed
+ * before the full-text index existed). Runs once per database connection:
+ * at server startup, or before the first keyword search.
+ * @returns number of entries written
+ */
+export async function backfillFullTextIndex(): Promise<number> {
+  const db = getVectorDb();
+  if (backfilled.has(db) || !hasFullTextIndex()) return 0;
+
+  const stats = getFullTextStats();
+  if (stats.indexed >= stats.sections) {
+    backfilled.add(db);
+    return 0;
+  }
+
+  const missing = new Set(db.prepare(`
+    SELECT node_id FROM sections WHERE node_id NOT IN (SELECT node_id FROM sections_fts)
+  `).pluck().all() as string[]);
+
+  const sections = (await getAllDocuments())
+    .flatMap(doc => flattenSections(doc.root).map(node => ({ node, language: documentLanguage(doc) })))
+    .filter(({ node }) => missing.has(node.id));
+
+  runInTransaction(() => {
+    for (const { node, language } of sections) {
+      writeSectionText(node, language);
+    }
+  });
+
+  backfilled.add(db);
+  return sections.length;
+}
+
+let fallbackIndex: BM25Index | null = null;
+let fallbackVersion: string | null = null;
+
+/**
+ * In-memory BM25 index of every indexed section, rebuilt when sections changed
+ */
+async function getFallbackIndex(): Promise<BM25Index> {
+  const version = JSON.stringify(
+    getVectorDb().prepare('SELECT COUNT(*) AS count, MAX(updated_at) AS updated FROM sections').get()
+  );
+  if (fallbackIndex && fallbackVersion === version) {
+    return fallbackIndex;
+  }
+
+  const indexed = new Set(getVectorDb().prepare('SELECT node_id FROM sections').pluck().all() as string[]);
+  const index = new BM25Index();
+  for (const doc of await getAllDocuments()) {
+    index.addDocuments(flattenSections(doc.root)
+      .filter(node => indexed.has(node.id))
+      .map(node => ({
+        id: node.id,
+        text: `${node.title}\n${contentToPlainText(node.content)}`,
+        language: documentLanguage(doc),
+        metadata: { docId: doc.docId, title: node.title }
+      })));
+  }
+
+  fallbackIndex = index;
+  fallbackVersion = version;
+  return index;
+}
+
+/**
+ * Backend and size of the keyword index
+ */
+export function getKeywordSearchStats(): { backend: 'fts5' | 'memory'; sections: number; indexed: number } {
+  if (hasFullTextIndex()) {
+    return { backend: 'fts5', ...getFullTextStats() };
+  }
+  return {
+    backend: 'memory',
+    sections: getFullTextStats().sections,
+    indexed: fallbackIndex?.getStats().documentCount ?? 0
+  };
+}
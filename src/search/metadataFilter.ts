@@ -0,0 +1,142 @@
+/**
+ * Metadata Filters
+ *
+ * Filters over document metadata (YAML front matter), e.g. `tags contains "billing"`.
+ * Filters are compiled to SQL over the JSON `metadata` column of `sections`.
+ */
+
+import YAML from 'yaml';
+
+export type MetadataOperator = 'eq' | 'neq' | 'contains' | 'in' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists';
+
+export type MetadataValue = string | number | boolean;
+
+export interface MetadataFilter {
+  field: string;                              // Front matter key, dots for nesting (e.g. "owner.team")
+  op: MetadataOperator;
+  value?: MetadataValue | MetadataValue[];    // Not used by "exists"
+}
+
+// Operator spellings accepted in string expressions
+const OPERATOR_ALIASES: Record<string, MetadataOperator> = {
+  '=': 'eq',
+  '==': 'eq',
+  '!=': 'neq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  'contains': 'contains',
+  'in': 'in',
+  'exists': 'exists'
+};
+
+const FIELD_PATTERN = /^[A-Za-z_][\w-]*(\.[A-Za-z_][\w-]*)*$/;
+const EXPRESSION_PATTERN = /^\s*([A-Za-z_][\w.-]*)\s+(contains|in|exists|==|=|!=|>=|<=|>|<)(?:\s+(.*))?\s*$/;
+
+/**
+ * Parse a filter expression such as `tags contains "billing"` or `audience in [internal, partners]`.
+ * Values are read as YAML scalars/sequences, so quotes are optional for simple words.
+ */
+export function parseMetadataFilter(expression: string): MetadataFilter {
+  const match = expression.match(EXPRESSION_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid metadata filter: "${expression}". Expected "<field> <operator> <value>"`);
+  }
+
+  const [, field, operator, rawValue] = match;
+  const op = OPERATOR_ALIASES[operator];
+
+  if (op === 'exists') {
+    return { field, op };
+  }
+
+  if (rawValue === undefined || rawValue.trim() === '') {
+    throw new Error(`Invalid metadata filter: "${expression}". Missing value`);
+  }
+
+  return validateMetadataFilter({ field, op, value: YAML.parse(rawValue) });
+}
+
+/**
+ * Validate a filter object (field name, operator/value shape)
+ */
+export function validateMetadataFilter(filter: MetadataFilter): MetadataFilter {
+  if (!FIELD_PATTERN.test(filter.field)) {
+    throw new Error(`Invalid metadata field: "${filter.field}"`);
+  }
+
+  if (filter.op === 'exists') {
+    return filter;
+  }
+
+  if (filter.op === 'in') {
+    if (!Array.isArray(filter.value)) {
+      throw new Error(`Metadata filter "${filter.field} in" requires a list value`);
+    }
+  } else if (filter.value === undefined || filter.value === null || Array.isArray(filter.value) || typeof filter.value === 'object') {
+    throw new Error(`Metadata filter "${filter.field} ${filter.op}" requires a single value`);
+  }
+
+  return filter;
+}
+
+/**
+ * Convert a value for binding in SQLite (JSON booleans are stored as 1/0)
+ */
+function toSqlValue(value: MetadataValue): string | number {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+/**
+ * Compile metadata filters to a SQL condition over a JSON column.
+ * Returns an empty clause when there are no filters.
+ *
+ * @param filters - Filters to compile (all must match)
+ * @param column - Qualified JSON column, e.g. "s.metadata"
+ */
+export function buildMetadataClause(
+  filters: MetadataFilter[],
+  column: string
+): { clause: string; params: Array<string | number> } {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+
+  for (const filter of filters) {
+    validateMetadataFilter(filter);
+    const path = `$.${filter.field}`;
+    const extract = `json_extract(${column}, ?)`;
+
+    switch (filter.op) {
+      case 'exists':
+        conditions.push(`json_type(${column}, ?) IS NOT NULL`);
+        params.push(path);
+        break;
+      case 'contains':
+        // Arrays: any element equals the value. Scalars: json_each yields the scalar itself.
+        conditions.push(`EXISTS (SELECT 1 FROM json_each(${column}, ?) WHERE value = ?)`);
+        params.push(path, toSqlValue(filter.value as MetadataValue));
+        break;
+      case 'in': {
+        const values = filter.value as MetadataValue[];
+        if (values.length === 0) {
+          conditions.push('0');
+          break;
+        }
+        conditions.push(`${extract} IN (${values.map(() => '?').join(', ')})`);
+        params.push(path, ...values.map(toSqlValue));
+        break;
+      }
+      default: {
+        const sqlOperator = { eq: '=', neq: '!=', gt: '>', gte: '>=', lt: '<', lte: '<=' }[filter.op];
+        conditions.push(`${extract} ${sqlOperator} ?`);
+        params.push(path, toSqlValue(filter.value as MetadataValue));
+      }
+    }
+  }
+
+  return {
+    clause: conditions.join(' AND '),
+    params
+  };
+}
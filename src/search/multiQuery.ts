@@ -0,0 +1,101 @@
+/**
+ * Multi-query Retrieval
+ *
+ * Searches every variant of an expanded query with the vector index (and
+ * BM25), then fuses the result lists with reciprocal rank fusion: a section
+ * scores sum(1 / (rrfK + rank)) over the lists it appears in. The report of
+ * each variant says how many of the fused seeds it found and its share of
+ * their fused score.
+ */
+
+import { searchKnn, type SearchFilters, type SearchResult } from '../db/vectorStore.js';
+import { embedBatch } from '../embeddings/index.js';
+import { keywordSearch } from './fullText.js';
+import { DEFAULT_RRF_K } from './bm25.js';
+import type { QueryVariant } from '../generation/queryExpansion.js';
+
+export interface MultiQueryOptions {
+  keyword?: boolean;         // Also search every variant with BM25 (default: true)
+  rrfK?: number;             // RRF rank constant (default: 60)
+}
+
+export interface VariantContribution extends QueryVariant {
+  vectorHits: number;
+  keywordHits: number;
+  seeds: number;             // Fused seeds this variant found
+  unique: number;            // Fused seeds only this variant found
+  contribution: number;      // Share of the fused score of the seeds (0-1)
+}
+
+export interface MultiQueryResult {
+  // Fused seeds, best first. Distance: the best vector distance of the section
+  // over all variants; sections only found by BM25 get the worst distance seen
+  seeds: SearchResult[];
+  variants: VariantContribution[];
+}
+
+/**
+ * Search the variants of a query and fuse the results into k seeds
+ */
+export async function multiQuerySearch(
+  variants: QueryVariant[],
+  k: number,
+  filters: SearchFilters = {},
+  options: MultiQueryOptions = {}
+): Promise<MultiQueryResult> {
+  const rrfK = options.rrfK ?? DEFAULT_RRF_K;
+  const embeddings = await embedBatch(variants.map(v => v.text));
+
+  const fused = new Map<string, { docId: string; score: number; byVariant: Map<number, number> }>();
+  const distances = new Map<string, number>();
+  const hits = variants.map(() => ({ vector: 0, keyword: 0 }));
+
+  const add = (variant: number, nodeId: string, docId: string, rank: number) => {
+    const entry = fused.get(nodeId) ?? { docId, score: 0, byVariant: new Map<number, number>() };
+    const score = 1 / (rrfK + rank);
+    entry.score += score;
+    entry.byVariant.set(variant, (entry.byVariant.get(variant) ?? 0) + score);
+    fused.set(nodeId, entry);
+  };
+
+  for (let i = 0; i < variants.length; i++) {
+    const vectorResults = searchKnn(embeddings[i], k, filters);
+    hits[i].vector = vectorResults.length;
+    vectorResults.forEach((r, rank) => {
+      add(i, r.node_id, r.doc_id, rank + 1);
+      distances.set(r.node_id, Math.min(distances.get(r.node_id) ?? Infinity, r.distance));
+    });
+
+    if (options.keyword !== false) {
+      const keywordResults = await keywordSearch(variants[i].text, k, filters);
+      hits[i].keyword = keywordResults.length;
+      keywordResults.forEach((r, rank) => add(i, r.id, r.metadata?.docId, rank + 1));
+    }
+  }
+
+  const worstDistance = distances.size > 0 ? Math.max(...distances.values()) : 1;
+  const ranked = Array.from(fused.entries())
+    .sort((a, b) => b[1].score - a[1].score)
+    .slice(0, k);
+  const total = ranked.reduce((sum, [, entry]) => sum + entry.score, 0);
+
+  return {
+    seeds: ranked.map(([nodeId, entry]) => ({
+      node_id: nodeId,
+      doc_id: entry.docId,
+      distance: distances.get(nodeId) ?? worstDistance
+    })),
+    variants: variants.map((variant, i) => {
+      const found = ranked.filter(([, entry]) => entry.byVariant.has(i));
+      const score = found.reduce((sum, [, entry]) => sum + entry.byVariant.get(i)!, 0);
+      return {
+        ...variant,
+        vectorHits: hits[i].vector,
+        keywordHits: hits[i].keyword,
+        seeds: found.length,
+        unique: found.filter(([, entry]) => entry.byVariant.size === 1).length,
+        contribution: total > 0 ? score / total : 0
+      };
+    })
+  };
+}
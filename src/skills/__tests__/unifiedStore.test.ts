@@ -19,8 +19,10 @@ import {
   getEdgesFrom,
   getEdgesTo,
   deleteEdge,
-  getGraphStats
+  getGraphStats,
+  getVectorDimensions
 } from '../store/unifiedStore.js';
+import { config } from '../../config.js';
 
 describe('UnifiedStore', () => {
   beforeEach(() => {
@@ -286,6 +288,60 @@ describe('UnifiedStore', () => {
       }
     });
 
+    it('should filter by a list of categories', async () => {
+      for (const tool of mockTools) {
+        upsertTool(tool, await mockEmbed(tool.name));
+      }
+
+      const categories = [...new Set(mockTools.map(t => t.category))].slice(0, 2);
+      const results = searchEntities(mockEmbedRandom(), 10, { category: categories });
+
+      expect(results.length).toBe(mockTools.filter(t => categories.includes(t.category)).length);
+      for (const result of results) {
+        expect(categories).toContain(getTool(result.entityId)?.category);
+      }
+    });
+
+    it('should find selective filter matches outside the first neighbours', async () => {
+      const exactScanMaxRows = config.knn.exactScanMaxRows;
+      const query = await mockEmbed('common tool 0');
+
+      for (let i = 0; i < 60; i++) {
+        upsertTool({ ...mockTools[0], id: `common_${i}`, name: `common tool ${i}`, category: 'common' }, await mockEmbed(`common tool ${i}`));
+      }
+      upsertTool({ ...mockTools[0], id: 'rare_tool', name: 'rare tool', category: 'rare' }, mockEmbedRandom());
+
+      try {
+        // Exact scan of the matching entities
+        expect(searchEntities(query, 3, { category: 'rare' }).map(r => r.entityId)).toEqual(['rare_tool']);
+
+        // Vector index, widened until the filter matches
+        config.knn.exactScanMaxRows = 0;
+        expect(searchEntities(query, 3, { category: 'rare' }).map(r => r.entityId)).toEqual(['rare_tool']);
+        expect(searchEntities(query, 3, { category: 'common' })).toHaveLength(3);
+      } finally {
+        config.knn.exactScanMaxRows = exactScanMaxRows;
+      }
+    });
+
+    it('should fall back to an exact scan when the index runs out of neighbours', async () => {
+      const exactScanMaxRows = config.knn.exactScanMaxRows;
+      const query = await mockEmbed('common tool');
+
+      // More entities than the index returns, all closer to the query than the rare one
+      for (let i = 0; i < 4100; i++) {
+        upsertTool({ ...mockTools[0], id: `common_${i}`, name: `common tool ${i}`, category: 'common' }, query.map(v => v + (i % 7) * 0.001));
+      }
+      upsertTool({ ...mockTools[0], id: 'rare_tool', name: 'rare tool', category: 'rare' }, query.map(v => -v));
+
+      try {
+        config.knn.exactScanMaxRows = 0;
+        expect(searchEntities(query, 3, { category: 'rare' }).map(r => r.entityId)).toEqual(['rare_tool']);
+      } finally {
+        config.knn.exactScanMaxRows = exactScanMaxRows;
+      }
+    });
+
     it('should return top-k results', async () => {
       // Register 5 tools
       for (let i = 0; i < 5; i++) {
@@ -317,6 +373,42 @@ describe('UnifiedStore', () => {
         expect(results[i].distance).toBeGreaterThanOrEqual(results[i - 1].distance);
       }
     });
+
+    it('should store vectors at their real dimension', async () => {
+      expect(getVectorDimensions()).toBeUndefined();
+      expect(searchEntities(mockEmbedRandom(), 5)).toEqual([]);
+
+      upsertTool(mockTools[0], await mockEmbed(mockTools[0].name));
+
+      expect(getVectorDimensions()).toBe(768);
+    });
+
+    it('should reject vectors of another dimension', async () => {
+      upsertTool(mockTools[0], await mockEmbed(mockTools[0].name));
+      const short = (await mockEmbed(mockTools[1].name)).slice(0, 384);
+
+      expect(() => upsertTool(mockTools[1], short)).toThrow(/384-dimensional vector: the skill bank holds 768-dimensional vectors/);
+      expect(() => searchEntities(short, 5)).toThrow(/Cannot search with a 384-dimensional vector/);
+    });
+
+    it('should rank quantized candidates by exact distance', async () => {
+      for (const tool of mockTools) {
+        upsertTool(tool, await mockEmbed(tool.name));
+      }
+      const queryEmbedding = await mockEmbed(mockTools[2].name);
+      const exact = searchEntities(queryEmbedding, 3);
+
+      for (const mode of ['int8', 'binary'] as const) {
+        config.quantization.mode = mode;
+        try {
+          const results = searchEntities(queryEmbedding, 3);
+          expect(results.map(r => r.entityId)).toEqual(exact.map(r => r.entityId));
+          results.forEach((r, i) => expect(r.distance).toBeCloseTo(exact[i].distance, 5));
+        } finally {
+          config.quantization.mode = 'float32';
+        }
+      }
+    });
   });
 
   // ============================================================================
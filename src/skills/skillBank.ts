@@ -51,7 +51,7 @@ export class SkillBank {
       filters.type = mode === 'tools' ? 'tool' : 'skill';
     }
     if (categories && categories.length > 0) {
-      filters.category = categories[0]; // Por ahora solo soportamos una categoria
+      filters.category = categories;
     }
 
     const vectorResults = searchEntities(queryEmbedding, k, filters);
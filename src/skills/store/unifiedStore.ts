@@ -17,10 +17,18 @@ import {
   VectorSearchResult,
   SearchFilters
 } from '../types.js';
+import { config } from '../../config.js';
+import type { QuantizationMode } from '../../embeddings/quantization.js';
+
+// Maximo de vecinos que sqlite-vec devuelve en una consulta KNN
+const MAX_KNN_K = 4096;
 
 let DB_PATH = 'skillbank.db';
 let dbInstance: Database.Database | null = null;
 
+// Modo de cuantizacion para el que se preparo la copia cuantizada de vec_entities
+let preparedQuantization: QuantizationMode | null = null;
+
 /**
  * Configurar path de BD (para testing)
  */
@@ -39,6 +47,7 @@ export function closeDb() {
     dbInstance.close();
     dbInstance = null;
   }
+  preparedQuantization = null;
 }
 
 /**
@@ -67,10 +76,11 @@ export function getDb(): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(type);
     CREATE INDEX IF NOT EXISTS idx_entities_category ON entities(category);
 
-    -- Vector embeddings
-    CREATE VIRTUAL TABLE IF NOT EXISTS vec_entities USING vec0(
-      entity_id TEXT PRIMARY KEY,
-      embedding FLOAT[2048]
+    -- Dimension real de los embeddings (vec_entities se crea con el primer vector)
+    CREATE TABLE IF NOT EXISTS vector_space (
+      id         INTEGER PRIMARY KEY CHECK (id = 1),
+      dimensions INTEGER NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
     );
 
     -- Grafo de relaciones
@@ -101,17 +111,128 @@ function hashEntity(entity: Tool | Skill): string {
 }
 
 /**
- * Padding de embeddings
+ * Dimension de los embeddings guardados (undefined si aun no hay ninguno)
+ */
+export function getVectorDimensions(): number | undefined {
+  const db = getDb();
+  const row = db.prepare('SELECT dimensions FROM vector_space WHERE id = 1').get() as { dimensions: number } | undefined;
+  return row?.dimensions;
+}
+
+function hasVectorTable(db: Database.Database): boolean {
+  return db.prepare(`SELECT 1 FROM sqlite_master WHERE name = 'vec_entities'`).get() !== undefined;
+}
+
+/**
+ * Crear vec_entities con la dimension del primer vector y rechazar vectores de otra dimension.
+ * Las BDs anteriores guardaban los vectores con padding a FLOAT[2048]:
+ * se copian recortados a la dimension real.
+ */
+function ensureVectorTable(db: Database.Database, dimensions: number, action: 'store' | 'search with'): void {
+  const current = getVectorDimensions();
+  if (current !== undefined) {
+    if (current !== dimensions) {
+      throw new Error(
+        `Cannot ${action} a ${dimensions}-dimensional vector: the skill bank holds ${current}-dimensional vectors`
+      );
+    }
+    return;
+  }
+
+  const transaction = db.transaction(() => {
+    const padded = hasVectorTable(db)
+      ? db.prepare('SELECT entity_id, embedding FROM vec_entities').all() as Array<{ entity_id: string; embedding: Buffer }>
+      : [];
+    db.exec('DROP TABLE IF EXISTS vec_entities');
+
+    db.exec(`
+      CREATE VIRTUAL TABLE vec_entities USING vec0(
+        entity_id TEXT PRIMARY KEY,
+        embedding FLOAT[${dimensions}]
+      )
+    `);
+    db.prepare('INSERT INTO vector_space (id, dimensions) VALUES (1, ?)').run(dimensions);
+
+    const insertVec = db.prepare('INSERT INTO vec_entities(entity_id, embedding) VALUES (?, ?)');
+    for (const row of padded) {
+      const vector = new Float32Array(row.embedding.buffer, row.embedding.byteOffset, row.embedding.byteLength / 4);
+      insertVec.run(row.entity_id, Buffer.from(vector.slice(0, dimensions).buffer));
+    }
+  });
+
+  transaction();
+}
+
+function quantizedTableName(mode: Exclude<QuantizationMode, 'float32'>): string {
+  return mode === 'int8' ? 'vec_entities_int8' : 'vec_entities_bit';
+}
+
+function quantizeSql(mode: Exclude<QuantizationMode, 'float32'>, value = '?'): string {
+  return mode === 'int8' ? `vec_quantize_int8(${value}, 'unit')` : `vec_quantize_binary(${value})`;
+}
+
+/**
+ * Preparar la copia cuantizada de vec_entities para el modo configurado:
+ * se crea (rellena desde los vectores float32) y se eliminan las de otros modos.
+ * Devuelve el modo activo, o null sin cuantizacion.
  */
-function padEmbedding(embedding: number[], targetDims: number): number[] {
-  if (embedding.length >= targetDims) {
-    return embedding.slice(0, targetDims);
+function prepareQuantizedTable(db: Database.Database): Exclude<QuantizationMode, 'float32'> | null {
+  const mode = config.quantization.mode;
+
+  if (preparedQuantization !== mode) {
+    const transaction = db.transaction(() => {
+      for (const other of ['int8', 'binary'] as const) {
+        if (other !== mode) db.exec(`DROP TABLE IF EXISTS ${quantizedTableName(other)}`);
+      }
+
+      if (mode === 'float32') return;
+
+      const dimensions = getVectorDimensions()!;
+      if (mode === 'binary' && dimensions % 8 !== 0) {
+        throw new Error(`Binary quantization needs dimensions divisible by 8 (the skill bank has ${dimensions})`);
+      }
+
+      const table = quantizedTableName(mode);
+      if (!db.prepare('SELECT 1 FROM sqlite_master WHERE name = ?').get(table)) {
+        db.exec(`
+          CREATE VIRTUAL TABLE ${table} USING vec0(
+            entity_id TEXT PRIMARY KEY,
+            embedding ${mode === 'int8' ? 'INT8' : 'BIT'}[${dimensions}]
+          );
+          INSERT INTO ${table}(entity_id, embedding)
+          SELECT entity_id, ${quantizeSql(mode, 'embedding')} FROM vec_entities;
+        `);
+      }
+    });
+
+    transaction();
+    preparedQuantization = mode;
   }
-  const padded = new Array(targetDims).fill(0);
-  for (let i = 0; i < embedding.length; i++) {
-    padded[i] = embedding[i];
+
+  return mode === 'float32' ? null : mode;
+}
+
+/**
+ * Reemplazar el embedding de una entidad (la dimension ya fue validada)
+ */
+function replaceEmbedding(db: Database.Database, id: string, embedding: number[]): void {
+  const buffer = Buffer.from(new Float32Array(embedding).buffer);
+
+  // Antes de escribir: una copia cuantizada nueva se rellena con los vectores ya guardados
+  const mode = prepareQuantizedTable(db);
+
+  // vec_entities no soporta REPLACE, necesitamos DELETE + INSERT
+  db.prepare('DELETE FROM vec_entities WHERE entity_id = ?').run(id);
+  db.prepare(`
+    INSERT INTO vec_entities(entity_id, embedding)
+    VALUES (?, ?)
+  `).run(id, buffer);
+
+  // Copia cuantizada para la busqueda de candidatos
+  if (mode) {
+    db.prepare(`DELETE FROM ${quantizedTableName(mode)} WHERE entity_id = ?`).run(id);
+    db.prepare(`INSERT INTO ${quantizedTableName(mode)}(entity_id, embedding) VALUES (?, ${quantizeSql(mode)})`).run(id, buffer);
   }
-  return padded;
 }
 
 // ============================================================================
@@ -125,6 +246,9 @@ export function upsertTool(tool: Tool, embedding: number[]): void {
   const db = getDb();
   const hash = hashEntity(tool);
 
+  // Validar la dimension antes de escribir la entidad
+  ensureVectorTable(db, embedding.length, 'store');
+
   const stmt = db.prepare(`
     INSERT OR REPLACE INTO entities (id, type, name, category, data, hash, updated_at)
     VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
@@ -139,19 +263,8 @@ export function upsertTool(tool: Tool, embedding: number[]): void {
     hash
   );
 
-  // Insertar embedding (vec_entities no soporta REPLACE, necesitamos DELETE + INSERT)
-  const paddedEmbedding = padEmbedding(embedding, 2048);
-  const buffer = Buffer.from(new Float32Array(paddedEmbedding).buffer);
-
-  // Eliminar embedding previo si existe
-  db.prepare('DELETE FROM vec_entities WHERE entity_id = ?').run(tool.id);
-  
-  // Insertar nuevo embedding
-  const vecStmt = db.prepare(`
-    INSERT INTO vec_entities(entity_id, embedding)
-    VALUES (?, ?)
-  `);
-  vecStmt.run(tool.id, buffer);
+  // Insertar embedding
+  replaceEmbedding(db, tool.id, embedding);
 
   // Crear edge ENABLES automaticamente (tool enables cualquier skill que la use)
   // Esto se manejara cuando se registre la skill
@@ -164,6 +277,9 @@ export function upsertSkill(skill: Skill, embedding: number[]): void {
   const db = getDb();
   const hash = hashEntity(skill);
 
+  // Validar la dimension antes de escribir la entidad
+  ensureVectorTable(db, embedding.length, 'store');
+
   const stmt = db.prepare(`
     INSERT OR REPLACE INTO entities (id, type, name, category, data, hash, updated_at)
     VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
@@ -178,19 +294,8 @@ export function upsertSkill(skill: Skill, embedding: number[]): void {
     hash
   );
 
-  // Insertar embedding (vec_entities no soporta REPLACE, necesitamos DELETE + INSERT)
-  const paddedEmbedding = padEmbedding(embedding, 2048);
-  const buffer = Buffer.from(new Float32Array(paddedEmbedding).buffer);
-
-  // Eliminar embedding previo si existe
-  db.prepare('DELETE FROM vec_entities WHERE entity_id = ?').run(skill.id);
-  
-  // Insertar nuevo embedding
-  const vecStmt = db.prepare(`
-    INSERT INTO vec_entities(entity_id, embedding)
-    VALUES (?, ?)
-  `);
-  vecStmt.run(skill.id, buffer);
+  // Insertar embedding
+  replaceEmbedding(db, skill.id, embedding);
 
   // Crear edges automaticos: SKILL USES TOOL
   for (const toolId of skill.usesTools) {
@@ -283,7 +388,14 @@ export function deleteEntity(id: string): void {
   
   const transaction = db.transaction(() => {
     db.prepare('DELETE FROM entities WHERE id = ?').run(id);
-    db.prepare('DELETE FROM vec_entities WHERE entity_id = ?').run(id);
+    if (hasVectorTable(db)) {
+      db.prepare('DELETE FROM vec_entities WHERE entity_id = ?').run(id);
+
+      const mode = getVectorDimensions() !== undefined ? prepareQuantizedTable(db) : null;
+      if (mode) {
+        db.prepare(`DELETE FROM ${quantizedTableName(mode)} WHERE entity_id = ?`).run(id);
+      }
+    }
     db.prepare('DELETE FROM entity_edges WHERE from_id = ? OR to_id = ?').run(id, id);
   });
 
@@ -304,53 +416,117 @@ export function searchEntities(
 ): VectorSearchResult[] {
   const db = getDb();
 
-  const paddedEmbedding = padEmbedding(queryEmbedding, 2048);
-  const buffer = Buffer.from(new Float32Array(paddedEmbedding).buffer);
+  // Sin vectores guardados no hay nada que buscar
+  if (getVectorDimensions() === undefined && !hasVectorTable(db)) {
+    return [];
+  }
+  ensureVectorTable(db, queryEmbedding.length, 'search with');
+
+  const buffer = Buffer.from(new Float32Array(queryEmbedding).buffer);
+  const mode = prepareQuantizedTable(db);
+
+  let filterSql = '';
+  const filterParams: any[] = [];
+
+  // Valor unico o lista de valores
+  for (const [column, value] of [['e.type', filters.type], ['e.category', filters.category]] as const) {
+    if (!value) continue;
+    if (Array.isArray(value)) {
+      filterSql += ` AND ${column} IN (SELECT value FROM json_each(?))`;
+      filterParams.push(JSON.stringify(value));
+    } else {
+      filterSql += ` AND ${column} = ?`;
+      filterParams.push(value);
+    }
+  }
+
+  // Filtro por tags (buscar en el JSON data)
+  if (filters.tags && filters.tags.length > 0) {
+    for (const tag of filters.tags) {
+      filterSql += ` AND e.data LIKE ?`;
+      filterParams.push(`%"${tag}"%`);
+    }
+  }
 
-  const overFetchK = k * 10;
+  // Filtro por skills que usan una tool especifica
+  if (filters.usesTool) {
+    filterSql += ` AND e.type = 'skill' AND e.data LIKE ?`;
+    filterParams.push(`%"${filters.usesTool}"%`);
+  }
+
+  // Filtros selectivos: distancia exacta de cada entidad que cumple los filtros, sin el indice
+  const matching = filterSql
+    ? db.prepare(`SELECT COUNT(*) FROM entities e WHERE 1 = 1${filterSql}`).pluck().get(...filterParams) as number
+    : Infinity;
+  const total = db.prepare('SELECT COUNT(*) FROM entities').pluck().get() as number;
+
+  if (matching <= config.knn.exactScanMaxRows) {
+    return exactHits(db, buffer, k, filterSql, filterParams);
+  }
 
-  let query = `
+  // Con cuantizacion: candidatos por distancia cuantizada, luego distancia exacta float32
+  const limit = mode ? k * config.quantization.rescoreFactor : k;
+
+  const query = `
     SELECT
       v.entity_id,
       e.type,
       v.distance
-    FROM vec_entities v
+    FROM ${mode ? quantizedTableName(mode) : 'vec_entities'} v
     JOIN entities e ON e.id = v.entity_id
-    WHERE v.embedding MATCH ?
-      AND k = ?
+    WHERE v.embedding MATCH ${mode ? quantizeSql(mode) : '?'}
+      AND k = ?${filterSql}
+    ORDER BY v.distance LIMIT ?
   `;
+  const stmt = db.prepare(query);
 
-  const params: any[] = [buffer, overFetchK];
-
-  if (filters.type) {
-    query += ` AND e.type = ?`;
-    params.push(filters.type);
+  // Sobre-pedir vecinos para compensar los filtros, ampliando hasta tener k resultados
+  // o haber recorrido todos los vectores
+  let knnK = Math.min(Math.max(k * 10, limit), MAX_KNN_K);
+  let results = stmt.all(buffer, knnK, ...filterParams, limit) as any[];
+  while (filterSql && results.length < limit && knnK < Math.min(total, MAX_KNN_K)) {
+    knnK = Math.min(knnK * 4, MAX_KNN_K);
+    results = stmt.all(buffer, knnK, ...filterParams, limit) as any[];
   }
 
-  if (filters.category) {
-    query += ` AND e.category = ?`;
-    params.push(filters.category);
+  // El indice no devuelve mas vecinos: distancia exacta de las entidades que cumplen los filtros
+  if (filterSql && results.length < k && knnK < total) {
+    return exactHits(db, buffer, k, filterSql, filterParams);
   }
 
-  // Filtro por tags (buscar en el JSON data)
-  if (filters.tags && filters.tags.length > 0) {
-    for (const tag of filters.tags) {
-      query += ` AND e.data LIKE ?`;
-      params.push(`%"${tag}"%`);
-    }
-  }
-
-  // Filtro por skills que usan una tool especifica
-  if (filters.usesTool) {
-    query += ` AND e.type = 'skill' AND e.data LIKE ?`;
-    params.push(`%"${filters.usesTool}"%`);
+  if (mode) {
+    const exactDistance = db.prepare('SELECT vec_distance_l2(embedding, ?) FROM vec_entities WHERE entity_id = ?').pluck();
+    results = results
+      .map(r => ({ ...r, distance: exactDistance.get(buffer, r.entity_id) as number }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k);
   }
 
-  query += ` ORDER BY v.distance LIMIT ?`;
-  params.push(k);
+  return results.map(r => ({
+    entityId: r.entity_id,
+    type: r.type as EntityType,
+    distance: r.distance
+  }));
+}
 
-  const stmt = db.prepare(query);
-  const results = stmt.all(...params) as any[];
+/**
+ * Las k entidades que cumplen los filtros mas cercanas a la query, por distancia
+ * exacta float32 de cada una (sin el indice vectorial)
+ */
+function exactHits(
+  db: Database.Database,
+  buffer: Buffer,
+  k: number,
+  filterSql: string,
+  filterParams: any[]
+): VectorSearchResult[] {
+  const results = db.prepare(`
+    SELECT e.id AS entity_id, e.type, vec_distance_l2(v.embedding, ?) AS distance
+    FROM entities e
+    CROSS JOIN vec_entities v ON v.entity_id = e.id
+    WHERE 1 = 1${filterSql}
+    ORDER BY distance LIMIT ?
+  `).all(buffer, ...filterParams, k) as any[];
 
   return results.map(r => ({
     entityId: r.entity_id,
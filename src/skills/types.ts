@@ -328,8 +328,8 @@ export interface StoredEntity {
  * Filtros para busqueda
  */
 export interface SearchFilters {
-  type?: EntityType;
-  category?: string;
+  type?: EntityType | EntityType[];  // Un tipo o cualquiera de una lista
+  category?: string | string[];      // Una categoria o cualquiera de una lista
   tags?: string[];
   usesTool?: string;             // Filtra skills que usan esta tool
 }
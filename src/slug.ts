@@ -0,0 +1,62 @@
+/**
+ * Unicode-aware slugs for document and section IDs.
+ *
+ * Accented Latin letters are transliterated to ASCII ("Configuración" ->
+ * "configuracion"); letters and digits of other scripts (CJK, Cyrillic, Greek,
+ * Arabic, ...) are kept as-is. Slugs only contain letters, digits, "_" and "-",
+ * so they are safe in URL path segments such as `/api/docs/:docId`.
+ */
+
+// Latin letters that don't decompose into a base letter plus combining marks
+const LATIN_SPECIAL_CASES: Record<string, string> = {
+    'ß': 'ss', 'ẞ': 'SS',
+    'æ': 'ae', 'Æ': 'AE',
+    'œ': 'oe', 'Œ': 'OE',
+    'ø': 'o', 'Ø': 'O',
+    'đ': 'd', 'Đ': 'D',
+    'ð': 'd', 'Ð': 'D',
+    'ł': 'l', 'Ł': 'L',
+    'þ': 'th', 'Þ': 'TH',
+    'ı': 'i'
+};
+
+const LATIN_LETTER = /\p{Script=Latin}/u;
+const COMBINING_MARKS = /\p{M}/gu;
+
+/**
+ * Transliterates accented Latin characters to ASCII, leaving other scripts untouched.
+ * Combining marks are only removed from Latin letters, so scripts that need them
+ * (Devanagari vowel signs, Japanese dakuten, ...) keep their meaning.
+ */
+export function transliterate(text: string): string {
+    let result = '';
+
+    for (const char of text.normalize('NFC')) {
+        if (LATIN_SPECIAL_CASES[char]) {
+            result += LATIN_SPECIAL_CASES[char];
+        } else if (LATIN_LETTER.test(char)) {
+            result += char.normalize('NFD').replace(COMBINING_MARKS, '');
+        } else {
+            result += char;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Builds a lowercase, URL-safe slug from a title
+ *
+ * @param text - Title to slugify
+ * @param maxLength - Max length in characters (code points)
+ */
+export function slugify(text: string, maxLength: number = 50): string {
+    const slug = transliterate(text)
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\p{M}_\s-]/gu, '')
+        .trim()
+        .replace(/\s+/g, '-');
+
+    // Cut by code points so characters outside the BMP are never split
+    return Array.from(slug).slice(0, maxLength).join('').replace(/-+$/, '');
+}
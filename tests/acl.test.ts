@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { indexDocument } from '../src/indexer';
+import { searchKnn, filterNodeIds, getSectionMeta, setDbPath, closeDb } from '../src/db/vectorStore';
+import { upsertEdge, expandGraph, getGraphStats, visibleNodes, type EdgeType } from '../src/db/graphStore';
+import { canReadDocument, loadDocument } from '../src/db/documentStore';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import { retrieveContext } from '../src/ragEngine';
+import { exportGraph } from '../src/graph/graphVisualizer';
+import { BM25Index } from '../src/search/bm25';
+import { initAuth, authenticate, resolvePrincipal, getReaderGroups, setPrincipalGroups } from '../src/middleware/auth';
+import { embed } from '../src/embeddings';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup, createDocument } from './helpers';
+
+const HANDBOOK = '# Handbook\n\n## Payroll\n\nSalaries are paid monthly.\n\n## Holidays\n\nTwenty days a year.\n';
+const PAYROLL = '# Payroll Secrets\n\n## Payroll\n\nSalary bands per level.\n';
+
+describe('document ACLs', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should only search sections the groups may read', async () => {
+        await indexDocument(createDocument('handbook', HANDBOOK));
+        await indexDocument(createDocument('payroll', PAYROLL, { allowedGroups: ['finance'] }));
+
+        const query = await embed('Payroll');
+        const docsFor = (groups?: string[]) => new Set(searchKnn(query, 10, { groups }).map(h => h.doc_id));
+
+        expect(docsFor(undefined)).toEqual(new Set(['handbook', 'payroll']));
+        expect(docsFor([])).toEqual(new Set(['handbook']));
+        expect(docsFor(['support'])).toEqual(new Set(['handbook']));
+        expect(docsFor(['support', 'finance'])).toEqual(new Set(['handbook', 'payroll']));
+
+        const payroll = await loadDocument('payroll');
+        expect(payroll?.allowedGroups).toEqual(['finance']);
+        expect(canReadDocument(payroll!, ['support'])).toBe(false);
+        expect(canReadDocument(payroll!, undefined)).toBe(true);
+    });
+
+    it('should update the labels of unchanged sections when a document is relabeled', async () => {
+        const doc = createDocument('payroll', PAYROLL, { allowedGroups: ['finance'] });
+        await indexDocument(doc);
+
+        await indexDocument({ ...doc, allowedGroups: ['finance', 'hr'] });
+
+        expect(getSectionMeta(doc.root.id)?.allowed_groups).toBe('["finance","hr"]');
+        expect(filterNodeIds([doc.root.id], { groups: ['hr'] }).has(doc.root.id)).toBe(true);
+
+        await indexDocument({ ...doc, allowedGroups: undefined });
+        expect(getSectionMeta(doc.root.id)?.allowed_groups).toBeNull();
+    });
+
+    it('should never expand the graph into sections the groups may not read', async () => {
+        const handbook = createDocument('handbook', HANDBOOK);
+        const payroll = createDocument('payroll', PAYROLL, { allowedGroups: ['finance'] });
+        await indexDocument(handbook);
+        await indexDocument(payroll);
+
+        const from = handbook.root.children[0].id;
+        const to = payroll.root.children[0].id;
+        upsertEdge({ from_node_id: from, to_node_id: to, type: 'SAME_TOPIC', weight: 0.9 });
+
+        const config = { maxHops: 2, maxNodes: 10, edgeTypes: ['SAME_TOPIC' as const, 'CHILD_OF' as const] };
+
+        const expandedFor = (groups?: string[]) =>
+            expandGraph([from], { ...config, crossCollections: true, groups }).map(n => n.node_id);
+
+        expect(expandedFor(['support'])).not.toContain(to);
+        expect(expandedFor(['support'])).not.toContain(payroll.root.id);
+        expect(expandedFor(['finance'])).toEqual(expect.arrayContaining([to, payroll.root.id]));
+
+        expect(getGraphStats({ groups: ['support'] }).edgesByType.SAME_TOPIC ?? 0).toBe(0);
+        expect(getGraphStats({ groups: ['finance'] }).edgesByType.SAME_TOPIC).toBe(1);
+    });
+
+    it('should only show concepts mentioned by a readable section', async () => {
+        const handbook = createDocument('handbook', HANDBOOK);
+        const payroll = createDocument('payroll', PAYROLL, { allowedGroups: ['finance'] });
+        await indexDocument(handbook);
+        await indexDocument(payroll);
+
+        // Concept edges are written by the concept graph builder with their own types
+        const mentions = 'MENTIONS' as EdgeType;
+        const holidays = handbook.root.children[1].id;
+        const bands = payroll.root.children[0].id;
+        upsertEdge({ from_node_id: holidays, to_node_id: 'concept:holidays', type: mentions });
+        upsertEdge({ from_node_id: bands, to_node_id: 'concept:salary bands', type: mentions });
+        upsertEdge({ from_node_id: 'concept:holidays', to_node_id: 'concept:salary bands', type: 'RELATED_TO' as EdgeType });
+
+        expect(visibleNodes(['concept:holidays', 'concept:salary bands'], { groups: ['support'] })).toEqual(new Set(['concept:holidays']));
+        expect(visibleNodes(['concept:holidays', 'concept:salary bands'], { groups: ['finance'] }).size).toBe(2);
+
+        const expandedFor = (groups: string[]) =>
+            expandGraph([holidays], { maxHops: 2, maxNodes: 10, edgeTypes: [mentions, 'RELATED_TO' as EdgeType], crossCollections: true, groups })
+                .map(n => n.node_id);
+        expect(expandedFor(['support'])).toEqual([holidays, 'concept:holidays']);
+        expect(expandedFor(['finance'])).toContain('concept:salary bands');
+
+        const conceptEdges = (groups: string[]) => {
+            const { MENTIONS, RELATED_TO } = getGraphStats({ groups }).edgesByType as Record<string, number>;
+            return { MENTIONS, RELATED_TO };
+        };
+        expect(conceptEdges(['support'])).toEqual({ MENTIONS: 1, RELATED_TO: undefined });
+        expect(conceptEdges(['finance'])).toEqual({ MENTIONS: 2, RELATED_TO: 1 });
+    });
+
+    it('should keep restricted documents out of context and graph exports', async () => {
+        const handbook = createDocument('handbook', HANDBOOK);
+        const payroll = createDocument('payroll', PAYROLL, { allowedGroups: ['finance'] });
+        await indexDocument(handbook);
+        await indexDocument(payroll);
+        upsertEdge({ from_node_id: handbook.root.children[0].id, to_node_id: payroll.root.children[0].id, type: 'SAME_TOPIC' });
+
+        const section = payroll.root.children[0].id;
+        expect(await retrieveContext('payroll', section, ['support'])).toBe('');
+        expect(await retrieveContext('payroll', section, ['finance'])).toContain('Salary bands');
+
+        const graph = await exportGraph({ groups: ['support'] });
+        expect(graph.nodes.map(n => n.docId)).not.toContain('payroll');
+        expect(graph.edges.filter(e => e.type === 'SAME_TOPIC')).toHaveLength(0);
+    });
+
+    it('should apply the filter inside the BM25 search before the limit', () => {
+        const index = new BM25Index();
+        index.addDocuments([
+            { id: 'secret-1', text: 'payroll payroll payroll' },
+            { id: 'secret-2', text: 'payroll payroll bands' },
+            { id: 'public', text: 'payroll calendar' }
+        ]);
+
+        const results = index.search('payroll', 1, ids => new Set(ids.filter(id => id === 'public')));
+
+        expect(results.map(r => r.id)).toEqual(['public']);
+    });
+});
+
+describe('API key principals', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        initAuth();
+        closeDb();
+        cleanup();
+        setDbPath('rag.db');
+    });
+
+    it('should map API keys to principals and groups', () => {
+        process.env.API_KEYS = 'alice:key-alice,key-bot';
+        process.env.ACL_GROUPS = 'alice=finance|hr,key-bot=support';
+        initAuth();
+
+        expect(resolvePrincipal('key-alice')).toMatchObject({ id: 'alice', groups: ['finance', 'hr'], scopes: ['admin'] });
+        expect(resolvePrincipal('unknown')).toBeUndefined();
+
+        // Unnamed keys are identified by a hash prefix, never by the key itself
+        const bot = resolvePrincipal('key-bot')!;
+        expect(bot).toMatchObject({ groups: ['support'], scopes: ['admin'] });
+        expect(bot.id).toMatch(/^env:[0-9a-f]{12}$/);
+        expect(bot.id).toBe(bot.keyId);
+
+        setPrincipalGroups('key-bot', ['sales']);
+        expect(resolvePrincipal('key-bot')!.groups).toEqual(['sales']);
+        setPrincipalGroups(bot.id, ['legal']);
+        expect(resolvePrincipal('key-bot')!.groups).toEqual(['legal']);
+    });
+
+    it('should attach the principal to authenticated requests', () => {
+        process.env.API_KEYS = 'alice:key-alice';
+        process.env.ACL_GROUPS = 'alice=finance';
+        initAuth();
+
+        const req: any = { path: '/api/query', headers: { 'x-api-key': 'key-alice' }, query: {} };
+        const res: any = { status: () => res, json: () => res };
+        let called = false;
+        authenticate(req, res, () => { called = true; });
+
+        expect(called).toBe(true);
+        expect(getReaderGroups(req)).toEqual(['finance']);
+
+        // Without a valid key the API is closed, not just the root path skipped
+        const anonymous: any = { path: '/api/docs', headers: {}, query: {} };
+        let status = 0;
+        const denied: any = { status: (code: number) => { status = code; return denied; }, json: () => denied };
+        authenticate(anonymous, denied, () => { throw new Error('should not pass'); });
+        expect(status).toBe(401);
+    });
+
+    it('should not restrict reads when authentication is disabled', () => {
+        delete process.env.API_KEYS;
+        delete process.env.AUTH_ENABLED;
+        initAuth();
+
+        expect(getReaderGroups({} as any)).toBeUndefined();
+    });
+});
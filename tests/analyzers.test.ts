@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { analyze, analyzeTerms, getAnalyzer, setSynonyms, expandSynonyms, loadConfiguredSynonyms } from '../src/analyzers';
+import { config } from '../src/config';
+import { stemEnglish } from '../src/analyzers/english';
+import { stemSpanish } from '../src/analyzers/spanish';
+import { createCollection, getCollection } from '../src/db/collectionStore';
+import { indexDocument } from '../src/indexer';
+import { getVectorDb, setDbPath, closeDb } from '../src/db/vectorStore';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import { keywordSearch } from '../src/search/fullText';
+import { extractEntities } from '../src/graph/entityExtractor';
+import fs from 'node:fs';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup, createDocument } from './helpers';
+
+const titles = (results: Array<{ metadata?: Record<string, any> }>) => results.map(r => r.metadata?.title);
+
+describe('analyzers', () => {
+    it('should stem English words', () => {
+        expect(['indexing', 'indexed', 'indexes'].map(stemEnglish)).toEqual(['index', 'index', 'index']);
+        expect(['running', 'retries', 'generously', 'relational'].map(stemEnglish))
+            .toEqual(['run', 'retri', 'generous', 'relat']);
+    });
+
+    it('should stem Spanish words', () => {
+        expect(['canciones', 'canción'].map(stemSpanish)).toEqual(['cancion', 'cancion']);
+        expect(['indexación', 'indexar', 'bibliotecas', 'rápidamente', 'nacionalidad'].map(stemSpanish))
+            .toEqual(['index', 'index', 'bibliotec', 'rapid', 'nacional']);
+    });
+
+    it('should resolve languages by code, region and alias', () => {
+        expect(getAnalyzer('es-MX').name).toBe('es');
+        expect(getAnalyzer('English').name).toBe('en');
+        expect(getAnalyzer('fr').name).toBe('standard');
+    });
+
+    it('should drop stopwords and fold accents per language', () => {
+        expect(analyzeTerms('Las canciones de la búsqueda', 'es')).toEqual(['cancion', 'busqued']);
+        expect(analyzeTerms('The naïve Café is indexing', 'en')).toEqual(['naiv', 'cafe', 'index']);
+        // Spanish stopwords are words in English
+        expect(analyzeTerms('de la', 'en')).toEqual(['de', 'la']);
+        expect(analyzeTerms('Running the tests', 'standard')).toEqual(['running', 'the', 'tests']);
+    });
+
+    it('should split CJK text into bigrams with offsets', () => {
+        expect(analyzeTerms('東京都', 'en')).toEqual(['東京', '京都']);
+        expect(analyze('Tokyo 東京', 'en')).toEqual([
+            { term: 'tokyo', start: 0, end: 5 },
+            { term: '東京', start: 6, end: 8 }
+        ]);
+    });
+
+    // Runs before anything else expands synonyms, while they are not loaded yet
+    it('should report a bad synonyms file and retry it on the next query', () => {
+        const file = 'test-synonyms.json';
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        config.search.synonymsPath = file;
+
+        try {
+            expect(() => loadConfiguredSynonyms()).toThrow(/ENOENT/);
+            expect(expandSynonyms(['k8s'], 'en')).toEqual([]);
+            expect(error).toHaveBeenCalledWith(expect.stringContaining('Failed to load synonyms'));
+
+            fs.writeFileSync(file, JSON.stringify({ en: ['k8s', 'kubernetes'] }));
+            expect(() => loadConfiguredSynonyms()).toThrow(/Invalid synonyms file/);
+
+            fs.writeFileSync(file, JSON.stringify({ en: [['k8s', 'kubernetes']] }));
+            expect(expandSynonyms(['k8s'], 'en')).toEqual([['kubernet']]);
+        } finally {
+            config.search.synonymsPath = undefined;
+            error.mockRestore();
+            fs.rmSync(file, { force: true });
+            setSynonyms('en', []);
+        }
+    });
+
+    it('should expand synonyms of analyzed terms', () => {
+        setSynonyms('en', [['k8s', 'kubernetes'], ['database', 'data store']]);
+
+        expect(expandSynonyms(['k8s'], 'en')).toEqual([['kubernet']]);
+        expect(expandSynonyms(['databas'], 'en')).toEqual([['data', 'store']]);
+        expect(expandSynonyms(['k8s'], 'es')).toEqual([]);
+
+        setSynonyms('en', []);
+    });
+
+    it('should match concepts on analyzed terms', () => {
+        const result = extractEntities('Training neural networks with gradient descent');
+
+        expect(result.concepts).toEqual(expect.arrayContaining(['neural network', 'gradient descent']));
+        expect(result.entities.find(e => e.normalized === 'neural network')?.text).toBe('neural networks');
+    });
+});
+
+describe('language-aware keyword search', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should match inflected forms in English documents', async () => {
+        await indexDocument(createDocument('guide', '# Guide\n\n## Indexing\n\nDocuments are indexed in batches.\n'));
+
+        const results = await keywordSearch('index', 10);
+        expect(titles(results)[0]).toBe('Indexing');
+        expect(results[0].matchedTerms).toEqual(['index']);
+    });
+
+    it('should analyze documents with the language of their collection or metadata', async () => {
+        const collection = createCollection('docs-es', 'Documentación', 'spanish');
+        expect(collection.language).toBe('es');
+        expect(getCollection('docs-es')?.language).toBe('es');
+        expect(() => createCollection('docs-xx', undefined, 'klingon')).toThrow(/No analyzer/);
+
+        await indexDocument(createDocument('guia', '# Guía\n\n## Canciones\n\nLa búsqueda de canciones.\n', { collection: 'docs-es' }));
+        await indexDocument(createDocument('notes', '---\nlanguage: es\n---\n# Notas\n\n## Bibliotecas\n\nUna biblioteca.\n'));
+
+        expect(titles(await keywordSearch('canción', 10))).toEqual(['Canciones']);
+        expect(titles(await keywordSearch('busqueda', 10))).toEqual(['Canciones']);
+        expect(titles(await keywordSearch('bibliotecas', 10))).toEqual(['Bibliotecas']);
+
+        const languages = getVectorDb().prepare('SELECT DISTINCT language FROM sections_fts ORDER BY language').pluck().all();
+        expect(languages).toEqual(['es']);
+    });
+
+    it('should re-analyze unchanged sections when the document language changes', async () => {
+        await indexDocument(createDocument('notes', '---\nlanguage: en\n---\n# Notes\n\n## Indexación\n\nLa indexación.\n'));
+        expect(await keywordSearch('indexar', 10)).toEqual([]);
+
+        await indexDocument(createDocument('notes', '---\nlanguage: es\n---\n# Notes\n\n## Indexación\n\nLa indexación.\n'));
+        expect(titles(await keywordSearch('indexar', 10))).toEqual(['Indexación']);
+    });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+    createApiKey, listApiKeys, revokeApiKey, findApiKey, hashApiKey, consumeApiKeyQuota
+} from '../src/db/apiKeyStore';
+import { getVectorDb, setDbPath, closeDb } from '../src/db/vectorStore';
+import {
+    initAuth, authenticate, requireScope, requireRole, requireAdminOrBootstrap, resolvePrincipal
+} from '../src/middleware/auth';
+import { rateLimit } from '../src/middleware/rateLimit';
+import fs from 'node:fs';
+
+const TEST_DB_PATH = 'test-rag.db';
+
+function cleanup() {
+    try {
+        if (fs.existsSync(TEST_DB_PATH)) {
+            fs.unlinkSync(TEST_DB_PATH);
+        }
+    } catch (error) {
+        // Ignore if file is locked (Windows issue)
+    }
+}
+
+function request(key?: string): any {
+    return { path: '/api/query', headers: key ? { 'x-api-key': key } : {}, query: {}, ip: '10.0.0.1' };
+}
+
+function response(): any {
+    const res: any = { statusCode: 200, headers: {}, body: undefined };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (body: unknown) => { res.body = body; return res; };
+    res.setHeader = (name: string, value: unknown) => { res.headers[name] = value; };
+    return res;
+}
+
+/**
+ * Run a middleware and report whether it called next
+ */
+function run(middleware: (req: any, res: any, next: () => void) => void, req: any, res = response()) {
+    let passed = false;
+    middleware(req, res, () => { passed = true; });
+    return { passed, res };
+}
+
+/**
+ * Authenticate a request, then require a scope
+ */
+function authorize(key: string, scope: Parameters<typeof requireScope>[0]) {
+    const req = request(key);
+    const auth = run(authenticate, req);
+    return auth.passed ? run(requireScope(scope), req, auth.res) : auth;
+}
+
+describe('API key store', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        cleanup();
+        delete process.env.API_KEYS;
+        delete process.env.AUTH_ENABLED;
+        delete process.env.ACL_GROUPS;
+        delete process.env.AUTH_BOOTSTRAP_TOKEN;
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        initAuth();
+        closeDb();
+        cleanup();
+        setDbPath('rag.db');
+    });
+
+    it('should store hashed keys and list them without the key', () => {
+        const { key, apiKey } = createApiKey({ name: 'reporting', scopes: ['query:read'], groups: ['finance'], quota: 10 });
+
+        expect(key).toMatch(/^hrag_[0-9a-f]{48}$/);
+        expect(apiKey).toMatchObject({ name: 'reporting', scopes: ['query:read'], groups: ['finance'], quota: 10, revokedAt: null });
+        expect(key.startsWith(apiKey.prefix)).toBe(true);
+
+        const row = getVectorDb().prepare('SELECT key_hash FROM api_keys WHERE id = ?').get(apiKey.id) as { key_hash: string };
+        expect(row.key_hash).toBe(hashApiKey(key));
+        expect(JSON.stringify(listApiKeys())).not.toContain(key);
+        expect(findApiKey(key)?.id).toBe(apiKey.id);
+
+        expect(revokeApiKey(apiKey.id)?.revokedAt).toBeTruthy();
+        expect(revokeApiKey('key_missing')).toBeUndefined();
+
+        // Names identify principals: a second key cannot reuse one, even once revoked
+        expect(() => createApiKey({ name: apiKey.name, scopes: ['query:read'] })).toThrow(/already exists/);
+        expect(() => createApiKey({ name: 'env:0123456789ab', scopes: ['query:read'] })).toThrow(/env:/);
+        expect(() => createApiKey({ name: 'bad', scopes: ['root' as any] })).toThrow(/Invalid scopes: root/);
+        expect(() => createApiKey({ name: 'bad', scopes: ['admin'], quota: 0 })).toThrow(/Quota/);
+    });
+
+    it('should authenticate stored keys and reject revoked and expired ones', () => {
+        const { key, apiKey } = createApiKey({ name: 'alice', scopes: ['query:read'], groups: ['finance'] });
+        const expired = createApiKey({ name: 'old', scopes: ['admin'], expiresAt: new Date(Date.now() - 1000) });
+        process.env.ACL_GROUPS = 'alice=hr';
+        initAuth();
+
+        const ok = run(authenticate, request(key));
+        expect(ok.passed).toBe(true);
+        expect(resolvePrincipal(key)).toEqual({ id: 'alice', groups: ['finance', 'hr'], scopes: ['query:read'], keyId: apiKey.id });
+
+        const outdated = run(authenticate, request(expired.key));
+        expect(outdated.passed).toBe(false);
+        expect(outdated.res.statusCode).toBe(403);
+        expect(outdated.res.body.error).toBe('API key expired');
+
+        revokeApiKey(apiKey.id);
+        const revoked = run(authenticate, request(key));
+        expect(revoked.res.statusCode).toBe(403);
+        expect(revoked.res.body.error).toBe('API key revoked');
+
+        expect(run(authenticate, request('hrag_unknown')).res.body.error).toBe('Invalid API key');
+    });
+
+    it('should enforce the daily quota of a key', () => {
+        const { key, apiKey } = createApiKey({ name: 'bot', scopes: ['query:read'], quota: 2 });
+        initAuth();
+
+        expect(authorize(key, 'query:read').passed).toBe(true);
+        const second = authorize(key, 'query:read');
+        expect(second.passed).toBe(true);
+        expect(second.res.headers['X-Quota-Remaining']).toBe(0);
+
+        const third = authorize(key, 'query:read');
+        expect(third.passed).toBe(false);
+        expect(third.res.statusCode).toBe(429);
+
+        // Quotas reset every UTC day
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        expect(consumeApiKeyQuota(findApiKey(key)!, tomorrow)).toEqual({ allowed: true, used: 1 });
+        expect(findApiKey(key)!.requestsToday).toBe(2);
+        expect(apiKey.requestsToday).toBe(0);
+    });
+
+    it('should check the scope before counting a request against the quota', () => {
+        const { key } = createApiKey({ name: 'bot', scopes: ['query:read'], quota: 1 });
+        initAuth();
+
+        expect(authorize(key, 'index:write').res.statusCode).toBe(403);
+        expect(findApiKey(key)!.requestsToday).toBe(0);
+
+        // A request going through two scope checks counts once
+        const req = request(key);
+        run(authenticate, req);
+        expect(run(requireScope('query:read'), req).passed).toBe(true);
+        expect(run(requireScope('query:read'), req).passed).toBe(true);
+        expect(findApiKey(key)!.requestsToday).toBe(1);
+    });
+
+    it('should require the bootstrap token to manage keys while auth is disabled', () => {
+        initAuth();
+        const closed = run(requireAdminOrBootstrap(), request());
+        expect(closed.passed).toBe(false);
+        expect(closed.res.statusCode).toBe(403);
+
+        process.env.AUTH_BOOTSTRAP_TOKEN = 'bootstrap-secret';
+        initAuth();
+        const bootstrap = (token?: string) => ({ ...request(), headers: token ? { 'x-bootstrap-token': token } : {} });
+        expect(run(requireAdminOrBootstrap(), bootstrap()).res.statusCode).toBe(401);
+        expect(run(requireAdminOrBootstrap(), bootstrap('wrong')).res.statusCode).toBe(401);
+        expect(run(requireAdminOrBootstrap(), bootstrap('bootstrap-secret')).passed).toBe(true);
+
+        // Once authentication is on, only admin keys manage keys
+        const reader = createApiKey({ name: 'reader', scopes: ['query:read'] });
+        initAuth();
+        expect(run(requireAdminOrBootstrap(), bootstrap('bootstrap-secret')).res.statusCode).toBe(401);
+        const req = request(reader.key);
+        run(authenticate, req);
+        expect(run(requireAdminOrBootstrap(), req).res.statusCode).toBe(403);
+    });
+
+    it('should keep requireRole as a scope check', () => {
+        const reader = createApiKey({ name: 'reader', scopes: ['query:read'] });
+        initAuth();
+
+        const req = request(reader.key);
+        run(authenticate, req);
+        expect(run(requireRole('query:read'), req).passed).toBe(true);
+        expect(run(requireRole('admin'), req).res.statusCode).toBe(403);
+        expect(run(requireRole('admin'), request()).res.statusCode).toBe(401);
+    });
+
+    it('should require scopes, with admin granting every scope', () => {
+        const reader = createApiKey({ name: 'reader', scopes: ['query:read'] });
+        const admin = createApiKey({ name: 'root', scopes: ['admin'] });
+        initAuth();
+
+        const asUser = (key: string) => {
+            const req = request(key);
+            run(authenticate, req);
+            return req;
+        };
+
+        expect(run(requireScope('query:read'), asUser(reader.key)).passed).toBe(true);
+
+        const denied = run(requireScope('index:write'), asUser(reader.key));
+        expect(denied.passed).toBe(false);
+        expect(denied.res.statusCode).toBe(403);
+        expect(denied.res.body.required).toEqual(['index:write']);
+
+        expect(run(requireScope('index:write'), asUser(admin.key)).passed).toBe(true);
+        expect(run(requireScope('query:read'), request()).res.statusCode).toBe(401);
+    });
+
+    it('should give API_KEYS keys every scope and skip scopes when auth is disabled', () => {
+        initAuth();
+        expect(run(requireScope('admin'), request()).passed).toBe(true);
+
+        process.env.API_KEYS = 'ops:key-ops';
+        initAuth();
+        const req = request('key-ops');
+        run(authenticate, req);
+        expect(run(requireScope('graph:build'), req).passed).toBe(true);
+    });
+
+    it('should rate limit per API key rather than per IP', () => {
+        const first = createApiKey({ name: 'first', scopes: ['query:read'] });
+        const second = createApiKey({ name: 'second', scopes: ['query:read'] });
+        initAuth();
+
+        const limiter = rateLimit({ windowMs: 60 * 1000, maxRequests: 1 });
+        const limited = (key: string) => {
+            const req = request(key);
+            run(authenticate, req);
+            return run(limiter, req).res.statusCode;
+        };
+
+        // Same IP, different keys
+        expect(limited(first.key)).toBe(200);
+        expect(limited(second.key)).toBe(200);
+        expect(limited(first.key)).toBe(429);
+    });
+});
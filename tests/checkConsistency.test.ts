@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { checkConsistency } from '../src/cli/checkConsistency';
+import { indexDocument } from '../src/indexer';
+import { upsertSection, getSectionMeta, getDocNodeIds, deleteSection, getVectorDb, setDbPath, closeDb, getEmbeddingSpace, vectorTableName } from '../src/db/vectorStore';
+import { upsertEdge, getOutgoingEdges } from '../src/db/graphStore';
+import { saveDocument } from '../src/db/documentStore';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import { embed } from '../src/embeddings';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup, createDocument } from './helpers';
+
+describe('checkConsistency', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should report no issues after indexing', async () => {
+        await indexDocument(createDocument('guide', '# Guide\n\n## Install\n\nRun it.\n\n## Usage\n\nUse it.\n'));
+        await indexDocument(createDocument('faq', '# FAQ\n\n## Why\n\nBecause.\n'));
+
+        const report = await checkConsistency();
+
+        expect(report.documents).toBe(2);
+        expect(report.sections).toBe(5);
+        expect(report.issues).toEqual([]);
+    });
+
+    it('should detect and repair drift between the stores', async () => {
+        const doc = createDocument('guide', '# Guide\n\n## Install\n\nRun it.\n\n## Usage\n\nUse it.\n');
+        await indexDocument(doc);
+        const [install, usage] = doc.root.children;
+
+        // JSON store ahead of the vector store (as after a crash between the two writes)
+        install.content = ['Run it twice.'];
+        await saveDocument(doc);
+
+        // A missing row, an orphan row and a dangling edge
+        deleteSection(usage.id);
+        upsertSection({ node_id: 'ghost', doc_id: 'guide', level: 2, title: 'Ghost', is_leaf: 1, path: '[]', hash: 'x' }, await embed('Ghost'));
+        upsertEdge({ from_node_id: install.id, to_node_id: 'removed-node', type: 'REFERS_TO' });
+        getVectorDb().prepare('DELETE FROM edges WHERE from_node_id = ? AND type = ?').run(doc.root.id, 'PARENT_OF');
+
+        const report = await checkConsistency();
+        const types = report.issues.map(i => i.type).sort();
+
+        expect(types).toEqual(['dangling_edge', 'missing_edge', 'missing_row', 'orphan_row', 'stale_row']);
+        expect(report.issues.find(i => i.type === 'stale_row')?.nodeId).toBe(install.id);
+        expect(report.issues.find(i => i.type === 'missing_row')?.nodeId).toBe(usage.id);
+        expect(report.repaired).toBe(false);
+
+        const repaired = await checkConsistency({ repair: true });
+        expect(repaired.repaired).toBe(true);
+
+        expect(getDocNodeIds('guide').sort()).toEqual([doc.root.id, install.id, usage.id].sort());
+        expect(getSectionMeta('ghost')).toBeUndefined();
+        expect(getOutgoingEdges(install.id, 'REFERS_TO')).toHaveLength(0);
+        expect(getOutgoingEdges(doc.root.id, 'PARENT_OF')).toHaveLength(2);
+
+        expect((await checkConsistency()).issues).toEqual([]);
+    });
+
+    it('should detect and remove vectors without a row', async () => {
+        await indexDocument(createDocument('guide', '# Guide\n\n## Install\n\nRun it.\n'));
+        getVectorDb().prepare('DELETE FROM sections WHERE node_id = ?').run('guide');
+
+        const report = await checkConsistency({ repair: true });
+        expect(report.issues.map(i => i.type).sort()).toEqual(['missing_row', 'orphan_vector']);
+
+        const orphanVectors = getVectorDb()
+            .prepare(`SELECT COUNT(*) FROM ${vectorTableName('sections', getEmbeddingSpace()!.id)} WHERE rowid NOT IN (SELECT rowid FROM sections)`)
+            .pluck().get();
+        expect(orphanVectors).toBe(0);
+        expect((await checkConsistency()).issues).toEqual([]);
+    });
+
+    it('should detect and repair full-text entries', async () => {
+        const doc = createDocument('guide', '# Guide\n\n## Install\n\nRun it.\n\n## Usage\n\nUse it.\n');
+        await indexDocument(doc);
+        const [install, usage] = doc.root.children;
+
+        // As after an interrupted backfill or a write outside the indexer
+        const db = getVectorDb();
+        db.prepare('DELETE FROM sections_fts WHERE node_id = ?').run(install.id);
+        db.prepare('UPDATE sections_fts SET body = ? WHERE node_id = ?').run('outdated', usage.id);
+        db.prepare('INSERT INTO sections_fts (node_id, language, title, body) VALUES (?, ?, ?, ?)').run('ghost', 'english', 'ghost', '');
+
+        const report = await checkConsistency();
+        expect(report.issues.map(i => [i.type, i.nodeId])).toEqual([
+            ['missing_text', install.id],
+            ['stale_text', usage.id],
+            ['orphan_text', 'ghost']
+        ]);
+
+        await checkConsistency({ repair: true });
+        expect(db.prepare('SELECT node_id FROM sections_fts WHERE sections_fts MATCH ?').pluck().all('body:use')).toEqual([usage.id]);
+        expect((await checkConsistency()).issues).toEqual([]);
+    });
+});
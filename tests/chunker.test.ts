@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { chunkText, countTokens } from '../src/chunker';
+
+describe('chunker', () => {
+    describe('countTokens', () => {
+        it('should count words and punctuation', () => {
+            expect(countTokens('Hello, world!')).toBe(4);
+            expect(countTokens('')).toBe(0);
+        });
+
+        it('should count long words as several tokens', () => {
+            expect(countTokens('a'.repeat(20))).toBe(3);
+        });
+    });
+
+    describe('chunkText', () => {
+        const words = Array.from({ length: 25 }, (_, i) => `w${i}`);
+        const text = words.join(' ');
+
+        it('should return a single chunk when the text fits', () => {
+            const chunks = chunkText('short text', { maxTokens: 10, overlapTokens: 2 });
+
+            expect(chunks).toEqual([{ index: 0, text: 'short text', startToken: 0, endToken: 2 }]);
+        });
+
+        it('should not split when chunking is disabled', () => {
+            expect(chunkText(text, { maxTokens: 0, overlapTokens: 0 })).toHaveLength(1);
+        });
+
+        it('should split into overlapping chunks of at most maxTokens', () => {
+            const chunks = chunkText(text, { maxTokens: 10, overlapTokens: 3 });
+
+            expect(chunks.map(c => [c.startToken, c.endToken])).toEqual([[0, 10], [7, 17], [14, 24], [21, 25]]);
+            expect(chunks[0].text).toBe(words.slice(0, 10).join(' '));
+            expect(chunks[1].text.startsWith('w7 w8 w9')).toBe(true);
+            expect(chunks[3].text).toBe('w21 w22 w23 w24');
+        });
+
+        it('should keep the original formatting inside a chunk', () => {
+            const chunks = chunkText('line one\n\n- item two\n- item three', { maxTokens: 5, overlapTokens: 0 });
+
+            expect(chunks[0].text).toBe('line one\n\n- item two');
+        });
+
+        it('should always make progress when overlap is too large', () => {
+            const chunks = chunkText(text, { maxTokens: 5, overlapTokens: 10 });
+
+            expect(chunks.length).toBe(21);
+            expect(chunks[chunks.length - 1].endToken).toBe(25);
+        });
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+    createCollection, listCollections, getCollection, resolveCollections, deleteCollection, DEFAULT_COLLECTION
+} from '../src/db/collectionStore';
+import { indexDocument } from '../src/indexer';
+import { searchKnn, getDocNodeIds, getDocumentCollection, setDbPath, closeDb, type SearchFilters } from '../src/db/vectorStore';
+import { upsertEdge, expandGraph, getGraphStats } from '../src/db/graphStore';
+import { listDocuments, loadDocument, Document } from '../src/db/documentStore';
+import { graphRagQuery, type GraphRagEvent } from '../src/graph/graphRagEngine';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import { embed } from '../src/embeddings';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup, createDocument } from './helpers';
+
+const GUIDE = '# Guide\n\n## Install\n\nRun the installer.\n';
+const HANDBOOK = '# Handbook\n\n## Install\n\nRun the installer.\n';
+
+describe('collections', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should create, list and delete collections', async () => {
+        const created = createCollection('team-a', 'Team A docs');
+
+        expect(created).toMatchObject({ name: 'team-a', description: 'Team A docs', documents: 0, sections: 0 });
+        expect(listCollections().map(c => c.name)).toEqual([DEFAULT_COLLECTION, 'team-a']);
+
+        expect(() => createCollection('team-a')).toThrow(/already exists/);
+        expect(() => createCollection('Team A')).toThrow(/Invalid collection name/);
+        expect(() => resolveCollections(['team-a', 'missing'])).toThrow('Collection not found: missing');
+        expect(resolveCollections()).toEqual([DEFAULT_COLLECTION]);
+
+        await expect(deleteCollection(DEFAULT_COLLECTION)).rejects.toThrow(/cannot be deleted/);
+        expect(await deleteCollection('team-a')).toEqual({ documents: 0 });
+        expect(await deleteCollection('team-a')).toBeUndefined();
+        expect(getCollection('team-a')).toBeUndefined();
+    });
+
+    it('should scope search and listing to collections', async () => {
+        createCollection('team-a');
+        await indexDocument(createDocument('guide', GUIDE));
+        await indexDocument(createDocument('handbook', HANDBOOK, { collection: 'team-a' }));
+
+        const query = await embed('Install');
+        const teamHits = searchKnn(query, 10, { collections: ['team-a'] });
+        const allHits = searchKnn(query, 10, { collections: [DEFAULT_COLLECTION, 'team-a'] });
+
+        expect(new Set(teamHits.map(h => h.doc_id))).toEqual(new Set(['handbook']));
+        expect(new Set(allHits.map(h => h.doc_id))).toEqual(new Set(['guide', 'handbook']));
+
+        expect((await listDocuments([DEFAULT_COLLECTION])).map(d => d.docId)).toEqual(['guide']);
+        expect((await listDocuments(['team-a']))[0]).toMatchObject({ docId: 'handbook', collection: 'team-a' });
+        expect(getDocumentCollection('handbook')).toBe('team-a');
+        expect(getCollection('team-a')).toMatchObject({ documents: 1, sections: 2 });
+    });
+
+    it('should keep document IDs unique across collections', async () => {
+        createCollection('team-a');
+        await indexDocument(createDocument('guide', GUIDE));
+
+        await expect(indexDocument(createDocument('guide', GUIDE, { collection: 'team-a' })))
+            .rejects.toThrow('Document "guide" already exists in collection "default"');
+        await expect(indexDocument(createDocument('other', GUIDE, { collection: 'missing' })))
+            .rejects.toThrow('Collection not found: missing');
+    });
+
+    it('should not expand the graph across collections unless asked', async () => {
+        createCollection('team-a');
+        const guide = createDocument('guide', GUIDE);
+        const handbook = createDocument('handbook', HANDBOOK, { collection: 'team-a' });
+        await indexDocument(guide);
+        await indexDocument(handbook);
+
+        const from = guide.root.children[0].id;
+        const to = handbook.root.children[0].id;
+        upsertEdge({ from_node_id: from, to_node_id: to, type: 'SAME_TOPIC', weight: 0.9 });
+
+        const config = { maxHops: 1, maxNodes: 10, edgeTypes: ['SAME_TOPIC' as const] };
+
+        expect(expandGraph([from], config).map(n => n.node_id)).toEqual([from]);
+        expect(expandGraph([from], { ...config, crossCollections: true }).map(n => n.node_id)).toEqual([from, to]);
+        expect(expandGraph([from], { ...config, collections: [DEFAULT_COLLECTION, 'team-a'] }).map(n => n.node_id))
+            .toEqual([from, to]);
+
+        expect(getGraphStats({ collections: [DEFAULT_COLLECTION] }).edgesByType.SAME_TOPIC ?? 0).toBe(0);
+        expect(getGraphStats({ collections: [DEFAULT_COLLECTION, 'team-a'] }).edgesByType.SAME_TOPIC).toBe(1);
+    });
+
+    it('should apply the filters of the seeds to graph RAG expansion', async () => {
+        const guide = createDocument('guide', GUIDE);
+        const handbook = createDocument('handbook', HANDBOOK);
+        await indexDocument(guide);
+        await indexDocument(handbook);
+
+        const from = guide.root.children[0].id;
+        const to = handbook.root.children[0].id;
+        upsertEdge({ from_node_id: from, to_node_id: to, type: 'SAME_TOPIC', weight: 0.9 });
+
+        const expandedFor = async (filters: SearchFilters) => {
+            const events: GraphRagEvent[] = [];
+            await graphRagQuery('Install', {
+                k: 1,
+                expandGraph: true,
+                graphConfig: { maxHops: 1, maxNodes: 10, edgeTypes: ['SAME_TOPIC', 'CHILD_OF'] },
+                rerank: false,
+                filters,
+                onEvent: event => events.push(event)
+            });
+            return events.find(e => e.type === 'expanded')?.nodeIds;
+        };
+
+        // Neither the other document nor the root of the seed's document (not a leaf)
+        expect(await expandedFor({ doc_id: 'guide', is_leaf: 1 })).toEqual([]);
+
+        // Only the Install section of the other document, not the level-1 root
+        const expanded = await expandedFor({ level: 2 });
+        expect(expanded).toHaveLength(1);
+        expect([from, to]).toContain(expanded![0]);
+    });
+
+    it('should delete the documents, sections and edges of a collection', async () => {
+        createCollection('team-a');
+        const guide = createDocument('guide', GUIDE);
+        const handbook = createDocument('handbook', HANDBOOK, { collection: 'team-a' });
+        await indexDocument(guide);
+        await indexDocument(handbook);
+        upsertEdge({ from_node_id: guide.root.children[0].id, to_node_id: handbook.root.children[0].id, type: 'SAME_TOPIC' });
+
+        expect(await deleteCollection('team-a')).toEqual({ documents: 1 });
+
+        expect(await loadDocument('handbook')).toBeUndefined();
+        expect(getDocNodeIds('handbook')).toEqual([]);
+        expect(getDocNodeIds('guide')).toHaveLength(2);
+        expect(getGraphStats().edgesByType.SAME_TOPIC ?? 0).toBe(0);
+    });
+});
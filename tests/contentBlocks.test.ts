@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { renderBlock, renderContent, blockToPlainText } from '../src/contentBlocks';
+
+describe('contentBlocks', () => {
+    describe('renderBlock', () => {
+        it('should render code fences with their language', () => {
+            expect(renderBlock({ type: 'code', language: 'ts', code: 'const a = 1;' }))
+                .toBe('```ts\nconst a = 1;\n```');
+        });
+
+        it('should render tables as markdown pipe tables', () => {
+            const table = renderBlock({ type: 'table', headers: ['A', 'B'], rows: [['1', '2']] });
+
+            expect(table).toBe('| A | B |\n| --- | --- |\n| 1 | 2 |');
+        });
+
+        it('should number ordered lists per depth', () => {
+            const list = renderBlock({
+                type: 'list',
+                ordered: true,
+                items: [
+                    { text: 'One', depth: 0 },
+                    { text: 'One.a', depth: 1 },
+                    { text: 'One.b', depth: 1 },
+                    { text: 'Two', depth: 0 }
+                ]
+            });
+
+            expect(list).toBe('1. One\n  1. One.a\n  2. One.b\n2. Two');
+        });
+
+        it('should prefix every blockquote line', () => {
+            expect(renderBlock({ type: 'blockquote', text: 'a\nb' })).toBe('> a\n> b');
+        });
+    });
+
+    describe('renderContent', () => {
+        it('should keep legacy string paragraphs unchanged', () => {
+            expect(renderContent(['First.', 'Second.'])).toBe('First.\nSecond.');
+        });
+    });
+
+    describe('blockToPlainText', () => {
+        it('should strip markup from structured blocks', () => {
+            expect(blockToPlainText({ type: 'code', language: 'sql', code: 'SELECT 1' })).toBe('SELECT 1');
+            expect(blockToPlainText({ type: 'table', headers: ['A'], rows: [['x']] })).toBe('A\nx');
+            expect(blockToPlainText({ type: 'list', ordered: false, items: [{ text: 'item', depth: 0 }] })).toBe('item');
+        });
+    });
+});
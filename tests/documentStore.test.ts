@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+    saveDocument, loadDocument, deleteDocument, getDocumentByNodeId, getNode, getParent, getChildren, getSiblings,
+    getAllDocuments, getAllDocumentIds, listDocuments, setDocumentStore, DocumentStore
+} from '../src/db/documentStore';
+import { sqliteDocumentStore } from '../src/db/sqliteDocumentStore';
+import { jsonDocumentStore, setJsonPath, resetDb } from '../src/db/jsonStore';
+import { migrateJsonDocuments, migrateIndexedJsonDocuments } from '../src/cli/migrateDocumentStore';
+import { indexDocument } from '../src/indexer';
+import { setDbPath, closeDb, getVectorDb, getDocNodeIds, deleteSection } from '../src/db/vectorStore';
+import fs from 'node:fs';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup, createDocument } from './helpers';
+
+const GUIDE = `---
+owner: docs-team
+---
+# Guide
+
+Intro text.
+
+## Install
+
+Run the installer.
+
+\`\`\`bash
+npm install
+\`\`\`
+
+### Linux
+
+Use the package manager.
+
+### macOS
+
+Use Homebrew.
+
+## Usage
+
+| Command | Effect |
+| --- | --- |
+| run | Runs it |
+`;
+
+describe.each([
+    ['sqlite', sqliteDocumentStore],
+    ['json', jsonDocumentStore]
+] as Array<[string, DocumentStore]>)('documentStore (%s)', (_, store) => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+        setDocumentStore(store);
+    });
+
+    afterEach(() => {
+        setDocumentStore(null);
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should round-trip a document with blocks, metadata and positions', async () => {
+        const doc = createDocument('guide', GUIDE);
+        await saveDocument(doc);
+
+        const loaded = await loadDocument('guide');
+        expect(loaded).toEqual(doc);
+        expect(loaded?.metadata).toEqual({ owner: 'docs-team' });
+        expect(await loadDocument('missing')).toBeUndefined();
+    });
+
+    it('should navigate parents, children and siblings', async () => {
+        const doc = createDocument('guide', GUIDE);
+        await saveDocument(doc);
+
+        const [install, usage] = doc.root.children;
+        const [linux, macos] = install.children;
+
+        expect((await getNode('guide', install.id))?.children.map(c => c.title)).toEqual(['Linux', 'macOS']);
+        expect((await getParent('guide', linux.id))?.id).toBe(install.id);
+        expect(await getParent('guide', doc.root.id)).toBeUndefined();
+        expect((await getChildren('guide', doc.root.id)).map(c => c.id)).toEqual([install.id, usage.id]);
+        expect((await getSiblings('guide', macos.id)).map(c => c.id)).toEqual([linux.id]);
+        expect((await getSiblings('guide', usage.id))[0]).toEqual(install);
+        expect(await getNode('other-doc', install.id)).toBeUndefined();
+    });
+
+    it('should find the document of a node', async () => {
+        const guide = createDocument('guide', GUIDE);
+        await saveDocument(guide);
+        await saveDocument(createDocument('faq', '# FAQ\n\n## Why\n\nBecause.\n'));
+
+        expect((await getDocumentByNodeId(guide.root.children[0].children[1].id))?.docId).toBe('guide');
+        expect(await getDocumentByNodeId('missing')).toBeUndefined();
+    });
+
+    it('should replace, list and delete documents', async () => {
+        await saveDocument(createDocument('guide', GUIDE));
+        await saveDocument(createDocument('faq', '# FAQ\n\n## Why\n\nBecause.\n'));
+
+        // Saving again replaces the tree and keeps the document's place in the list
+        const updated = createDocument('guide', '# Guide\n\n## Usage\n\nRun it.\n');
+        updated.version = 2;
+        await saveDocument(updated);
+
+        expect(await getAllDocumentIds()).toEqual(['guide', 'faq']);
+        expect(await loadDocument('guide')).toEqual(updated);
+        expect((await getAllDocuments()).map(d => d.root.children.length)).toEqual([1, 1]);
+        expect(await listDocuments()).toEqual([
+            { docId: 'guide', title: 'Guide', version: 2, metadata: undefined, collection: 'default', sectionsCount: 2 },
+            { docId: 'faq', title: 'FAQ', version: 1, metadata: undefined, collection: 'default', sectionsCount: 2 }
+        ]);
+
+        expect(await deleteDocument('guide')).toBe(true);
+        expect(await deleteDocument('guide')).toBe(false);
+        expect(await getAllDocumentIds()).toEqual(['faq']);
+    });
+});
+
+describe('sqliteDocumentStore', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should store one row per node with indexed parent lookups', async () => {
+        await sqliteDocumentStore.saveDocument(createDocument('guide', GUIDE));
+
+        const db = getVectorDb();
+        expect(db.prepare('SELECT COUNT(*) FROM document_nodes WHERE doc_id = ?').pluck().get('guide')).toBe(5);
+
+        const plan = db.prepare('EXPLAIN QUERY PLAN SELECT node_id FROM document_nodes WHERE doc_id = ? AND parent_id = ? ORDER BY ordinal')
+            .all('guide', 'guide') as Array<{ detail: string }>;
+        expect(plan.map(p => p.detail).join(' ')).toContain('idx_document_nodes_parent');
+    });
+
+    it('should migrate documents from a JSON file once', async () => {
+        const guide = createDocument('guide', GUIDE);
+        const faq = createDocument('faq', '# FAQ\n\n## Why\n\nBecause.\n');
+        fs.writeFileSync(TEST_JSON_PATH, JSON.stringify({ documents: [guide, faq] }));
+
+        const first = await migrateJsonDocuments({ jsonPath: TEST_JSON_PATH });
+        expect(first).toEqual({ found: 2, migrated: 2, skipped: 0 });
+        expect(await sqliteDocumentStore.loadDocument('guide')).toEqual(guide);
+        expect(await sqliteDocumentStore.getAllDocumentIds()).toEqual(['guide', 'faq']);
+
+        const second = await migrateJsonDocuments({ jsonPath: TEST_JSON_PATH });
+        expect(second).toEqual({ found: 2, migrated: 0, skipped: 2 });
+
+        const overwritten = await migrateJsonDocuments({ jsonPath: TEST_JSON_PATH, overwrite: true });
+        expect(overwritten.migrated).toBe(2);
+    });
+
+    it('should migrate the indexed documents of a JSON store on startup', async () => {
+        // Indexed with DOCUMENT_STORE=json, so the trees are only in the JSON file
+        const guide = createDocument('guide', GUIDE);
+        const faq = createDocument('faq', '# FAQ\n\n## Why\n\nBecause.\n');
+        await indexDocument(guide);
+        await indexDocument(faq);
+        await sqliteDocumentStore.deleteDocument('guide');
+        await sqliteDocumentStore.deleteDocument('faq');
+        fs.writeFileSync(TEST_JSON_PATH, JSON.stringify({ documents: [guide, faq] }));
+
+        // Deleted from the index since: not brought back
+        getDocNodeIds('faq').forEach(deleteSection);
+
+        expect(await migrateIndexedJsonDocuments(TEST_JSON_PATH)).toEqual({ found: 2, migrated: 1, skipped: 1 });
+        expect(await sqliteDocumentStore.getAllDocumentIds()).toEqual(['guide']);
+        expect(await migrateIndexedJsonDocuments(TEST_JSON_PATH)).toEqual({ found: 2, migrated: 0, skipped: 2 });
+
+        expect(await migrateIndexedJsonDocuments('missing-documents.json')).toBeNull();
+    });
+
+    it('should fail clearly when the JSON file is missing', async () => {
+        await expect(migrateJsonDocuments({ jsonPath: 'missing-documents.json' })).rejects.toThrow(/Cannot read JSON document store/);
+    });
+});
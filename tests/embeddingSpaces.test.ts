@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+    upsertSection, searchKnn, getSectionMeta, replaceSectionChunks, getEmbeddingSpace, listEmbeddingSpaces,
+    setEmbeddingSpaceModel, vectorTableName, hasLegacyVectorTables, getVectorDb, setDbPath, closeDb, SectionRow
+} from '../src/db/vectorStore';
+import { migratePaddedVectors } from '../src/cli/migrateVectorSpaces';
+import { syncDocument } from '../src/indexer';
+import { buildNodesMap, Document } from '../src/db/documentStore';
+import { parseMarkdownContent } from '../src/markdownParser';
+import { embed, getEmbeddingSpaceName } from '../src/embeddings';
+import fs from 'node:fs';
+
+const TEST_DB_PATH = 'test-rag.db';
+
+function cleanup() {
+    try {
+        if (fs.existsSync(TEST_DB_PATH)) {
+            fs.unlinkSync(TEST_DB_PATH);
+        }
+    } catch (error) {
+        // Ignore if file is locked (Windows issue)
+    }
+}
+
+function section(nodeId: string, docId = 'doc-1'): SectionRow {
+    return { node_id: nodeId, doc_id: docId, level: 1, title: nodeId, is_leaf: 1, path: '[]', hash: 'h' };
+}
+
+function padded(embedding: number[]): Buffer {
+    const vector = new Float32Array(2048);
+    vector.set(embedding);
+    return Buffer.from(vector.buffer);
+}
+
+describe('embedding spaces', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        setEmbeddingSpaceModel(null);
+        closeDb();
+        cleanup();
+        setDbPath('rag.db');
+    });
+
+    it('should create a vector table with the real dimension of the model', async () => {
+        expect(getEmbeddingSpace()).toBeUndefined();
+        expect(searchKnn(await embed('anything'), 5)).toEqual([]);
+
+        upsertSection(section('a'), await embed('Alpha'));
+
+        const space = getEmbeddingSpace()!;
+        expect(space).toMatchObject({ model: getEmbeddingSpaceName(), dimensions: 1536 });
+        expect(getSectionMeta('a')).toMatchObject({ space_id: space.id, dimensions: 1536 });
+
+        const sql = getVectorDb()
+            .prepare('SELECT sql FROM sqlite_master WHERE name = ?')
+            .pluck().get(vectorTableName('sections', space.id)) as string;
+        expect(sql).toContain('FLOAT[1536]');
+        expect(hasLegacyVectorTables()).toBe(false);
+    });
+
+    it('should reject vectors of another dimension', async () => {
+        upsertSection(section('a'), await embed('Alpha'));
+        const short = (await embed('Beta')).slice(0, 384);
+
+        expect(() => upsertSection(section('b'), short))
+            .toThrow(/384-dimensional vector: embedding space ".*" holds 1536-dimensional vectors/);
+        expect(() => replaceSectionChunks('a', [short])).toThrow(/384-dimensional/);
+        expect(() => searchKnn(short, 5)).toThrow(/Cannot search with a 384-dimensional vector/);
+        expect(getSectionMeta('b')).toBeUndefined();
+    });
+
+    it('should keep each model in its own space', async () => {
+        upsertSection(section('a'), await embed('Alpha'));
+
+        setEmbeddingSpaceModel('small-model');
+        upsertSection(section('b'), (await embed('Beta')).slice(0, 384));
+
+        expect(listEmbeddingSpaces().map(s => [s.model, s.dimensions])).toEqual([
+            [getEmbeddingSpaceName(), 1536],
+            ['small-model', 384]
+        ]);
+        expect(searchKnn((await embed('Beta')).slice(0, 384), 5).map(r => r.node_id)).toEqual(['b']);
+
+        setEmbeddingSpaceModel(null);
+        expect(searchKnn(await embed('Alpha'), 5).map(r => r.node_id)).toEqual(['a']);
+    });
+
+    it('should re-embed sections stored in another space on sync', async () => {
+        const root = parseMarkdownContent('# Guide\n\n## Install\n\nRun it.\n', 'guide');
+        const doc: Document = { docId: 'guide', title: root.title, version: 1, root, nodes: buildNodesMap(root) };
+
+        setEmbeddingSpaceModel('old-model');
+        await syncDocument(doc);
+        const oldSpace = getEmbeddingSpace()!;
+
+        setEmbeddingSpaceModel(null);
+        await syncDocument(doc);
+        const newSpace = getEmbeddingSpace()!;
+
+        expect(newSpace.id).not.toBe(oldSpace.id);
+        expect(getSectionMeta(root.children[0].id)?.space_id).toBe(newSpace.id);
+        expect(getVectorDb().prepare(`SELECT COUNT(*) FROM ${vectorTableName('sections', oldSpace.id)}`).pluck().get()).toBe(0);
+    });
+
+    it('should migrate padded vectors into a per-dimension space', async () => {
+        const db = getVectorDb();
+        db.exec(`
+            CREATE VIRTUAL TABLE vec_sections USING vec0(rowid INTEGER PRIMARY KEY, embedding FLOAT[2048]);
+            CREATE VIRTUAL TABLE vec_chunks USING vec0(rowid INTEGER PRIMARY KEY, embedding FLOAT[2048]);
+        `);
+
+        const insertRow = db.prepare(`
+            INSERT INTO sections (node_id, doc_id, level, title, is_leaf, path, hash, dimensions)
+            VALUES (?, 'doc-1', 1, ?, 1, '[]', 'h', ?)
+        `);
+        const alpha = await embed('Alpha');
+        const beta = await embed('Beta');
+        const a = insertRow.run('a', 'Alpha', 1536).lastInsertRowid;
+        const b = insertRow.run('b', 'Beta', 1536).lastInsertRowid;
+        const c = insertRow.run('c', 'Gamma', 768).lastInsertRowid;
+        db.prepare('INSERT INTO vec_sections(rowid, embedding) VALUES (?, ?)').run(BigInt(a), padded(alpha));
+        db.prepare('INSERT INTO vec_sections(rowid, embedding) VALUES (?, ?)').run(BigInt(b), padded(beta));
+        db.prepare('INSERT INTO vec_sections(rowid, embedding) VALUES (?, ?)').run(BigInt(c), padded(alpha.slice(0, 768)));
+        const chunk = db.prepare(`INSERT INTO section_chunks (node_id, chunk_index) VALUES ('b', 1)`).run().lastInsertRowid;
+        db.prepare('INSERT INTO vec_chunks(rowid, embedding) VALUES (?, ?)').run(BigInt(chunk), padded(alpha));
+
+        const result = migratePaddedVectors();
+
+        expect(result).toEqual({ model: getEmbeddingSpaceName(), dimensions: 1536, sections: 2, chunks: 1, unmigrated: 1 });
+        expect(hasLegacyVectorTables()).toBe(false);
+        expect(getSectionMeta('c')?.space_id).toBeNull();
+
+        const hits = searchKnn(alpha, 2);
+        expect(hits.map(h => h.node_id)).toEqual(['a', 'b']);
+        expect(hits[0].distance).toBeCloseTo(0, 5);
+        expect(hits[1].distance).toBeCloseTo(0, 5); // Chunk of b is the Alpha vector
+        expect(() => migratePaddedVectors()).toThrow(/No padded vector tables/);
+    });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { indexDocument, deleteIndexedDocument } from '../src/indexer';
+import { getVectorDb, getFullTextStats, setDbPath, closeDb } from '../src/db/vectorStore';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import { keywordSearch, parseKeywordQuery, toFtsQuery } from '../src/search/fullText';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup, createDocument } from './helpers';
+
+const GUIDE = [
+    '# Guide',
+    '',
+    '## Rate Limits',
+    '',
+    'Requests are counted per key.',
+    '',
+    '## Retries',
+    '',
+    'Clients retry after a rate limit error, with exponential backoff.',
+    ''
+].join('\n');
+
+const titles = (results: Array<{ metadata?: Record<string, any> }>) => results.map(r => r.metadata?.title);
+
+describe('full-text search', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should parse words, phrases and prefixes', () => {
+        const terms = parseKeywordQuery('"Rate limit" retr* the e-mail Café');
+
+        expect(terms).toEqual([
+            { words: ['rate', 'limit'], phrase: true, prefix: false },
+            { words: ['retr'], phrase: false, prefix: true },
+            { words: ['the'], phrase: false, prefix: false },
+            { words: ['e', 'mail'], phrase: true, prefix: false },
+            { words: ['café'], phrase: false, prefix: false }
+        ]);
+        // Stopwords and single letters are dropped, words are stemmed and unaccented
+        expect(toFtsQuery(terms, ['en'])).toBe(
+            '(language : "en" AND {title body} : ("rate limit" OR "retr"* OR "mail" OR "cafe"))'
+        );
+        expect(toFtsQuery(parseKeywordQuery('the a'), ['en'])).toBe('');
+        expect(parseKeywordQuery('"" *')).toEqual([]);
+    });
+
+    it('should rank title matches above body matches', async () => {
+        await indexDocument(createDocument('guide', GUIDE));
+
+        const results = await keywordSearch('retries', 10);
+        expect(titles(results)).toEqual(['Retries']);
+
+        const limits = await keywordSearch('rate limits', 10);
+        expect(titles(limits)[0]).toBe('Rate Limits');
+        expect(limits[0].matchedTerms).toEqual(['rate', 'limits']);
+
+        expect(titles(await keywordSearch('rate', 10))[0]).toBe('Rate Limits');
+        // Without the title weight the body match of "Retries" wins
+        expect(titles(await keywordSearch('rate', 10, {}, { title: 0, body: 1 }))[0]).toBe('Retries');
+    });
+
+    it('should support phrase and prefix queries', async () => {
+        await indexDocument(createDocument('guide', GUIDE));
+
+        const phrase = await keywordSearch('"limit error"', 10);
+        expect(titles(phrase)).toEqual(['Retries']);
+        expect(phrase[0].matchedTerms).toEqual(['"limit error"']);
+
+        expect(await keywordSearch('"error limit"', 10)).toEqual([]);
+
+        const prefix = await keywordSearch('expon*', 10);
+        expect(titles(prefix)).toEqual(['Retries']);
+        expect(prefix[0].matchedTerms).toEqual(['expon*']);
+    });
+
+    it('should index the plain text of sections without markdown syntax', async () => {
+        await indexDocument(createDocument('setup', [
+            '# Setup',
+            '',
+            '## Steps',
+            '',
+            '1. Install',
+            '2. Configure',
+            '',
+            '```python',
+            'print("ready")',
+            '```',
+            ''
+        ].join('\n')));
+
+        // List numbers no longer sit between the items, fence languages are not indexed
+        expect(titles(await keywordSearch('"install configure"', 10))).toEqual(['Steps']);
+        expect(titles(await keywordSearch('ready', 10))).toEqual(['Steps']);
+        expect(await keywordSearch('python', 10)).toEqual([]);
+    });
+
+    it('should keep the index in step with syncs and deletions', async () => {
+        const doc = createDocument('guide', GUIDE);
+        await indexDocument(doc);
+        expect(getFullTextStats()).toEqual({ sections: 3, indexed: 3 });
+
+        await indexDocument(createDocument('guide', GUIDE.replace('exponential backoff', 'jitter')));
+        expect(await keywordSearch('exponential', 10)).toEqual([]);
+        expect(titles(await keywordSearch('jitter', 10))).toEqual(['Retries']);
+
+        await deleteIndexedDocument('guide');
+        expect(getFullTextStats()).toEqual({ sections: 0, indexed: 0 });
+        expect(await keywordSearch('jitter', 10)).toEqual([]);
+    });
+
+    it('should apply filters before the limit', async () => {
+        await indexDocument(createDocument('guide', GUIDE));
+        await indexDocument(createDocument('secret', '# Secret\n\n## Rate Limits\n\nRate limit rate limit rate limit.\n', { allowedGroups: ['ops'] }));
+
+        const visible = await keywordSearch('rate limit', 1, { groups: ['support'] });
+        expect(visible.map(r => r.metadata?.docId)).toEqual(['guide']);
+
+        const all = await keywordSearch('rate limit', 10, { groups: ['ops'] });
+        expect(new Set(all.map(r => r.metadata?.docId))).toEqual(new Set(['guide', 'secret']));
+    });
+
+    it('should add sections indexed before the full-text index existed', async () => {
+        await indexDocument(createDocument('guide', GUIDE));
+        getVectorDb().exec('DELETE FROM sections_fts');
+
+        expect(titles(await keywordSearch('backoff', 10))).toEqual(['Retries']);
+        expect(getFullTextStats()).toEqual({ sections: 3, indexed: 3 });
+    });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { generateAnswer, parseCitations, createMockChatProvider, type ChatProvider, type ChatMessage } from '../src/generation';
+import { classicRagQuery, graphRagQuery, type RagSource, type GraphRagEvent } from '../src/graph/graphRagEngine';
+import { indexDocument } from '../src/indexer';
+import { setDbPath, closeDb } from '../src/db/vectorStore';
+import { Document } from '../src/db/documentStore';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup, createDocument } from './helpers';
+
+const source = (nodeId: string, context: string): RagSource => ({ nodeId, docId: 'guide', score: 0, context });
+
+// Records the prompt and answers with a fixed completion
+function fixedProvider(completion: string) {
+    const prompts: ChatMessage[][] = [];
+    const provider: ChatProvider = {
+        name: 'fixed',
+        model: 'fixed-1',
+        complete: async messages => {
+            prompts.push(messages);
+            return completion;
+        }
+    };
+    return { provider, prompts };
+}
+
+const sources = [
+    source('guide/limits', 'Rate limits allow 100 requests per minute per key.'),
+    source('guide/retries', 'Clients should retry failed requests with exponential backoff.'),
+    source('guide/billing', 'Invoices are sent on the first day of the month.')
+];
+
+describe('answer generation', () => {
+    it('should keep only citations of known sources', () => {
+        expect(parseCitations('Limits apply [1]. Retry [2, 7]. Nothing [9].', new Set([1, 2]))).toEqual({
+            answer: 'Limits apply [1]. Retry [2]. Nothing.',
+            cited: [1, 2]
+        });
+    });
+
+    it('should map citations to the nodeIds of the numbered sources', async () => {
+        const { provider, prompts } = fixedProvider('Use backoff [2] within the limits [1][2].');
+        const result = await generateAnswer('How do I retry?', sources, { provider });
+
+        expect(result.answer).toBe('Use backoff [2] within the limits [1][2].');
+        expect(result.citations).toEqual([
+            { index: 2, nodeId: 'guide/retries', docId: 'guide' },
+            { index: 1, nodeId: 'guide/limits', docId: 'guide' }
+        ]);
+        expect(result.provider).toBe('fixed');
+        expect(result.model).toBe('fixed-1');
+
+        const prompt = prompts[0][1].content;
+        expect(prompts[0][0].role).toBe('system');
+        expect(prompt).toContain('[2] (document: guide)\nClients should retry');
+        expect(prompt).toMatch(/Question: How do I retry\?$/);
+    });
+
+    it('should pack sources in rank order under the token budget', async () => {
+        const { provider, prompts } = fixedProvider('Answer [1].');
+        const long = source('guide/long', Array.from({ length: 50 }, (_, i) => `word${i}`).join(' '));
+
+        const result = await generateAnswer('limits', [sources[0], long, sources[2]], { provider, contextTokens: 24 });
+
+        expect(result.context.sources.map(s => s.nodeId)).toEqual(['guide/limits', 'guide/billing']);
+        expect(result.context.omitted).toEqual(['guide/long']);
+        expect(result.context.tokens).toBeLessThanOrEqual(24);
+        // Renumbered without the omitted source
+        expect(prompts[0][1].content).toContain('[2] (document: guide)\nInvoices');
+
+        const truncated = await generateAnswer('limits', [long], { provider, contextTokens: 10 });
+        expect(truncated.context.sources[0]).toMatchObject({ nodeId: 'guide/long', tokens: 10, truncated: true });
+    });
+
+    it('should not call the provider without sources', async () => {
+        const { provider, prompts } = fixedProvider('Made up [1].');
+        const result = await generateAnswer('anything', [], { provider });
+
+        expect(result.answer).toBe('No relevant information found.');
+        expect(result.citations).toEqual([]);
+        expect(prompts).toHaveLength(0);
+    });
+
+    it('should answer from the best matching sentences with the mock provider', async () => {
+        const result = await generateAnswer('How many requests per minute?', sources, { provider: createMockChatProvider() });
+
+        expect(result.answer).toBe('Rate limits allow 100 requests per minute per key [1]. Clients should retry failed requests with exponential backoff [2].');
+        expect(result.citations.map(c => c.nodeId)).toEqual(['guide/limits', 'guide/retries']);
+    });
+});
+
+describe('RAG queries with generation', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should replace the summary answer with a cited answer', async () => {
+        await indexDocument(createDocument('api', '# API\n\n## Rate Limits\n\nThe API allows 100 requests per minute.\n\n## Errors\n\nErrors use JSON bodies.\n'));
+
+        const plain = await classicRagQuery('requests per minute', 3);
+        expect(plain.answer).toMatch(/^Found \d+ relevant sections/);
+        expect(plain.generation).toBeUndefined();
+
+        const result = await classicRagQuery('requests per minute', 3, undefined, { generate: { provider: createMockChatProvider() } });
+        const cited = result.generation!.citations;
+
+        expect(result.answer).toContain('The API allows 100 requests per minute');
+        expect(result.answer).not.toContain('[Document:');
+        expect(cited.length).toBeGreaterThan(0);
+        for (const citation of cited) {
+            expect(result.answer).toContain(`[${citation.index}]`);
+            expect(result.sources.map(s => s.nodeId)).toContain(citation.nodeId);
+        }
+        expect(result.generation!.context.sources).toHaveLength(result.sources.length);
+    });
+});
+
+describe('streamed RAG queries', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should report each stage, source and answer token in pipeline order', async () => {
+        await indexDocument(createDocument('api', '# API\n\n## Rate Limits\n\nThe API allows 100 requests per minute.\n\n## Errors\n\nErrors use JSON bodies.\n'));
+
+        const events: GraphRagEvent[] = [];
+        const result = await classicRagQuery('requests per minute', 2, undefined, {
+            generate: { provider: createMockChatProvider() },
+            onEvent: event => events.push(event)
+        });
+
+        const types = events.map(e => e.type);
+        expect(types.slice(0, 4)).toEqual(['seeds', 'source', 'source', 'reranked']);
+        expect(types.slice(4).every(type => type === 'token')).toBe(true);
+        expect(types.length).toBeGreaterThan(5);
+
+        const seeds = events[0] as Extract<GraphRagEvent, { type: 'seeds' }>;
+        const built = events.filter(e => e.type === 'source').map(e => e.source.nodeId);
+        expect(built).toEqual(seeds.nodeIds);
+
+        const reranked = events[3] as Extract<GraphRagEvent, { type: 'reranked' }>;
+        expect(reranked.sources.map(s => s.nodeId)).toEqual(result.sources.map(s => s.nodeId));
+
+        const streamed = events.filter(e => e.type === 'token').map(e => e.text).join('');
+        expect(streamed).toBe(result.answer);
+    });
+
+    it('should only report the reranked order when reranking runs', async () => {
+        await indexDocument(createDocument('api', '# API\n\n## Rate Limits\n\nThe API allows 100 requests per minute.\n'));
+
+        const events: GraphRagEvent[] = [];
+        await graphRagQuery('requests per minute', { k: 2, rerank: false, onEvent: event => events.push(event) });
+
+        expect(events.map(e => e.type)).toEqual(['seeds', 'source', 'source']);
+    });
+
+    it('should stop the query and the generation once aborted', async () => {
+        await indexDocument(createDocument('api', '# API\n\n## Rate Limits\n\nThe API allows 100 requests per minute.\n'));
+
+        const controller = new AbortController();
+        const tokens: string[] = [];
+        const query = classicRagQuery('requests per minute', 2, undefined, {
+            generate: { provider: createMockChatProvider() },
+            signal: controller.signal,
+            onEvent: event => {
+                if (event.type !== 'token') return;
+                tokens.push(event.text);
+                controller.abort();
+            }
+        });
+
+        await expect(query).rejects.toThrow(/aborted/);
+        expect(tokens).toHaveLength(1);
+
+        await expect(classicRagQuery('requests per minute', 2, undefined, { signal: AbortSignal.abort() }))
+            .rejects.toThrow(/aborted/);
+    });
+
+    it('should send a completion that cannot stream as one token', async () => {
+        const { provider } = fixedProvider('Use backoff [2][8].');
+        const tokens: string[] = [];
+
+        const result = await generateAnswer('How do I retry?', sources, { provider, onToken: text => tokens.push(text) });
+
+        // Streamed text is raw; the final answer drops the unknown citation
+        expect(tokens).toEqual(['Use backoff [2][8].']);
+        expect(result.answer).toBe('Use backoff [2].');
+    });
+});
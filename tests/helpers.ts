@@ -0,0 +1,38 @@
+import { buildNodesMap, Document } from '../src/db/documentStore';
+import { parseMarkdownContent } from '../src/markdownParser';
+import fs from 'node:fs';
+
+/**
+ * Shared fixtures of the tests that index documents
+ */
+
+export const TEST_DB_PATH = 'test-rag.db';
+export const TEST_JSON_PATH = 'test-documents.json';
+
+/**
+ * Remove the test database and JSON store
+ */
+export function cleanup() {
+    for (const file of [TEST_DB_PATH, TEST_JSON_PATH]) {
+        try {
+            if (fs.existsSync(file)) {
+                fs.unlinkSync(file);
+            }
+        } catch (error) {
+            // Ignore if file is locked (Windows issue)
+        }
+    }
+}
+
+/**
+ * Parse markdown into a document ready to be indexed
+ * @param options - Collection and allowed groups of the document
+ */
+export function createDocument(
+    docId: string,
+    markdown: string,
+    options: Pick<Document, 'collection' | 'allowedGroups'> = {}
+): Document {
+    const root = parseMarkdownContent(markdown, docId);
+    return { docId, title: root.title, version: 1, root, nodes: buildNodesMap(root), metadata: root.metadata, ...options };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { hybridSearch, distanceToSimilarity } from '../src/search/bm25';
+
+const bm25 = [
+    { id: 'a', score: 9, matchedTerms: ['rate'] },
+    { id: 'b', score: 6, matchedTerms: ['rate'] },
+    { id: 'c', score: 3, matchedTerms: ['limit'] }
+];
+
+// Distances, closest first
+const vectors = [
+    { id: 'b', score: 0.2 },
+    { id: 'd', score: 0.4 },
+    { id: 'a', score: 0.6 }
+];
+
+const byId = (results: ReturnType<typeof hybridSearch>) => Object.fromEntries(results.map(r => [r.id, r]));
+
+describe('hybrid search fusion', () => {
+    it('should convert distances to similarities by metric', () => {
+        expect(distanceToSimilarity(1)).toBe(0.5);
+        expect(distanceToSimilarity(1, 'l2-unit')).toBe(0.5);
+        expect(distanceToSimilarity(0.25, 'cosine')).toBe(0.75);
+    });
+
+    it('should keep the original max normalization by default', () => {
+        const results = byId(hybridSearch(bm25, vectors, { alpha: 0.5 }));
+
+        expect(results.a.bm25Score).toBe(1);
+        expect(results.c.bm25Score).toBeCloseTo(1 / 3);
+        // The worst vector hit always gets 0
+        expect(results.a.vectorScore).toBe(0);
+        expect(results.d.bm25Score).toBe(0);
+    });
+
+    it('should fuse ranks with RRF', () => {
+        const results = hybridSearch(bm25, vectors, { alpha: 0.5, fusion: 'rrf', rrfK: 10 });
+        const scores = byId(results);
+
+        expect(scores.b.bm25Score).toBeCloseTo(1 / 12);
+        expect(scores.b.vectorScore).toBeCloseTo(1 / 11);
+        expect(scores.d.bm25Score).toBe(0);
+        expect(scores.b.combinedScore).toBeCloseTo(0.5 / 12 + 0.5 / 11);
+        expect(results.map(r => r.id)).toEqual(['b', 'a', 'd', 'c']);
+    });
+
+    it('should rescale similarities, not distances, with min-max', () => {
+        const scores = byId(hybridSearch(bm25, vectors, { alpha: 1, fusion: 'minmax', metric: 'cosine' }));
+
+        expect(scores.b.vectorScore).toBe(1);
+        expect(scores.d.vectorScore).toBeCloseTo(0.5);
+        expect(scores.a.vectorScore).toBe(0);
+        expect(scores.c.vectorScore).toBe(0);
+        expect(scores.c.bm25Score).toBe(0);
+    });
+
+    it('should standardize scores with z-score', () => {
+        const scores = byId(hybridSearch(bm25, vectors, { alpha: 0, fusion: 'zscore' }));
+
+        expect(scores.a.bm25Score).toBeCloseTo(Math.sqrt(1.5));
+        expect(scores.b.bm25Score).toBeCloseTo(0);
+        // Missing from the BM25 results: the lowest BM25 z-score
+        expect(scores.d.bm25Score).toBeCloseTo(-Math.sqrt(1.5));
+    });
+
+    it('should report the rank and raw score of each method', () => {
+        const scores = byId(hybridSearch(bm25, vectors, { alpha: 0.5, fusion: 'rrf' }));
+
+        expect(scores.a.bm25).toEqual({ rank: 1, score: 9 });
+        expect(scores.a.vector).toEqual({ rank: 3, distance: 0.6, similarity: 1 / 1.6 });
+        expect(scores.c.vector).toBeUndefined();
+        expect(scores.d.bm25).toBeUndefined();
+        expect(scores.a.matchedTerms).toEqual(['rate']);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { syncDocument } from '../src/indexer';
+import { embedInBatches } from '../src/embeddings';
+import { getDocNodeIds, deleteSection, setDbPath, closeDb } from '../src/db/vectorStore';
+import { Document, SectionNode, buildNodesMap } from '../src/db/documentStore';
+import fs from 'node:fs';
+
+// Give the mock embedding service a fixed latency per call and track how many
+// calls are in flight, like a remote embedding API
+const MOCK_LATENCY_MS = 5;
+const stats = { calls: 0, inFlight: 0, maxInFlight: 0 };
+let failingText: string | undefined;
+
+vi.mock('../src/embeddings/mockEmbeddings', async (importOriginal) => {
+    const original = await importOriginal<typeof import('../src/embeddings/mockEmbeddings')>();
+    return {
+        generateMockEmbedding: async (text: string) => {
+            stats.calls++;
+            stats.inFlight++;
+            stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+            await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+            stats.inFlight--;
+            if (text === failingText) throw new Error('Embedding service unavailable');
+            return original.generateMockEmbedding(text);
+        }
+    };
+});
+
+const TEST_DB_PATH = 'test-rag.db';
+const SECTION_COUNT = 200;
+
+function createLargeDocument(docId: string): Document {
+    const children: SectionNode[] = [];
+    for (let i = 0; i < SECTION_COUNT; i++) {
+        children.push({
+            id: `${docId}-section-${i}`,
+            level: 2,
+            title: `Section ${i}`,
+            content: [`Content of section ${i} about topic ${i % 17}.`],
+            children: []
+        });
+    }
+
+    const root: SectionNode = { id: docId, level: 1, title: 'Benchmark Document', content: [], children };
+
+    return {
+        docId,
+        title: 'Benchmark Document',
+        version: 1,
+        root,
+        nodes: buildNodesMap(root)
+    };
+}
+
+async function syncFromScratch(doc: Document, options: { batchSize: number; concurrency: number }) {
+    // Start from an empty index so every node is embedded
+    for (const id of getDocNodeIds(doc.docId)) deleteSection(id);
+    stats.calls = 0;
+    stats.maxInFlight = 0;
+
+    await syncDocument(doc, options);
+}
+
+describe('indexer benchmark', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        failingText = undefined;
+        vi.restoreAllMocks();
+        closeDb();
+        try {
+            if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+        } catch (error) {
+            // Ignore if file is locked
+        }
+    });
+
+    it('should embed batches concurrently instead of one text at a time', async () => {
+        const doc = createLargeDocument('bench-doc');
+
+        await syncFromScratch(doc, { batchSize: 1, concurrency: 1 });
+        expect(stats.maxInFlight).toBe(1);
+
+        await syncFromScratch(doc, { batchSize: 32, concurrency: 4 });
+        expect(stats.calls).toBe(SECTION_COUNT + 1);
+        expect(stats.maxInFlight).toBeGreaterThan(1);
+        expect(getDocNodeIds(doc.docId)).toHaveLength(SECTION_COUNT + 1);
+    }, 30000);
+
+    it('should keep at most `concurrency` batches in flight', async () => {
+        const doc = createLargeDocument('bench-doc');
+
+        // Each batch has one text, so in-flight calls equal in-flight batches
+        await syncFromScratch(doc, { batchSize: 1, concurrency: 3 });
+
+        expect(stats.maxInFlight).toBe(3);
+        expect(getDocNodeIds(doc.docId)).toHaveLength(SECTION_COUNT + 1);
+    }, 30000);
+
+    it('should stop taking batches once one fails', async () => {
+        const texts = Array.from({ length: SECTION_COUNT }, (_, i) => `text ${i}`);
+        failingText = 'text 2';
+        stats.calls = 0;
+
+        await expect(embedInBatches(texts, { batchSize: 1, concurrency: 3 })).rejects.toThrow('Embedding service unavailable');
+
+        // The batches already in flight finish, but no new ones start
+        await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS * 4));
+        expect(stats.calls).toBeLessThanOrEqual(5);
+    });
+});
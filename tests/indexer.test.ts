@@ -1,7 +1,14 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { syncDocument } from '../src/indexer';
-import { getSectionMeta, getDocNodeIds, setDbPath, closeDb } from '../src/db/vectorStore';
-import { saveDocument, Document, setJsonPath, resetDb } from '../src/db/jsonStore';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { syncDocument, indexDocument } from '../src/indexer';
+import { getSectionMeta, getDocNodeIds, getSectionChunkCount, searchKnn, setDbPath, closeDb, getVectorDb } from '../src/db/vectorStore';
+import { getOutgoingEdges, upsertEdge } from '../src/db/graphStore';
+import { saveDocument, loadDocument, setDocumentStore, Document } from '../src/db/documentStore';
+import { sqliteDocumentStore } from '../src/db/sqliteDocumentStore';
+import { jsonDocumentStore } from '../src/db/jsonStore';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import { embed } from '../src/embeddings';
+import { chunkText } from '../src/chunker';
+import { config } from '../src/config';
 import fs from 'node:fs';
 
 const TEST_DB_PATH = 'test-rag.db';
@@ -255,5 +262,203 @@ describe('indexer', () => {
             const keepMeta = getSectionMeta('to-keep');
             expect(keepMeta).toBeDefined();
         });
+
+        it('should embed oversized sections as chunks and collapse chunk hits', async () => {
+            const originalChunking = { ...config.chunking };
+            config.chunking.maxTokens = 20;
+            config.chunking.overlapTokens = 5;
+
+            try {
+                const longText = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+                const doc: Document = {
+                    docId: 'sync-test-5',
+                    title: 'Chunk Test',
+                    version: 1,
+                    root: {
+                        id: 'root',
+                        type: 'document',
+                        level: 0,
+                        title: 'Chunk Test',
+                        content: [],
+                        children: [
+                            {
+                                id: 'long',
+                                type: 'section',
+                                level: 1,
+                                title: 'Long Section',
+                                content: [longText],
+                                children: []
+                            }
+                        ]
+                    },
+                    nodes: {
+                        root: { id: 'root', parentId: null, childrenIds: ['long'], level: 0 },
+                        long: { id: 'long', parentId: 'root', childrenIds: [], level: 1 }
+                    }
+                };
+
+                await saveDocument(doc);
+                await syncDocument(doc);
+
+                const chunks = chunkText(longText);
+                expect(chunks.length).toBeGreaterThan(1);
+                expect(getSectionChunkCount('long')).toBe(chunks.length - 1);
+                expect(getDocNodeIds('sync-test-5').sort()).toEqual(['long', 'root']);
+
+                // A query matching the last chunk exactly finds the section, once
+                const lastChunk = chunks[chunks.length - 1];
+                const results = searchKnn(await embed(`Long Section\n${lastChunk.text}`), 5);
+                expect(results[0].node_id).toBe('long');
+                expect(results[0].distance).toBeCloseTo(0, 5);
+                expect(results.filter(r => r.node_id === 'long')).toHaveLength(1);
+
+                // Shrinking the section drops its extra chunks
+                doc.root.children[0].content = ['Short now'];
+                await saveDocument(doc);
+                await syncDocument(doc);
+
+                expect(getSectionChunkCount('long')).toBe(0);
+            } finally {
+                Object.assign(config.chunking, originalChunking);
+            }
+        });
+    });
+
+    describe('indexDocument', () => {
+        function twoSectionDoc(docId: string, firstContent: string): Document {
+            return {
+                docId,
+                title: 'Atomic Test',
+                version: 1,
+                root: {
+                    id: 'root',
+                    type: 'document',
+                    level: 0,
+                    title: 'Atomic Test',
+                    content: [],
+                    children: [
+                        { id: 'sec-1', type: 'section', level: 1, title: 'Section 1', content: [firstContent], children: [] },
+                        { id: 'sec-2', type: 'section', level: 1, title: 'Section 2', content: ['Content 2'], children: [] }
+                    ]
+                },
+                nodes: {
+                    root: { id: 'root', parentId: null, childrenIds: ['sec-1', 'sec-2'], level: 0 },
+                    'sec-1': { id: 'sec-1', parentId: 'root', childrenIds: [], level: 1 },
+                    'sec-2': { id: 'sec-2', parentId: 'root', childrenIds: [], level: 1 }
+                }
+            };
+        }
+
+        it('should save the document, vector rows and structural edges', async () => {
+            await indexDocument(twoSectionDoc('atomic-1', 'Content 1'));
+
+            expect((await loadDocument('atomic-1'))?.root.children).toHaveLength(2);
+            expect(getDocNodeIds('atomic-1').sort()).toEqual(['root', 'sec-1', 'sec-2']);
+
+            expect(getOutgoingEdges('root', 'PARENT_OF').map(e => e.to_node_id).sort()).toEqual(['sec-1', 'sec-2']);
+            expect(getOutgoingEdges('sec-1', 'CHILD_OF').map(e => e.to_node_id)).toEqual(['root']);
+            expect(getOutgoingEdges('sec-1', 'NEXT_SIBLING').map(e => e.to_node_id)).toEqual(['sec-2']);
+            expect(getOutgoingEdges('sec-2', 'PREV_SIBLING').map(e => e.to_node_id)).toEqual(['sec-1']);
+        });
+
+        it('should drop edges of deleted nodes and derived edges of changed nodes', async () => {
+            await indexDocument(twoSectionDoc('atomic-2', 'Content 1'));
+            upsertEdge({ from_node_id: 'sec-1', to_node_id: 'other-doc-node', type: 'SAME_TOPIC', weight: 0.9 });
+            upsertEdge({ from_node_id: 'other-doc-node', to_node_id: 'sec-2', type: 'REFERS_TO' });
+
+            const updated = twoSectionDoc('atomic-2', 'Content 1 changed');
+            updated.root.children.pop();
+            updated.nodes.root.childrenIds = ['sec-1'];
+            delete updated.nodes['sec-2'];
+            await indexDocument(updated);
+
+            expect(getOutgoingEdges('sec-1', 'SAME_TOPIC')).toHaveLength(0);
+            expect(getOutgoingEdges('sec-1', 'NEXT_SIBLING')).toHaveLength(0);
+            expect(getOutgoingEdges('other-doc-node', 'REFERS_TO')).toHaveLength(0);
+            expect(getOutgoingEdges('root', 'PARENT_OF').map(e => e.to_node_id)).toEqual(['sec-1']);
+        });
+
+        it('should leave both stores untouched when embedding fails', async () => {
+            await indexDocument(twoSectionDoc('atomic-3', 'Content 1'));
+            const hashBefore = getSectionMeta('sec-1')?.hash;
+
+            const originalService = config.embeddingService;
+            const originalKey = config.openai.apiKey;
+            config.embeddingService = 'openai';
+            config.openai.apiKey = '';
+            try {
+                await expect(indexDocument(twoSectionDoc('atomic-3', 'Content 1 changed'))).rejects.toThrow(/OPENAI_API_KEY/);
+            } finally {
+                config.embeddingService = originalService;
+                config.openai.apiKey = originalKey;
+            }
+
+            expect((await loadDocument('atomic-3'))?.root.children[0].content).toEqual(['Content 1']);
+            expect(getSectionMeta('sec-1')?.hash).toBe(hashBefore);
+        });
+
+        it('should roll back the JSON store and vector rows when a write fails', async () => {
+            await indexDocument(twoSectionDoc('atomic-4', 'Content 1'));
+            const hashBefore = getSectionMeta('sec-1')?.hash;
+
+            // Make the insert of a new node fail after sec-1 has been rewritten
+            getVectorDb().exec(`
+                CREATE TRIGGER fail_insert BEFORE INSERT ON sections
+                WHEN NEW.node_id = 'sec-3'
+                BEGIN SELECT RAISE(ABORT, 'disk full'); END;
+            `);
+
+            const updated = twoSectionDoc('atomic-4', 'Content 1 changed');
+            updated.root.children.push({ id: 'sec-3', type: 'section', level: 1, title: 'Section 3', content: ['Content 3'], children: [] });
+            updated.nodes.root.childrenIds.push('sec-3');
+            updated.nodes['sec-3'] = { id: 'sec-3', parentId: 'root', childrenIds: [], level: 1 };
+
+            // One transaction covers the document and the vector store: nothing to restore
+            const save = vi.spyOn(sqliteDocumentStore, 'saveDocument');
+            await expect(indexDocument(updated)).rejects.toThrow(/disk full/);
+            expect(save).not.toHaveBeenCalled();
+            save.mockRestore();
+
+            const stored = await loadDocument('atomic-4');
+            expect(stored?.root.children.map(c => c.id)).toEqual(['sec-1', 'sec-2']);
+            expect(stored?.root.children[0].content).toEqual(['Content 1']);
+            expect(getSectionMeta('sec-1')?.hash).toBe(hashBefore);
+            expect(getDocNodeIds('atomic-4').sort()).toEqual(['root', 'sec-1', 'sec-2']);
+            expect(getOutgoingEdges('sec-2', 'NEXT_SIBLING')).toHaveLength(0);
+        });
+
+        it('should remove a new document from the JSON store when its sync fails', async () => {
+            getVectorDb().exec(`
+                CREATE TRIGGER fail_insert BEFORE INSERT ON sections
+                BEGIN SELECT RAISE(ABORT, 'disk full'); END;
+            `);
+
+            await expect(indexDocument(twoSectionDoc('atomic-5', 'Content 1'))).rejects.toThrow(/disk full/);
+
+            expect(await loadDocument('atomic-5')).toBeUndefined();
+            expect(getDocNodeIds('atomic-5')).toHaveLength(0);
+        });
+
+        it('should restore the previous version in the JSON store when the sync fails', async () => {
+            setDocumentStore(jsonDocumentStore);
+            try {
+                await indexDocument(twoSectionDoc('atomic-6', 'Content 1'));
+                getVectorDb().exec(`
+                    CREATE TRIGGER fail_insert BEFORE INSERT ON sections
+                    BEGIN SELECT RAISE(ABORT, 'disk full'); END;
+                `);
+
+                const updated = twoSectionDoc('atomic-6', 'Content 1 changed');
+                updated.root.children.push({ id: 'sec-3', type: 'section', level: 1, title: 'Section 3', content: ['Content 3'], children: [] });
+                updated.nodes.root.childrenIds.push('sec-3');
+                updated.nodes['sec-3'] = { id: 'sec-3', parentId: 'root', childrenIds: [], level: 1 };
+
+                await expect(indexDocument(updated)).rejects.toThrow(/disk full/);
+
+                expect((await loadDocument('atomic-6'))?.root.children[0].content).toEqual(['Content 1']);
+            } finally {
+                setDocumentStore(null);
+            }
+        });
     });
 });
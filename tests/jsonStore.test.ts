@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { saveDocument, loadDocument, getNode, getParent, getSiblings, Document, SectionNode, setJsonPath, resetDb } from '../src/db/jsonStore';
+import { saveDocument, loadDocument, getNode, getParent, getSiblings, buildNodesMap, Document, SectionNode, setJsonPath, resetDb } from '../src/db/jsonStore';
+import { parseMarkdownContent } from '../src/markdownParser';
 import fs from 'node:fs';
 
 const TEST_DB_PATH = 'test-documents.json';
@@ -315,4 +316,31 @@ describe('jsonStore', () => {
             expect(siblings.length).toBe(0);
         });
     });
+
+    describe('buildNodesMap', () => {
+        it('should map parents and children at every depth', async () => {
+            const root = parseMarkdownContent(`# Doc
+
+## A
+
+### B
+
+#### C
+
+##### D
+
+Deep content.`, 'deep-doc');
+            const nodes = buildNodesMap(root);
+            const d = root.children[0].children[0].children[0].children[0];
+
+            expect(Object.keys(nodes).length).toBe(5);
+            expect(nodes[d.id].level).toBe(5);
+            expect(nodes[d.id].parentId).toBe(root.children[0].children[0].children[0].id);
+
+            await saveDocument({ docId: 'deep-doc', title: root.title, version: 1, root, nodes });
+            const parent = await getParent('deep-doc', d.id);
+
+            expect(parent?.title).toBe('C');
+        });
+    });
 });
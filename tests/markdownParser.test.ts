@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { parseMarkdownContent, extractAllText, countSections } from '../src/markdownParser';
+import { parseMarkdownContent, parseMarkdownFile, parseFrontMatter, extractAllText, countSections } from '../src/markdownParser';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
 describe('markdownParser', () => {
     describe('parseMarkdownContent', () => {
@@ -49,7 +52,7 @@ More content.`;
             expect(result.children.length).toBe(2);
         });
 
-        it('should ignore headings deeper than H3', () => {
+        it('should ignore headings deeper than maxDepth', () => {
             const markdown = `# Title
 
 ## Section
@@ -65,12 +68,68 @@ This content should belong to Subsection.
 
 With content.`;
 
-            const result = parseMarkdownContent(markdown);
+            const result = parseMarkdownContent(markdown, undefined, { maxDepth: 3 });
 
             expect(result.children.length).toBe(2);
             expect(result.children[0].children.length).toBe(1);
-            expect(result.children[0].children[0].content).toContain('This content should belong to Subsection.');
-            expect(result.children[1].content).toContain('With content.');
+            expect(result.children[0].children[0].content).toContainEqual(expect.objectContaining({ type: 'paragraph', text: 'This content should belong to Subsection.' }));
+            expect(result.children[1].content).toContainEqual(expect.objectContaining({ type: 'paragraph', text: 'With content.' }));
+        });
+
+        it('should build sections for H4-H6 headings', () => {
+            const markdown = `# Runbook
+
+## Deploy
+
+### Database
+
+#### Migrations
+
+##### Rollback
+
+Run the down migration.
+
+###### Caveats
+
+Irreversible steps are listed here.
+
+#### Backups
+
+Nightly snapshots.`;
+
+            const result = parseMarkdownContent(markdown);
+
+            const database = result.children[0].children[0];
+            expect(database.title).toBe('Database');
+            expect(database.children.map(c => c.title)).toEqual(['Migrations', 'Backups']);
+
+            const rollback = database.children[0].children[0];
+            expect(rollback.level).toBe(5);
+            expect(rollback.content).toMatchObject([{ type: 'paragraph', text: 'Run the down migration.' }]);
+            expect(rollback.children[0].title).toBe('Caveats');
+            expect(rollback.children[0].level).toBe(6);
+            expect(database.children[1].content).toMatchObject([{ type: 'paragraph', text: 'Nightly snapshots.' }]);
+        });
+
+        it('should turn later H1 headings into top-level sections', () => {
+            const markdown = `# Part One
+
+Intro.
+
+## Chapter
+
+Chapter text.
+
+# Part Two
+
+Second part text.`;
+
+            const result = parseMarkdownContent(markdown);
+
+            expect(result.title).toBe('Part One');
+            expect(result.children.map(c => c.title)).toEqual(['Chapter', 'Part Two']);
+            expect(result.children[1].level).toBe(1);
+            expect(result.children[1].content).toMatchObject([{ type: 'paragraph', text: 'Second part text.' }]);
         });
 
         it('should preserve paragraph breaks', () => {
@@ -88,9 +147,264 @@ Third paragraph.`;
 
             const section = result.children[0];
             expect(section.content.length).toBe(3);
-            expect(section.content[0]).toBe('First paragraph.');
-            expect(section.content[1]).toBe('Second paragraph after blank line.');
-            expect(section.content[2]).toBe('Third paragraph.');
+            expect(section.content[0]).toMatchObject({ type: 'paragraph', text: 'First paragraph.' });
+            expect(section.content[1]).toMatchObject({ type: 'paragraph', text: 'Second paragraph after blank line.' });
+            expect(section.content[2]).toMatchObject({ type: 'paragraph', text: 'Third paragraph.' });
+        });
+    });
+
+    describe('content blocks', () => {
+        it('should keep fenced code verbatim and ignore headings inside it', () => {
+            const markdown = `# Doc
+
+## Setup
+
+\`\`\`bash
+# install dependencies
+npm install
+
+npm test
+\`\`\`
+
+After the code.`;
+
+            const result = parseMarkdownContent(markdown);
+            const section = result.children[0];
+
+            expect(result.children.length).toBe(1);
+            expect(section.content[0]).toMatchObject({
+                type: 'code',
+                language: 'bash',
+                code: '# install dependencies\nnpm install\n\nnpm test'
+            });
+            expect(section.content[1]).toMatchObject({ type: 'paragraph', text: 'After the code.' });
+        });
+
+        it('should not take a commented line in a fence as the document title', () => {
+            const markdown = `\`\`\`python
+# not a title
+\`\`\`
+
+# Real Title`;
+
+            expect(parseMarkdownContent(markdown).title).toBe('Real Title');
+        });
+
+        it('should parse tables, lists and blockquotes', () => {
+            const markdown = `# Doc
+
+## Limits
+
+| Plan | Requests |
+| ---- | -------: |
+| Free | 100 |
+| Pro  | 10000 |
+
+- First item
+  continued here
+  - Nested item
+- Second item
+
+1. Step one
+2. Step two
+
+> Quoted line one
+> still the same paragraph`;
+
+            const section = parseMarkdownContent(markdown).children[0];
+
+            expect(section.content).toMatchObject([
+                { type: 'table', headers: ['Plan', 'Requests'], rows: [['Free', '100'], ['Pro', '10000']] },
+                {
+                    type: 'list',
+                    ordered: false,
+                    items: [
+                        { text: 'First item continued here', depth: 0 },
+                        { text: 'Nested item', depth: 1 },
+                        { text: 'Second item', depth: 0 }
+                    ]
+                },
+                { type: 'list', ordered: true, items: [{ text: 'Step one', depth: 0 }, { text: 'Step two', depth: 0 }] },
+                { type: 'blockquote', text: 'Quoted line one still the same paragraph' }
+            ]);
+        });
+
+        it('should not take a horizontal rule under a line with "|" as a table', () => {
+            const markdown = `# Doc
+
+## Pipes
+
+Use a | b to pipe.
+---
+Next paragraph.`;
+
+            const section = parseMarkdownContent(markdown).children[0];
+
+            expect(section.content).toMatchObject([
+                { type: 'paragraph', text: 'Use a | b to pipe.' },
+                { type: 'paragraph', text: 'Next paragraph.' }
+            ]);
+        });
+
+        it('should end lists and paragraphs at thematic breaks', () => {
+            const markdown = `# Doc
+
+## Breaks
+
+- Only item
+* * *
+Between rules
+***
+After`;
+
+            const section = parseMarkdownContent(markdown).children[0];
+
+            expect(section.content).toMatchObject([
+                { type: 'list', items: [{ text: 'Only item', depth: 0 }] },
+                { type: 'paragraph', text: 'Between rules' },
+                { type: 'paragraph', text: 'After' }
+            ]);
+            expect(section.content).toHaveLength(3);
+        });
+    });
+
+    describe('node IDs', () => {
+        const collectIds = (node: ReturnType<typeof parseMarkdownContent>): string[] =>
+            [node.id, ...node.children.flatMap(collectIds)];
+
+        it('should give repeated titles in one document distinct IDs', () => {
+            const markdown = `# Guide
+
+## Install
+
+### Examples
+
+## Usage
+
+### Examples
+
+### Examples`;
+
+            const ids = collectIds(parseMarkdownContent(markdown, 'guide'));
+
+            expect(new Set(ids).size).toBe(ids.length);
+        });
+
+        it('should scope IDs by document', () => {
+            const a = parseMarkdownContent('# A\n\n## Overview', 'doc-a');
+            const b = parseMarkdownContent('# B\n\n## Overview', 'doc-b');
+
+            expect(a.children[0].id).not.toBe(b.children[0].id);
+            expect(a.children[0].id).toMatch(/^overview-[0-9a-f]{8}$/);
+        });
+
+        it('should keep non-English titles readable in IDs', () => {
+            const root = parseMarkdownContent('# Guía\n\n## Configuración básica\n\n## 快速入门', 'guia');
+
+            expect(root.children[0].id).toMatch(/^configuracion-basica-[0-9a-f]{8}$/);
+            expect(root.children[1].id).toMatch(/^快速入门-[0-9a-f]{8}$/);
+        });
+
+        it('should keep IDs stable when unrelated sections change', () => {
+            const before = parseMarkdownContent('# Doc\n\n## Intro\n\nText\n\n## Setup\n\n### Linux', 'doc');
+            const after = parseMarkdownContent('# Doc\n\n## New First\n\n## Intro\n\nEdited\n\n## Setup\n\n### Linux\n\n### macOS', 'doc');
+
+            expect(after.children[1].id).toBe(before.children[0].id);
+            expect(after.children[2].children[0].id).toBe(before.children[1].children[0].id);
+        });
+    });
+
+    describe('front matter', () => {
+        it('should parse YAML front matter into root metadata', () => {
+            const markdown = `---
+tags: [billing, ops]
+audience: internal
+owner:
+  team: payments
+---
+# Runbook
+
+Body text.`;
+
+            const root = parseMarkdownContent(markdown, 'runbook');
+
+            expect(root.title).toBe('Runbook');
+            expect(root.metadata).toEqual({
+                tags: ['billing', 'ops'],
+                audience: 'internal',
+                owner: { team: 'payments' }
+            });
+            expect(root.content).toMatchObject([{ type: 'paragraph', text: 'Body text.' }]);
+        });
+
+        it('should use the front matter title when there is no H1', () => {
+            const root = parseMarkdownContent('---\ntitle: From YAML\n---\n## Section\n\nText', 'doc');
+
+            expect(root.title).toBe('From YAML');
+            expect(root.children[0].title).toBe('Section');
+        });
+
+        it('should leave invalid front matter in the body', () => {
+            const { metadata, body } = parseFrontMatter('---\ntags: [unclosed\n---\nText');
+
+            expect(metadata).toBeUndefined();
+            expect(body).toContain('Text');
+        });
+
+        it('should not treat a later horizontal rule as front matter', () => {
+            const { metadata, body } = parseFrontMatter('Intro\n---\nkey: value\n---\n');
+
+            expect(metadata).toBeUndefined();
+            expect(body).toBe('Intro\n---\nkey: value\n---\n');
+        });
+    });
+
+    describe('source positions', () => {
+        it('should record line and character ranges of sections and blocks', () => {
+            const markdown = '# Title\n\nIntro one\nintro two\n\n## A\n\n```js\ncode\n```\n\n### A.1\n- x\n- y\n\n## B\nLast';
+            const root = parseMarkdownContent(markdown, 'doc');
+            const slice = (p?: { startOffset: number; endOffset: number }) => markdown.slice(p!.startOffset, p!.endOffset);
+
+            const [a, b] = root.children;
+            expect(root.position).toMatchObject({ startLine: 1, endLine: 17 });
+            expect(a.position).toMatchObject({ startLine: 6, endLine: 14 });
+            expect(slice(a.position)).toBe('## A\n\n```js\ncode\n```\n\n### A.1\n- x\n- y');
+            expect(slice(a.children[0].position)).toBe('### A.1\n- x\n- y');
+            expect(slice(b.position)).toBe('## B\nLast');
+
+            const intro = root.content[0] as { position?: { startLine: number; endLine: number; startOffset: number; endOffset: number } };
+            expect(intro.position).toMatchObject({ startLine: 3, endLine: 4 });
+            expect(slice(intro.position)).toBe('Intro one\nintro two');
+            expect(slice((a.content[0] as typeof intro).position)).toBe('```js\ncode\n```');
+        });
+
+        it('should point into the original content with front matter and CRLF line endings', () => {
+            const markdown = '---\r\ntags: [a]\r\n---\r\n# Title\r\n\r\n## Section\r\nText here\r\n';
+            const root = parseMarkdownContent(markdown, 'doc');
+            const section = root.children[0];
+
+            expect(section.position).toMatchObject({ startLine: 6, endLine: 7 });
+            expect(markdown.slice(section.position!.startOffset, section.position!.endOffset)).toBe('## Section\r\nText here');
+            expect(root.position).toMatchObject({ startLine: 1, startOffset: 0 });
+        });
+    });
+
+    describe('parseMarkdownFile', () => {
+        it('should scope node IDs by the docId option or the file path', async () => {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'parser-'));
+            const filePath = path.join(dir, 'guide.md');
+            fs.writeFileSync(filePath, '# Guide\n\n## Setup\n\nRun it.\n\n### Deep\n\nDetails.\n');
+
+            try {
+                const content = fs.readFileSync(filePath, 'utf-8');
+                const root = await parseMarkdownFile(filePath, { docId: 'guide', maxDepth: 2 });
+                expect(root).toEqual(parseMarkdownContent(content, 'guide', { maxDepth: 2 }));
+                expect(root.children[0].children).toHaveLength(0);
+
+                expect(await parseMarkdownFile(filePath)).toEqual(parseMarkdownContent(content, filePath));
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
         });
     });
 
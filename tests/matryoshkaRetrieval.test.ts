@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+    upsertSection, replaceSectionChunks, deleteSection, searchKnn, getVectorStorageStats,
+    getEmbeddingSpace, setEmbeddingSpaceModel, prefixTableName, resetDerivedVectorTables,
+    getVectorDb, setDbPath, closeDb, SectionRow
+} from '../src/db/vectorStore';
+import { config } from '../src/config';
+import fs from 'node:fs';
+
+const TEST_DB_PATH = 'test-rag.db';
+const DIMENSIONS = 128;
+
+function cleanup() {
+    try {
+        if (fs.existsSync(TEST_DB_PATH)) {
+            fs.unlinkSync(TEST_DB_PATH);
+        }
+    } catch (error) {
+        // Ignore if file is locked (Windows issue)
+    }
+}
+
+// Seeded PRNG so the vectors (and the measured recall) are the same on every run
+function random(seed: number) {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Matryoshka-like vector: the leading dimensions carry most of the signal
+function matryoshkaVector(next: () => number): number[] {
+    const vector = Array.from({ length: DIMENSIONS }, (_, i) => (next() * 2 - 1) / Math.sqrt(1 + i / 4));
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return vector.map(v => v / norm);
+}
+
+function section(nodeId: string): SectionRow {
+    return { node_id: nodeId, doc_id: 'doc-1', level: 1, title: nodeId, is_leaf: 1, path: '[]', hash: 'h' };
+}
+
+function indexVectors(count: number): number[][] {
+    const next = random(7);
+    const vectors = Array.from({ length: count }, () => matryoshkaVector(next));
+    vectors.forEach((vector, i) => upsertSection(section(`s${i}`), vector));
+    return vectors;
+}
+
+function tableRows(table: string): number | undefined {
+    const db = getVectorDb();
+    if (!db.prepare('SELECT 1 FROM sqlite_master WHERE name = ?').get(table)) return undefined;
+    return db.prepare(`SELECT COUNT(*) FROM ${table}`).pluck().get() as number;
+}
+
+/**
+ * Mean overlap of the top-k of a search with the top-k of the full-dimension search
+ */
+function recall(queries: number[][], k: number, options: { prefixDimensions?: number; candidateMultiplier?: number }): number {
+    let total = 0;
+    for (const query of queries) {
+        const exact = new Set(searchKnn(query, k).map(h => h.node_id));
+        const twoStage = searchKnn(query, k, {}, options);
+        total += twoStage.filter(h => exact.has(h.node_id)).length / k;
+    }
+    return total / queries.length;
+}
+
+describe('two-stage Matryoshka retrieval', () => {
+    const original = { ...config.matryoshka };
+
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        cleanup();
+        setEmbeddingSpaceModel('test-model');
+    });
+
+    afterEach(() => {
+        config.matryoshka = { ...original };
+        setEmbeddingSpaceModel(null);
+        closeDb();
+        cleanup();
+        setDbPath('rag.db');
+    });
+
+    it('should rerank prefix candidates with full-dimension distances', () => {
+        const vectors = indexVectors(100);
+        const exact = searchKnn(vectors[3], 5);
+        const twoStage = searchKnn(vectors[3], 5, {}, { prefixDimensions: 32, candidateMultiplier: 10 });
+
+        expect(twoStage.map(h => h.node_id)).toEqual(exact.map(h => h.node_id));
+        twoStage.forEach((hit, i) => expect(hit.distance).toBeCloseTo(exact[i].distance, 5));
+        expect(twoStage[0]).toMatchObject({ node_id: 's3' });
+    });
+
+    it('should keep recall of the full-dimension search with enough candidates', () => {
+        indexVectors(400);
+        const next = random(99);
+        const queries = Array.from({ length: 20 }, () => matryoshkaVector(next));
+
+        const single = recall(queries, 10, { prefixDimensions: 16, candidateMultiplier: 1 });
+        const twoStage = recall(queries, 10, { prefixDimensions: 16, candidateMultiplier: 10 });
+
+        expect(twoStage).toBeGreaterThanOrEqual(0.9);
+        expect(twoStage).toBeGreaterThan(single);
+        expect(recall(queries, 10, { prefixDimensions: 64, candidateMultiplier: 10 })).toBeGreaterThanOrEqual(twoStage);
+    });
+
+    it('should build the configured prefix index and keep it in sync with writes', () => {
+        config.matryoshka.prefixDimensions = 32;
+        const vectors = indexVectors(20);
+        const spaceId = getEmbeddingSpace()!.id;
+
+        replaceSectionChunks('s0', [vectors[19]]);
+        deleteSection('s1');
+
+        expect(tableRows(prefixTableName('sections', spaceId, 32))).toBe(19);
+        expect(tableRows(prefixTableName('chunks', spaceId, 32))).toBe(1);
+
+        // Chunk hits come back through the prefix stage too
+        const hits = searchKnn(vectors[19], 2);
+        expect(hits.map(h => h.node_id).sort()).toEqual(['s0', 's19']);
+        expect(hits[1].distance).toBeCloseTo(0, 5);
+
+        // Other prefix sizes are compared on the full vectors, without an index
+        expect(searchKnn(vectors[2], 1, {}, { prefixDimensions: 64 })[0]).toMatchObject({ node_id: 's2' });
+        expect(tableRows(prefixTableName('sections', spaceId, 64))).toBeUndefined();
+        expect(getVectorStorageStats()[0].prefixIndexes).toEqual([
+            { dimensions: 32, bytes: 20 * 32 * 4 }
+        ]);
+
+        resetDerivedVectorTables(spaceId);
+        expect(tableRows(prefixTableName('sections', spaceId, 32))).toBeUndefined();
+        expect(getVectorStorageStats()[0].prefixIndexes).toEqual([]);
+    });
+
+    it('should reject invalid prefix sizes and multipliers', () => {
+        const vectors = indexVectors(5);
+
+        expect(() => searchKnn(vectors[0], 3, {}, { prefixDimensions: DIMENSIONS }))
+            .toThrow(/Prefix size must be between 1 and 127/);
+        expect(() => searchKnn(vectors[0], 3, {}, { prefixDimensions: 16, candidateMultiplier: 0 }))
+            .toThrow(/Candidate multiplier must be a positive integer/);
+
+        // A configured prefix the space is too small for falls back to single-stage search
+        config.matryoshka.prefixDimensions = 256;
+        expect(searchKnn(vectors[0], 1)[0]).toMatchObject({ node_id: 's0' });
+    });
+});
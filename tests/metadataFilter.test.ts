@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseMetadataFilter, validateMetadataFilter, buildMetadataClause } from '../src/search/metadataFilter';
+
+describe('metadataFilter', () => {
+    describe('parseMetadataFilter', () => {
+        it('should parse contains expressions', () => {
+            expect(parseMetadataFilter('tags contains "billing"'))
+                .toEqual({ field: 'tags', op: 'contains', value: 'billing' });
+        });
+
+        it('should parse list values for in', () => {
+            expect(parseMetadataFilter('audience in [internal, partners]'))
+                .toEqual({ field: 'audience', op: 'in', value: ['internal', 'partners'] });
+        });
+
+        it('should parse comparison operators and typed values', () => {
+            expect(parseMetadataFilter('priority >= 2')).toEqual({ field: 'priority', op: 'gte', value: 2 });
+            expect(parseMetadataFilter('draft = false')).toEqual({ field: 'draft', op: 'eq', value: false });
+            expect(parseMetadataFilter('owner.team != payments')).toEqual({ field: 'owner.team', op: 'neq', value: 'payments' });
+        });
+
+        it('should parse exists without a value', () => {
+            expect(parseMetadataFilter('owner exists')).toEqual({ field: 'owner', op: 'exists' });
+        });
+
+        it('should reject malformed expressions', () => {
+            expect(() => parseMetadataFilter('just-a-word')).toThrow(/Invalid metadata filter/);
+            expect(() => parseMetadataFilter('tags contains')).toThrow(/Missing value/);
+            expect(() => parseMetadataFilter('audience in internal')).toThrow(/list value/);
+        });
+    });
+
+    describe('validateMetadataFilter', () => {
+        it('should reject field names that could inject a JSON path', () => {
+            expect(() => validateMetadataFilter({ field: "tags') OR 1=1 --", op: 'eq', value: 'x' }))
+                .toThrow(/Invalid metadata field/);
+        });
+    });
+
+    describe('buildMetadataClause', () => {
+        it('should return an empty clause without filters', () => {
+            expect(buildMetadataClause([], 's.metadata')).toEqual({ clause: '', params: [] });
+        });
+
+        it('should bind paths and values as parameters', () => {
+            const { clause, params } = buildMetadataClause([
+                { field: 'tags', op: 'contains', value: 'billing' },
+                { field: 'draft', op: 'eq', value: true }
+            ], 's.metadata');
+
+            expect(clause).toBe(
+                'EXISTS (SELECT 1 FROM json_each(s.metadata, ?) WHERE value = ?) AND json_extract(s.metadata, ?) = ?'
+            );
+            expect(params).toEqual(['$.tags', 'billing', '$.draft', 1]);
+        });
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { migrateNodeIds } from '../src/cli/migrateNodeIds';
+import { upsertSection, getSectionMeta, getDocNodeIds, setDbPath, closeDb } from '../src/db/vectorStore';
+import { upsertEdge, getOutgoingEdges } from '../src/db/graphStore';
+import { saveDocument, loadDocument, Document } from '../src/db/documentStore';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import { parseMarkdownContent } from '../src/markdownParser';
+import { embed } from '../src/embeddings';
+import { calculateHash } from '../src/indexer';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup } from './helpers';
+
+/**
+ * A document as stored by older versions: section IDs derived from the title only
+ */
+function legacyDocument(docId: string, title: string): Document {
+    return {
+        docId,
+        title,
+        version: 1,
+        root: {
+            id: `${docId}.md`,
+            type: 'document',
+            level: 0,
+            title,
+            content: [],
+            children: [
+                { id: 'overview-legacy', type: 'section', level: 2, title: 'Overview', content: [`${title} overview`], children: [] }
+            ]
+        },
+        nodes: {
+            [`${docId}.md`]: { id: `${docId}.md`, parentId: null, childrenIds: ['overview-legacy'], level: 0 },
+            'overview-legacy': { id: 'overview-legacy', parentId: `${docId}.md`, childrenIds: [], level: 2 }
+        }
+    };
+}
+
+describe('migrateNodeIds', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should re-key colliding IDs, rows and edges per document', async () => {
+        const docA = legacyDocument('doc-a', 'Alpha');
+        const docB = legacyDocument('doc-b', 'Beta');
+        await saveDocument(docA);
+        await saveDocument(docB);
+
+        // The shared "overview-legacy" row was last written by doc-b
+        const emb = await embed('Overview');
+        upsertSection({ node_id: 'doc-a.md', doc_id: 'doc-a', level: 0, title: 'Alpha', is_leaf: 0, path: '[]', hash: 'x' }, emb);
+        // Same content as doc-b's section, so the re-sync keeps its derived edges
+        const hashB = calculateHash(docB.root.children[0]);
+        upsertSection({ node_id: 'overview-legacy', doc_id: 'doc-b', level: 2, title: 'Overview', is_leaf: 1, path: '[]', hash: hashB }, emb);
+        upsertEdge({ from_node_id: 'overview-legacy', to_node_id: 'concept:overview', type: 'REFERS_TO' });
+
+        const result = await migrateNodeIds();
+
+        const expectedA = parseMarkdownContent('# Alpha\n\n## Overview', 'doc-a');
+        const expectedB = parseMarkdownContent('# Beta\n\n## Overview', 'doc-b');
+        const newA = expectedA.children[0].id;
+        const newB = expectedB.children[0].id;
+
+        expect(result.documents).toBe(2);
+        expect(result.renamedRows).toBe(2);
+        expect(newA).not.toBe(newB);
+
+        // JSON store uses the new IDs, roots are keyed by docId
+        const storedA = await loadDocument('doc-a');
+        expect(storedA?.root.id).toBe('doc-a');
+        expect(storedA?.root.children[0].id).toBe(newA);
+        expect(Object.keys(storedA!.nodes).sort()).toEqual(['doc-a', newA].sort());
+
+        // Both sections have their own row after the re-sync
+        expect(getDocNodeIds('doc-a').sort()).toEqual(['doc-a', newA].sort());
+        expect(getDocNodeIds('doc-b').sort()).toEqual(['doc-b', newB].sort());
+        expect(getSectionMeta('overview-legacy')).toBeUndefined();
+
+        // The edge follows the row owner
+        expect(getOutgoingEdges('overview-legacy')).toHaveLength(0);
+        expect(getOutgoingEdges(newB, 'REFERS_TO').map(e => e.to_node_id)).toEqual(['concept:overview']);
+    });
+
+    it('should be a no-op when run twice', async () => {
+        await saveDocument(legacyDocument('doc-a', 'Alpha'));
+
+        await migrateNodeIds({ sync: false });
+        const second = await migrateNodeIds({ sync: false });
+
+        expect(second.renamedNodes).toBe(0);
+        expect(second.renamedRows).toBe(0);
+    });
+});
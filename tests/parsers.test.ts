@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { resolveParser, getParser, getParserForFile, getParserForMimeType, registerParser, listParsers } from '../src/parsers';
+import { htmlParser } from '../src/parsers/html';
+import { rstParser } from '../src/parsers/rst';
+import { asciidocParser } from '../src/parsers/asciidoc';
+import { ipynbParser } from '../src/parsers/ipynb';
+import { parseMarkdownContent } from '../src/markdownParser';
+
+describe('parsers', () => {
+    describe('registry', () => {
+        it('should resolve parsers by extension and MIME type', () => {
+            expect(getParserForFile('docs/guide.md')?.name).toBe('markdown');
+            expect(getParserForFile('export/Page.HTML')?.name).toBe('html');
+            expect(getParserForFile('conf/index.rst')?.name).toBe('rst');
+            expect(getParserForFile('book.adoc')?.name).toBe('asciidoc');
+            expect(getParserForFile('analysis.ipynb')?.name).toBe('ipynb');
+            expect(getParserForFile('image.png')).toBeUndefined();
+
+            expect(getParserForMimeType('text/html; charset=utf-8')?.name).toBe('html');
+            expect(getParser('.htm')?.name).toBe('html');
+        });
+
+        it('should default to markdown and reject unknown explicit formats', () => {
+            expect(resolveParser({}).name).toBe('markdown');
+            expect(resolveParser({ filePath: 'notes.unknown' }).name).toBe('markdown');
+            expect(resolveParser({ format: 'rst', filePath: 'x.html' }).name).toBe('rst');
+            expect(() => resolveParser({ format: 'docx' })).toThrow(/Unsupported document format/);
+            expect(() => resolveParser({ mimeType: 'application/pdf' })).toThrow(/Unsupported MIME type/);
+        });
+
+        it('should accept custom parsers', () => {
+            registerParser({
+                name: 'plain',
+                extensions: ['.plain'],
+                mimeTypes: [],
+                parse: (content, docId) => parseMarkdownContent(`# Plain\n\n${content}`, docId)
+            });
+
+            expect(listParsers().map(p => p.name)).toContain('plain');
+            expect(resolveParser({ filePath: 'a.plain' }).parse('Hello', 'a').content)
+                .toMatchObject([{ type: 'paragraph', text: 'Hello' }]);
+        });
+    });
+
+    describe('html', () => {
+        it('should build sections and typed blocks', () => {
+            const root = htmlParser.parse(`<html><head><title>Ignored</title></head><body>
+                <h1>API &amp; SDK</h1>
+                <p>Intro <em>text</em>.</p>
+                <h2>Install</h2>
+                <pre><code class="language-bash">npm install &lt;pkg&gt;</code></pre>
+                <ul><li>One</li><li><p>Two</p></li></ul>
+                <h3>Limits</h3>
+                <table><tr><th>Plan</th><th>RPS</th></tr><tr><td>Free</td><td>10</td></tr></table>
+                <script>ignored()</script>
+            </body></html>`, 'api');
+
+            expect(root.title).toBe('API & SDK');
+            expect(root.content).toEqual([{ type: 'paragraph', text: 'Intro text.' }]);
+
+            const install = root.children[0];
+            expect(install.title).toBe('Install');
+            expect(install.content).toEqual([
+                { type: 'code', language: 'bash', code: 'npm install <pkg>' },
+                { type: 'list', ordered: false, items: [{ text: 'One', depth: 0 }, { text: 'Two', depth: 0 }] }
+            ]);
+            expect(install.children[0].content).toEqual([{ type: 'table', headers: ['Plan', 'RPS'], rows: [['Free', '10']] }]);
+        });
+
+        it('should use <title> when there is no <h1>', () => {
+            expect(htmlParser.parse('<title>Page</title><h2>Part</h2>', 'p').title).toBe('Page');
+        });
+    });
+
+    describe('rst', () => {
+        it('should map adornment styles to heading levels', () => {
+            const root = rstParser.parse(`=====
+Guide
+=====
+
+Install
+=======
+
+Run::
+
+    pip install pkg
+
+Options
+-------
+
+.. code-block:: python
+   :linenos:
+
+   print("hi")
+
+.. note:: Read this.
+
+Usage
+=======
+
+Text with \`\`code\`\`.
+`, 'guide');
+
+            expect(root.title).toBe('Guide');
+            expect(root.children.map(c => c.title)).toEqual(['Install', 'Usage']);
+
+            const install = root.children[0];
+            expect(install.content).toEqual([
+                { type: 'paragraph', text: 'Run:' },
+                { type: 'code', language: undefined, code: 'pip install pkg' }
+            ]);
+            expect(install.children[0].title).toBe('Options');
+            expect(install.children[0].content).toEqual([
+                { type: 'code', language: 'python', code: 'print("hi")' },
+                { type: 'blockquote', text: 'Note: Read this.' }
+            ]);
+            expect(root.children[1].content).toEqual([{ type: 'paragraph', text: 'Text with `code`.' }]);
+        });
+    });
+
+    describe('asciidoc', () => {
+        it('should parse titles, header attributes and blocks', () => {
+            const root = asciidocParser.parse(`= User Manual
+:author: Jane Doe
+:tags: manual
+
+Preamble.
+
+== Setup
+
+[source,yaml]
+----
+port: 80
+----
+
+* First
+** Nested
+
+=== Matrix
+
+|===
+|Name |Value
+
+|a
+|1
+|===
+`, 'manual');
+
+            expect(root.title).toBe('User Manual');
+            expect(root.metadata).toEqual({ author: 'Jane Doe', tags: 'manual' });
+            expect(root.content).toEqual([{ type: 'paragraph', text: 'Preamble.' }]);
+
+            const setup = root.children[0];
+            expect(setup.title).toBe('Setup');
+            expect(setup.content).toEqual([
+                { type: 'code', language: 'yaml', code: 'port: 80' },
+                { type: 'list', ordered: false, items: [{ text: 'First', depth: 0 }, { text: 'Nested', depth: 1 }] }
+            ]);
+            expect(setup.children[0].content).toEqual([{ type: 'table', headers: ['Name', 'Value'], rows: [['a', '1']] }]);
+        });
+    });
+
+    describe('ipynb', () => {
+        it('should turn markdown cells into sections and code cells into code blocks', () => {
+            const notebook = {
+                cells: [
+                    { cell_type: 'markdown', source: ['# Analysis\n', '\n', 'Loading data.'] },
+                    { cell_type: 'code', source: 'import pandas as pd\ndf = pd.read_csv("x.csv")', outputs: [] },
+                    { cell_type: 'markdown', source: '## Results' },
+                    { cell_type: 'code', source: [] }
+                ],
+                metadata: { language_info: { name: 'python' } },
+                nbformat: 4
+            };
+
+            const root = ipynbParser.parse(JSON.stringify(notebook), 'analysis');
+
+            expect(root.title).toBe('Analysis');
+            expect(root.content).toEqual([
+                { type: 'paragraph', text: 'Loading data.' },
+                { type: 'code', language: 'python', code: 'import pandas as pd\ndf = pd.read_csv("x.csv")' }
+            ]);
+            expect(root.children[0].title).toBe('Results');
+        });
+
+        it('should reject invalid notebooks', () => {
+            expect(() => ipynbParser.parse('not json', 'x')).toThrow(/Invalid notebook/);
+            expect(() => ipynbParser.parse('{"nbformat": 3}', 'x')).toThrow(/cells/);
+        });
+    });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+    upsertSection, replaceSectionChunks, deleteSection, searchKnn, measureQuantizationRecall, getVectorStorageStats,
+    getEmbeddingSpace, setEmbeddingSpaceModel, quantizedTableName, getVectorDb, runInTransaction, setDbPath, closeDb, SectionRow
+} from '../src/db/vectorStore';
+import { bytesPerVector, getQuantizationInfo } from '../src/embeddings/quantization';
+import { config } from '../src/config';
+import fs from 'node:fs';
+
+const TEST_DB_PATH = 'test-rag.db';
+const DIMENSIONS = 64;
+
+function cleanup() {
+    try {
+        if (fs.existsSync(TEST_DB_PATH)) {
+            fs.unlinkSync(TEST_DB_PATH);
+        }
+    } catch (error) {
+        // Ignore if file is locked (Windows issue)
+    }
+}
+
+// Seeded PRNG so the vectors (and the measured recall) are the same on every run
+function random(seed: number) {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function unitVector(next: () => number): number[] {
+    const vector = Array.from({ length: DIMENSIONS }, () => next() * 2 - 1);
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return vector.map(v => v / norm);
+}
+
+function section(nodeId: string): SectionRow {
+    return { node_id: nodeId, doc_id: 'doc-1', level: 1, title: nodeId, is_leaf: 1, path: '[]', hash: 'h' };
+}
+
+function indexVectors(count: number): number[][] {
+    const next = random(42);
+    const vectors = Array.from({ length: count }, () => unitVector(next));
+    vectors.forEach((vector, i) => upsertSection(section(`s${i}`), vector));
+    return vectors;
+}
+
+function tableRows(table: string): number | undefined {
+    const db = getVectorDb();
+    if (!db.prepare('SELECT 1 FROM sqlite_master WHERE name = ?').get(table)) return undefined;
+    return db.prepare(`SELECT COUNT(*) FROM ${table}`).pluck().get() as number;
+}
+
+describe('vector quantization', () => {
+    const original = { ...config.quantization };
+
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        cleanup();
+        setEmbeddingSpaceModel('test-model');
+    });
+
+    afterEach(() => {
+        config.quantization = { ...original };
+        setEmbeddingSpaceModel(null);
+        closeDb();
+        cleanup();
+        setDbPath('rag.db');
+    });
+
+    it('should report storage per vector for each mode', () => {
+        expect(bytesPerVector(768, 'float32')).toBe(3072);
+        expect(bytesPerVector(768, 'int8')).toBe(768);
+        expect(bytesPerVector(768, 'binary')).toBe(96);
+
+        config.quantization.mode = 'binary';
+        expect(getQuantizationInfo(768)).toMatchObject({
+            mode: 'binary', bytesPerVector: 96, float32BytesPerVector: 3072, storedBytesPerVector: 3168, scanReduction: 32
+        });
+
+        // Without quantization only the float32 vectors are stored
+        config.quantization.mode = 'float32';
+        expect(getQuantizationInfo(768)).toMatchObject({ storedBytesPerVector: 3072, scanReduction: 1 });
+    });
+
+    it('should rescore int8 candidates with exact float distances', () => {
+        const vectors = indexVectors(100);
+        const exact = searchKnn(vectors[7], 5);
+
+        config.quantization.mode = 'int8';
+        const quantized = searchKnn(vectors[7], 5);
+
+        expect(tableRows(quantizedTableName('sections', getEmbeddingSpace()!.id, 'int8'))).toBe(100);
+        expect(quantized.map(h => h.node_id)).toEqual(exact.map(h => h.node_id));
+        quantized.forEach((hit, i) => expect(hit.distance).toBeCloseTo(exact[i].distance, 5));
+        expect(quantized[0]).toMatchObject({ node_id: 's7' });
+    });
+
+    it('should keep the quantized copy in sync with writes and mode changes', () => {
+        config.quantization.mode = 'binary';
+        const vectors = indexVectors(20);
+        const spaceId = getEmbeddingSpace()!.id;
+
+        replaceSectionChunks('s0', [vectors[19]]);
+        deleteSection('s1');
+
+        expect(tableRows(quantizedTableName('sections', spaceId, 'binary'))).toBe(19);
+        expect(tableRows(quantizedTableName('chunks', spaceId, 'binary'))).toBe(1);
+
+        // Switching modes builds the new copy and drops the old one
+        config.quantization.mode = 'int8';
+        searchKnn(vectors[0], 3);
+        expect(tableRows(quantizedTableName('sections', spaceId, 'int8'))).toBe(19);
+        expect(tableRows(quantizedTableName('sections', spaceId, 'binary'))).toBeUndefined();
+
+        config.quantization.mode = 'float32';
+        searchKnn(vectors[0], 3);
+        expect(tableRows(quantizedTableName('sections', spaceId, 'int8'))).toBeUndefined();
+    });
+
+    it('should create the quantized tables again after a rolled back transaction', () => {
+        const vectors = indexVectors(10);
+        const spaceId = getEmbeddingSpace()!.id;
+        config.quantization.mode = 'int8';
+
+        expect(() => runInTransaction(() => {
+            upsertSection(section('s10'), vectors[0]);
+            throw new Error('sync failed');
+        })).toThrow('sync failed');
+        expect(tableRows(quantizedTableName('sections', spaceId, 'int8'))).toBeUndefined();
+
+        upsertSection(section('s10'), vectors[0]);
+        expect(tableRows(quantizedTableName('sections', spaceId, 'int8'))).toBe(11);
+        expect(searchKnn(vectors[3], 1)[0]).toMatchObject({ node_id: 's3' });
+    });
+
+    it('should measure recall against exact search', () => {
+        indexVectors(300);
+        expect(measureQuantizationRecall()).toBeUndefined();
+
+        config.quantization.mode = 'int8';
+        const int8 = measureQuantizationRecall({ queries: 20, k: 10 })!;
+        expect(int8).toMatchObject({ mode: 'int8', k: 10, queries: 20 });
+        expect(int8.recall).toBeGreaterThanOrEqual(0.95);
+        expect(getQuantizationInfo(DIMENSIONS).recall).toEqual(int8);
+
+        config.quantization.mode = 'binary';
+        config.quantization.rescoreFactor = 1;
+        const withoutRescoring = measureQuantizationRecall({ queries: 20, k: 10 })!;
+        config.quantization.rescoreFactor = 8;
+        const binary = measureQuantizationRecall({ queries: 20, k: 10 })!;
+
+        expect(binary.recall).toBeGreaterThan(withoutRescoring.recall);
+        expect(binary.recall).toBeGreaterThanOrEqual(binary.candidateRecall);
+    });
+
+    it('should report stored vectors and their size per space', () => {
+        config.quantization.mode = 'int8';
+        indexVectors(10);
+
+        expect(getVectorStorageStats()).toEqual([{
+            id: getEmbeddingSpace()!.id,
+            model: 'test-model',
+            dimensions: DIMENSIONS,
+            sections: 10,
+            chunks: 0,
+            float32Bytes: 10 * DIMENSIONS * 4,
+            quantizedBytes: 10 * DIMENSIONS,
+            prefixIndexes: [],
+            totalBytes: 10 * DIMENSIONS * 5
+        }]);
+    });
+
+    it('should reject binary quantization of dimensions not divisible by 8', () => {
+        config.quantization.mode = 'binary';
+        expect(() => upsertSection(section('odd'), unitVector(random(1)).slice(0, 60)))
+            .toThrow(/divisible by 8/);
+    });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { expandQuery, expandQueryWithRules } from '../src/generation/queryExpansion';
+import { multiQuerySearch } from '../src/search/multiQuery';
+import { graphRagQuery, type GraphRagEvent } from '../src/graph/graphRagEngine';
+import { indexDocument } from '../src/indexer';
+import { setDbPath, closeDb } from '../src/db/vectorStore';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import type { ChatProvider } from '../src/generation';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup, createDocument } from './helpers';
+
+const chat = (complete: ChatProvider['complete']): ChatProvider => ({ name: 'test', model: 'test-1', complete });
+
+describe('query expansion', () => {
+    it('should derive a keyword paraphrase and sub-questions with rules', () => {
+        expect(expandQueryWithRules('How do retries and rate limits work?', { paraphrases: 1, subQuestions: 2 })).toEqual({
+            method: 'rules',
+            variants: [
+                { kind: 'original', text: 'How do retries and rate limits work?' },
+                { kind: 'paraphrase', text: 'retries rate limits work' },
+                { kind: 'subquestion', text: 'retries' },
+                { kind: 'subquestion', text: 'rate limits work' }
+            ]
+        });
+
+        // Simple questions only get the paraphrase
+        expect(expandQueryWithRules('What are webhooks?', { paraphrases: 1, subQuestions: 2 }).variants.map(v => v.kind))
+            .toEqual(['original', 'paraphrase']);
+    });
+
+    it('should expand with the chat provider and fall back to rules', async () => {
+        let prompt = '';
+        const provider = chat(async messages => {
+            prompt = messages[1].content;
+            return 'Sure:\n{"paraphrases": ["How are failed requests retried?", "how do retries and rate limits work?"], ' +
+                '"subQuestions": ["How do retries work?"], "hypotheticalAnswer": "Failed requests are retried with backoff."}';
+        });
+
+        const expanded = await expandQuery('How do retries and rate limits work?', { paraphrases: 2, subQuestions: 1, hyde: true, provider });
+        expect(expanded).toEqual({
+            method: 'llm',
+            variants: [
+                { kind: 'original', text: 'How do retries and rate limits work?' },
+                { kind: 'paraphrase', text: 'How are failed requests retried?' },
+                { kind: 'subquestion', text: 'How do retries work?' },
+                { kind: 'hyde', text: 'Failed requests are retried with backoff.' }
+            ]
+        });
+        expect(prompt).toContain('"hypotheticalAnswer"');
+
+        const failing = chat(async () => 'I cannot help with that.');
+        const fallback = await expandQuery('How do retries and rate limits work?', { hyde: true, provider: failing });
+        expect(fallback.method).toBe('rules');
+        expect(fallback.variants.some(v => v.kind === 'hyde')).toBe(false);
+    });
+});
+
+describe('multi-query retrieval', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    const indexApi = () => indexDocument(createDocument('api', [
+        '# API Gateway',
+        '',
+        '## Rate Limits',
+        '',
+        'The gateway allows 100 requests per minute.',
+        '',
+        '## Retries',
+        '',
+        'Failed requests are retried with exponential backoff.',
+        '',
+        '## Errors',
+        '',
+        'Errors use JSON bodies.',
+        ''
+    ].join('\n')));
+
+    it('should fuse the results of every variant and report their contributions', async () => {
+        await indexApi();
+
+        const result = await multiQuerySearch([
+            { kind: 'original', text: 'rate limits' },
+            { kind: 'subquestion', text: 'exponential backoff' }
+        ], 2);
+
+        expect(result.seeds).toHaveLength(2);
+        expect(result.variants.map(v => v.kind)).toEqual(['original', 'subquestion']);
+        expect(result.variants.every(v => v.vectorHits === 2)).toBe(true);
+        expect(result.variants[1].keywordHits).toBeGreaterThan(0);
+
+        const total = result.variants.reduce((sum, v) => sum + v.contribution, 0);
+        expect(total).toBeCloseTo(1);
+        for (const variant of result.variants) {
+            expect(variant.seeds).toBeLessThanOrEqual(2);
+            expect(variant.unique).toBeLessThanOrEqual(variant.seeds);
+        }
+
+        const vectorOnly = await multiQuerySearch([{ kind: 'original', text: 'rate limits' }], 2, {}, { keyword: false });
+        expect(vectorOnly.variants[0]).toMatchObject({ keywordHits: 0, seeds: 2, unique: 2, contribution: 1 });
+    });
+
+    it('should report the expansion of graph RAG queries', async () => {
+        await indexApi();
+        const events: GraphRagEvent[] = [];
+
+        const result = await graphRagQuery('How do retries and rate limits work?', {
+            k: 2,
+            expand: { mode: 'rules', rrfK: 10 },
+            onEvent: event => events.push(event)
+        });
+
+        expect(result.sources.length).toBeGreaterThan(0);
+        expect(result.metadata.expansion).toMatchObject({
+            method: 'rules',
+            fusion: { method: 'rrf', rrfK: 10, keyword: true }
+        });
+        expect(result.metadata.expansion!.variants[0]).toMatchObject({ kind: 'original', text: 'How do retries and rate limits work?' });
+
+        expect(events.map(e => e.type).slice(0, 2)).toEqual(['variants', 'seeds']);
+
+        const plain = await graphRagQuery('How do retries and rate limits work?', { k: 2 });
+        expect(plain.metadata.expansion).toBeUndefined();
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createSession, getSession, listSessions, deleteSession, addSessionTurn, getSessionTurns } from '../src/db/sessionStore';
+import { rewriteQuery, rewriteQueryWithRules, type HistoryTurn } from '../src/generation/queryRewriter';
+import { askInSession } from '../src/conversation';
+import { indexDocument } from '../src/indexer';
+import { setDbPath, closeDb, searchKnn } from '../src/db/vectorStore';
+import { setJsonPath, resetDb } from '../src/db/jsonStore';
+import type { ChatProvider } from '../src/generation';
+import { TEST_DB_PATH, TEST_JSON_PATH, cleanup, createDocument } from './helpers';
+
+// Let a test make the vector search come back empty
+vi.mock('../src/db/vectorStore', async (importOriginal) => {
+    const original = await importOriginal<typeof import('../src/db/vectorStore')>();
+    return { ...original, searchKnn: vi.fn(original.searchKnn) };
+});
+
+const history = (...queries: string[]): HistoryTurn[] =>
+    queries.map(query => ({ query, standaloneQuery: query, rewrite: 'none', answer: 'An answer.' }));
+
+const chat = (complete: ChatProvider['complete']): ChatProvider => ({ name: 'test', model: 'test-1', complete });
+
+describe('follow-up rewriting', () => {
+    it('should replace pronouns with the topic of the last question', () => {
+        const turns = history('What is the API gateway?');
+
+        expect(rewriteQueryWithRules('What about its limits?', turns))
+            .toEqual({ query: "What about the API gateway's limits?", method: 'rules' });
+        expect(rewriteQueryWithRules('How does it retry?', turns).query).toBe('How does the API gateway retry?');
+        expect(rewriteQueryWithRules('Tell me about webhooks', turns)).toEqual({ query: 'Tell me about webhooks', method: 'none' });
+    });
+
+    it('should add the topic to elliptical follow-ups', () => {
+        const turns = [
+            ...history('What are webhooks?'),
+            { query: 'And retries?', standaloneQuery: 'And retries regarding webhooks?', rewrite: 'rules' as const, answer: '' }
+        ];
+
+        // The topic comes from the last question asked on its own
+        expect(rewriteQueryWithRules('What about pricing?', turns).query).toBe('What about pricing regarding webhooks?');
+    });
+
+    it('should rewrite with the chat provider and fall back to rules', async () => {
+        const turns = history('What is the API gateway?');
+        let prompt = '';
+        const provider = chat(async messages => {
+            prompt = messages[1].content;
+            return 'Standalone question: "What are the rate limits of the API gateway?"';
+        });
+
+        expect(await rewriteQuery('What about its limits?', turns, { provider }))
+            .toEqual({ query: 'What are the rate limits of the API gateway?', method: 'llm' });
+        expect(prompt).toContain('User: What is the API gateway?\nAssistant: An answer.');
+
+        const failing = chat(async () => { throw new Error('offline'); });
+        expect(await rewriteQuery('What about its limits?', turns, { provider: failing }))
+            .toEqual({ query: "What about the API gateway's limits?", method: 'rules' });
+
+        expect(await rewriteQuery('What about its limits?', [], { provider })).toEqual({ query: 'What about its limits?', method: 'none' });
+    });
+});
+
+describe('sessions', () => {
+    beforeEach(() => {
+        closeDb();
+        setDbPath(TEST_DB_PATH);
+        resetDb();
+        setJsonPath(TEST_JSON_PATH);
+        cleanup();
+    });
+
+    afterEach(() => {
+        closeDb();
+        resetDb();
+        cleanup();
+        setDbPath('rag.db');
+        setJsonPath('documents.json');
+    });
+
+    it('should store sessions and number their turns', () => {
+        const session = createSession({ principal: 'alice', title: ' Limits ' });
+        createSession({ principal: 'bob' });
+
+        const turn = { query: 'q', standaloneQuery: 'q', rewrite: 'none' as const, answer: 'a', sources: [], cited: ['n1'] };
+        expect(addSessionTurn(session.id, turn).turn).toBe(1);
+        expect(addSessionTurn(session.id, { ...turn, query: 'q2' }).turn).toBe(2);
+        expect(() => addSessionTurn('ses_missing', turn)).toThrow(/Session not found/);
+
+        expect(getSession(session.id)).toMatchObject({ principal: 'alice', title: 'Limits', turns: 2 });
+        expect(getSessionTurns(session.id).map(t => t.query)).toEqual(['q', 'q2']);
+        expect(getSessionTurns(session.id, 1).map(t => t.query)).toEqual(['q2']);
+        expect(listSessions('alice').map(s => s.id)).toEqual([session.id]);
+        expect(listSessions()).toHaveLength(2);
+
+        expect(deleteSession(session.id)).toBe(true);
+        expect(getSession(session.id)).toBeUndefined();
+        expect(getSessionTurns(session.id)).toEqual([]);
+    });
+
+    it('should rewrite follow-ups and carry cited sections into the next turn', async () => {
+        await indexDocument(createDocument('api', '# API Gateway\n\n## Rate Limits\n\nThe gateway allows 100 requests per minute.\n\n## Errors\n\nErrors use JSON bodies.\n'));
+        const session = createSession();
+
+        const first = await askInSession(session.id, 'What is the API gateway?', { k: 3, expandGraph: false, rewrite: 'rules' });
+        expect(first).toMatchObject({ turn: 1, rewrite: 'none', carried: [] });
+        const cited = getSessionTurns(session.id)[0].cited;
+        expect(cited).toHaveLength(3);
+
+        const second = await askInSession(session.id, 'What about its limits?', { k: 1, expandGraph: false, rewrite: 'rules' });
+        expect(second).toMatchObject({
+            query: 'What about its limits?',
+            standaloneQuery: "What about the API gateway's limits?",
+            rewrite: 'rules',
+            turn: 2
+        });
+
+        // The retrieved section, then the other sections cited by the first turn
+        expect(second.sources).toHaveLength(3);
+        expect(second.carried).toHaveLength(2);
+        expect(second.sources.filter(s => s.carried).map(s => s.nodeId)).toEqual(second.carried);
+        expect(cited).toEqual(expect.arrayContaining(second.carried));
+
+        const turns = getSessionTurns(session.id);
+        expect(turns.map(t => t.standaloneQuery)).toEqual(['What is the API gateway?', "What about the API gateway's limits?"]);
+        expect(turns[1].sources).toHaveLength(3);
+    });
+
+    it('should keep the carried sections when a follow-up retrieves nothing', async () => {
+        await indexDocument(createDocument('api', '# API Gateway\n\n## Rate Limits\n\nThe gateway allows 100 requests per minute.\n'));
+        const session = createSession();
+
+        await askInSession(session.id, 'What is the API gateway?', { k: 2, expandGraph: false, rewrite: 'rules' });
+        const cited = getSessionTurns(session.id)[0].cited;
+
+        vi.mocked(searchKnn).mockReturnValueOnce([]);
+        const second = await askInSession(session.id, 'What about its limits?', { k: 2, rewrite: 'rules' });
+
+        expect(second.carried).toEqual(cited);
+        expect(second.sources.map(s => s.nodeId)).toEqual(cited);
+        expect(second.answer).not.toBe('No relevant documents found.');
+    });
+
+    it('should reject turns of unknown sessions', async () => {
+        await expect(askInSession('ses_missing', 'Hello')).rejects.toThrow(/Session not found/);
+    });
+});
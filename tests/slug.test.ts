@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { slugify, transliterate } from '../src/slug';
+
+describe('slug', () => {
+    describe('transliterate', () => {
+        it('should strip accents from Latin letters', () => {
+            expect(transliterate('Configuración avanzada: año, pingüino')).toBe('Configuracion avanzada: ano, pinguino');
+        });
+
+        it('should expand Latin letters without a decomposition', () => {
+            expect(transliterate('Straße Æsir Łódź')).toBe('Strasse AEsir Lodz');
+        });
+
+        it('should keep other scripts untouched', () => {
+            expect(transliterate('データベース')).toBe('データベース');
+            expect(transliterate('Привет')).toBe('Привет');
+        });
+    });
+
+    describe('slugify', () => {
+        it('should keep ASCII titles as before', () => {
+            expect(slugify('Getting Started: Step 1')).toBe('getting-started-step-1');
+        });
+
+        it('should transliterate Spanish and German titles', () => {
+            expect(slugify('¿Qué es la Recuperación?')).toBe('que-es-la-recuperacion');
+            expect(slugify('Über die Größe')).toBe('uber-die-grosse');
+        });
+
+        it('should keep CJK and other non-Latin titles', () => {
+            expect(slugify('快速入门')).toBe('快速入门');
+            expect(slugify('Введение в RAG')).toBe('введение-в-rag');
+        });
+
+        it('should only produce URL path safe characters', () => {
+            const slug = slugify('a/b?c#d%e&f 日本');
+
+            expect(slug).toBe('abcdef-日本');
+            expect(decodeURIComponent(encodeURIComponent(slug))).toBe(slug);
+            expect(slug).not.toMatch(/[/?#%&\s]/);
+        });
+
+        it('should cut long titles without splitting characters', () => {
+            const slug = slugify('𠀀'.repeat(60));
+
+            expect(Array.from(slug)).toHaveLength(50);
+        });
+    });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { upsertSection, searchKnn, getSectionMeta, deleteSection, getDocNodeIds, SectionRow, setDbPath, closeDb } from '../src/db/vectorStore';
+import { upsertSection, searchKnn, getSectionMeta, deleteSection, getDocNodeIds, filterNodeIds, SectionRow, SearchFilters, setDbPath, closeDb } from '../src/db/vectorStore';
 import { embed } from '../src/embeddings';
+import { config } from '../src/config';
 import fs from 'node:fs';
 
 const TEST_DB_PATH = 'test-rag.db';
@@ -218,6 +219,139 @@ describe('vectorStore', () => {
             const branchNode = results.find(r => r.node_id === 'branch');
             expect(branchNode).toBeUndefined();
         });
+
+        it('should filter by document metadata', async () => {
+            const emb = await embed('Billing content');
+
+            upsertSection({
+                node_id: 'internal',
+                doc_id: 'doc-1',
+                level: 1,
+                title: 'Internal',
+                is_leaf: 1,
+                path: '[]',
+                hash: 'h1',
+                metadata: JSON.stringify({ tags: ['billing', 'ops'], audience: 'internal', priority: 2 })
+            }, emb);
+
+            upsertSection({
+                node_id: 'public',
+                doc_id: 'doc-2',
+                level: 1,
+                title: 'Public',
+                is_leaf: 1,
+                path: '[]',
+                hash: 'h2',
+                metadata: JSON.stringify({ tags: ['billing'], audience: 'public', priority: 5 })
+            }, emb);
+
+            upsertSection({
+                node_id: 'untagged',
+                doc_id: 'doc-3',
+                level: 1,
+                title: 'Untagged',
+                is_leaf: 1,
+                path: '[]',
+                hash: 'h3'
+            }, emb);
+
+            const ids = (filters: SearchFilters) => searchKnn(emb, 5, filters).map(r => r.node_id).sort();
+
+            expect(ids({ metadata: [{ field: 'tags', op: 'contains', value: 'billing' }] })).toEqual(['internal', 'public']);
+            expect(ids({ metadata: [{ field: 'tags', op: 'contains', value: 'ops' }] })).toEqual(['internal']);
+            expect(ids({ metadata: [{ field: 'audience', op: 'in', value: ['public', 'partners'] }] })).toEqual(['public']);
+            expect(ids({ metadata: [{ field: 'priority', op: 'gte', value: 3 }] })).toEqual(['public']);
+            expect(ids({ metadata: [{ field: 'audience', op: 'exists' }] })).toEqual(['internal', 'public']);
+            expect(ids({
+                doc_id: 'doc-1',
+                metadata: [{ field: 'tags', op: 'contains', value: 'billing' }]
+            })).toEqual(['internal']);
+        });
+
+        it('should filter by lists and ranges', async () => {
+            for (let level = 1; level <= 4; level++) {
+                upsertSection({
+                    node_id: `n${level}`,
+                    doc_id: `doc-${level}`,
+                    level,
+                    title: `Level ${level}`,
+                    is_leaf: 1,
+                    path: '[]',
+                    hash: `h${level}`
+                }, await embed(`Level ${level} content`));
+            }
+
+            const emb = await embed('Level 1 content');
+            const ids = (filters: SearchFilters) => searchKnn(emb, 5, filters).map(r => r.node_id).sort();
+
+            expect(ids({ doc_id: ['doc-1', 'doc-3'] })).toEqual(['n1', 'n3']);
+            expect(ids({ level: [2, 4] })).toEqual(['n2', 'n4']);
+            expect(ids({ level: { lte: 3 } })).toEqual(['n1', 'n2', 'n3']);
+            expect(ids({ level: { gt: 1, lt: 4 } })).toEqual(['n2', 'n3']);
+            expect(ids({ doc_id: ['doc-1', 'doc-2'], level: { gte: 2 } })).toEqual(['n2']);
+        });
+
+        it('should find k hits for selective filters beyond the over-fetched neighbours', async () => {
+            const exactScanMaxRows = config.knn.exactScanMaxRows;
+            const emb = await embed('Common content');
+
+            for (let i = 0; i < 60; i++) {
+                upsertSection({
+                    node_id: `common-${i}`,
+                    doc_id: 'large',
+                    level: 2,
+                    title: 'Common',
+                    is_leaf: 1,
+                    path: '[]',
+                    hash: `c${i}`
+                }, emb);
+            }
+            for (let i = 0; i < 3; i++) {
+                upsertSection({
+                    node_id: `small-${i}`,
+                    doc_id: 'small',
+                    level: 2,
+                    title: 'Small',
+                    is_leaf: 1,
+                    path: '[]',
+                    hash: `s${i}`
+                }, await embed(`Unrelated ${i}`));
+            }
+
+            try {
+                // Exact scan of the matching sections
+                expect(searchKnn(emb, 3, { doc_id: 'small' })).toHaveLength(3);
+
+                // Vector index, widened until enough hits pass the filter
+                config.knn.exactScanMaxRows = 0;
+                expect(searchKnn(emb, 3, { doc_id: 'small' }).map(r => r.node_id).sort())
+                    .toEqual(['small-0', 'small-1', 'small-2']);
+                expect(searchKnn(emb, 5, { doc_id: 'large' })).toHaveLength(5);
+            } finally {
+                config.knn.exactScanMaxRows = exactScanMaxRows;
+            }
+        });
+    });
+
+    describe('filterNodeIds', () => {
+        it('should keep only nodes matching the metadata filters', async () => {
+            const emb = await embed('Test');
+
+            upsertSection({
+                node_id: 'a', doc_id: 'doc-a', level: 1, title: 'A', is_leaf: 1, path: '[]', hash: 'ha',
+                metadata: JSON.stringify({ status: 'published' })
+            }, emb);
+            upsertSection({
+                node_id: 'b', doc_id: 'doc-b', level: 1, title: 'B', is_leaf: 1, path: '[]', hash: 'hb',
+                metadata: JSON.stringify({ status: 'draft' })
+            }, emb);
+
+            const allowed = filterNodeIds(['a', 'b', 'missing'], {
+                metadata: [{ field: 'status', op: 'eq', value: 'published' }]
+            });
+
+            expect([...allowed]).toEqual(['a']);
+        });
     });
 
     describe('deleteSection', () => {